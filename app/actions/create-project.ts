@@ -12,7 +12,7 @@
 import { createClient } from '@/utils/supabase/server'
 import { redirect } from 'next/navigation'
 import { nanoid } from 'nanoid'
-import { ProjectService, AIService, createServiceContext } from '@/lib/services'
+import { ProjectService, AIService, createServiceContext, getProviderChain } from '@/lib/services'
 import { validateInput, createProjectSchema } from '@/lib/core/validation'
 import { emitProjectEvent } from '@/lib/events/event-bus'
 import { logUserAction } from '@/lib/events/audit-logger'
@@ -48,15 +48,17 @@ export async function createProjectAction(formData: FormData) {
     )
 
     const projectService = new ProjectService(serviceContext)
-    const aiService = new AIService(serviceContext)
 
     // 1. Create Project Entry
     const project = await projectService.create(validated)
 
+    // The blueprint is charged to the new project (a new project has no spend cap yet)
+    const aiService = new AIService(serviceContext, { projectId: project.id })
+
     // 2. Generate AI Strategy
     let blueprint
     try {
-        blueprint = await aiService.generateBlueprint(
+        ({ result: blueprint } = await aiService.generateBlueprint(
             {
                 name: validated.name,
                 description: validated.description,
@@ -64,8 +66,8 @@ export async function createProjectAction(formData: FormData) {
                 painPoints: validated.painPoints,
                 budget: validated.budget,
             },
-            validated.aiProvider
-        )
+            getProviderChain(validated)
+        ))
     } catch (e: any) {
         console.error("AI Error", e)
         // ROLLBACK: Delete the empty project we just created
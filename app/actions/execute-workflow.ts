@@ -5,7 +5,7 @@
  * 
  * Following the constitution:
  * - Uses service layer with proper boundaries
- * - Event-driven execution
+ * - Event-driven execution: steps are queued and run by a worker
  * - Human-in-the-loop for social posting
  * - Workflows are declarative, not hardcoded
  */
@@ -13,13 +13,22 @@
 import { createClient } from '@/utils/supabase/server'
 import { nanoid } from 'nanoid'
 import { revalidatePath } from 'next/cache'
-import { WorkflowService, TaskService, AIService, createServiceContext } from '@/lib/services'
-import { emitWorkflowEvent, emitTaskEvent } from '@/lib/events/event-bus'
+import { createAdminClient } from '@/utils/supabase/admin'
+import { WorkflowService, TaskService, RunService, CommunityService, createServiceContext } from '@/lib/services'
+import { emitWorkflowEvent } from '@/lib/events/event-bus'
 import { logUserAction } from '@/lib/events/audit-logger'
-import { WorkflowError, StepExecutionError } from '@/lib/core/errors'
-import type { AIProviderID } from '@/lib/core/types'
+import { BusinessRuleError, WorkflowError } from '@/lib/core/errors'
+import { claimReadySteps, syncRunStatus } from '@/lib/workflows/engine'
+import { settleForEachTask } from '@/lib/workflows/steps'
+import { simulatedPostOutput } from '@/lib/workflows/simulation'
+import { JobQueue, enqueueStepExecution, advanceRun, scheduleEmailSequence } from '@/lib/queue'
 
-export async function executeWorkflowAction(workflowId: string) {
+/**
+ * Queue every ready step of the workflow's current run (independent branches run in parallel).
+ * Starts a new run when the last one finished, or when `newRun` is set.
+ * With `simulate`, continues (or starts) a simulated run: fake AI, fixture data, nothing posted.
+ */
+export async function executeWorkflowAction(workflowId: string, options?: { newRun?: boolean; simulate?: boolean }) {
     const supabase = await createClient()
     const requestId = nanoid()
 
@@ -36,11 +45,14 @@ export async function executeWorkflowAction(workflowId: string) {
 
     const workflowService = new WorkflowService(serviceContext)
     const taskService = new TaskService(serviceContext)
-    const aiService = new AIService(serviceContext)
+    const runService = new RunService(serviceContext)
 
-    // 1. Get workflow execution state
-    const executionState = await workflowService.getExecutionState(workflowId)
-    const { workflow, nextStep, steps } = executionState
+    // 1. Claim the ready steps of the current run (creates and starts their tasks)
+    const claim = await claimReadySteps(
+        { workflowService, taskService, runService },
+        workflowId,
+        { trigger: 'manual', newRun: options?.newRun, simulate: options?.simulate }
+    )
 
     // Log execution attempt
     await logUserAction(
@@ -53,17 +65,20 @@ export async function executeWorkflowAction(workflowId: string) {
         'workflow',
         workflowId,
         {
-            progress: executionState.progress,
-            hasNextStep: !!nextStep,
+            status: claim.status,
+            runId: claim.run.id,
+            runNumber: claim.run.runNumber,
+            simulated: claim.run.simulated,
+            hasNextStep: claim.status !== 'completed',
         }
     )
 
     // 2. Check if workflow is complete
-    if (!nextStep) {
+    if (claim.status === 'completed') {
         await emitWorkflowEvent(
             'WORKFLOW_COMPLETED',
             workflowId,
-            { progress: 100 },
+            { progress: 100, runId: claim.run.id, runNumber: claim.run.runNumber },
             {
                 organizationId: user.id,
                 userId: user.id,
@@ -71,336 +86,62 @@ export async function executeWorkflowAction(workflowId: string) {
                 source: 'ui',
             }
         )
-        return { message: "Workflow is complete!" }
+        return { message: "Workflow is complete!", runId: claim.run.id }
     }
 
     // 3. Check if step can be executed
-    if (!nextStep.canExecute) {
+    if (claim.status === 'blocked') {
         throw new WorkflowError(
-            `Step blocked by dependencies: ${nextStep.blockedBy.join(', ')}`,
+            `Step blocked by dependencies: ${claim.blockedBy.join(', ')}`,
             workflowId,
-            { blockedBy: nextStep.blockedBy }
+            { blockedBy: claim.blockedBy }
         )
     }
 
-    const targetStep = nextStep.step
-    console.log(`[Workflow] Executing step: ${targetStep.type} (${targetStep.id})`)
-
-    // 4. Get or create task for this step
-    let task = await taskService.getByStepId(targetStep.id)
-    if (!task) {
-        task = await taskService.create({
-            stepId: targetStep.id,
-            projectId: workflow.projectId,
-        })
-    }
-
-    // Start task
-    task = await taskService.start(task.id)
-
-    // 5. Fetch project and pillar context
-    const { data: project } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('id', workflow.projectId)
-        .single()
-
-    if (!project) throw new WorkflowError('Project not found', workflowId)
-
-    const { data: pillar } = await supabase
-        .from('pillars')
-        .select('*')
-        .eq('id', workflow.pillarId)
-        .single()
-
-    const context = project.context || {}
-    const providerId = (context.aiProvider as AIProviderID) || 'gemini'
-
-    // 6. Get previous step output for chaining
-    let previousStepOutput: Record<string, unknown> | undefined
-    if (nextStep.completedDependencies.length > 0) {
-        const prevTask = await taskService.getByStepId(nextStep.completedDependencies[0])
-        previousStepOutput = prevTask?.outputData
-    } else {
-        // Find previous positional step
-        const prevStepIdx = steps.findIndex(s => s.id === targetStep.id) - 1
-        if (prevStepIdx >= 0) {
-            const prevTask = await taskService.getByStepId(steps[prevStepIdx].id)
-            previousStepOutput = prevTask?.outputData
+    if (claim.status === 'waiting') {
+        return {
+            queued: false,
+            runId: claim.run.id,
+            message: `Waiting for ${claim.active.map((s) => s.type).join(', ')} to finish`,
         }
     }
 
-    // 7. Execute step based on type
-    let resultData: Record<string, unknown>
-
-    try {
-        switch (targetStep.type) {
-            case 'GENERATE_DRAFT':
-            case 'GENERATE_OUTLINE': {
-                const content = await aiService.generateContent(
-                    {
-                        project: {
-                            name: project.name,
-                            description: context.description || '',
-                            audience: context.audience || 'General Audience',
-                            painPoints: context.painPoints || '',
-                            budget: context.budget || 0,
-                        },
-                        pillarName: pillar?.name || 'Unknown',
-                        workflowName: workflow.name,
-                        workflowDescription: workflow.description || '',
-                        stepConfig: targetStep.config,
-                        previousOutput: previousStepOutput,
-                    },
-                    providerId
-                )
-                resultData = content as unknown as Record<string, unknown>
-                break
-            }
-
-            case 'SCAN_FEED': {
-                // Queue for browser extension (human-in-the-loop)
-                // Pass pain points as keywords for smart search fallback
-                await taskService.queueForExtension(task.id, {
-                    keywords: context.painPoints || 'trading tips'
-                })
-
-                await emitTaskEvent(
-                    'EXTENSION_TASK_QUEUED',
-                    task.id,
-                    { stepType: 'SCAN_FEED', keywords: context.painPoints },
-                    {
-                        organizationId: user.id,
-                        userId: user.id,
-                        correlationId: requestId,
-                        source: 'ui',
-                    }
-                )
-
-                revalidatePath(`/dashboard/project/${project.id}`)
-                return {
-                    pending_extension: true,
-                    message: 'Task queued for browser extension'
-                }
-            }
-
-            case 'SELECT_TARGETS': {
-                const foundItems = (previousStepOutput as any)?.found_items || []
-
-                // If mock, skip AI
-                if ((previousStepOutput as any)?.is_mock) {
-                    resultData = {
-                        is_mock: true,
-                        selected_items: foundItems,
-                        rationale: 'Selected all (MOCK_MODE)',
-                    }
-                    break
-                }
-
-                // AI Filtering
-                const selectedItems = await aiService.filterTargets(
-                    {
-                        project: {
-                            name: project.name,
-                            description: context.description || '',
-                            audience: context.audience || '',
-                            painPoints: context.painPoints || '',
-                            budget: context.budget || 0,
-                        },
-                        pillarName: pillar?.name || 'Unknown',
-                        workflowName: workflow.name,
-                        workflowDescription: workflow.description || '',
-                        stepConfig: targetStep.config,
-                    },
-                    foundItems,
-                    providerId
-                )
-
-                resultData = {
-                    selected_items: selectedItems,
-                    title: `Selected ${selectedItems.length} High-Value Targets`,
-                    rationale: `Filtered from ${foundItems.length} raw candidates.`,
-                }
-                break
-            }
-
-            case 'GENERATE_REPLIES': {
-                const targets = (previousStepOutput as any)?.selected_items || []
-
-                if (targets.length === 0) {
-                    throw new StepExecutionError(
-                        'No targets to reply to',
-                        targetStep.id,
-                        targetStep.type
-                    )
-                }
-
-                // Check if mock data - skip AI call
-                if ((previousStepOutput as any)?.is_mock) {
-                    console.log('[Workflow] Skipping AI call for mock data')
-                    resultData = {
-                        is_mock: true,
-                        replies: targets.map((t: any) => ({
-                            target_id: t.id,
-                            reply: `(Simulated Reply) Hey ${t.author}, have you tried using a journal? It helps!`
-                        })),
-                        title: `Drafted ${targets.length} Replies (SIMULATED)`
-                    }
-                    break
-                }
-
-                // Real AI execution
-                const replies = await aiService.generateReplies(
-                    {
-                        project: {
-                            name: project.name,
-                            description: context.description || '',
-                            audience: context.audience || '',
-                            painPoints: context.painPoints || '',
-                            budget: context.budget || 0,
-                        },
-                        pillarName: pillar?.name || 'Unknown',
-                        workflowName: workflow.name,
-                        workflowDescription: workflow.description || '',
-                        stepConfig: targetStep.config,
-                    },
-                    targets,
-                    providerId
-                )
-
-                resultData = {
-                    replies,
-                    title: `Drafted ${replies.length} Replies`,
-                }
-                break
-            }
-
-            case 'REVIEW_CONTENT':
-            case 'WAIT_APPROVAL': {
-                // Human-in-the-loop: mark for review
-                await taskService.markForReview(task.id, previousStepOutput || {})
-
-                revalidatePath(`/dashboard/project/${project.id}`)
-                return {
-                    awaiting_approval: true,
-                    message: 'Content ready for review',
-                }
-            }
-
-            case 'POST_API':
-            case 'POST_REPLY':
-            case 'POST_EXTENSION': {
-                // Human-in-the-loop: require approval before posting
-                await taskService.markForReview(task.id, {
-                    ...previousStepOutput,
-                    pending_action: targetStep.type,
-                    message: 'Ready to post - awaiting approval',
-                })
-
-                revalidatePath(`/dashboard/project/${project.id}`)
-                return {
-                    awaiting_approval: true,
-                    message: 'Ready to post - awaiting approval',
-                }
-            }
-
-            case 'TRACK_ENGAGEMENT': {
-                // Create engagement tracking records for posted content
-                const postedContent = previousStepOutput?.replies || previousStepOutput?.posted || []
-
-                // If we have posted content, create tracking records
-                if (Array.isArray(postedContent) && postedContent.length > 0) {
-                    const trackingRecords = postedContent.map((item: any) => ({
-                        id: `eng_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-                        project_id: project.id,
-                        task_id: task.id,
-                        platform: 'twitter',
-                        post_type: item.type || 'reply',
-                        post_url: item.url || null,
-                        original_target_author: item.targetAuthor || item.author || null,
-                        original_post_text: item.targetText || item.text || null,
-                        our_reply_text: item.reply || item.content || null,
-                        status: item.url ? 'posted' : 'pending',
-                        posted_at: item.postedAt || new Date().toISOString(),
-                    }))
-
-                    const { error } = await supabase
-                        .from('engagement_metrics')
-                        .insert(trackingRecords)
-
-                    if (error) {
-                        console.error('[Engagement] Failed to create tracking records:', error)
-                    }
-                }
-
-                const trackingCount = Array.isArray(postedContent) ? postedContent.length : 0
-                resultData = {
-                    title: 'Engagement Tracking Started',
-                    message: `Tracking ${trackingCount} posted items`,
-                    tracking_count: trackingCount,
-                    instruction: 'Check back later to see engagement stats. You can also manually update metrics.',
-                }
-                break
-            }
-
-            default:
-                throw new StepExecutionError(
-                    `Step type ${targetStep.type} not implemented yet`,
-                    targetStep.id,
-                    targetStep.type
-                )
-        }
-
-        // 8. Mark task for review (human-in-the-loop principle)
-        await taskService.markForReview(task.id, resultData)
-
-        // 9. Emit step completed event
-        await emitTaskEvent(
-            'TASK_COMPLETED',
-            task.id,
-            {
-                stepType: targetStep.type,
-                hasOutput: !!resultData,
-            },
-            {
-                organizationId: user.id,
+    const { workflow, claimed } = claim
+    const queue = new JobQueue(createAdminClient())
+    const queued: Array<{ stepId: string; stepType: string; taskId: string; jobId: string }> = []
+
+    // 4. Hand each step to a worker - tasks stay in_progress until they run
+    for (const { step, task } of claimed) {
+        console.log(`[Workflow] Queueing step: ${step.type} (${step.id})`)
+        try {
+            const job = await enqueueStepExecution(queue, {
+                workflow,
+                step,
+                task,
+                mode: 'execute',
                 userId: user.id,
-                correlationId: requestId,
-                source: 'ui',
-            }
-        )
-
-        revalidatePath(`/dashboard/project/${project.id}`)
-        return resultData
-
-    } catch (e: any) {
-        console.error('[Workflow] Execution failed:', e)
-
-        // Mark task as failed
-        await taskService.fail(task.id, e.message)
-
-        // Emit failure event
-        await emitTaskEvent(
-            'TASK_FAILED',
-            task.id,
-            {
-                stepType: targetStep.type,
-                error: e.message,
-            },
-            {
                 organizationId: user.id,
-                userId: user.id,
-                correlationId: requestId,
+                requestId,
                 source: 'ui',
-            }
-        )
+            })
+            queued.push({ stepId: step.id, stepType: step.type, taskId: task.id, jobId: job.id })
+        } catch (e: any) {
+            await taskService.fail(task.id, e.message)
+            throw new Error(`Execution Failed: ${e.message}`)
+        }
+    }
 
-        throw new Error(`Execution Failed: ${e.message}`)
+    revalidatePath(`/dashboard/project/${workflow.projectId}`)
+    return {
+        queued: true,
+        jobs: queued,
+        runId: claim.run.id,
+        message: `${queued.map((q) => `"${q.stepType}"`).join(', ')} queued (${claim.run.simulated ? 'simulated ' : ''}run #${claim.run.runNumber})`,
     }
 }
 
 /**
- * Approve a task (human-in-the-loop)
+ * Approve a task (human-in-the-loop). An auto-advancing run moves on from it.
  */
 export async function approveTaskAction(taskId: string) {
     const supabase = await createClient()
@@ -426,15 +167,46 @@ export async function approveTaskAction(taskId: string) {
         .eq('id', task.stepId)
         .single()
 
-    if (step && (step.type === 'POST_EXTENSION' || step.type === 'POST_REPLY')) {
+    const runService = new RunService(serviceContext)
+    const simulated = task.runId ? (await runService.getById(task.runId)).simulated : false
+
+    if (step && !simulated && (step.type === 'POST_EXTENSION' || step.type === 'POST_REPLY')) {
         // Queue for extension instead of completing
         await taskService.queueForExtension(taskId, {
             ...task.outputData,
             approvedAt: new Date().toISOString()
         })
     } else {
-        // Standard approval
-        await taskService.approve(taskId)
+        const origin = { userId: user.id, organizationId: user.id, requestId, source: 'ui' as const }
+        const queue = new JobQueue(createAdminClient())
+
+        // Standard approval; a simulated post (or community spotlight) is recorded as if it went out
+        const posts = !!step && (step.type.startsWith('POST_') || step.type === 'COMMUNITY_SYNC')
+        let approvedOutput = simulated && posts ? simulatedPostOutput(step.type, task.outputData) : undefined
+
+        // An approved community spotlight is posted through the user's Discord webhook
+        if (step?.type === 'COMMUNITY_SYNC' && !simulated) {
+            if (task.status !== 'review_needed' && task.status !== 'awaiting_approval') {
+                throw new BusinessRuleError('Task is not awaiting approval', 'INVALID_APPROVAL_STATE')
+            }
+            const announcement = await new CommunityService(serviceContext).postAnnouncement(taskId, String(task.outputData.content ?? ''))
+            approvedOutput = { ...task.outputData, announcement }
+        }
+
+        // An approved email sequence is scheduled, one send per email (simulated sends in a simulated run)
+        if (step?.type === 'EMAIL_SEQ') {
+            const schedule = await scheduleEmailSequence(queue, taskService, task, origin, { simulated })
+            approvedOutput = { ...task.outputData, schedule, ...(simulated && { simulated: true }) }
+        }
+
+        await taskService.approve(taskId, approvedOutput)
+
+        // Approving the last step finishes the run (and any RUN_WORKFLOW step waiting on it)
+        if (task.runId) {
+            const services = { workflowService: new WorkflowService(serviceContext), taskService, runService }
+            await syncRunStatus(services, task.runId)
+            await advanceRun(queue, services, task.runId, origin)
+        }
     }
 
     await logUserAction(
@@ -463,6 +235,58 @@ export async function approveTaskAction(taskId: string) {
     return { success: true }
 }
 
+/**
+ * Pick one of a GENERATE_HOOKS step's hooks (human-in-the-loop).
+ * Approves the step; the following draft opens with the picked hook.
+ */
+export async function selectHookAction(taskId: string, hookIndex: number) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Unauthorized')
+
+    // 2. Setup services
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+    const taskService = new TaskService(serviceContext)
+
+    // 3. Record the pick
+    const task = await taskService.selectHook(taskId, hookIndex)
+
+    // 4. Continue the run
+    if (task.runId) {
+        const services = { workflowService: new WorkflowService(serviceContext), taskService, runService: new RunService(serviceContext) }
+        await syncRunStatus(services, task.runId)
+        await advanceRun(new JobQueue(createAdminClient()), services, task.runId, {
+            userId: user.id,
+            organizationId: user.id,
+            requestId,
+            source: 'ui',
+        })
+    }
+
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        'HOOK_SELECTED',
+        'task',
+        taskId,
+        { hookIndex }
+    )
+
+    revalidatePath(`/dashboard/project/${task.projectId}`)
+    return { success: true, selectedHook: task.outputData.selected_hook as string }
+}
+
 /**
  * Reject a task (human-in-the-loop)
  */
@@ -510,7 +334,63 @@ export async function rejectTaskAction(taskId: string, reason: string) {
 }
 
 /**
- * Rerun a specific task (resets it and executes ONLY that step)
+ * Approve or reject one item of a FOR_EACH task (human-in-the-loop).
+ * The task completes once every item has been decided.
+ */
+export async function decideTaskItemAction(itemId: string, decision: 'approve' | 'reject', reason?: string) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+
+    const taskService = new TaskService(serviceContext)
+    const item = decision === 'approve'
+        ? await taskService.approveItem(itemId)
+        : await taskService.rejectItem(itemId, reason || 'Rejected by user')
+
+    // Deciding the last open item completes the task, which may finish (or advance) the run
+    const task = await settleForEachTask(taskService, item.taskId)
+    if (task?.runId) {
+        const services = {
+            workflowService: new WorkflowService(serviceContext),
+            taskService,
+            runService: new RunService(serviceContext),
+        }
+        await syncRunStatus(services, task.runId)
+        await advanceRun(new JobQueue(createAdminClient()), services, task.runId, {
+            userId: user.id,
+            organizationId: user.id,
+            requestId,
+            source: 'ui',
+        })
+    }
+
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        decision === 'approve' ? 'APPROVE_TASK_ITEM' : 'REJECT_TASK_ITEM',
+        'task',
+        item.taskId,
+        { itemId, itemIndex: item.itemIndex, reason }
+    )
+
+    revalidatePath(`/dashboard/project/${item.projectId}`)
+    return { success: true, taskCompleted: !!task }
+}
+
+/**
+ * Rerun a specific task (resets it and queues ONLY that step)
  * This does NOT trigger subsequent steps - use executeWorkflowAction for full workflow
  */
 export async function rerunStepAction(taskId: string, workflowId: string) {
@@ -528,7 +408,6 @@ export async function rerunStepAction(taskId: string, workflowId: string) {
     )
 
     const taskService = new TaskService(serviceContext)
-    const aiService = new AIService(serviceContext)
     const workflowService = new WorkflowService(serviceContext)
 
     // 1. Reset the task to pending
@@ -538,179 +417,39 @@ export async function rerunStepAction(taskId: string, workflowId: string) {
     const task = await taskService.getById(taskId)
     if (!task) throw new Error('Task not found')
 
-    // 3. Get the step details
-    const { data: step } = await supabase
-        .from('steps')
-        .select('*')
-        .eq('id', task.stepId)
-        .single()
+    // 3. Get the workflow and the step being rerun, within the task's run
+    const { workflow, steps } = await workflowService.getExecutionState(workflowId, task.runId)
 
+    const step = steps.find(s => s.id === task.stepId)
     if (!step) throw new Error('Step not found')
 
-    // 4. Get the workflow and project context
-    const executionState = await workflowService.getExecutionState(workflowId)
-    const { workflow, steps } = executionState
-
-    const { data: project } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('id', workflow.projectId)
-        .single()
-
-    if (!project) throw new Error('Project not found')
-
-    const { data: pillar } = await supabase
-        .from('pillars')
-        .select('*')
-        .eq('id', workflow.pillarId)
-        .single()
-
-    const context = project.context || {}
-    const providerId = (context.aiProvider as AIProviderID) || 'gemini'
-
-    // 5. Get previous step output for chaining
-    let previousStepOutput: Record<string, unknown> | undefined
-    const stepIdx = steps.findIndex(s => s.id === step.id)
-    if (stepIdx > 0) {
-        const prevTask = await taskService.getByStepId(steps[stepIdx - 1].id)
-        previousStepOutput = prevTask?.outputData
+    // 4. Reopen the run if it had finished
+    if (task.runId) {
+        await new RunService(serviceContext).resume(task.runId)
     }
 
-    // 6. Start the task
-    await taskService.start(task.id)
-
-    // 7. Execute ONLY this specific step
-    let resultData: Record<string, unknown>
+    // 5. Start the task and queue ONLY this step (NOT triggering subsequent steps)
+    const started = await taskService.start(task.id)
 
+    let job
     try {
-        switch (step.type) {
-            case 'GENERATE_DRAFT':
-            case 'GENERATE_OUTLINE': {
-                const content = await aiService.generateContent(
-                    {
-                        project: {
-                            name: project.name,
-                            description: context.description || '',
-                            audience: context.audience || 'General Audience',
-                            painPoints: context.painPoints || '',
-                            budget: context.budget || 0,
-                        },
-                        pillarName: pillar?.name || 'Unknown',
-                        workflowName: workflow.name,
-                        workflowDescription: workflow.description || '',
-                        stepConfig: step.config,
-                        previousOutput: previousStepOutput,
-                    },
-                    providerId
-                )
-                resultData = content as unknown as Record<string, unknown>
-                break
-            }
-
-            case 'SCAN_FEED': {
-                console.log('[RERUN] SCAN_FEED - Queuing task for extension:', task.id)
-                await taskService.queueForExtension(task.id, {
-                    keywords: context.painPoints || 'trading tips'
-                })
-                console.log('[RERUN] SCAN_FEED - Task queued successfully')
-                revalidatePath(`/dashboard/project/${project.id}`)
-                return { success: true, message: 'Step queued for browser extension' }
-            }
-
-            case 'SELECT_TARGETS': {
-                const foundItems = (previousStepOutput as any)?.found_items || []
-
-                if ((previousStepOutput as any)?.is_mock) {
-                    resultData = {
-                        is_mock: true,
-                        selected_items: foundItems,
-                        rationale: 'Selected all (MOCK_MODE)',
-                    }
-                    break
-                }
-
-                const selectedItems = await aiService.filterTargets(
-                    {
-                        project: {
-                            name: project.name,
-                            description: context.description || '',
-                            audience: context.audience || '',
-                            painPoints: context.painPoints || '',
-                            budget: context.budget || 0,
-                        },
-                        pillarName: pillar?.name || 'Unknown',
-                        workflowName: workflow.name,
-                        workflowDescription: workflow.description || '',
-                        stepConfig: step.config,
-                    },
-                    foundItems,
-                    providerId
-                )
-
-                resultData = {
-                    selected_items: selectedItems,
-                    title: `Selected ${selectedItems.length} High-Value Targets`,
-                    rationale: `Filtered from ${foundItems.length} raw candidates.`,
-                }
-                break
-            }
-
-            case 'GENERATE_REPLIES': {
-                const selectedItems = (previousStepOutput as any)?.selected_items || []
-                const replies = await aiService.generateReplies(
-                    {
-                        project: {
-                            name: project.name,
-                            description: context.description || '',
-                            audience: context.audience || '',
-                            painPoints: context.painPoints || '',
-                            budget: context.budget || 0,
-                        },
-                        pillarName: pillar?.name || 'Unknown',
-                        workflowName: workflow.name,
-                        workflowDescription: workflow.description || '',
-                        stepConfig: step.config,
-                    },
-                    selectedItems,
-                    providerId
-                )
-                resultData = { replies, title: `Generated ${replies.length} Replies` }
-                break
-            }
-
-            case 'REVIEW_CONTENT':
-            case 'WAIT_APPROVAL':
-            case 'POST_API':
-            case 'POST_REPLY':
-            case 'POST_EXTENSION':
-            case 'TRACK_ENGAGEMENT': {
-                // For manual/review steps, just mark them for review again
-                await taskService.markForReview(task.id, previousStepOutput || {})
-                revalidatePath(`/dashboard/project/${project.id}`)
-                return {
-                    awaiting_approval: true,
-                    message: 'Reset for review',
-                }
-            }
-
-            default:
-                throw new StepExecutionError(
-                    `Unknown step type: ${step.type}`,
-                    step.id,
-                    step.type
-                )
-        }
-
-        // 8. Complete the task with result (NOT triggering subsequent steps)
-        await taskService.complete(task.id, resultData)
-
-        revalidatePath(`/dashboard/project/${project.id}`)
-        return { success: true, message: `Step "${step.name}" re-executed successfully` }
-
+        job = await enqueueStepExecution(new JobQueue(createAdminClient()), {
+            workflow,
+            step,
+            task: started,
+            mode: 'rerun',
+            userId: user.id,
+            organizationId: user.id,
+            requestId,
+            source: 'ui',
+        })
     } catch (error: any) {
         await taskService.fail(task.id, error.message)
         throw error
     }
+
+    revalidatePath(`/dashboard/project/${workflow.projectId}`)
+    return { success: true, queued: true, jobId: job.id, message: `Step "${step.type}" queued for rerun` }
 }
 
 /**
@@ -17,7 +17,15 @@ import { logUserAction } from '@/lib/events/audit-logger'
 import { AuthenticationError } from '@/lib/core/errors'
 import type { StepType } from '@/lib/core/types'
 
-export async function addStepAction(workflowId: string, type: string, position: number) {
+/**
+ * Add a step. Without explicit dependencies it runs after the step before it.
+ */
+export async function addStepAction(
+    workflowId: string,
+    type: string,
+    position: number,
+    options?: { dependencyIds?: string[], config?: Record<string, unknown> }
+) {
     const supabase = await createClient()
     const requestId = nanoid()
 
@@ -37,12 +45,16 @@ export async function addStepAction(workflowId: string, type: string, position:
 
     const workflowService = new WorkflowService(serviceContext)
 
-    // Add step using service
+    const workflow = await workflowService.getById(validatedWorkflowId)
+    const previousStep = [...workflow.steps].reverse().find((s) => s.position < position)
+
+    // Add step using service (rejects unknown dependencies)
     const step = await workflowService.addStep({
         workflowId: validatedWorkflowId,
         type: validatedType,
         position,
-        config: {},
+        config: options?.config || {},
+        dependencyIds: options?.dependencyIds ?? (previousStep ? [previousStep.id] : []),
     })
 
     // Audit log
@@ -55,11 +67,10 @@ export async function addStepAction(workflowId: string, type: string, position:
         'ADD_STEP',
         'step',
         step.id,
-        { workflowId, type, position }
+        { workflowId, type, position, dependencyIds: step.dependencyIds }
     )
 
     // Revalidate the project page
-    const workflow = await workflowService.getById(workflowId)
     revalidatePath(`/dashboard/project/${workflow.projectId}`)
 }
 
@@ -160,9 +171,14 @@ export async function reorderStepsAction(steps: { id: string, position: number }
     revalidatePath(`/dashboard/project/${(firstStep.workflow as any).project_id}`)
 }
 
+/**
+ * Update a step's config and, optionally, its dependencies.
+ * Dependencies that would create a cycle or point outside the workflow are rejected.
+ */
 export async function updateStepConfigAction(
     stepId: string, 
-    config: Record<string, unknown>
+    config: Record<string, unknown>,
+    options?: { dependencyIds?: string[] }
 ) {
     const supabase = await createClient()
     const requestId = nanoid()
@@ -187,15 +203,18 @@ export async function updateStepConfigAction(
         throw new AuthenticationError('Access denied')
     }
 
-    // Update config
-    const { error } = await supabase
-        .from('steps')
-        .update({ config })
-        .eq('id', validatedStepId)
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
 
-    if (error) {
-        throw new Error(`Failed to update step config: ${error.message}`)
-    }
+    // Update config (and dependencies) using service
+    await new WorkflowService(serviceContext).updateStep(validatedStepId, {
+        config,
+        dependencyIds: options?.dependencyIds,
+    })
 
     // Audit log
     await logUserAction(
@@ -207,7 +226,7 @@ export async function updateStepConfigAction(
         'UPDATE_STEP_CONFIG',
         'step',
         stepId,
-        { configKeys: Object.keys(config) }
+        { configKeys: Object.keys(config), dependencyIds: options?.dependencyIds }
     )
 
     revalidatePath(`/dashboard/project/${(step.workflow as any).project_id}`)
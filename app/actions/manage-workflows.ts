@@ -13,11 +13,12 @@
 import { createClient } from '@/utils/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { nanoid } from 'nanoid'
-import { WorkflowService, createServiceContext } from '@/lib/services'
-import { validateInput, uuidSchema, sanitizedStringSchema } from '@/lib/core/validation'
+import { TemplateService, WorkflowService, createServiceContext } from '@/lib/services'
+import { validateInput, uuidSchema, sanitizedStringSchema, importWorkflowSchema, workflowDocumentFormatSchema, type WorkflowDocument } from '@/lib/core/validation'
 import { logUserAction } from '@/lib/events/audit-logger'
 import { AuthenticationError, ValidationError } from '@/lib/core/errors'
-import { getTemplateById, type WorkflowTemplate } from '@/lib/workflows/templates'
+import { documentFromTemplate, getTemplateById } from '@/lib/workflows/templates'
+import { parseWorkflowDocument, serializeWorkflowDocument, type WorkflowDocumentFormat } from '@/lib/workflows/document'
 import { z } from 'zod'
 
 // ==========================================
@@ -69,15 +70,7 @@ export async function createWorkflowFromTemplateAction(
         name,
     })
 
-    // 3. Get template (validate it exists)
-    const template = getTemplateById(validated.templateId)
-    if (!template) {
-        throw new ValidationError('Invalid template', [
-            { field: 'templateId', message: 'Template not found' }
-        ])
-    }
-
-    // 4. Verify project ownership (RLS should handle this, but explicit check)
+    // 3. Verify project ownership (RLS should handle this, but explicit check)
     const { data: project, error: projectError } = await supabase
         .from('projects')
         .select('id, user_id')
@@ -94,7 +87,7 @@ export async function createWorkflowFromTemplateAction(
         throw new AuthenticationError('Access denied to this project')
     }
 
-    // 5. Create service context
+    // 4. Create service context
     const serviceContext = createServiceContext(
         supabase,
         user,
@@ -103,31 +96,34 @@ export async function createWorkflowFromTemplateAction(
     )
     const workflowService = new WorkflowService(serviceContext)
 
-    // 6. Create workflow
-    const workflow = await workflowService.create({
+    // 5. Get the template: an organization template (by UUID, its latest version) or a built-in one
+    let document: WorkflowDocument
+    let template: { id: string; name: string; version?: number }
+    if (uuidSchema.safeParse(validated.templateId).success) {
+        const saved = await new TemplateService(serviceContext).getVersion(validated.templateId)
+        document = saved.document
+        template = { id: saved.template.id, name: saved.template.name, version: saved.version.version }
+    } else {
+        const builtIn = getTemplateById(validated.templateId)
+        if (!builtIn) {
+            throw new ValidationError('Invalid template', [
+                { field: 'templateId', message: 'Template not found' }
+            ])
+        }
+        document = documentFromTemplate(builtIn)
+        template = { id: builtIn.id, name: builtIn.name }
+    }
+
+    // 6. Create the workflow and its steps (templates load like an imported document)
+    const workflow = await workflowService.importDocument({
         projectId: validated.projectId,
         pillarId: validated.pillarId,
+        document,
         name: validated.name,
-        description: template.description,
-        phase: 'launch',
-        config: {
-            templateId: template.id,
-            templateName: template.name,
-        },
+        template,
     })
 
-    // 7. Create steps from template (in order)
-    for (let i = 0; i < template.steps.length; i++) {
-        const stepDef = template.steps[i]
-        await workflowService.addStep({
-            workflowId: workflow.id,
-            type: stepDef.type,
-            position: i + 1,
-            config: stepDef.config || {},
-        })
-    }
-
-    // 8. Audit log
+    // 7. Audit log
     await logUserAction(
         {
             organizationId: user.id,
@@ -140,11 +136,12 @@ export async function createWorkflowFromTemplateAction(
         {
             templateId: template.id,
             templateName: template.name,
-            stepCount: template.steps.length,
+            templateVersion: template.version,
+            stepCount: workflow.steps.length,
         }
     )
 
-    // 9. Revalidate
+    // 8. Revalidate
     revalidatePath(`/dashboard/project/${validated.projectId}`)
 
     return { success: true, workflowId: workflow.id }
@@ -355,3 +352,148 @@ export async function renameWorkflowAction(workflowId: string, newName: string)
 
     return { success: true }
 }
+
+// ==========================================
+// AUTO-ADVANCE
+// ==========================================
+
+/**
+ * Turn auto-advance on or off: each next step runs as soon as the last one finishes,
+ * stopping only at review, approval and posting steps, extension steps and failures
+ */
+export async function setWorkflowAutoAdvanceAction(workflowId: string, enabled: boolean) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    // 2. Validate inputs
+    const validatedId = validateInput(uuidSchema, workflowId)
+    const validatedEnabled = validateInput(z.boolean(), enabled)
+
+    // 3. Update (the service checks access)
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+    const workflow = await new WorkflowService(serviceContext).update(validatedId, {
+        config: { autoAdvance: validatedEnabled },
+    })
+
+    // 4. Audit log
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        'SET_WORKFLOW_AUTO_ADVANCE',
+        'workflow',
+        validatedId,
+        { autoAdvance: validatedEnabled }
+    )
+
+    // 5. Revalidate
+    revalidatePath(`/dashboard/project/${workflow.projectId}`)
+
+    return { success: true, autoAdvance: validatedEnabled }
+}
+
+// ==========================================
+// EXPORT WORKFLOW
+// ==========================================
+
+export async function exportWorkflowAction(workflowId: string, format: WorkflowDocumentFormat = 'yaml') {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    // 2. Validate inputs
+    const validatedId = validateInput(uuidSchema, workflowId)
+    const validatedFormat = validateInput(workflowDocumentFormatSchema, format)
+
+    // 3. Export (the service checks access)
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+    const document = await new WorkflowService(serviceContext).exportDocument(validatedId)
+
+    const slug = document.workflow.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'workflow'
+    return {
+        success: true,
+        filename: `${slug}.workflow.${validatedFormat}`,
+        content: serializeWorkflowDocument(document, validatedFormat),
+    }
+}
+
+// ==========================================
+// IMPORT WORKFLOW
+// ==========================================
+
+export async function importWorkflowAction(
+    projectId: string,
+    pillarId: string,
+    source: string,
+    name?: string
+) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    // 2. Validate inputs and the document
+    const validated = validateInput(importWorkflowSchema, {
+        projectId,
+        pillarId,
+        name: name || undefined,
+        document: source,
+    })
+    const document = parseWorkflowDocument(validated.document)
+
+    // 3. Create workflow and steps (the service checks project access and the step graph)
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+    const workflow = await new WorkflowService(serviceContext).importDocument({
+        projectId: validated.projectId,
+        pillarId: validated.pillarId,
+        document,
+        name: validated.name,
+    })
+
+    // 4. Audit log
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        'IMPORT_WORKFLOW',
+        'workflow',
+        workflow.id,
+        {
+            version: document.version,
+            stepCount: workflow.steps.length,
+        }
+    )
+
+    // 5. Revalidate
+    revalidatePath(`/dashboard/project/${validated.projectId}`)
+
+    return { success: true, workflowId: workflow.id }
+}
@@ -0,0 +1,53 @@
+'use server'
+
+/**
+ * Model Endpoint Server Actions
+ *
+ * Following the constitution:
+ * - Encrypted secrets vault: the endpoint's API key goes in, never comes back out
+ * - Uses service layer with proper boundaries
+ */
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { nanoid } from 'nanoid'
+import { ModelEndpointService, createServiceContext } from '@/lib/services'
+import type { SaveModelEndpointInput } from '@/lib/core/validation'
+import type { ModelEndpoint } from '@/lib/core/types'
+import { AuthenticationError } from '@/lib/core/errors'
+
+async function getModelEndpointService() {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    return new ModelEndpointService(serviceContext)
+}
+
+/**
+ * The organization's self-hosted model endpoint, or null
+ */
+export async function getModelEndpointAction(): Promise<ModelEndpoint | null> {
+    return (await getModelEndpointService()).get()
+}
+
+export async function saveModelEndpointAction(input: SaveModelEndpointInput): Promise<ModelEndpoint> {
+    const endpoint = await (await getModelEndpointService()).save(input)
+
+    revalidatePath('/dashboard/settings/secrets')
+    return endpoint
+}
+
+export async function removeModelEndpointAction() {
+    await (await getModelEndpointService()).remove()
+
+    revalidatePath('/dashboard/settings/secrets')
+}
@@ -12,13 +12,12 @@
 import { createClient } from '@/utils/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { nanoid } from 'nanoid'
-import { ProjectService, AIService, createServiceContext } from '@/lib/services'
+import { ProjectService, AIService, createServiceContext, getProviderChain } from '@/lib/services'
 import { validateInput, uuidSchema } from '@/lib/core/validation'
 import { emitProjectEvent } from '@/lib/events/event-bus'
 import { logUserAction } from '@/lib/events/audit-logger'
 import { createDefaultWorkflowSteps } from '@/utils/workflow-utils'
 import { AuthenticationError } from '@/lib/core/errors'
-import type { AIProviderID } from '@/lib/core/types'
 
 export async function regenerateStrategyAction(projectId: string) {
     const supabase = await createClient()
@@ -38,17 +37,18 @@ export async function regenerateStrategyAction(projectId: string) {
     )
 
     const projectService = new ProjectService(serviceContext)
-    const aiService = new AIService(serviceContext)
 
     // 1. Fetch Project & Context
     const project = await projectService.getById(validatedId)
     const context = project.context || {}
-    const providerId = (context.aiProvider as AIProviderID) || 'gemini'
 
-    // 2. Generate New Blueprint
-    let blueprint
+    // Charged to the project, and held to its spend cap
+    const aiService = new AIService(serviceContext, { projectId: project.id, spendCapUsd: context.aiSpendCapUsd })
+
+    // 2. Generate New Blueprint (the project's provider, then its fallbacks)
+    let blueprint, providerId
     try {
-        blueprint = await aiService.generateBlueprint(
+        ({ result: blueprint, provider: providerId } = await aiService.generateBlueprint(
             {
                 name: project.name,
                 description: context.description || '',
@@ -56,8 +56,8 @@ export async function regenerateStrategyAction(projectId: string) {
                 painPoints: context.painPoints || '',
                 budget: context.budget || 0,
             },
-            providerId
-        )
+            getProviderChain(context)
+        ))
     } catch (e: any) {
         console.error("Regeneration Error", e)
         throw new Error(`AI Generation Failed: ${e.message}`)
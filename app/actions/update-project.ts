@@ -35,6 +35,15 @@ export async function updateProjectContextAction(projectId: string, formData: Fo
         painPoints: formData.get('painPoints') as string,
         budget: parseInt(formData.get('budget') as string) || 0,
         aiProvider: formData.get('aiProvider') as string,
+        // The fallback selects, in order; unset ones are empty and none set clears the chain
+        aiFallbackProviders: (formData.getAll('aiFallbackProviders') as string[]).filter(Boolean),
+        // Comma-separated hex colours; an empty field clears them
+        brandColors: ((formData.get('brandColors') as string) || '')
+            .split(',')
+            .map((color) => color.trim())
+            .filter(Boolean),
+        // An empty field removes the cap
+        aiSpendCapUsd: formData.get('aiSpendCapUsd') ? Number(formData.get('aiSpendCapUsd')) : null,
     }
 
     // Validate input
@@ -66,6 +75,9 @@ export async function updateProjectContextAction(projectId: string, formData: Fo
     if (validated.budget !== undefined && validated.budget !== existing.context.budget) {
         changes.budget = { old: existing.context.budget, new: validated.budget }
     }
+    if (validated.aiSpendCapUsd !== undefined && validated.aiSpendCapUsd !== (existing.context.aiSpendCapUsd ?? null)) {
+        changes.aiSpendCapUsd = { old: existing.context.aiSpendCapUsd ?? null, new: validated.aiSpendCapUsd }
+    }
 
     // Audit log if there were changes
     if (Object.keys(changes).length > 0) {
@@ -0,0 +1,52 @@
+'use server'
+
+/**
+ * AI Usage Server Actions
+ * 
+ * Following the constitution:
+ * - Uses service layer with proper boundaries
+ * - Reads the usage ledger; spend caps are set in the project's context
+ */
+
+import { createClient } from '@/utils/supabase/server'
+import { nanoid } from 'nanoid'
+import { ProjectService, UsageService, createServiceContext } from '@/lib/services'
+import { AuthenticationError } from '@/lib/core/errors'
+import type { UsageQuery } from '@/lib/core/validation'
+
+/**
+ * The usage summary for the dashboard, with each project's name, spend cap and
+ * spend this month (what the cap is checked against)
+ */
+export async function getUsageDashboardAction(query: UsageQuery = {}) {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    const usageService = new UsageService(serviceContext)
+    const [summary, { projects }] = await Promise.all([
+        usageService.summarize(query),
+        new ProjectService(serviceContext).list(),
+    ])
+
+    const capped = projects.filter((p) => typeof p.context?.aiSpendCapUsd === 'number')
+    const monthToDate = await Promise.all(capped.map((p) => usageService.getMonthToDateSpend(p.id)))
+
+    return {
+        summary,
+        projects: projects.map((p) => ({
+            id: p.id,
+            name: p.name,
+            spendCapUsd: p.context?.aiSpendCapUsd ?? null,
+            monthToDateUsd: monthToDate[capped.indexOf(p)] ?? null,
+        })),
+    }
+}
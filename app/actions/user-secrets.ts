@@ -15,6 +15,7 @@ import { nanoid } from 'nanoid'
 import { validateInput, saveSecretSchema } from '@/lib/core/validation'
 import { logSecurityEvent } from '@/lib/events/audit-logger'
 import { ValidationError, AuthenticationError } from '@/lib/core/errors'
+import { isDiscordWebhookUrl } from '@/utils/discord/client'
 
 export async function saveUserSecretAction(providerId: string, value: string) {
     const supabase = await createClient()
@@ -29,6 +30,9 @@ export async function saveUserSecretAction(providerId: string, value: string) {
     if (!validated.value) {
         throw new ValidationError('API key value is required')
     }
+    if (validated.providerId === 'discord_webhook' && !isDiscordWebhookUrl(validated.value)) {
+        throw new ValidationError('Expected a Discord webhook URL (https://discord.com/api/webhooks/...)')
+    }
 
     // Encrypt the value
     const encryptedValue = encrypt(validated.value)
@@ -72,7 +76,7 @@ export async function hasUserSecretAction(providerId: string): Promise<boolean>
     if (!user) return false
 
     // Validate providerId to prevent SQL injection-like issues
-    const validProviders = ['openai_key', 'gemini_key', 'anthropic_key', 'twitter_token', 'discord_token']
+    const validProviders = ['openai_key', 'gemini_key', 'anthropic_key', 'twitter_token', 'discord_token', 'discord_webhook']
     if (!validProviders.includes(providerId)) {
         return false
     }
@@ -95,7 +99,7 @@ export async function deleteUserSecretAction(providerId: string) {
     if (!user) throw new AuthenticationError('Unauthorized')
 
     // Validate providerId
-    const validProviders = ['openai_key', 'gemini_key', 'anthropic_key', 'twitter_token', 'discord_token']
+    const validProviders = ['openai_key', 'gemini_key', 'anthropic_key', 'twitter_token', 'discord_token', 'discord_webhook']
     if (!validProviders.includes(providerId)) {
         throw new ValidationError('Invalid provider ID')
     }
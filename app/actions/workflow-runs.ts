@@ -0,0 +1,54 @@
+'use server'
+
+/**
+ * Workflow Run History Server Actions
+ * 
+ * Following the constitution:
+ * - Uses service layer with proper boundaries
+ * - Past runs are kept, never overwritten
+ */
+
+import { createClient } from '@/utils/supabase/server'
+import { nanoid } from 'nanoid'
+import { RunService, TaskService, createServiceContext } from '@/lib/services'
+import { validateInput, uuidSchema } from '@/lib/core/validation'
+import { AuthenticationError } from '@/lib/core/errors'
+
+export async function listWorkflowRunsAction(workflowId: string, limit: number = 20) {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    const runService = new RunService(serviceContext)
+    return runService.listByWorkflow(validateInput(uuidSchema, workflowId), { limit })
+}
+
+export async function getWorkflowRunAction(runId: string) {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    const validatedRunId = validateInput(uuidSchema, runId)
+    const run = await new RunService(serviceContext).getById(validatedRunId)
+    const taskService = new TaskService(serviceContext)
+    const tasks = await taskService.listByRun(validatedRunId)
+    const attempts = await taskService.listAttemptsByRun(validatedRunId)
+
+    return { ...run, tasks, attempts }
+}
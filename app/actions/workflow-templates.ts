@@ -0,0 +1,264 @@
+'use server'
+
+/**
+ * Workflow Template Server Actions
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded: a template is a saved workflow document
+ * - Uses service layer with proper boundaries
+ * - Event-driven - the services emit events for all important actions
+ */
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { nanoid } from 'nanoid'
+import { TemplateService, WorkflowService, createServiceContext } from '@/lib/services'
+import { validateInput, uuidSchema, createTemplateSchema, publishTemplateVersionSchema, type CreateTemplateInput } from '@/lib/core/validation'
+import { logUserAction } from '@/lib/events/audit-logger'
+import { AuthenticationError } from '@/lib/core/errors'
+import { templateFromDocument, type WorkflowTemplate } from '@/lib/workflows/templates'
+
+// ==========================================
+// LIST TEMPLATES
+// ==========================================
+
+/**
+ * The organization's templates, shaped like the built-in ones
+ */
+export async function listOrganizationTemplatesAction(): Promise<WorkflowTemplate[]> {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    const templates = await new TemplateService(serviceContext).list()
+
+    return templates.map(t => templateFromDocument(t.document, {
+        id: t.id,
+        name: t.name,
+        description: t.description,
+        icon: t.icon,
+        category: t.category,
+        platform: t.platform,
+        estimatedTime: t.estimatedTime,
+        version: t.latestVersion,
+    }))
+}
+
+// ==========================================
+// TEMPLATE STATUS OF A WORKFLOW
+// ==========================================
+
+/**
+ * The organization template a workflow was created from, and whether a newer version exists
+ */
+export async function getWorkflowTemplateStatusAction(workflowId: string) {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    const workflow = await new WorkflowService(serviceContext).getById(validateInput(uuidSchema, workflowId))
+
+    const { templateId, templateVersion } = workflow.config
+    if (!templateId || !uuidSchema.safeParse(templateId).success) return null
+
+    try {
+        const template = await new TemplateService(serviceContext).getById(templateId)
+        const version = templateVersion || 1
+        return {
+            templateId: template.id,
+            templateName: template.name,
+            version,
+            latestVersion: template.latestVersion,
+            isOutdated: version < template.latestVersion,
+        }
+    } catch {
+        // The template was deleted (or belongs to another organization)
+        return null
+    }
+}
+
+// ==========================================
+// SAVE WORKFLOW AS TEMPLATE
+// ==========================================
+
+export async function saveWorkflowAsTemplateAction(input: CreateTemplateInput) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+
+    // 2. Validate inputs
+    const validated = validateInput(createTemplateSchema, input)
+
+    // 3. Describe the workflow as a document (the service checks access)
+    const workflowService = new WorkflowService(serviceContext)
+    const document = await workflowService.exportDocument(validated.workflowId)
+
+    // 4. Create the template with the document as its first version
+    const { workflowId, ...meta } = validated
+    const template = await new TemplateService(serviceContext).create(meta, document, workflowId)
+
+    // 5. The workflow now matches version 1 of its template
+    const workflow = await workflowService.update(workflowId, {
+        config: { templateId: template.id, templateName: template.name, templateVersion: 1 },
+    })
+
+    // 6. Audit log
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        'SAVE_WORKFLOW_AS_TEMPLATE',
+        'workflow',
+        workflowId,
+        {
+            templateId: template.id,
+            templateName: template.name,
+            stepCount: document.steps.length,
+        }
+    )
+
+    // 7. Revalidate
+    revalidatePath(`/dashboard/project/${workflow.projectId}`)
+
+    return { success: true, templateId: template.id, version: 1 }
+}
+
+// ==========================================
+// PUBLISH A NEW TEMPLATE VERSION
+// ==========================================
+
+/**
+ * Save a workflow as the next version of a template
+ */
+export async function publishTemplateVersionAction(templateId: string, workflowId: string) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+
+    // 2. Validate inputs
+    const validatedTemplateId = validateInput(uuidSchema, templateId)
+    const validated = validateInput(publishTemplateVersionSchema, { workflowId })
+
+    // 3. Describe the workflow as a document (the service checks access)
+    const workflowService = new WorkflowService(serviceContext)
+    const document = await workflowService.exportDocument(validated.workflowId)
+
+    // 4. Publish it
+    const template = await new TemplateService(serviceContext).publishVersion(
+        validatedTemplateId,
+        document,
+        validated.workflowId
+    )
+
+    // 5. The workflow now matches the latest version
+    const workflow = await workflowService.update(validated.workflowId, {
+        config: { templateId: template.id, templateName: template.name, templateVersion: template.latestVersion },
+    })
+
+    // 6. Audit log
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        'PUBLISH_TEMPLATE_VERSION',
+        'workflow',
+        validated.workflowId,
+        {
+            templateId: template.id,
+            version: template.latestVersion,
+        }
+    )
+
+    // 7. Revalidate
+    revalidatePath(`/dashboard/project/${workflow.projectId}`)
+
+    return { success: true, templateId: template.id, version: template.latestVersion }
+}
+
+// ==========================================
+// DELETE TEMPLATE
+// ==========================================
+
+export async function deleteTemplateAction(templateId: string) {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    // Workflows created from it keep their steps
+    await new TemplateService(serviceContext).delete(validateInput(uuidSchema, templateId))
+
+    return { success: true }
+}
+
+// ==========================================
+// OUTDATED WORKFLOWS
+// ==========================================
+
+/**
+ * Workflows created from an older version of one of the organization's templates
+ */
+export async function listOutdatedWorkflowsAction(templateId?: string) {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    return new TemplateService(serviceContext).listOutdatedWorkflows(
+        templateId ? validateInput(uuidSchema, templateId) : undefined
+    )
+}
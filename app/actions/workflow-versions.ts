@@ -0,0 +1,188 @@
+'use server'
+
+/**
+ * Workflow Version Server Actions
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded: a version is a published step graph
+ * - Uses service layer with proper boundaries
+ * - Event-driven - the services emit events for all important actions
+ */
+
+import { createClient } from '@/utils/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { nanoid } from 'nanoid'
+import { WorkflowService, createServiceContext } from '@/lib/services'
+import {
+    validateInput,
+    uuidSchema,
+    workflowVersionNumberSchema,
+    publishWorkflowVersionSchema,
+    compareWorkflowVersionsSchema,
+} from '@/lib/core/validation'
+import { logUserAction } from '@/lib/events/audit-logger'
+import { AuthenticationError } from '@/lib/core/errors'
+
+// ==========================================
+// LIST VERSIONS
+// ==========================================
+
+/**
+ * Published versions of a workflow, newest first, and the draft's changes since the latest
+ */
+export async function listWorkflowVersionsAction(workflowId: string) {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    const validatedWorkflowId = validateInput(uuidSchema, workflowId)
+    const workflowService = new WorkflowService(serviceContext)
+
+    const versions = await workflowService.listVersions(validatedWorkflowId)
+    const draftChanges = versions.length > 0
+        ? await workflowService.diffVersions(validatedWorkflowId, versions[0].version, 'draft')
+        : []
+
+    return {
+        versions,
+        publishedVersion: versions[0]?.version ?? null,
+        draftChanges,
+    }
+}
+
+// ==========================================
+// DIFF
+// ==========================================
+
+/**
+ * Steps added, removed or changed from one version to another (or to the draft)
+ */
+export async function diffWorkflowVersionsAction(workflowId: string, from: number, to: number | 'draft') {
+    const supabase = await createClient()
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId: nanoid() }
+    )
+
+    const validated = validateInput(compareWorkflowVersionsSchema, { from, to })
+
+    return new WorkflowService(serviceContext).diffVersions(
+        validateInput(uuidSchema, workflowId),
+        validated.from,
+        validated.to
+    )
+}
+
+// ==========================================
+// PUBLISH
+// ==========================================
+
+/**
+ * Publish the draft as the next version. Runs already started keep their version.
+ */
+export async function publishWorkflowVersionAction(workflowId: string, note?: string) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+
+    // 2. Validate inputs
+    const validatedWorkflowId = validateInput(uuidSchema, workflowId)
+    const validated = validateInput(publishWorkflowVersionSchema, { note })
+
+    // 3. Publish
+    const workflowService = new WorkflowService(serviceContext)
+    const version = await workflowService.publish(validatedWorkflowId, validated.note)
+
+    // 4. Audit log
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        'PUBLISH_WORKFLOW_VERSION',
+        'workflow',
+        validatedWorkflowId,
+        { version: version.version, stepCount: version.steps.length }
+    )
+
+    // 5. Revalidate
+    const workflow = await workflowService.getById(validatedWorkflowId)
+    revalidatePath(`/dashboard/project/${workflow.projectId}`)
+
+    return { success: true, version: version.version }
+}
+
+// ==========================================
+// ROLLBACK
+// ==========================================
+
+/**
+ * Reset the draft to an earlier version and publish it as the next version
+ */
+export async function rollbackWorkflowAction(workflowId: string, version: number) {
+    const supabase = await createClient()
+    const requestId = nanoid()
+
+    // 1. Authenticate
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new AuthenticationError('Unauthorized')
+
+    const serviceContext = createServiceContext(
+        supabase,
+        user,
+        user.id,
+        { requestId }
+    )
+
+    // 2. Validate inputs
+    const validatedWorkflowId = validateInput(uuidSchema, workflowId)
+    const validatedVersion = validateInput(workflowVersionNumberSchema, version)
+
+    // 3. Roll back
+    const workflowService = new WorkflowService(serviceContext)
+    const published = await workflowService.rollback(validatedWorkflowId, validatedVersion)
+
+    // 4. Audit log
+    await logUserAction(
+        {
+            organizationId: user.id,
+            userId: user.id,
+            requestId,
+        },
+        'ROLLBACK_WORKFLOW',
+        'workflow',
+        validatedWorkflowId,
+        { restoredVersion: validatedVersion, version: published.version }
+    )
+
+    // 5. Revalidate
+    const workflow = await workflowService.getById(validatedWorkflowId)
+    revalidatePath(`/dashboard/project/${workflow.projectId}`)
+
+    return { success: true, version: published.version }
+}
@@ -15,9 +15,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { withExtensionAuth, successResponse, type APIContext } from '@/lib/api/middleware';
-import { validateInput, extensionResultSchema } from '@/lib/core/validation';
+import { validateInput, validateStepOutput, extensionResultSchema } from '@/lib/core/validation';
 import { logSecurityEvent } from '@/lib/events/audit-logger';
 import { emitTaskEvent } from '@/lib/events/event-bus';
+import { loadRunStep } from '@/lib/workflows/versions';
+import { WorkflowService, TaskService, RunService, createServiceContext, GENERATED_ASSETS_BUCKET, ASSET_URL_TTL_SECONDS } from '@/lib/services';
+import { JobQueue, advanceRun } from '@/lib/queue';
+import { settleParentTask, syncRunStatus } from '@/lib/workflows/engine';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -87,13 +91,18 @@ async function handleGetTask(request: NextRequest, context: APIContext) {
 
   console.log(`[Extension API] GET /tasks - Request at ${requestTime}`);
 
-  // 1. Auto-recover zombie tasks (stuck in in_progress)
+  // 1. Auto-recover zombie tasks (claimed by the extension, stuck in in_progress).
+  // Tasks waiting for a worker are in_progress too; only the ones this endpoint claimed
+  // (_claimed_at) are extension work. A RUN_WORKFLOW task stays in_progress for as long
+  // as its child run, so it is never a zombie.
   const zombieThreshold = new Date(Date.now() - CONFIG.ZOMBIE_THRESHOLD_MS).toISOString();
 
   const { data: zombieTasks, error: zombieCheckError } = await supabase
     .from('tasks')
-    .select('id, started_at, output_data')
+    .select('id, started_at, output_data, step:steps!inner(type)')
     .eq('status', 'in_progress')
+    .not('output_data->>_claimed_at', 'is', null)
+    .neq('step.type', 'RUN_WORKFLOW')
     .lt('started_at', zombieThreshold);
 
   if (!zombieCheckError && zombieTasks && zombieTasks.length > 0) {
@@ -192,8 +201,9 @@ async function handleGetTask(request: NextRequest, context: APIContext) {
     { taskId: task.id, stepType: task.step?.type }
   );
 
-  // 5. Build response payload
-  const stepConfig = task.step?.config || {};
+  // 5. Build response payload, from the step as published in the task's run
+  const step = await loadRunStep(supabase, task.run_id, task.step_id) ?? task.step;
+  const stepConfig = step?.config || {};
   const taskOutputData = task.output_data || {};
 
   // Merge configs with priority: output_data > step config
@@ -202,6 +212,15 @@ async function handleGetTask(request: NextRequest, context: APIContext) {
     ...taskOutputData,
   };
 
+  // A generated image lives in private storage: hand the extension a fresh link to it
+  const image = taskOutputData.image;
+  if (image?.storagePath) {
+    const { data: signed } = await supabase.storage
+      .from(GENERATED_ASSETS_BUCKET)
+      .createSignedUrl(image.storagePath, ASSET_URL_TTL_SECONDS);
+    if (signed) mergedConfig.image = { ...image, url: signed.signedUrl };
+  }
+
   // Determine best URL
   let targetUrl = 'https://x.com/home';
   if (taskOutputData.url) targetUrl = taskOutputData.url;
@@ -211,7 +230,7 @@ async function handleGetTask(request: NextRequest, context: APIContext) {
 
   const payload = {
     taskId: task.id,
-    type: task.step?.type || 'SCAN_FEED',  // Default to SCAN_FEED if type missing
+    type: step?.type || 'SCAN_FEED',  // Default to SCAN_FEED if type missing
     platform: 'twitter',
     config: {
       ...mergedConfig,
@@ -227,7 +246,8 @@ async function handleGetTask(request: NextRequest, context: APIContext) {
     id: task.id,
     type: payload.type,
     url: targetUrl,
-    hasKeywords: !!mergedConfig.keywords
+    hasKeywords: !!mergedConfig.keywords,
+    hasImage: !!mergedConfig.image
   });
 
   return withCORS(NextResponse.json({ task: payload }));
@@ -286,16 +306,35 @@ async function handleSubmitResult(request: NextRequest, context: APIContext) {
 
   console.log(`[Extension API] Task ${taskId} type: ${stepType}, isPostAction: ${isPostAction}`);
 
-  const newStatus = result.success
-    ? (isPostAction ? 'completed' : 'review_needed')
+  // A result that does not match the step's output schema fails the step
+  const outputErrors = result.success ? validateStepOutput(stepType, result.data || {}) : [];
+  if (outputErrors.length > 0) {
+    console.warn(`[Extension API] Task ${taskId} result does not match ${stepType} output:`, outputErrors);
+  }
+  const succeeded = result.success && outputErrors.length === 0;
+
+  // In an auto-advancing workflow, review is left to its human-gated steps
+  const { data: workflow } = await supabase
+    .from('workflows')
+    .select('config')
+    .eq('id', existingTask.step?.workflow_id)
+    .single();
+  const autoAdvance = !!(workflow?.config as Record<string, unknown> | null)?.autoAdvance;
+
+  const newStatus = succeeded
+    ? (isPostAction || autoAdvance ? 'completed' : 'review_needed')
     : 'failed';
 
-  // Build output data
+  // Build output data. Posting steps keep what they posted (e.g. `replies`) for later steps.
   const outputData = {
+    ...(isPostAction ? existingTask.output_data as Record<string, unknown> || {} : {}),
     ...(result.data || {}),
     _completed_at: new Date().toISOString(),
     _completion_request_id: context.requestId,
   };
+  const errorMessage = outputErrors.length > 0
+    ? `Invalid ${stepType} result: ${outputErrors.map((e) => `${e.field}: ${e.message}`).join('; ')}`
+    : (result.data?.summary || result.data?.error || 'Unknown error');
 
   // Update task
   const { error: updateError } = await supabase
@@ -303,7 +342,7 @@ async function handleSubmitResult(request: NextRequest, context: APIContext) {
     .update({
       status: newStatus,
       output_data: outputData,
-      error_message: result.success ? null : (result.data?.summary || result.data?.error || 'Unknown error'),
+      error_message: succeeded ? null : errorMessage,
       completed_at: new Date().toISOString(),
     })
     .eq('id', taskId);
@@ -315,11 +354,11 @@ async function handleSubmitResult(request: NextRequest, context: APIContext) {
 
   // Emit event
   await emitTaskEvent(
-    result.success ? 'TASK_COMPLETED' : 'TASK_FAILED',
+    succeeded ? 'TASK_COMPLETED' : 'TASK_FAILED',
     taskId,
     {
       source: 'extension',
-      success: result.success,
+      success: succeeded,
       itemCount: (result.data as any)?.found_items?.length || 0,
     },
     {
@@ -345,6 +384,40 @@ async function handleSubmitResult(request: NextRequest, context: APIContext) {
 
   console.log(`[Extension API] Task ${taskId} completed with status: ${newStatus}`);
 
+  // Settle the run: a failed result fails it, a finished step may complete it (and a
+  // finished sub-workflow run settles the RUN_WORKFLOW step waiting on it), and an
+  // auto-advancing run moves on. The result is already saved, so a failure here is
+  // logged rather than returned (the extension would resubmit it).
+  if (existingTask.run_id) {
+    try {
+      const serviceContext = createServiceContext(supabase, { id: userId }, userId, { requestId: context.requestId });
+      const services = {
+        workflowService: new WorkflowService(serviceContext),
+        taskService: new TaskService(serviceContext),
+        runService: new RunService(serviceContext),
+      };
+
+      if (!succeeded) {
+        const run = await services.runService.getById(existingTask.run_id);
+        if (run.status === 'running') {
+          await settleParentTask(services, await services.runService.finish(run.id, 'failed', String(errorMessage)));
+        }
+      } else {
+        await syncRunStatus(services, existingTask.run_id);
+        if (autoAdvance) {
+          await advanceRun(
+            new JobQueue(supabase),
+            services,
+            existingTask.run_id,
+            { userId, organizationId: userId, requestId: context.requestId, source: 'api' }
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`[Extension API] Failed to settle run ${existingTask.run_id}:`, error);
+    }
+  }
+
   return withCORS(successResponse({ success: true, status: newStatus }));
 }
 
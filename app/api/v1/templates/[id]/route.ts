@@ -0,0 +1,140 @@
+/**
+ * LaunchGrid Workflow Template API (Single Resource)
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/templates/:id - Template, its versions and the workflows behind its latest version
+ * - POST /api/v1/templates/:id - Save a workflow as the next version. Body: { workflowId }
+ * - DELETE /api/v1/templates/:id - Delete the template (workflows created from it are kept)
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, createdResponse, noContentResponse, parseJSONBody, type APIContext } from '@/lib/api/middleware';
+import { TemplateService, WorkflowService, createServiceContext } from '@/lib/services';
+import { validateInput, publishTemplateVersionSchema, uuidSchema } from '@/lib/core/validation';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/v1/templates/:id
+async function handleGet(request: NextRequest, context: APIContext, params: { id: string }) {
+  const templateId = validateInput(uuidSchema, params.id);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const templateService = new TemplateService(serviceContext);
+  const template = await templateService.getById(templateId);
+  const versions = await templateService.listVersions(templateId);
+  const outdatedWorkflows = await templateService.listOutdatedWorkflows(templateId);
+
+  return successResponse({ ...template, versions, outdatedWorkflows });
+}
+
+// POST /api/v1/templates/:id
+async function handlePublish(request: NextRequest, context: APIContext, params: { id: string }) {
+  const templateId = validateInput(uuidSchema, params.id);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const body = await parseJSONBody(request);
+  const { workflowId } = validateInput(publishTemplateVersionSchema, body);
+
+  const workflowService = new WorkflowService(serviceContext);
+  const document = await workflowService.exportDocument(workflowId);
+  const template = await new TemplateService(serviceContext).publishVersion(templateId, document, workflowId);
+
+  // The workflow now matches the latest version
+  await workflowService.update(workflowId, {
+    config: { templateId: template.id, templateName: template.name, templateVersion: template.latestVersion },
+  });
+
+  return createdResponse(template);
+}
+
+// DELETE /api/v1/templates/:id
+async function handleDelete(request: NextRequest, context: APIContext, params: { id: string }) {
+  const templateId = validateInput(uuidSchema, params.id);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  await new TemplateService(serviceContext).delete(templateId);
+
+  return noContentResponse();
+}
+
+// Wrap handlers with params extraction
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return withAuth(async (req, ctx) => handleGet(req, ctx, { id }))(request);
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return withAuth(async (req, ctx) => handlePublish(req, ctx, { id }))(request);
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return withAuth(async (req, ctx) => handleDelete(req, ctx, { id }))(request);
+}
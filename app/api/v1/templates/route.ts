@@ -0,0 +1,89 @@
+/**
+ * LaunchGrid Workflow Templates API
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/templates - List the organization's templates (latest version documents)
+ * - POST /api/v1/templates - Save a workflow as a new template
+ *   Body: { workflowId, name, description?, icon?, category?, platform?, estimatedTime? }
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, createdResponse, parseJSONBody, type APIContext } from '@/lib/api/middleware';
+import { TemplateService, WorkflowService, createServiceContext } from '@/lib/services';
+import { validateInput, createTemplateSchema } from '@/lib/core/validation';
+
+// GET /api/v1/templates
+async function handleList(request: NextRequest, context: APIContext) {
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const templateService = new TemplateService(serviceContext);
+  const templates = await templateService.list();
+
+  return successResponse(templates, { total: templates.length });
+}
+
+// POST /api/v1/templates
+async function handleCreate(request: NextRequest, context: APIContext) {
+  const body = await parseJSONBody(request);
+  const { workflowId, ...meta } = validateInput(createTemplateSchema, body);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const workflowService = new WorkflowService(serviceContext);
+
+  const document = await workflowService.exportDocument(workflowId);
+  const template = await new TemplateService(serviceContext).create(meta, document, workflowId);
+
+  // The workflow now matches version 1 of its template
+  await workflowService.update(workflowId, {
+    config: { templateId: template.id, templateName: template.name, templateVersion: 1 },
+  });
+
+  return createdResponse(template);
+}
+
+export const GET = withAuth(handleList);
+export const POST = withAuth(handleCreate);
@@ -0,0 +1,72 @@
+/**
+ * LaunchGrid AI Usage Ledger API
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/usage/entries - The organization's AI calls over a period, newest first
+ *   (same `from`, `to` and `projectId` filters as /api/v1/usage)
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, type APIContext } from '@/lib/api/middleware';
+import { UsageService, createServiceContext } from '@/lib/services';
+import { validateInput, paginationSchema } from '@/lib/core/validation';
+
+// GET /api/v1/usage/entries
+async function handleList(request: NextRequest, context: APIContext) {
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const usageService = new UsageService(serviceContext);
+
+  // Parse query params
+  const searchParams = request.nextUrl.searchParams;
+  const pagination = validateInput(paginationSchema, {
+    page: searchParams.get('page'),
+    limit: searchParams.get('limit'),
+  });
+
+  const { entries, total } = await usageService.listEntries(
+    {
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      projectId: searchParams.get('projectId') ?? undefined,
+    },
+    {
+      limit: pagination.limit,
+      offset: (pagination.page - 1) * pagination.limit,
+    }
+  );
+
+  return successResponse(entries, {
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      hasMore: pagination.page * pagination.limit < total,
+    },
+  });
+}
+
+export const GET = withAuth(handleList);
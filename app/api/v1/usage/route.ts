@@ -0,0 +1,54 @@
+/**
+ * LaunchGrid AI Usage API
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/usage - Tokens and cost of the organization's AI calls over a period
+ *   (`from`, `to`; default the current month), by project, by model and by day.
+ *   `projectId` narrows it to one project.
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, type APIContext } from '@/lib/api/middleware';
+import { UsageService, createServiceContext } from '@/lib/services';
+
+// GET /api/v1/usage
+async function handleSummary(request: NextRequest, context: APIContext) {
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const usageService = new UsageService(serviceContext);
+
+  // Parse query params (validated by the service)
+  const searchParams = request.nextUrl.searchParams;
+  const summary = await usageService.summarize({
+    from: searchParams.get('from') ?? undefined,
+    to: searchParams.get('to') ?? undefined,
+    projectId: searchParams.get('projectId') ?? undefined,
+  });
+
+  return successResponse(summary);
+}
+
+export const GET = withAuth(handleSummary);
@@ -4,16 +4,18 @@
  * Following the constitution:
  * - Event-driven: Events are the system truth
  * - Workflows are declarative, not hardcoded
- * - AI is asynchronous and stateless
+ * - AI is asynchronous and stateless: steps are queued and run by a worker
  */
 
 import { NextRequest } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
-import { withAIAuth, successResponse, parseJSONBody, type APIContext } from '@/lib/api/middleware';
-import { WorkflowService, TaskService, AIService, createServiceContext } from '@/lib/services';
+import { withAIAuth, successResponse, acceptedResponse, parseSearchParams, type APIContext } from '@/lib/api/middleware';
+import { WorkflowService, TaskService, RunService, createServiceContext } from '@/lib/services';
 import { validateInput, uuidSchema } from '@/lib/core/validation';
-import { WorkflowError, StepExecutionError } from '@/lib/core/errors';
-import type { AIProviderID } from '@/lib/core/types';
+import { WorkflowError } from '@/lib/core/errors';
+import { claimReadySteps } from '@/lib/workflows/engine';
+import { JobQueue, enqueueStepExecution } from '@/lib/queue';
+import { createAdminClient } from '@/utils/supabase/admin';
 
 type RouteParams = { params: Promise<{ id: string }> };
 
@@ -45,195 +47,84 @@ async function handleExecute(request: NextRequest, context: APIContext, params:
 
   const workflowService = new WorkflowService(serviceContext);
   const taskService = new TaskService(serviceContext);
-  const aiService = new AIService(serviceContext);
-
-  // Get workflow execution state
-  const executionState = await workflowService.getExecutionState(workflowId);
-  const { workflow, nextStep } = executionState;
+  const runService = new RunService(serviceContext);
+
+  // ?newRun=true starts a fresh run even if the latest one is unfinished;
+  // ?simulate=true continues (or starts) a simulated run instead of a live one
+  const searchParams = parseSearchParams(request);
+  const newRun = searchParams.get('newRun') === 'true';
+  const simulate = searchParams.get('simulate') === 'true';
+
+  // Claim every ready step of the current run (creates and starts their tasks)
+  const claim = await claimReadySteps(
+    { workflowService, taskService, runService },
+    workflowId,
+    { trigger: 'api', newRun, simulate }
+  );
 
-  if (!nextStep) {
+  if (claim.status === 'completed') {
     return successResponse({
       status: 'completed',
       message: 'Workflow is complete!',
       progress: 100,
+      runId: claim.run.id,
+      runNumber: claim.run.runNumber,
+      simulated: claim.run.simulated,
     });
   }
 
-  if (!nextStep.canExecute) {
+  if (claim.status === 'blocked') {
     throw new WorkflowError(
-      `Step is blocked by dependencies: ${nextStep.blockedBy.join(', ')}`,
+      `Step is blocked by dependencies: ${claim.blockedBy.join(', ')}`,
       workflowId,
-      { blockedBy: nextStep.blockedBy }
+      { blockedBy: claim.blockedBy }
     );
   }
 
-  const step = nextStep.step;
-
-  // Get or create task for this step
-  let task = await taskService.getByStepId(step.id);
-  if (!task) {
-    task = await taskService.create({
-      stepId: step.id,
-      projectId: workflow.projectId,
+  if (claim.status === 'waiting') {
+    return successResponse({
+      status: 'waiting',
+      message: 'Waiting for running steps to finish',
+      activeStepIds: claim.active.map((s) => s.id),
+      runId: claim.run.id,
+      runNumber: claim.run.runNumber,
+      simulated: claim.run.simulated,
     });
   }
 
-  // Mark task as started
-  task = await taskService.start(task.id);
-
-  // Get project context for AI
-  const { data: project } = await supabase
-    .from('projects')
-    .select('*')
-    .eq('id', workflow.projectId)
-    .single();
-
-  if (!project) {
-    throw new WorkflowError('Project not found', workflowId);
-  }
-
-  const { data: pillar } = await supabase
-    .from('pillars')
-    .select('*')
-    .eq('id', workflow.pillarId)
-    .single();
-
-  const projectContext = project.context || {};
-  const providerId = (projectContext.aiProvider as AIProviderID) || 'gemini';
-
-  // Get previous step output for chaining
-  let previousOutput: Record<string, unknown> | undefined;
-  if (nextStep.completedDependencies.length > 0) {
-    const prevTask = await taskService.getByStepId(nextStep.completedDependencies[0]);
-    previousOutput = prevTask?.outputData;
-  }
-
-  try {
-    let result: Record<string, unknown>;
-
-    switch (step.type) {
-      case 'GENERATE_DRAFT':
-      case 'GENERATE_OUTLINE': {
-        const content = await aiService.generateContent(
-          {
-            project: {
-              name: project.name,
-              description: projectContext.description || '',
-              audience: projectContext.audience || 'General Audience',
-              painPoints: projectContext.painPoints || '',
-              budget: projectContext.budget || 0,
-            },
-            pillarName: pillar?.name || 'Unknown',
-            workflowName: workflow.name,
-            workflowDescription: workflow.description || '',
-            stepConfig: step.config,
-            previousOutput,
-          },
-          providerId
-        );
-        result = content as unknown as Record<string, unknown>;
-        break;
-      }
-
-      case 'SCAN_FEED': {
-        // Queue for browser extension (human-in-the-loop)
-        await taskService.queueForExtension(task.id);
-        return successResponse({
-          status: 'extension_queued',
-          message: 'Task queued for browser extension',
-          taskId: task.id,
-        });
-      }
-
-      case 'SELECT_TARGETS': {
-        // AI selects from previous scan results
-        const foundItems = (previousOutput as any)?.found_items || [];
-        result = {
-          selected_items: foundItems,
-          rationale: 'Selected all high-relevance items.',
-        };
-        break;
-      }
-
-      case 'GENERATE_REPLIES': {
-        const targets = (previousOutput as any)?.selected_items || [];
-        if (targets.length === 0) {
-          throw new StepExecutionError('No targets to reply to', step.id, step.type);
-        }
-
-        const replies = await aiService.generateReplies(
-          {
-            project: {
-              name: project.name,
-              description: projectContext.description || '',
-              audience: projectContext.audience || '',
-              painPoints: projectContext.painPoints || '',
-              budget: projectContext.budget || 0,
-            },
-            pillarName: pillar?.name || 'Unknown',
-            workflowName: workflow.name,
-            workflowDescription: workflow.description || '',
-            stepConfig: step.config,
-          },
-          targets,
-          providerId
-        );
-
-        result = {
-          replies,
-          title: `Drafted ${replies.length} Replies`,
-        };
-        break;
-      }
-
-      case 'REVIEW_CONTENT':
-      case 'WAIT_APPROVAL': {
-        // Human-in-the-loop: mark for review
-        await taskService.markForReview(task.id, previousOutput || {});
-        return successResponse({
-          status: 'awaiting_approval',
-          message: 'Content ready for review',
-          taskId: task.id,
-        });
-      }
-
-      case 'POST_API':
-      case 'POST_REPLY':
-      case 'POST_EXTENSION': {
-        // Human-in-the-loop: queue for approval before posting
-        await taskService.markForReview(task.id, {
-          ...previousOutput,
-          pendingAction: step.type,
-        });
-        return successResponse({
-          status: 'awaiting_approval',
-          message: 'Ready to post - awaiting approval',
-          taskId: task.id,
-        });
-      }
-
-      default:
-        throw new StepExecutionError(
-          `Step type ${step.type} not implemented`,
-          step.id,
-          step.type
-        );
+  const { workflow, claimed } = claim;
+  const queue = new JobQueue(createAdminClient());
+  const jobs: Array<{ stepId: string; stepType: string; taskId: string; jobId: string }> = [];
+
+  // Hand each step to a worker; poll the tasks for the results
+  for (const { step, task } of claimed) {
+    try {
+      const job = await enqueueStepExecution(queue, {
+        workflow,
+        step,
+        task,
+        mode: 'execute',
+        userId: context.user.id,
+        organizationId: context.organizationId,
+        requestId: context.requestId,
+        source: 'api',
+      });
+      jobs.push({ stepId: step.id, stepType: step.type, taskId: task.id, jobId: job.id });
+    } catch (error: any) {
+      // Mark task as failed
+      await taskService.fail(task.id, error.message);
+      throw error;
     }
-
-    // Mark task for review (human-in-the-loop principle)
-    await taskService.markForReview(task.id, result);
-
-    return successResponse({
-      status: 'review_needed',
-      message: 'Step completed - ready for review',
-      taskId: task.id,
-      output: result,
-    });
-  } catch (error: any) {
-    // Mark task as failed
-    await taskService.fail(task.id, error.message);
-    throw error;
   }
+
+  return acceptedResponse({
+    status: 'queued',
+    message: `${jobs.length} step(s) queued`,
+    jobs,
+    runId: claim.run.id,
+    runNumber: claim.run.runNumber,
+    simulated: claim.run.simulated,
+  });
 }
 
 export async function POST(request: NextRequest, { params }: RouteParams) {
@@ -0,0 +1,69 @@
+/**
+ * LaunchGrid Workflow Export API
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/workflows/:id/export - The workflow as a portable document
+ *   (?format=json|yaml returns the document file itself, for keeping in git)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, type APIContext } from '@/lib/api/middleware';
+import { WorkflowService, createServiceContext } from '@/lib/services';
+import { validateInput, uuidSchema, workflowDocumentFormatSchema } from '@/lib/core/validation';
+import { serializeWorkflowDocument } from '@/lib/workflows/document';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const CONTENT_TYPES = { json: 'application/json', yaml: 'application/yaml' };
+
+// GET /api/v1/workflows/:id/export
+async function handleExport(request: NextRequest, context: APIContext, params: { id: string }) {
+  const workflowId = validateInput(uuidSchema, params.id);
+  const formatParam = request.nextUrl.searchParams.get('format');
+  const format = formatParam ? validateInput(workflowDocumentFormatSchema, formatParam) : null;
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const workflowService = new WorkflowService(serviceContext);
+  const document = await workflowService.exportDocument(workflowId);
+
+  if (!format) {
+    return successResponse(document);
+  }
+
+  return new NextResponse(serializeWorkflowDocument(document, format), {
+    status: 200,
+    headers: {
+      'Content-Type': `${CONTENT_TYPES[format]}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="workflow-${workflowId}.${format}"`,
+    },
+  });
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return withAuth(async (req, ctx) => handleExport(req, ctx, { id }))(request);
+}
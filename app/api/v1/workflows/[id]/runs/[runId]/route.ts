@@ -0,0 +1,63 @@
+/**
+ * LaunchGrid Workflow Run API (Single Resource)
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/workflows/:id/runs/:runId - Run details with every task, its output and its attempts
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, type APIContext } from '@/lib/api/middleware';
+import { RunService, TaskService, createServiceContext } from '@/lib/services';
+import { validateInput, uuidSchema } from '@/lib/core/validation';
+import { NotFoundError } from '@/lib/core/errors';
+
+type RouteParams = { params: Promise<{ id: string; runId: string }> };
+
+// GET /api/v1/workflows/:id/runs/:runId
+async function handleGet(request: NextRequest, context: APIContext, params: { id: string; runId: string }) {
+  const workflowId = validateInput(uuidSchema, params.id);
+  const runId = validateInput(uuidSchema, params.runId);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const runService = new RunService(serviceContext);
+  const taskService = new TaskService(serviceContext);
+
+  const run = await runService.getById(runId);
+  if (run.workflowId !== workflowId) {
+    throw new NotFoundError('Workflow run', runId);
+  }
+
+  const tasks = await taskService.listByRun(runId);
+  const attempts = await taskService.listAttemptsByRun(runId);
+
+  return successResponse({ ...run, tasks, attempts });
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id, runId } = await params;
+  return withAuth(async (req, ctx) => handleGet(req, ctx, { id, runId }))(request);
+}
@@ -0,0 +1,69 @@
+/**
+ * LaunchGrid Workflow Runs API
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/workflows/:id/runs - List past runs of a workflow, newest first
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, type APIContext } from '@/lib/api/middleware';
+import { RunService, createServiceContext } from '@/lib/services';
+import { validateInput, paginationSchema, uuidSchema } from '@/lib/core/validation';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/v1/workflows/:id/runs
+async function handleList(request: NextRequest, context: APIContext, params: { id: string }) {
+  const workflowId = validateInput(uuidSchema, params.id);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const runService = new RunService(serviceContext);
+
+  // Parse query params
+  const searchParams = request.nextUrl.searchParams;
+  const pagination = validateInput(paginationSchema, {
+    page: searchParams.get('page'),
+    limit: searchParams.get('limit'),
+  });
+
+  const runs = await runService.listByWorkflow(workflowId, {
+    limit: pagination.limit,
+    offset: (pagination.page - 1) * pagination.limit,
+  });
+
+  return successResponse(runs, {
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+    },
+  });
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return withAuth(async (req, ctx) => handleList(req, ctx, { id }))(request);
+}
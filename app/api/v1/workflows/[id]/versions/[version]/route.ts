@@ -0,0 +1,101 @@
+/**
+ * LaunchGrid Workflow Version API (Single Resource)
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/workflows/:id/versions/:version - A published version. With ?compare=<version|draft>,
+ *   also the steps added, removed or changed going from this version to that one
+ * - POST /api/v1/workflows/:id/versions/:version - Roll back: reset the draft to this version and publish it
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, createdResponse, type APIContext } from '@/lib/api/middleware';
+import { WorkflowService, createServiceContext } from '@/lib/services';
+import { validateInput, compareWorkflowVersionsSchema, workflowVersionNumberSchema, uuidSchema } from '@/lib/core/validation';
+
+type RouteParams = { params: Promise<{ id: string; version: string }> };
+
+// GET /api/v1/workflows/:id/versions/:version
+async function handleGet(request: NextRequest, context: APIContext, params: { id: string; version: string }) {
+  const workflowId = validateInput(uuidSchema, params.id);
+  const versionNumber = validateInput(workflowVersionNumberSchema, params.version);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const workflowService = new WorkflowService(serviceContext);
+  const version = await workflowService.getVersion(workflowId, versionNumber);
+
+  const compare = request.nextUrl.searchParams.get('compare');
+  if (!compare) {
+    return successResponse(version);
+  }
+
+  const { from, to } = validateInput(compareWorkflowVersionsSchema, { from: versionNumber, to: compare });
+  const changes = await workflowService.diffVersions(workflowId, from, to);
+
+  return successResponse({ ...version, compare: to, changes });
+}
+
+// POST /api/v1/workflows/:id/versions/:version
+async function handleRollback(request: NextRequest, context: APIContext, params: { id: string; version: string }) {
+  const workflowId = validateInput(uuidSchema, params.id);
+  const versionNumber = validateInput(workflowVersionNumberSchema, params.version);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const published = await new WorkflowService(serviceContext).rollback(workflowId, versionNumber);
+
+  return createdResponse(published);
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id, version } = await params;
+  return withAuth(async (req, ctx) => handleGet(req, ctx, { id, version }))(request);
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id, version } = await params;
+  return withAuth(async (req, ctx) => handleRollback(req, ctx, { id, version }))(request);
+}
@@ -0,0 +1,96 @@
+/**
+ * LaunchGrid Workflow Versions API
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - GET /api/v1/workflows/:id/versions - Published versions, newest first, and the draft's changes since the latest
+ * - POST /api/v1/workflows/:id/versions - Publish the draft as the next version. Body: { note? }
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, successResponse, createdResponse, parseJSONBody, type APIContext } from '@/lib/api/middleware';
+import { WorkflowService, createServiceContext } from '@/lib/services';
+import { validateInput, publishWorkflowVersionSchema, uuidSchema } from '@/lib/core/validation';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET /api/v1/workflows/:id/versions
+async function handleList(request: NextRequest, context: APIContext, params: { id: string }) {
+  const workflowId = validateInput(uuidSchema, params.id);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const workflowService = new WorkflowService(serviceContext);
+  const versions = await workflowService.listVersions(workflowId);
+  const draftChanges = versions.length > 0
+    ? await workflowService.diffVersions(workflowId, versions[0].version, 'draft')
+    : [];
+
+  return successResponse({ versions, draftChanges });
+}
+
+// POST /api/v1/workflows/:id/versions
+async function handlePublish(request: NextRequest, context: APIContext, params: { id: string }) {
+  const workflowId = validateInput(uuidSchema, params.id);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const body = await parseJSONBody(request);
+  const { note } = validateInput(publishWorkflowVersionSchema, body);
+
+  const version = await new WorkflowService(serviceContext).publish(workflowId, note);
+
+  return createdResponse(version);
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return withAuth(async (req, ctx) => handleList(req, ctx, { id }))(request);
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return withAuth(async (req, ctx) => handlePublish(req, ctx, { id }))(request);
+}
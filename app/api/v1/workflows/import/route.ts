@@ -0,0 +1,57 @@
+/**
+ * LaunchGrid Workflow Import API
+ * 
+ * Following the constitution: API-first. UI is only a client.
+ * 
+ * Endpoints:
+ * - POST /api/v1/workflows/import - Create a workflow from a portable document
+ *   Body: { projectId, pillarId, name?, document } - document as JSON, or JSON/YAML text
+ */
+
+import { NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { withAuth, createdResponse, parseJSONBody, type APIContext } from '@/lib/api/middleware';
+import { WorkflowService, createServiceContext } from '@/lib/services';
+import { validateInput, importWorkflowSchema } from '@/lib/core/validation';
+import { parseWorkflowDocument } from '@/lib/workflows/document';
+
+// POST /api/v1/workflows/import
+async function handleImport(request: NextRequest, context: APIContext) {
+  const body = await parseJSONBody(request);
+  const input = validateInput(importWorkflowSchema, body);
+  const document = parseWorkflowDocument(input.document);
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: () => { },
+      },
+    }
+  );
+
+  const serviceContext = createServiceContext(
+    supabase,
+    context.user,
+    context.organizationId,
+    {
+      requestId: context.requestId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    }
+  );
+
+  const workflowService = new WorkflowService(serviceContext);
+  const workflow = await workflowService.importDocument({
+    projectId: input.projectId,
+    pillarId: input.pillarId,
+    document,
+    name: input.name,
+  });
+
+  return createdResponse(workflow);
+}
+
+export const POST = withAuth(handleImport);
@@ -37,6 +37,9 @@ export default async function DashboardLayout({
                     <Link href="/dashboard/metrics" className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-foreground/70 transition-colors">
                         <span className="text-lg">📈</span> Analytics
                     </Link>
+                    <Link href="/dashboard/usage" className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-foreground/70 transition-colors">
+                        <span className="text-lg">🪙</span> AI Usage
+                    </Link>
                     <Link href="/dashboard/settings" className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 text-foreground/70 transition-colors">
                         <span className="text-lg">⚙️</span> Settings
                     </Link>
@@ -17,16 +17,20 @@ export default async function ProjectPage({ params }: Props) {
     const supabase = await createClient()
 
     // Parallel data fetching
-    const [projectRes, pillarsRes, workflowsRes] = await Promise.all([
+    const [projectRes, pillarsRes, workflowsRes, templatesRes] = await Promise.all([
         supabase.from('projects').select('*').eq('id', id).single(),
         supabase.from('pillars').select('*').eq('project_id', id),
         supabase.from('workflows').select(`
             *,
             steps (
                 *,
-                tasks (*)
+                tasks (
+                    *,
+                    task_items (*)
+                )
             )
-        `).eq('project_id', id).order('created_at', { ascending: true })
+        `).eq('project_id', id).is('steps.removed_at', null).order('created_at', { ascending: true }),
+        supabase.from('workflow_templates').select('id, latest_version')
     ])
 
     if (projectRes.error || !projectRes.data) return notFound()
@@ -34,6 +38,9 @@ export default async function ProjectPage({ params }: Props) {
     const project = projectRes.data
     const pillars = pillarsRes.data || []
     const workflows = workflowsRes.data || []
+    const templateVersions = Object.fromEntries(
+        (templatesRes.data || []).map((t) => [t.id, t.latest_version as number])
+    )
 
     return (
         <div className="space-y-8 pb-20">
@@ -65,6 +72,7 @@ export default async function ProjectPage({ params }: Props) {
                     pillars={pillars}
                     workflows={workflows}
                     projectId={project.id}
+                    templateVersions={templateVersions}
                 />
             </section>
 
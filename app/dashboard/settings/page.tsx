@@ -23,7 +23,7 @@ export default async function SettingsPage() {
                     </div>
                     <h3 className="text-xl font-bold text-white mb-2">API Keys & Secrets</h3>
                     <p className="text-sm text-foreground/50">
-                        Configure connections to OpenAI, Gemini, X (Twitter), and Discord.
+                        Configure connections to OpenAI, Gemini, Anthropic, a self-hosted model, X (Twitter), and Discord.
                         Keys are encrypted at rest.
                     </p>
                 </Link>
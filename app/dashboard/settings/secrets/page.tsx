@@ -1,5 +1,6 @@
 
 import ApiKeyManager from '@/components/settings/api-key-manager'
+import ModelEndpointSettings from '@/components/settings/model-endpoint-settings'
 import Link from 'next/link'
 import { ArrowLeft } from 'lucide-react'
 
@@ -18,6 +19,8 @@ export default function SecretsPage() {
             </div>
 
             <ApiKeyManager />
+
+            <ModelEndpointSettings />
         </div>
     )
 }
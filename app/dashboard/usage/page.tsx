@@ -0,0 +1,161 @@
+import Link from 'next/link'
+import { Coins } from 'lucide-react'
+import { getUsageDashboardAction } from '@/app/actions/usage'
+
+type Props = {
+    searchParams: Promise<{ from?: string; to?: string; projectId?: string }>
+}
+
+// Cents are enough for totals; single calls cost fractions of a cent
+function formatUsd(amount: number) {
+    return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`
+}
+
+function formatTokens(count: number) {
+    return count.toLocaleString('en-US')
+}
+
+export default async function UsagePage({ searchParams }: Props) {
+    const { from, to, projectId } = await searchParams
+    const { summary, projects } = await getUsageDashboardAction({
+        from: from || undefined,
+        // A picked end date includes that whole day
+        to: to ? new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000) : undefined,
+        projectId: projectId || undefined,
+    })
+
+    const projectById = new Map(projects.map((p) => [p.id, p]))
+    const busiestDay = Math.max(...summary.byDay.map((d) => d.costUsd), 0)
+
+    return (
+        <div className="space-y-8">
+            <div className="flex justify-between items-end gap-4 flex-wrap">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight text-white flex items-center gap-3">
+                        <Coins className="h-8 w-8 text-accent" /> AI Usage
+                    </h1>
+                    <p className="text-foreground/50">
+                        Tokens and cost of every AI call, {summary.from.toISOString().slice(0, 10)} to {new Date(summary.to.getTime() - 1).toISOString().slice(0, 10)}.
+                    </p>
+                </div>
+
+                <form className="flex items-end gap-2 text-sm">
+                    <label className="flex flex-col gap-1 text-foreground/50">
+                        From
+                        <input type="date" name="from" defaultValue={from} className="bg-white/5 border border-white/10 rounded-lg p-2 text-white" />
+                    </label>
+                    <label className="flex flex-col gap-1 text-foreground/50">
+                        To
+                        <input type="date" name="to" defaultValue={to} className="bg-white/5 border border-white/10 rounded-lg p-2 text-white" />
+                    </label>
+                    <select name="projectId" defaultValue={projectId || ''} className="bg-white/5 border border-white/10 rounded-lg p-2 text-white">
+                        <option value="" className="bg-black">All projects</option>
+                        {projects.map((p) => (
+                            <option key={p.id} value={p.id} className="bg-black">{p.name}</option>
+                        ))}
+                    </select>
+                    <button className="bg-white text-black px-4 py-2 rounded-lg font-bold hover:bg-gray-200 transition-colors">Apply</button>
+                </form>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="glass p-6">
+                    <div className="text-xs uppercase tracking-widest text-foreground/40 mb-2">Cost</div>
+                    <div className="text-3xl font-bold text-white">{formatUsd(summary.totals.costUsd)}</div>
+                    {summary.unpricedCalls > 0 && (
+                        <p className="text-xs text-yellow-400/80 mt-2">
+                            {summary.unpricedCalls} calls to models without a price are not included (set them in AI_PRICE_TABLE)
+                        </p>
+                    )}
+                </div>
+                <div className="glass p-6">
+                    <div className="text-xs uppercase tracking-widest text-foreground/40 mb-2">Calls</div>
+                    <div className="text-3xl font-bold text-white">{formatTokens(summary.calls)}</div>
+                </div>
+                <div className="glass p-6">
+                    <div className="text-xs uppercase tracking-widest text-foreground/40 mb-2">Tokens</div>
+                    <div className="text-3xl font-bold text-white">{formatTokens(summary.totals.promptTokens + summary.totals.completionTokens)}</div>
+                    <p className="text-xs text-foreground/40 mt-2">
+                        {formatTokens(summary.totals.promptTokens)} prompt · {formatTokens(summary.totals.completionTokens)} completion
+                    </p>
+                </div>
+            </div>
+
+            <section className="glass p-6">
+                <h2 className="text-lg font-bold text-white mb-4">By Project</h2>
+                {summary.byProject.length === 0 ? (
+                    <p className="text-sm text-foreground/40">No AI calls in this period.</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead className="text-left text-foreground/40">
+                            <tr>
+                                <th className="pb-2 font-medium">Project</th>
+                                <th className="pb-2 font-medium text-right">Calls</th>
+                                <th className="pb-2 font-medium text-right">Tokens</th>
+                                <th className="pb-2 font-medium text-right">Cost</th>
+                                <th className="pb-2 font-medium text-right">Monthly Cap</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/5">
+                            {summary.byProject.map((group) => {
+                                const project = projectById.get(group.key)
+                                const capUsed = project?.spendCapUsd ? (project.monthToDateUsd ?? 0) / project.spendCapUsd : null
+                                return (
+                                    <tr key={group.key}>
+                                        <td className="py-2 text-white">
+                                            {project ? (
+                                                <Link href={`/dashboard/project/${project.id}`} className="hover:text-accent transition-colors">{project.name}</Link>
+                                            ) : (
+                                                <span className="text-foreground/40 italic">{group.key === 'none' ? 'No project' : 'Deleted project'}</span>
+                                            )}
+                                        </td>
+                                        <td className="py-2 text-right">{formatTokens(group.calls)}</td>
+                                        <td className="py-2 text-right">{formatTokens(group.promptTokens + group.completionTokens)}</td>
+                                        <td className="py-2 text-right text-white">{formatUsd(group.costUsd)}</td>
+                                        <td className={`py-2 text-right ${capUsed !== null && capUsed >= 1 ? 'text-red-400' : capUsed !== null && capUsed >= 0.8 ? 'text-yellow-400' : 'text-foreground/50'}`}>
+                                            {project?.spendCapUsd != null
+                                                ? `${formatUsd(project.monthToDateUsd ?? 0)} of ${formatUsd(project.spendCapUsd)}`
+                                                : '—'}
+                                        </td>
+                                    </tr>
+                                )
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <section className="glass p-6">
+                    <h2 className="text-lg font-bold text-white mb-4">By Model</h2>
+                    <table className="w-full text-sm">
+                        <tbody className="divide-y divide-white/5">
+                            {summary.byModel.map((group) => (
+                                <tr key={group.key}>
+                                    <td className="py-2 font-mono text-xs text-foreground/70">{group.key}</td>
+                                    <td className="py-2 text-right">{formatTokens(group.calls)} calls</td>
+                                    <td className="py-2 text-right text-white">{formatUsd(group.costUsd)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+
+                <section className="glass p-6">
+                    <h2 className="text-lg font-bold text-white mb-4">By Day</h2>
+                    <div className="space-y-1">
+                        {summary.byDay.map((group) => (
+                            <div key={group.key} className="flex items-center gap-3 text-xs">
+                                <span className="w-20 font-mono text-foreground/50">{group.key.slice(5)}</span>
+                                <div className="flex-1 h-2 bg-white/5 rounded">
+                                    <div className="h-2 bg-accent rounded" style={{ width: `${busiestDay > 0 ? (group.costUsd / busiestDay) * 100 : 0}%` }} />
+                                </div>
+                                <span className="w-20 text-right text-white">{formatUsd(group.costUsd)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            </div>
+        </div>
+    )
+}
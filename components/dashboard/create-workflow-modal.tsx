@@ -3,19 +3,21 @@
 /**
  * Create Workflow Modal
  * 
- * Allows users to create workflows from templates or start blank.
+ * Allows users to create workflows from templates (built-in or saved by their organization),
+ * start blank, or import an exported document.
  * Follows constitution: human-friendly, modular UI components.
  */
 
-import { useState, useTransition } from 'react'
-import { X, Loader2, Clock, Zap } from 'lucide-react'
+import { useState, useTransition, useEffect } from 'react'
+import { X, Loader2, Clock, Zap, Upload } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import {
     WORKFLOW_TEMPLATES,
     CATEGORY_LABELS,
     type WorkflowTemplate
 } from '@/lib/workflows/templates'
-import { createWorkflowFromTemplateAction, createBlankWorkflowAction } from '@/app/actions/manage-workflows'
+import { createWorkflowFromTemplateAction, createBlankWorkflowAction, importWorkflowAction } from '@/app/actions/manage-workflows'
+import { listOrganizationTemplatesAction } from '@/app/actions/workflow-templates'
 
 interface CreateWorkflowModalProps {
     projectId: string
@@ -32,11 +34,20 @@ export default function CreateWorkflowModal({
 }: CreateWorkflowModalProps) {
     const [selectedTemplate, setSelectedTemplate] = useState<WorkflowTemplate | null>(null)
     const [workflowName, setWorkflowName] = useState('')
-    const [step, setStep] = useState<'select' | 'name'>('select')
+    const [step, setStep] = useState<'select' | 'name' | 'import'>('select')
+    const [documentSource, setDocumentSource] = useState('')
     const [isPending, startTransition] = useTransition()
     const [error, setError] = useState<string | null>(null)
+    const [savedTemplates, setSavedTemplates] = useState<WorkflowTemplate[]>([])
     const router = useRouter()
 
+    // Templates saved by the organization are listed first; built-ins still work if they fail to load
+    useEffect(() => {
+        listOrganizationTemplatesAction()
+            .then(setSavedTemplates)
+            .catch(() => setSavedTemplates([]))
+    }, [])
+
     // Filter templates for this platform (twitter for now, could be dynamic)
     const relevantTemplates = WORKFLOW_TEMPLATES.filter(
         t => t.platform === 'twitter' || t.platform === 'all'
@@ -49,6 +60,11 @@ export default function CreateWorkflowModal({
         return acc
     }, {} as Record<string, WorkflowTemplate[]>)
 
+    const sections = [
+        ...(savedTemplates.length > 0 ? [['saved', savedTemplates] as const] : []),
+        ...Object.entries(grouped),
+    ]
+
     const handleSelectTemplate = (template: WorkflowTemplate) => {
         setSelectedTemplate(template)
         setWorkflowName(template.name)
@@ -86,9 +102,32 @@ export default function CreateWorkflowModal({
         })
     }
 
+    const handleImport = () => {
+        if (!documentSource.trim()) {
+            setError('Paste or upload a workflow document')
+            return
+        }
+
+        setError(null)
+        startTransition(async () => {
+            try {
+                await importWorkflowAction(projectId, pillarId, documentSource, workflowName.trim() || undefined)
+                router.refresh()
+                onClose()
+            } catch (e: any) {
+                setError(e.message || 'Failed to import workflow')
+            }
+        })
+    }
+
+    const handleFile = async (file: File | undefined) => {
+        if (file) setDocumentSource(await file.text())
+    }
+
     const handleBack = () => {
         setStep('select')
         setSelectedTemplate(null)
+        setWorkflowName('')
         setError(null)
     }
 
@@ -99,7 +138,7 @@ export default function CreateWorkflowModal({
                 <div className="flex items-center justify-between p-4 border-b border-white/10">
                     <div>
                         <h2 className="text-lg font-bold">
-                            {step === 'select' ? 'Create New Workflow' : 'Name Your Workflow'}
+                            {step === 'select' ? 'Create New Workflow' : step === 'import' ? 'Import Workflow' : 'Name Your Workflow'}
                         </h2>
                         <p className="text-xs text-foreground/50">
                             {pillarName}
@@ -117,10 +156,10 @@ export default function CreateWorkflowModal({
                 <div className="p-4 overflow-y-auto max-h-[60vh]">
                     {step === 'select' ? (
                         <div className="space-y-6">
-                            {Object.entries(grouped).map(([category, templates]) => (
+                            {sections.map(([category, templates]) => (
                                 <div key={category}>
                                     <h3 className="text-sm font-bold text-foreground/70 mb-3">
-                                        {CATEGORY_LABELS[category] || category}
+                                        {category === 'saved' ? '🏢 Your Templates' : CATEGORY_LABELS[category] || category}
                                     </h3>
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                                         {templates.map((template) => (
@@ -134,6 +173,9 @@ export default function CreateWorkflowModal({
                                                     <div className="flex-1 min-w-0">
                                                         <div className="font-bold text-sm group-hover:text-accent transition-colors">
                                                             {template.name}
+                                                            {template.version && (
+                                                                <span className="ml-2 text-[10px] font-mono text-foreground/40">v{template.version}</span>
+                                                            )}
                                                         </div>
                                                         <div className="text-xs text-foreground/50 mt-1 line-clamp-2">
                                                             {template.description}
@@ -158,6 +200,45 @@ export default function CreateWorkflowModal({
                                 </div>
                             ))}
                         </div>
+                    ) : step === 'import' ? (
+                        <div className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-2">
+                                    Workflow Document (YAML or JSON)
+                                </label>
+                                <textarea
+                                    value={documentSource}
+                                    onChange={(e) => setDocumentSource(e.target.value)}
+                                    placeholder={'format: launchgrid.workflow\nversion: 1\nworkflow:\n  name: ...\nsteps:\n  - key: ...'}
+                                    rows={10}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg font-mono text-xs focus:border-accent focus:ring-1 focus:ring-accent outline-none transition-colors"
+                                />
+                                <input
+                                    type="file"
+                                    accept=".yaml,.yml,.json"
+                                    onChange={(e) => handleFile(e.target.files?.[0])}
+                                    className="mt-2 text-xs text-foreground/50"
+                                />
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">
+                                    Workflow Name <span className="text-foreground/40">(optional, defaults to the document&apos;s)</span>
+                                </label>
+                                <input
+                                    type="text"
+                                    value={workflowName}
+                                    onChange={(e) => setWorkflowName(e.target.value)}
+                                    className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg focus:border-accent focus:ring-1 focus:ring-accent outline-none transition-colors"
+                                />
+                            </div>
+
+                            {error && (
+                                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+                                    {error}
+                                </div>
+                            )}
+                        </div>
                     ) : (
                         <div className="space-y-4">
                             {/* Selected template preview */}
@@ -211,7 +292,30 @@ export default function CreateWorkflowModal({
 
                 {/* Footer */}
                 <div className="flex items-center justify-between p-4 border-t border-white/10 bg-white/5">
-                    {step === 'name' ? (
+                    {step === 'import' ? (
+                        <>
+                            <button
+                                onClick={handleBack}
+                                className="px-4 py-2 text-sm text-foreground/70 hover:text-white transition-colors"
+                            >
+                                ← Back
+                            </button>
+                            <button
+                                onClick={handleImport}
+                                disabled={isPending || !documentSource.trim()}
+                                className="px-6 py-2 bg-accent hover:bg-accent/80 text-white font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                            >
+                                {isPending ? (
+                                    <>
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                        Importing...
+                                    </>
+                                ) : (
+                                    'Import Workflow'
+                                )}
+                            </button>
+                        </>
+                    ) : step === 'name' ? (
                         <>
                             <button
                                 onClick={handleBack}
@@ -235,8 +339,15 @@ export default function CreateWorkflowModal({
                             </button>
                         </>
                     ) : (
-                        <div className="w-full text-center text-xs text-foreground/40">
-                            Select a template to get started
+                        <div className="w-full flex items-center justify-between text-xs text-foreground/40">
+                            <span>Select a template to get started</span>
+                            <button
+                                onClick={() => { setStep('import'); setError(null) }}
+                                className="flex items-center gap-1 hover:text-white transition-colors"
+                            >
+                                <Upload className="w-3 h-3" />
+                                Import from file
+                            </button>
                         </div>
                     )}
                 </div>
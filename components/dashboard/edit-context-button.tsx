@@ -82,13 +82,43 @@ export default function EditContextButton({ project }: { project: any }) {
                                     <input type="number" name="budget" defaultValue={project.context?.budget} required min="0" className="w-full bg-white/5 border border-white/10 rounded-lg p-3 text-white focus:outline-none focus:border-accent transition-colors" />
                                 </div>
 
+                                <div>
+                                    <label className="block text-sm font-medium mb-1 text-foreground/70">Brand Colours</label>
+                                    <input name="brandColors" defaultValue={project.context?.brandColors?.join(', ')} placeholder="#3b82f6, #0f172a" className="w-full bg-white/5 border border-white/10 rounded-lg p-3 text-white focus:outline-none focus:border-accent transition-colors" />
+                                    <p className="text-xs text-foreground/40 mt-1">Hex colours used for generated images, most prominent first</p>
+                                </div>
+
                                 <div>
                                     <label className="block text-sm font-medium mb-1 text-foreground/70">AI Intelligence Provider</label>
                                     <select name="aiProvider" defaultValue={project.context?.aiProvider || 'gemini'} className="w-full bg-white/5 border border-white/10 rounded-lg p-3 text-white focus:outline-none focus:border-accent transition-colors">
                                         <option value="gemini" className="bg-black">Google Gemini 2.0 (Fast & Free)</option>
                                         <option value="openai" className="bg-black">OpenAI GPT-4o (High Precision)</option>
+                                        <option value="anthropic" className="bg-black">Anthropic Claude Sonnet (Long-form Writing)</option>
+                                        <option value="local" className="bg-black">Self-hosted Model (OpenAI-compatible)</option>
                                     </select>
                                 </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium mb-1 text-foreground/70">Fallback Providers</label>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {[0, 1].map((i) => (
+                                            <select key={i} name="aiFallbackProviders" defaultValue={project.context?.aiFallbackProviders?.[i] || ''} className="w-full bg-white/5 border border-white/10 rounded-lg p-3 text-white focus:outline-none focus:border-accent transition-colors">
+                                                <option value="" className="bg-black">{i === 0 ? 'No fallback' : 'No second fallback'}</option>
+                                                <option value="gemini" className="bg-black">Google Gemini 2.0</option>
+                                                <option value="openai" className="bg-black">OpenAI GPT-4o</option>
+                                                <option value="anthropic" className="bg-black">Anthropic Claude Sonnet</option>
+                                                <option value="local" className="bg-black">Self-hosted Model</option>
+                                            </select>
+                                        ))}
+                                    </div>
+                                    <p className="text-xs text-foreground/40 mt-1">Tried in order when the main provider is rate limited, down or rejects the key</p>
+                                </div>
+
+                                <div>
+                                    <label className="block text-sm font-medium mb-1 text-foreground/70">Monthly AI Spend Cap (USD)</label>
+                                    <input type="number" name="aiSpendCapUsd" defaultValue={project.context?.aiSpendCapUsd ?? ''} min="0" step="0.01" placeholder="No cap" className="w-full bg-white/5 border border-white/10 rounded-lg p-3 text-white focus:outline-none focus:border-accent transition-colors" />
+                                    <p className="text-xs text-foreground/40 mt-1">AI steps stop with an error once the project&apos;s AI calls cost this much in a month. Leave empty for no cap.</p>
+                                </div>
                             </div>
 
                             <div className="flex justify-end gap-3 pt-4 border-t border-white/5">
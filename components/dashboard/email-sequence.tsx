@@ -0,0 +1,91 @@
+'use client'
+
+/**
+ * Email Sequence
+ *
+ * The emails of an EMAIL_SEQ step in send order. Once the sequence is approved, each
+ * email shows when it is due and what happened to every recipient (sent, bounced, deferred).
+ */
+
+import { CheckCircle, AlertCircle, Clock, Loader2 } from 'lucide-react'
+
+interface EmailSequenceProps {
+    emails: Array<{
+        subject: string
+        preheader?: string
+        body: string
+        sendDelayHours?: number
+    }>
+    segment?: string
+    recipients?: string[]
+    schedule?: Array<{ index: number; sendAt: string }>
+    items?: Array<{
+        item_index: number
+        status: string
+        output_data?: any
+        error_message?: string | null
+    }>
+}
+
+const DELIVERY_COLORS: Record<string, string> = {
+    sent: 'text-green-400',
+    bounced: 'text-red-400',
+    deferred: 'text-amber-400',
+}
+
+function SendStatusIcon({ status }: { status?: string }) {
+    if (status === 'completed') return <CheckCircle className="w-3 h-3 text-green-400" />
+    if (status === 'failed') return <AlertCircle className="w-3 h-3 text-red-400" />
+    if (status === 'in_progress') return <Loader2 className="w-3 h-3 text-blue-400 animate-spin" />
+    return <Clock className="w-3 h-3 text-foreground/30" />
+}
+
+function formatDelay(hours: number) {
+    if (hours === 0) return 'right away'
+    if (hours % 24 === 0) return `+${hours / 24}d`
+    return `+${hours}h`
+}
+
+export default function EmailSequence({ emails, segment, recipients, schedule, items }: EmailSequenceProps) {
+    return (
+        <div className="space-y-2">
+            <div className="text-[10px] font-bold text-foreground/50 uppercase">
+                {segment ? `Segment: ${segment}` : 'Email sequence'} · {recipients?.length || 0} recipient{recipients?.length === 1 ? '' : 's'}
+            </div>
+            {emails.map((email, index) => {
+                const item = items?.find((i) => i.item_index === index)
+                const sendAt = schedule?.find((s) => s.index === index)?.sendAt
+                const deliveries: Array<{ recipient: string; status: string; response?: string }> = item?.output_data?.deliveries || []
+
+                return (
+                    <div key={index} className="rounded border border-white/10 p-2">
+                        <div className="flex items-center gap-2 text-xs">
+                            {item && <SendStatusIcon status={item.status} />}
+                            <span className="font-medium flex-1 truncate">{email.subject}</span>
+                            <span className="text-foreground/40 shrink-0">
+                                {sendAt ? new Date(sendAt).toLocaleString() : formatDelay(email.sendDelayHours || 0)}
+                            </span>
+                        </div>
+                        {email.preheader && (
+                            <div className="text-[10px] text-foreground/40 mt-0.5 truncate">{email.preheader}</div>
+                        )}
+                        <div className="text-xs text-foreground/70 mt-1 whitespace-pre-wrap">{email.body}</div>
+                        {item?.error_message && (
+                            <div className="text-[10px] text-red-400 mt-1">{item.error_message}</div>
+                        )}
+                        {deliveries.length > 0 && (
+                            <div className="mt-1 space-y-0.5">
+                                {deliveries.map((delivery) => (
+                                    <div key={delivery.recipient} className="text-[10px] text-foreground/40 truncate" title={delivery.response}>
+                                        <span className={DELIVERY_COLORS[delivery.status] || ''}>{delivery.status}</span>
+                                        {' · '}{delivery.recipient}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+/**
+ * FOR_EACH Items
+ *
+ * Per-item results of a FOR_EACH step, with approve / reject for items awaiting review.
+ */
+
+import { useTransition } from 'react'
+import { CheckCircle, AlertCircle, Clock, Loader2, ThumbsUp, XCircle } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { decideTaskItemAction } from '@/app/actions/execute-workflow'
+import ContentPreview from './content-preview'
+
+interface ForEachItemsProps {
+    items: Array<{
+        id: string
+        item_index: number
+        status: string
+        output_data?: any
+        error_message?: string | null
+    }>
+    onError: (message: string) => void
+}
+
+function ItemStatusIcon({ status }: { status: string }) {
+    if (status === 'completed') return <CheckCircle className="w-3 h-3 text-green-400" />
+    if (status === 'failed') return <AlertCircle className="w-3 h-3 text-red-400" />
+    if (status === 'rejected') return <XCircle className="w-3 h-3 text-foreground/40" />
+    if (status === 'review_needed') return <AlertCircle className="w-3 h-3 text-amber-400" />
+    if (status === 'in_progress') return <Loader2 className="w-3 h-3 text-blue-400 animate-spin" />
+    return <Clock className="w-3 h-3 text-foreground/30" />
+}
+
+export default function ForEachItems({ items, onError }: ForEachItemsProps) {
+    const [isPending, startTransition] = useTransition()
+    const router = useRouter()
+
+    const decide = (itemId: string, decision: 'approve' | 'reject') => {
+        startTransition(async () => {
+            try {
+                await decideTaskItemAction(itemId, decision)
+                router.refresh()
+            } catch (err: any) {
+                onError(err.message || `Failed to ${decision} item`)
+            }
+        })
+    }
+
+    const sorted = [...items].sort((a, b) => a.item_index - b.item_index)
+
+    return (
+        <div className="space-y-2">
+            {sorted.map((item) => (
+                <div key={item.id} className="rounded border border-white/10 p-2">
+                    <div className="flex items-center gap-2 text-xs">
+                        <ItemStatusIcon status={item.status} />
+                        <span className="font-medium">Item {item.item_index + 1}</span>
+                        <span className="text-foreground/40 flex-1 truncate">
+                            {item.status === 'failed' ? item.error_message : item.status.replace('_', ' ')}
+                        </span>
+                        {item.status === 'review_needed' && (
+                            <>
+                                <button
+                                    onClick={() => decide(item.id, 'approve')}
+                                    disabled={isPending}
+                                    className="px-2 py-0.5 bg-green-500/20 hover:bg-green-500/40 text-green-400 rounded transition-colors flex items-center gap-1"
+                                >
+                                    <ThumbsUp className="w-3 h-3" /> Approve
+                                </button>
+                                <button
+                                    onClick={() => decide(item.id, 'reject')}
+                                    disabled={isPending}
+                                    className="px-2 py-0.5 bg-red-500/10 hover:bg-red-500/30 text-red-400 rounded transition-colors"
+                                    title="Reject this item"
+                                >
+                                    <XCircle className="w-3 h-3" />
+                                </button>
+                            </>
+                        )}
+                    </div>
+                    {item.output_data && Object.keys(item.output_data).length > 0 && (
+                        <ContentPreview content={item.output_data.replies || item.output_data.content || item.output_data} />
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+/**
+ * Hook Picker
+ *
+ * Hook variants from a GENERATE_HOOKS step. While the step is in review, picking one
+ * approves it and the following draft opens with that hook.
+ */
+
+import { useTransition } from 'react'
+import { CheckCircle, Loader2 } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { selectHookAction } from '@/app/actions/execute-workflow'
+
+interface HookPickerProps {
+    taskId: string
+    hooks: Array<{
+        hook: string
+        rationale?: string
+        archetype?: string
+    }>
+    selectedHook?: string
+    canPick: boolean
+    onError: (message: string) => void
+}
+
+export default function HookPicker({ taskId, hooks, selectedHook, canPick, onError }: HookPickerProps) {
+    const [isPending, startTransition] = useTransition()
+    const router = useRouter()
+
+    const pick = (index: number) => {
+        startTransition(async () => {
+            try {
+                await selectHookAction(taskId, index)
+                router.refresh()
+            } catch (err: any) {
+                onError(err.message || 'Failed to select hook')
+            }
+        })
+    }
+
+    return (
+        <div className="space-y-2">
+            {canPick && (
+                <div className="text-[10px] font-bold text-foreground/50 uppercase">
+                    Pick the hook the draft should open with
+                </div>
+            )}
+            {hooks.map((variant, index) => {
+                const isSelected = variant.hook === selectedHook
+
+                return (
+                    <div
+                        key={index}
+                        className={`rounded border p-2 ${isSelected ? 'border-accent/60 bg-accent/10' : 'border-white/10'}`}
+                    >
+                        <div className="flex items-start gap-2">
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm">{variant.hook}</div>
+                                <div className="text-[10px] text-foreground/40 mt-1">
+                                    {variant.archetype && (
+                                        <span className="px-1.5 py-0.5 bg-white/10 rounded-full mr-1">
+                                            {variant.archetype.replace('_', ' ')}
+                                        </span>
+                                    )}
+                                    {variant.rationale}
+                                </div>
+                            </div>
+                            {canPick ? (
+                                <button
+                                    onClick={() => pick(index)}
+                                    disabled={isPending}
+                                    className="px-2 py-1 bg-green-500/20 hover:bg-green-500/40 text-green-400 text-xs font-medium rounded transition-colors disabled:opacity-50 flex items-center gap-1 shrink-0"
+                                    title="Use this hook"
+                                >
+                                    {isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <CheckCircle className="w-3 h-3" />}
+                                    Use
+                                </button>
+                            ) : isSelected && (
+                                <CheckCircle className="w-4 h-4 text-accent shrink-0" />
+                            )}
+                        </div>
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
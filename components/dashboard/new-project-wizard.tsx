@@ -68,6 +68,8 @@ export default function NewProjectWizard() {
                             <select name="aiProvider" className="w-full bg-black/40 border border-white/10 rounded-lg p-3 text-white focus:border-accent focus:ring-1 focus:ring-accent transition-all">
                                 <option value="gemini">Google Gemini 2.0 (Fast & Free)</option>
                                 <option value="openai">OpenAI GPT-4o (High Precision)</option>
+                                <option value="anthropic">Anthropic Claude Sonnet (Long-form Writing)</option>
+                                <option value="local">Self-hosted Model (OpenAI-compatible)</option>
                             </select>
                         </div>
                     </div>
@@ -24,6 +24,10 @@ interface PillarWorkflowsSectionProps {
         name: string
         description?: string
         status?: string
+        config?: {
+            templateId?: string
+            templateVersion?: number
+        }
         steps?: Array<{
             id: string
             type: string
@@ -37,6 +41,8 @@ interface PillarWorkflowsSectionProps {
         }>
     }>
     projectId: string
+    // Latest version of each organization template, by template ID
+    templateVersions?: Record<string, number>
 }
 
 const PILLAR_ICONS: Record<string, string> = {
@@ -52,6 +58,7 @@ export default function PillarWorkflowsSection({
     pillars,
     workflows,
     projectId,
+    templateVersions = {},
 }: PillarWorkflowsSectionProps) {
     const [modalOpen, setModalOpen] = useState(false)
     const [selectedPillar, setSelectedPillar] = useState<{ id: string, name: string } | null>(null)
@@ -110,6 +117,7 @@ export default function PillarWorkflowsSection({
                                                 key={wf.id}
                                                 workflow={wf}
                                                 projectId={projectId}
+                                                latestTemplateVersion={wf.config?.templateId ? templateVersions[wf.config.templateId] : undefined}
                                             />
                                         ))}
                                     </div>
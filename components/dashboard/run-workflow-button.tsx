@@ -29,7 +29,7 @@ export default function RunWorkflowButton({ workflowId }: { workflowId: string }
     if (status === 'done') {
         return (
             <button className="flex items-center gap-2 text-xs font-bold uppercase tracking-widest text-green-400 cursor-default">
-                <CheckCircle className="w-3 h-3" /> Done
+                <CheckCircle className="w-3 h-3" /> Queued
             </button>
         )
     }
@@ -0,0 +1,169 @@
+'use client'
+
+/**
+ * Save Template Form
+ *
+ * Saves a workflow as an organization template, or as the next version of the
+ * template it was created from.
+ */
+
+import { useState, useTransition } from 'react'
+import { Loader2, BookmarkPlus, ArrowUpCircle } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { saveWorkflowAsTemplateAction, publishTemplateVersionAction } from '@/app/actions/workflow-templates'
+import { CATEGORY_LABELS, type WorkflowTemplate } from '@/lib/workflows/templates'
+
+interface SaveTemplateFormProps {
+    workflow: {
+        id: string
+        name: string
+        description?: string
+    }
+    // The organization template the workflow was created from, if any
+    templateStatus: {
+        templateId: string
+        templateName: string
+        latestVersion: number
+    } | null
+    onSaved: () => void
+}
+
+const PLATFORM_LABELS: Record<WorkflowTemplate['platform'], string> = {
+    all: 'Any platform',
+    twitter: 'X / Twitter',
+    discord: 'Discord',
+    email: 'Email',
+}
+
+export default function SaveTemplateForm({ workflow, templateStatus, onSaved }: SaveTemplateFormProps) {
+    const [name, setName] = useState(workflow.name)
+    const [description, setDescription] = useState(workflow.description || '')
+    const [icon, setIcon] = useState('🧩')
+    const [category, setCategory] = useState<WorkflowTemplate['category']>('custom')
+    const [platform, setPlatform] = useState<WorkflowTemplate['platform']>('all')
+    const [isPending, startTransition] = useTransition()
+    const [error, setError] = useState<string | null>(null)
+    const router = useRouter()
+
+    const handleSave = () => {
+        setError(null)
+        startTransition(async () => {
+            try {
+                await saveWorkflowAsTemplateAction({
+                    workflowId: workflow.id,
+                    name: name.trim(),
+                    description: description.trim() || undefined,
+                    icon: icon.trim() || undefined,
+                    category,
+                    platform,
+                })
+                router.refresh()
+                onSaved()
+            } catch (e: any) {
+                setError(e.message || 'Failed to save template')
+            }
+        })
+    }
+
+    const handlePublish = () => {
+        if (!templateStatus) return
+        setError(null)
+        startTransition(async () => {
+            try {
+                await publishTemplateVersionAction(templateStatus.templateId, workflow.id)
+                router.refresh()
+                onSaved()
+            } catch (e: any) {
+                setError(e.message || 'Failed to publish template version')
+            }
+        })
+    }
+
+    return (
+        <div className="space-y-4">
+            {templateStatus && (
+                <div className="p-4 bg-accent/10 border border-accent/20 rounded-lg flex items-center justify-between gap-3">
+                    <div className="text-sm">
+                        Created from <span className="font-bold">{templateStatus.templateName}</span>.
+                        <span className="text-foreground/50"> Publish this workflow as version {templateStatus.latestVersion + 1}?</span>
+                    </div>
+                    <button
+                        onClick={handlePublish}
+                        disabled={isPending}
+                        className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-white text-xs font-bold rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1 shrink-0"
+                    >
+                        <ArrowUpCircle className="w-3 h-3" /> Publish v{templateStatus.latestVersion + 1}
+                    </button>
+                </div>
+            )}
+
+            <div className="text-xs font-bold text-foreground/50 uppercase">
+                {templateStatus ? 'Or save as a new template' : 'Save as a template for your organization'}
+            </div>
+
+            <div className="grid grid-cols-[4rem_1fr] gap-3">
+                <input
+                    type="text"
+                    value={icon}
+                    onChange={(e) => setIcon(e.target.value)}
+                    maxLength={16}
+                    className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-center text-xl focus:border-accent outline-none"
+                    title="Icon"
+                />
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Template name"
+                    className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg focus:border-accent focus:ring-1 focus:ring-accent outline-none transition-colors"
+                />
+            </div>
+
+            <textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What is this template for?"
+                rows={2}
+                className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-sm focus:border-accent focus:ring-1 focus:ring-accent outline-none transition-colors"
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+                <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value as WorkflowTemplate['category'])}
+                    className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm outline-none"
+                >
+                    {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                <select
+                    value={platform}
+                    onChange={(e) => setPlatform(e.target.value as WorkflowTemplate['platform'])}
+                    className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm outline-none"
+                >
+                    {Object.entries(PLATFORM_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            <div className="flex justify-end">
+                <button
+                    onClick={handleSave}
+                    disabled={isPending || name.trim().length < 2}
+                    className="px-4 py-2 bg-white/10 hover:bg-white/20 text-sm font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                >
+                    {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <BookmarkPlus className="w-4 h-4" />}
+                    Save Template
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -16,6 +16,11 @@ interface WorkflowCardProps {
         name: string
         description?: string
         status?: string
+        config?: {
+            templateId?: string
+            templateVersion?: number
+            autoAdvance?: boolean
+        }
         steps?: Array<{
             id: string
             type: string
@@ -24,27 +29,44 @@ interface WorkflowCardProps {
                 id: string
                 status: string
                 created_at: string
+                run_id?: string | null
                 output_data?: any
             }>
         }>
     }
     projectId: string
+    latestTemplateVersion?: number // of the organization template the workflow was created from
 }
 
-// Calculate workflow progress from steps/tasks
+type CardStep = NonNullable<WorkflowCardProps['workflow']['steps']>[number]
+
+// The current run is the one the most recent task belongs to
+function getCurrentRunId(steps: CardStep[]) {
+    return steps
+        .flatMap(step => step.tasks || [])
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]?.run_id
+}
+
+function getLatestTask(step: CardStep, runId?: string | null) {
+    return step.tasks
+        ?.filter(t => !runId || t.run_id === runId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]
+}
+
+// Calculate workflow progress from the current run's tasks
 function getWorkflowStatus(workflow: WorkflowCardProps['workflow']) {
     const steps = workflow.steps || []
     if (steps.length === 0) return { status: 'empty', label: 'No steps', color: 'text-foreground/40' }
 
+    const runId = getCurrentRunId(steps)
+
     const totalSteps = steps.length
     let completedSteps = 0
     let needsReview = false
     let inProgress = false
 
     for (const step of steps) {
-        const latestTask = step.tasks?.sort((a, b) =>
-            new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-        )?.[0]
+        const latestTask = getLatestTask(step, runId)
 
         if (latestTask?.status === 'completed' || latestTask?.status === 'review_needed') {
             completedSteps++
@@ -72,10 +94,12 @@ function getWorkflowStatus(workflow: WorkflowCardProps['workflow']) {
     return { status: 'ready', label: 'Ready to run', color: 'text-foreground/50', icon: Play }
 }
 
-export default function WorkflowCard({ workflow, projectId }: WorkflowCardProps) {
+export default function WorkflowCard({ workflow, projectId, latestTemplateVersion }: WorkflowCardProps) {
     const [modalOpen, setModalOpen] = useState(false)
+    const isTemplateOutdated = !!latestTemplateVersion && (workflow.config?.templateVersion || 1) < latestTemplateVersion
     const statusInfo = getWorkflowStatus(workflow)
     const StatusIcon = statusInfo.icon || Clock
+    const currentRunId = getCurrentRunId(workflow.steps || [])
 
     return (
         <>
@@ -93,6 +117,11 @@ export default function WorkflowCard({ workflow, projectId }: WorkflowCardProps)
                                 {workflow.description}
                             </div>
                         )}
+                        {isTemplateOutdated && (
+                            <div className="text-[10px] text-amber-400 mt-0.5">
+                                Template v{latestTemplateVersion} available
+                            </div>
+                        )}
                     </div>
                     <div className={`flex items-center gap-1.5 text-xs ${statusInfo.color} shrink-0`}>
                         <StatusIcon className={`w-3 h-3 ${statusInfo.status === 'running' ? 'animate-spin' : ''}`} />
@@ -104,9 +133,7 @@ export default function WorkflowCard({ workflow, projectId }: WorkflowCardProps)
                 {workflow.steps && workflow.steps.length > 0 && (
                     <div className="mt-2 flex gap-0.5">
                         {workflow.steps.sort((a, b) => a.position - b.position).map((step) => {
-                            const latestTask = step.tasks?.sort((a, b) =>
-                                new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-                            )?.[0]
+                            const latestTask = getLatestTask(step, currentRunId)
 
                             let bgColor = 'bg-white/10' // not started
 
@@ -7,13 +7,20 @@
  */
 
 import { useState, useTransition, useEffect } from 'react'
-import { X, Play, Loader2, CheckCircle, AlertCircle, Clock, Trash2, Settings, ChevronDown, ChevronRight, RotateCcw, ThumbsUp, XCircle } from 'lucide-react'
+import { X, Play, Loader2, CheckCircle, AlertCircle, Clock, Trash2, Settings, ChevronDown, ChevronRight, RotateCcw, ThumbsUp, XCircle, History, Download, BookmarkPlus, GitBranch, FlaskConical, FastForward } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { executeWorkflowAction, rerunStepAction, approveTaskAction, cancelTaskAction } from '@/app/actions/execute-workflow'
-import { deleteWorkflowAction } from '@/app/actions/manage-workflows'
+import { deleteWorkflowAction, exportWorkflowAction, setWorkflowAutoAdvanceAction } from '@/app/actions/manage-workflows'
+import { getWorkflowTemplateStatusAction } from '@/app/actions/workflow-templates'
 import WorkflowEditor from './workflow-editor'
+import WorkflowRunHistory from './workflow-run-history'
 import ContentPreview from './content-preview'
+import ForEachItems from './for-each-items'
+import HookPicker from './hook-picker'
+import EmailSequence from './email-sequence'
 import TaskContentEditor from './task-content-editor'
+import SaveTemplateForm from './save-template-form'
+import WorkflowVersions from './workflow-versions'
 
 interface WorkflowDetailModalProps {
     workflow: {
@@ -21,6 +28,9 @@ interface WorkflowDetailModalProps {
         name: string
         description?: string
         status?: string
+        config?: {
+            autoAdvance?: boolean
+        }
         steps?: Array<{
             id: string
             type: string
@@ -29,7 +39,15 @@ interface WorkflowDetailModalProps {
                 id: string
                 status: string
                 created_at: string
+                run_id?: string | null
                 output_data?: any
+                task_items?: Array<{
+                    id: string
+                    item_index: number
+                    status: string
+                    output_data?: any
+                    error_message?: string | null
+                }>
             }>
         }>
     }
@@ -41,6 +59,7 @@ const STEP_LABELS: Record<string, string> = {
     'GENERATE_DRAFT': '✍️ Generate Content',
     'GENERATE_OUTLINE': '📝 Generate Outline',
     'GENERATE_HOOKS': '🪝 Generate Hooks',
+    'GENERATE_IMAGE': '🖼️ Generate Image',
     'SCAN_FEED': '🔍 Scan Feed',
     'SELECT_TARGETS': '🎯 Select Targets',
     'GENERATE_REPLIES': '🗣️ Draft Replies',
@@ -49,6 +68,21 @@ const STEP_LABELS: Record<string, string> = {
     'POST_EXTENSION': '📤 Publish (Extension)',
     'POST_REPLY': '↩️ Post Reply',
     'TRACK_ENGAGEMENT': '📊 Track Engagement',
+    'EMAIL_SEQ': '📧 Email Sequence',
+    'COMMUNITY_SYNC': '💬 Community Sync',
+    'CONDITION': '🔀 Condition',
+    'FOR_EACH': '🔁 For Each',
+    'RUN_WORKFLOW': '▶️ Run Workflow',
+    'CUSTOM': '🧩 Custom Script',
+}
+
+type ModalStep = NonNullable<WorkflowDetailModalProps['workflow']['steps']>[number]
+
+// Latest task of a step within one run (all runs if the tasks predate runs)
+function getLatestRunTask(step: ModalStep, runId?: string | null) {
+    return step.tasks
+        ?.filter(t => !runId || t.run_id === runId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]
 }
 
 export default function WorkflowDetailModal({
@@ -59,18 +93,34 @@ export default function WorkflowDetailModal({
     const [isPending, startTransition] = useTransition()
     const [isDeleting, setIsDeleting] = useState(false)
     const [showEditor, setShowEditor] = useState(false)
+    const [showHistory, setShowHistory] = useState(false)
+    const [showSaveTemplate, setShowSaveTemplate] = useState(false)
+    const [showVersions, setShowVersions] = useState(false)
+    const [templateStatus, setTemplateStatus] = useState<Awaited<ReturnType<typeof getWorkflowTemplateStatusAction>>>(null)
     const [expandedSteps, setExpandedSteps] = useState<Set<string>>(new Set())
     const [error, setError] = useState<string | null>(null)
     const router = useRouter()
 
     const sortedSteps = workflow.steps?.sort((a, b) => a.position - b.position) || []
 
+    // The current run is the one the most recent task belongs to; earlier runs live in history
+    const currentRunId = sortedSteps
+        .flatMap(step => step.tasks || [])
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]?.run_id
+
+    const getLatestTask = (step: ModalStep) => getLatestRunTask(step, currentRunId)
+
+    // Organization template this workflow was created from, and whether it has a newer version
+    useEffect(() => {
+        getWorkflowTemplateStatusAction(workflow.id)
+            .then(setTemplateStatus)
+            .catch(() => setTemplateStatus(null))
+    }, [workflow.id, showSaveTemplate])
+
     // Polling logic: automatically refresh if any task is in progress
     useEffect(() => {
         const hasActiveTasks = sortedSteps.some(step => {
-            const latestTask = step.tasks?.sort((a, b) =>
-                new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-            )?.[0]
+            const latestTask = getLatestRunTask(step, currentRunId)
             return latestTask && (latestTask.status === 'in_progress' || latestTask.status === 'extension_queued')
         })
 
@@ -80,16 +130,14 @@ export default function WorkflowDetailModal({
             }, 3000) // Poll every 3 seconds
             return () => clearInterval(interval)
         }
-    }, [workflow, sortedSteps, router])
+    }, [workflow, sortedSteps, currentRunId, router])
 
     // Find next step to run
     // BLOCKS on REVIEW_CONTENT steps that need approval
     const getNextStepIndex = () => {
         for (let i = 0; i < sortedSteps.length; i++) {
             const step = sortedSteps[i]
-            const latestTask = step.tasks?.sort((a, b) =>
-                new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-            )?.[0]
+            const latestTask = getLatestTask(step)
 
             // If no task exists, this is the next step
             if (!latestTask || latestTask.status === 'failed') {
@@ -105,6 +153,8 @@ export default function WorkflowDetailModal({
                 latestTask.status === 'review_needed' &&
                 (
                     step.type === 'REVIEW_CONTENT' ||
+                    step.type === 'EMAIL_SEQ' ||
+                    step.type === 'COMMUNITY_SYNC' ||
                     step.type === 'POST_EXTENSION' ||
                     step.type === 'POST_REPLY' ||
                     step.type === 'POST_API'
@@ -148,6 +198,45 @@ export default function WorkflowDetailModal({
         })
     }
 
+    const handleStartNewRun = () => {
+        setError(null)
+        startTransition(async () => {
+            try {
+                await executeWorkflowAction(workflow.id, { newRun: true })
+                router.refresh()
+            } catch (e: any) {
+                setError(e.message || 'Failed to start a new run')
+            }
+        })
+    }
+
+    // Dry run: fake AI, fixture data, nothing posted. Continues the latest simulated run.
+    const handleSimulate = () => {
+        setError(null)
+        startTransition(async () => {
+            try {
+                await executeWorkflowAction(workflow.id, { simulate: true })
+                router.refresh()
+            } catch (e: any) {
+                setError(e.message || 'Failed to simulate workflow')
+            }
+        })
+    }
+
+    // Auto-advance: steps run one after another until a review, approval or extension step
+    const autoAdvance = !!workflow.config?.autoAdvance
+    const handleToggleAutoAdvance = () => {
+        setError(null)
+        startTransition(async () => {
+            try {
+                await setWorkflowAutoAdvanceAction(workflow.id, !autoAdvance)
+                router.refresh()
+            } catch (e: any) {
+                setError(e.message || 'Failed to update auto-advance')
+            }
+        })
+    }
+
     const handleDelete = async () => {
         if (!confirm('Delete this workflow? This cannot be undone.')) return
 
@@ -162,6 +251,21 @@ export default function WorkflowDetailModal({
         }
     }
 
+    // Download the workflow as a YAML document (importable into any project)
+    const handleExport = async () => {
+        try {
+            const { filename, content } = await exportWorkflowAction(workflow.id, 'yaml')
+            const url = URL.createObjectURL(new Blob([content], { type: 'application/yaml' }))
+            const link = document.createElement('a')
+            link.href = url
+            link.download = filename
+            link.click()
+            URL.revokeObjectURL(url)
+        } catch (e: any) {
+            setError(e.message || 'Failed to export workflow')
+        }
+    }
+
     const toggleStep = (stepId: string) => {
         const newExpanded = new Set(expandedSteps)
         if (newExpanded.has(stepId)) {
@@ -185,15 +289,67 @@ export default function WorkflowDetailModal({
                         {workflow.description && (
                             <p className="text-xs text-foreground/50 truncate">{workflow.description}</p>
                         )}
+                        {templateStatus && (
+                            <p className={`text-[10px] mt-0.5 ${templateStatus.isOutdated ? 'text-amber-400' : 'text-foreground/40'}`}>
+                                From template {templateStatus.templateName} v{templateStatus.version}
+                                {templateStatus.isOutdated && ` · v${templateStatus.latestVersion} available`}
+                            </p>
+                        )}
                     </div>
                     <div className="flex items-center gap-2 shrink-0 ml-4">
                         <button
-                            onClick={() => setShowEditor(!showEditor)}
+                            onClick={handleToggleAutoAdvance}
+                            disabled={isPending}
+                            className={`p-2 hover:bg-white/10 rounded-lg transition-colors hover:text-white disabled:opacity-50 ${autoAdvance ? 'text-accent' : 'text-foreground/50'}`}
+                            title={autoAdvance
+                                ? 'Auto-advance is on: steps run until a review, approval or extension step (click to turn off)'
+                                : 'Auto-advance is off: each step needs a Run click (click to turn on)'}
+                        >
+                            <FastForward className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={handleSimulate}
+                            disabled={isPending || sortedSteps.length === 0}
+                            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-foreground/50 hover:text-white disabled:opacity-50"
+                            title="Simulate (fake AI and feed data, nothing is posted)"
+                        >
+                            <FlaskConical className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => { setShowHistory(!showHistory); setShowEditor(false); setShowSaveTemplate(false); setShowVersions(false) }}
+                            className={`p-2 hover:bg-white/10 rounded-lg transition-colors hover:text-white ${showHistory ? 'text-white' : 'text-foreground/50'}`}
+                            title="Run history"
+                        >
+                            <History className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => { setShowEditor(!showEditor); setShowHistory(false); setShowSaveTemplate(false); setShowVersions(false) }}
                             className="p-2 hover:bg-white/10 rounded-lg transition-colors text-foreground/50 hover:text-white"
                             title="Edit steps"
                         >
                             <Settings className="w-4 h-4" />
                         </button>
+                        <button
+                            onClick={() => { setShowVersions(!showVersions); setShowEditor(false); setShowHistory(false); setShowSaveTemplate(false) }}
+                            className={`p-2 hover:bg-white/10 rounded-lg transition-colors hover:text-white ${showVersions ? 'text-white' : 'text-foreground/50'}`}
+                            title="Versions"
+                        >
+                            <GitBranch className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => { setShowSaveTemplate(!showSaveTemplate); setShowEditor(false); setShowHistory(false); setShowVersions(false) }}
+                            className={`p-2 hover:bg-white/10 rounded-lg transition-colors hover:text-white ${showSaveTemplate ? 'text-white' : 'text-foreground/50'}`}
+                            title="Save as template"
+                        >
+                            <BookmarkPlus className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={handleExport}
+                            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-foreground/50 hover:text-white"
+                            title="Export as YAML"
+                        >
+                            <Download className="w-4 h-4" />
+                        </button>
                         <button
                             onClick={handleDelete}
                             disabled={isDeleting}
@@ -222,6 +378,12 @@ export default function WorkflowDetailModal({
                 <div className="flex-1 overflow-y-auto p-4">
                     {showEditor ? (
                         <WorkflowEditor workflow={workflow} onClose={() => setShowEditor(false)} />
+                    ) : showHistory ? (
+                        <WorkflowRunHistory workflowId={workflow.id} steps={sortedSteps} stepLabels={STEP_LABELS} />
+                    ) : showVersions ? (
+                        <WorkflowVersions workflowId={workflow.id} stepLabels={STEP_LABELS} />
+                    ) : showSaveTemplate ? (
+                        <SaveTemplateForm workflow={workflow} templateStatus={templateStatus} onSaved={() => setShowSaveTemplate(false)} />
                     ) : (
                         <div className="space-y-2">
                             {sortedSteps.length === 0 ? (
@@ -230,9 +392,7 @@ export default function WorkflowDetailModal({
                                 </div>
                             ) : (
                                 sortedSteps.map((step, idx) => {
-                                    const latestTask = step.tasks?.sort((a, b) =>
-                                        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-                                    )?.[0]
+                                    const latestTask = getLatestTask(step)
 
                                     const hasOutput = latestTask?.output_data && Object.keys(latestTask.output_data).length > 0
                                     const isExpanded = expandedSteps.has(step.id)
@@ -243,13 +403,17 @@ export default function WorkflowDetailModal({
                                     let statusBg = 'bg-white/5'
 
                                     const hasResults = !!latestTask?.output_data?.results
+                                    // Hooks stay in review until one is picked (the first is used meanwhile)
+                                    const awaitsHookPick = step.type === 'GENERATE_HOOKS' && latestTask?.status === 'review_needed'
+                                    // Nothing is sent (emails) or posted (community spotlight) until approved
+                                    const awaitsSendApproval = ['EMAIL_SEQ', 'COMMUNITY_SYNC'].includes(step.type) && latestTask?.status === 'review_needed'
                                     const isActuallyComplete = latestTask?.status === 'completed' || hasResults ||
-                                        (latestTask?.status === 'review_needed' && !['REVIEW_CONTENT', 'POST_EXTENSION', 'POST_REPLY', 'POST_API'].includes(step.type))
+                                        (latestTask?.status === 'review_needed' && !awaitsHookPick && !awaitsSendApproval && !['REVIEW_CONTENT', 'POST_EXTENSION', 'POST_REPLY', 'POST_API'].includes(step.type))
 
                                     if (isActuallyComplete) {
                                         statusIcon = <CheckCircle className="w-4 h-4 text-green-400" />
                                         statusBg = 'bg-green-500/10'
-                                    } else if (latestTask?.status === 'review_needed' && ['REVIEW_CONTENT', 'POST_EXTENSION', 'POST_REPLY', 'POST_API'].includes(step.type)) {
+                                    } else if (awaitsHookPick || awaitsSendApproval || (latestTask?.status === 'review_needed' && ['REVIEW_CONTENT', 'POST_EXTENSION', 'POST_REPLY', 'POST_API'].includes(step.type))) {
                                         statusIcon = <AlertCircle className="w-4 h-4 text-amber-400" />
                                         statusBg = 'bg-amber-500/10'
                                     } else if (latestTask?.status === 'in_progress' || latestTask?.status === 'extension_queued') {
@@ -258,12 +422,14 @@ export default function WorkflowDetailModal({
                                     } else if (latestTask?.status === 'failed') {
                                         statusIcon = <AlertCircle className="w-4 h-4 text-red-400" />
                                         statusBg = 'bg-red-500/10'
+                                    } else if (latestTask?.status === 'skipped') {
+                                        statusBg = 'bg-white/5 opacity-50'
                                     }
 
                                     // Check if content is editable (AI-generated vs raw data)
                                     // REVIEW_CONTENT typically holds replies from previous step
                                     const hasReplies = latestTask?.output_data?.replies
-                                    const isEditable = hasReplies || step.type === 'GENERATE_REPLIES' || step.type === 'GENERATE_DRAFT' || step.type === 'GENERATE_HOOKS'
+                                    const isEditable = hasReplies || step.type === 'GENERATE_REPLIES' || step.type === 'GENERATE_DRAFT' || step.type === 'COMMUNITY_SYNC'
 
                                     return (
                                         <div key={step.id} className={`rounded-lg border border-white/10 overflow-hidden ${isNext ? 'ring-1 ring-accent' : ''}`}>
@@ -286,7 +452,7 @@ export default function WorkflowDetailModal({
                                                                     : latestTask.status === 'review_needed' && ['POST_EXTENSION', 'POST_REPLY', 'POST_API'].includes(step.type)
                                                                         ? 'Approved & Ready for X'
                                                                         : latestTask.status === 'review_needed'
-                                                                            ? 'Completed (data ready)'
+                                                                            ? (awaitsHookPick ? 'Pick a hook' : awaitsSendApproval ? (step.type === 'EMAIL_SEQ' ? 'Approve to schedule the emails' : 'Approve to post the spotlight') : 'Completed (data ready)')
                                                                             : latestTask.status === 'extension_queued' || latestTask.status === 'in_progress'
                                                                                 ? (latestTask.output_data?.progress_info || 'Action pending...')
                                                                                 : latestTask.status}
@@ -315,6 +481,27 @@ export default function WorkflowDetailModal({
                                                             <ThumbsUp className="w-3 h-3" /> Approve
                                                         </button>
                                                     )}
+                                                    {/* Approve & Schedule (EMAIL_SEQ) / Approve & Post (COMMUNITY_SYNC) button */}
+                                                    {awaitsSendApproval && latestTask && (
+                                                        <button
+                                                            onClick={(e) => {
+                                                                e.stopPropagation();
+                                                                startTransition(async () => {
+                                                                    try {
+                                                                        await approveTaskAction(latestTask.id);
+                                                                        router.refresh();
+                                                                    } catch (err: any) {
+                                                                        setError(err.message || 'Failed to approve');
+                                                                    }
+                                                                });
+                                                            }}
+                                                            disabled={isPending}
+                                                            className="px-2 py-1 bg-blue-500/20 hover:bg-blue-500/40 text-blue-400 text-xs font-medium rounded transition-colors flex items-center gap-1"
+                                                            title={step.type === 'EMAIL_SEQ' ? 'Approve & schedule the emails' : 'Approve & post to Discord'}
+                                                        >
+                                                            <ThumbsUp className="w-3 h-3" /> {step.type === 'EMAIL_SEQ' ? 'Approve & Schedule' : 'Approve & Post'}
+                                                        </button>
+                                                    )}
                                                     {/* Approve & Post button for POST/REPLY steps */}
                                                     {(step.type === 'POST_EXTENSION' || step.type === 'POST_REPLY' || step.type === 'POST_API') &&
                                                         latestTask?.status === 'review_needed' && !latestTask?.output_data?.results && (
@@ -367,8 +554,8 @@ export default function WorkflowDetailModal({
                                                         latestTask.status === 'failed'
                                                     ) &&
                                                         step.type !== 'REVIEW_CONTENT' &&
-                                                        // For POST steps, only allow rerun if not successfully completed to avoid duplicates
-                                                        (!['POST_EXTENSION', 'POST_REPLY', 'POST_API'].includes(step.type) || latestTask.status !== 'completed') &&
+                                                        // For POST, email and community steps, only allow rerun if not successfully completed to avoid duplicates
+                                                        (!['POST_EXTENSION', 'POST_REPLY', 'POST_API', 'EMAIL_SEQ', 'COMMUNITY_SYNC'].includes(step.type) || latestTask.status !== 'completed') &&
                                                         (idx === nextStepIndex - 1 || (nextStepIndex < 0 && idx === sortedSteps.length - 1) || latestTask.status === 'cancelled' || latestTask.status === 'failed') && (
                                                             <button
                                                                 onClick={(e) => {
@@ -411,7 +598,32 @@ export default function WorkflowDetailModal({
                                             {/* Step output (expanded) */}
                                             {hasOutput && isExpanded && (
                                                 <div className="p-3 border-t border-white/10 bg-black/20">
-                                                    {isEditable && latestTask ? (
+                                                    {latestTask?.output_data?.image?.url && (
+                                                        <img
+                                                            src={latestTask.output_data.image.url}
+                                                            alt={latestTask.output_data.image.altText || 'Generated image'}
+                                                            className="mb-2 w-full rounded-lg border border-white/10"
+                                                        />
+                                                    )}
+                                                    {step.type === 'FOR_EACH' && latestTask?.task_items?.length ? (
+                                                        <ForEachItems items={latestTask.task_items} onError={setError} />
+                                                    ) : step.type === 'EMAIL_SEQ' && Array.isArray(latestTask?.output_data?.emails) ? (
+                                                        <EmailSequence
+                                                            emails={latestTask.output_data.emails}
+                                                            segment={latestTask.output_data.segment}
+                                                            recipients={latestTask.output_data.recipients}
+                                                            schedule={latestTask.output_data.schedule}
+                                                            items={latestTask.task_items}
+                                                        />
+                                                    ) : step.type === 'GENERATE_HOOKS' && latestTask && Array.isArray(latestTask.output_data?.hooks) ? (
+                                                        <HookPicker
+                                                            taskId={latestTask.id}
+                                                            hooks={latestTask.output_data.hooks}
+                                                            selectedHook={latestTask.output_data.selected_hook}
+                                                            canPick={awaitsHookPick}
+                                                            onError={setError}
+                                                        />
+                                                    ) : isEditable && latestTask ? (
                                                         <TaskContentEditor
                                                             taskId={latestTask.id}
                                                             projectId={projectId}
@@ -440,7 +652,7 @@ export default function WorkflowDetailModal({
                 </div>
 
                 {/* Footer with action buttons */}
-                {!showEditor && sortedSteps.length > 0 && nextStepIndex >= 0 && (
+                {!showEditor && !showHistory && sortedSteps.length > 0 && nextStepIndex >= 0 && (
                     <div className="p-4 border-t border-white/10 bg-white/5 shrink-0">
                         <button
                             onClick={handleRunNext}
@@ -463,7 +675,7 @@ export default function WorkflowDetailModal({
                 )}
 
                 {/* Blocked on review - subtle info message */}
-                {!showEditor && nextStepIndex === -2 && !workflow.steps.some(s => s.type === 'POST_REPLY' && s.tasks?.some(t => t.output_data?.results)) && (
+                {!showEditor && !showHistory && nextStepIndex === -2 && !sortedSteps.some(s => s.type === 'POST_REPLY' && getLatestTask(s)?.output_data?.results) && (
                     <div className="p-4 border-t border-white/10 bg-amber-500/10 shrink-0 text-center">
                         <div className="flex items-center justify-center gap-2 text-amber-400 text-sm">
                             <AlertCircle className="w-4 h-4" />
@@ -473,12 +685,20 @@ export default function WorkflowDetailModal({
                 )}
 
                 {/* All complete message */}
-                {!showEditor && sortedSteps.length > 0 && nextStepIndex === -1 && (
+                {!showEditor && !showHistory && sortedSteps.length > 0 && nextStepIndex === -1 && (
                     <div className="p-4 border-t border-white/10 bg-green-500/10 shrink-0 text-center">
                         <div className="flex items-center justify-center gap-2 text-green-400 font-medium">
                             <CheckCircle className="w-5 h-5" />
                             All steps complete!
                         </div>
+                        <button
+                            onClick={handleStartNewRun}
+                            disabled={isPending}
+                            className="mt-3 px-4 py-2 bg-white/10 hover:bg-white/20 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 inline-flex items-center gap-2"
+                        >
+                            {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                            Start New Run
+                        </button>
                     </div>
                 )}
             </div>
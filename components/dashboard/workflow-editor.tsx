@@ -1,14 +1,17 @@
 'use client'
 
 import { useState } from 'react'
-import { addStepAction, deleteStepAction } from '@/app/actions/manage-steps'
-import { Plus, Trash2, ArrowUp, ArrowDown, Save, X } from 'lucide-react'
+import { addStepAction, deleteStepAction, updateStepConfigAction } from '@/app/actions/manage-steps'
+import { Plus, Trash2, ArrowUp, ArrowDown, Save, X, GitBranch } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 
 const STEP_TYPES = [
     { type: 'GENERATE_DRAFT', label: '✍️ Generate Content (Draft)', tooltip: 'AI generates a content draft based on your project context' },
     { type: 'GENERATE_OUTLINE', label: '📝 Generate Outline', tooltip: 'AI creates a structured outline for longer content pieces' },
     { type: 'GENERATE_HOOKS', label: '🪝 Generate Viral Hooks', tooltip: 'AI generates attention-grabbing opening lines' },
+    { type: 'GENERATE_IMAGE', label: '🖼️ Generate Image', tooltip: 'Creates an image for the draft in your brand colours, attached when it is posted' },
+    { type: 'EMAIL_SEQ', label: '📧 Email Sequence', tooltip: 'AI writes a multi-email sequence for a segment; approved emails are sent on their schedule' },
+    { type: 'COMMUNITY_SYNC', label: '💬 Discord Community Sync', tooltip: 'Reads a Discord channel, sums up member wins and questions, and drafts a spotlight posted via webhook on approval' },
     { type: 'SCAN_FEED', label: '🔍 Scan Social Feed', tooltip: 'Extension scans X/Twitter for relevant conversations to engage with' },
     { type: 'SELECT_TARGETS', label: '🎯 Select High-Value Targets', tooltip: 'AI filters and ranks the best targets for engagement' },
     { type: 'GENERATE_REPLIES', label: '🗣️ Draft AI Replies', tooltip: 'AI crafts curiosity-generating replies (you review before posting)' },
@@ -17,18 +20,77 @@ const STEP_TYPES = [
     { type: 'POST_REPLY', label: '↩️ Publish Reply', tooltip: 'Post reply using the browser extension (human-in-the-loop)' },
     { type: 'TRACK_ENGAGEMENT', label: '📊 Track Engagement', tooltip: 'Monitor likes, replies, DMs from your posts' },
     { type: 'POST_API', label: '🔌 Publish via API', tooltip: '⚠️ Coming soon - Direct API posting (requires platform credentials)' },
+    { type: 'RUN_WORKFLOW', label: '▶️ Run Another Workflow', tooltip: 'Start another workflow of this project with the previous output, and continue with its result' },
+    { type: 'FOR_EACH', label: '🔁 For Each Item', tooltip: 'Run a chain of steps once per item of a list (e.g. draft one reply per selected target)' },
+    { type: 'CONDITION', label: '🔀 Condition (If / Else)', tooltip: 'Check previous outputs (e.g. selected_items.length > 0) and run only the matching branch' },
+    { type: 'CUSTOM', label: '🧩 Custom Script', tooltip: 'Your own JavaScript/TypeScript run(input, context) reshapes the previous output (sandboxed: no network or files)' },
 ]
 
+// Branch a dependent of a CONDITION step runs on
+type Branch = 'always' | 'onTrue' | 'onFalse'
+const NEXT_BRANCH: Record<Branch, Branch> = { always: 'onTrue', onTrue: 'onFalse', onFalse: 'always' }
+const BRANCH_LABELS: Record<Branch, string> = { always: 'always', onTrue: 'if true', onFalse: 'if false' }
+
 export default function WorkflowEditor({ workflow, onClose }: { workflow: any, onClose: () => void }) {
     const [steps, setSteps] = useState(workflow.steps || [])
     const [isSaving, setIsSaving] = useState(false)
     const router = useRouter()
 
     const handleAdd = async (type: string) => {
+        let config: Record<string, unknown> | undefined
+        if (type === 'CONDITION') {
+            const expression = prompt('Condition (e.g. selected_items.length > 0):')
+            if (!expression) return
+            config = { expression, onTrue: [], onFalse: [] }
+        }
+        if (type === 'RUN_WORKFLOW') {
+            const workflowId = prompt('ID of the workflow to run:')
+            if (!workflowId) return
+            config = { workflowId: workflowId.trim() }
+        }
+        if (type === 'EMAIL_SEQ') {
+            const segment = prompt('Segment (e.g. Inactive 7 days):')
+            if (!segment) return
+            const recipients = prompt('Recipients (comma separated, optional):') || ''
+            config = {
+                segment: segment.trim(),
+                count: Number(prompt('Number of emails:', '3')) || 3,
+                recipients: recipients.split(',').map((r) => r.trim()).filter(Boolean),
+            }
+        }
+        if (type === 'COMMUNITY_SYNC') {
+            const channelId = prompt('Discord channel ID (Developer Mode > Copy Channel ID):')
+            if (!channelId) return
+            config = {
+                channelId: channelId.trim(),
+                lookbackHours: Number(prompt('Hours of messages to read:', '24')) || 24,
+            }
+        }
+        if (type === 'CUSTOM') {
+            const script = prompt('Script - define run(input, context) and return JSON:', 'function run(input, context) { return input }')
+            if (!script) return
+            config = {
+                script,
+                language: confirm('Is this TypeScript?') ? 'typescript' : 'javascript',
+            }
+        }
+        if (type === 'FOR_EACH') {
+            const itemsPath = prompt('List to loop over:', 'selected_items')
+            if (!itemsPath) return
+            const chain = prompt('Steps to run per item (comma separated):', 'GENERATE_REPLIES')
+            if (!chain) return
+            config = {
+                itemsPath,
+                steps: chain.split(',').map((t) => ({ type: t.trim(), config: {} })).filter((s) => s.type),
+                concurrency: 3,
+                requireItemApproval: confirm('Review each item before it counts as done?'),
+            }
+        }
+
         setIsSaving(true)
         try {
             const nextPos = steps.length + 1
-            await addStepAction(workflow.id, type, nextPos)
+            await addStepAction(workflow.id, type, nextPos, { config })
             router.refresh()
             // Optimistic update would be better, but refresh is safe
             onClose() // Close to force refresh? Or keep open?
@@ -51,6 +113,65 @@ export default function WorkflowEditor({ workflow, onClose }: { workflow: any, o
         }
     }
 
+    // Steps run once all their dependencies are done; steps with the same dependencies run in parallel
+    const handleToggleDependency = async (step: any, dependencyId: string) => {
+        const current: string[] = step.dependency_ids || []
+        const dependencyIds = current.includes(dependencyId)
+            ? current.filter((id) => id !== dependencyId)
+            : [...current, dependencyId]
+
+        setIsSaving(true)
+        try {
+            await updateStepConfigAction(step.id, step.config || {}, { dependencyIds })
+            setSteps(steps.map((s: any) => s.id === step.id ? { ...s, dependency_ids: dependencyIds } : s))
+            router.refresh()
+        } catch (e: any) {
+            alert(e.message || 'Failed to update dependencies')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    // Dependencies on another workflow's steps look like workflow:<workflowId>.<stepId>
+    const handleAddExternalDependency = (step: any) => {
+        const ref = prompt('Wait for a step of another workflow (workflow:<workflowId>.<stepId>):')
+        if (ref && !(step.dependency_ids || []).includes(ref.trim())) handleToggleDependency(step, ref.trim())
+    }
+
+    const saveConfig = async (step: any, config: Record<string, unknown>) => {
+        setIsSaving(true)
+        try {
+            await updateStepConfigAction(step.id, config)
+            setSteps(steps.map((s: any) => s.id === step.id ? { ...s, config } : s))
+            router.refresh()
+        } catch (e: any) {
+            alert(e.message || 'Failed to update step')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleEditExpression = (step: any) => {
+        const expression = prompt('Condition:', step.config?.expression || '')
+        if (expression) saveConfig(step, { ...step.config, expression })
+    }
+
+    const getBranch = (condition: any, stepId: string): Branch =>
+        condition.config?.onTrue?.includes(stepId) ? 'onTrue' :
+            condition.config?.onFalse?.includes(stepId) ? 'onFalse' : 'always'
+
+    const handleCycleBranch = (condition: any, stepId: string) => {
+        const next = NEXT_BRANCH[getBranch(condition, stepId)]
+        const without = (ids?: string[]) => (ids || []).filter((id) => id !== stepId)
+        saveConfig(condition, {
+            ...condition.config,
+            onTrue: next === 'onTrue' ? [...without(condition.config?.onTrue), stepId] : without(condition.config?.onTrue),
+            onFalse: next === 'onFalse' ? [...without(condition.config?.onFalse), stepId] : without(condition.config?.onFalse),
+        })
+    }
+
+    const stepLabel = (step: any) => STEP_TYPES.find(t => t.type === step.type)?.label || step.type
+
     return (
         <div className="bg-black/80 rounded-lg p-4 border border-accent/20 space-y-4">
             <div className="flex justify-between items-center mb-2">
@@ -60,17 +181,82 @@ export default function WorkflowEditor({ workflow, onClose }: { workflow: any, o
 
             <div className="space-y-2">
                 {steps.sort((a: any, b: any) => a.position - b.position).map((step: any, idx: number) => (
-                    <div key={step.id} className="flex items-center gap-3 bg-white/5 p-3 rounded hover:bg-white/10 group">
-                        <div className="text-xs font-mono text-foreground/30">#{idx + 1}</div>
-                        <div className="flex-1 font-medium text-sm">
-                            {STEP_TYPES.find(t => t.type === step.type)?.label || step.type}
+                    <div key={step.id} className="bg-white/5 p-3 rounded hover:bg-white/10 group">
+                        <div className="flex items-center gap-3">
+                            <div className="text-xs font-mono text-foreground/30">#{idx + 1}</div>
+                            <div className="flex-1 font-medium text-sm">
+                                {stepLabel(step)}
+                            </div>
+                            <button
+                                onClick={() => handleDelete(step.id)}
+                                className="text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
                         </div>
-                        <button
-                            onClick={() => handleDelete(step.id)}
-                            className="text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                            <Trash2 className="w-4 h-4" />
-                        </button>
+                        {step.type === 'CONDITION' && (
+                            <div className="mt-2 text-[10px] space-y-1">
+                                <button
+                                    onClick={() => handleEditExpression(step)}
+                                    disabled={isSaving}
+                                    className="font-mono px-2 py-0.5 bg-white/5 rounded text-accent/80 hover:bg-white/10"
+                                >
+                                    if ({step.config?.expression || '…'})
+                                </button>
+                                <div className="flex flex-wrap items-center gap-1">
+                                    {steps.filter((other: any) => (other.dependency_ids || []).includes(step.id)).map((other: any) => (
+                                        <button
+                                            key={other.id}
+                                            onClick={() => handleCycleBranch(step, other.id)}
+                                            disabled={isSaving}
+                                            className="px-2 py-0.5 rounded-full bg-white/5 text-foreground/60 hover:text-foreground"
+                                        >
+                                            #{steps.indexOf(other) + 1} {BRANCH_LABELS[getBranch(step, other.id)]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {steps.length > 1 && (
+                            <div className="flex flex-wrap items-center gap-1 mt-2 text-[10px]">
+                                <GitBranch className="w-3 h-3 text-foreground/30" />
+                                <span className="text-foreground/40 mr-1">Runs after:</span>
+                                {steps.filter((other: any) => other.id !== step.id).map((other: any) => {
+                                    const isDependency = (step.dependency_ids || []).includes(other.id)
+                                    return (
+                                        <button
+                                            key={other.id}
+                                            onClick={() => handleToggleDependency(step, other.id)}
+                                            disabled={isSaving}
+                                            className={`px-2 py-0.5 rounded-full transition-colors ${isDependency
+                                                ? 'bg-accent/20 text-accent'
+                                                : 'bg-white/5 text-foreground/30 hover:text-foreground/60'}`}
+                                        >
+                                            #{steps.indexOf(other) + 1}
+                                        </button>
+                                    )
+                                })}
+                                {(step.dependency_ids || []).filter((id: string) => id.startsWith('workflow:')).map((ref: string) => (
+                                    <button
+                                        key={ref}
+                                        onClick={() => handleToggleDependency(step, ref)}
+                                        disabled={isSaving}
+                                        title={`${ref} (click to remove)`}
+                                        className="px-2 py-0.5 rounded-full bg-accent/20 text-accent"
+                                    >
+                                        other workflow
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => handleAddExternalDependency(step)}
+                                    disabled={isSaving}
+                                    className="px-2 py-0.5 rounded-full bg-white/5 text-foreground/30 hover:text-foreground/60"
+                                    title="Wait for a step of another workflow"
+                                >
+                                    +
+                                </button>
+                            </div>
+                        )}
                     </div>
                 ))}
             </div>
@@ -0,0 +1,200 @@
+'use client'
+
+/**
+ * Workflow Run History
+ *
+ * Lists past runs of a workflow and shows the outputs of each run's steps,
+ * with the failed attempts of any step that was retried or timed out.
+ */
+
+import { useState, useEffect } from 'react'
+import { Loader2, CheckCircle, AlertCircle, Clock, XCircle, ChevronDown, ChevronRight } from 'lucide-react'
+import { listWorkflowRunsAction, getWorkflowRunAction } from '@/app/actions/workflow-runs'
+import ContentPreview from './content-preview'
+import type { WorkflowRun, Task, TaskAttempt } from '@/lib/core/types'
+
+interface WorkflowRunHistoryProps {
+    workflowId: string
+    steps: Array<{ id: string; type: string; position: number }>
+    stepLabels: Record<string, string>
+}
+
+const TRIGGER_LABELS: Record<string, string> = {
+    manual: 'Manual',
+    schedule: 'Scheduled',
+    api: 'API',
+    webhook: 'Webhook',
+    workflow: 'Sub-workflow',
+}
+
+const RETRY_LABELS: Record<string, string> = {
+    retrying: 'retried',
+    not_retryable: 'not retryable',
+    attempts_exhausted: 'no attempts left',
+}
+
+function RunStatusIcon({ status }: { status: string }) {
+    if (status === 'completed') return <CheckCircle className="w-4 h-4 text-green-400" />
+    if (status === 'failed') return <AlertCircle className="w-4 h-4 text-red-400" />
+    if (status === 'cancelled') return <XCircle className="w-4 h-4 text-foreground/40" />
+    return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+}
+
+function formatDuration(start: Date, end?: Date) {
+    if (!end) return 'in progress'
+    const seconds = Math.round((new Date(end).getTime() - new Date(start).getTime()) / 1000)
+    if (seconds < 60) return `${seconds}s`
+    if (seconds < 3600) return `${Math.round(seconds / 60)}m`
+    return `${Math.round(seconds / 3600)}h`
+}
+
+export default function WorkflowRunHistory({ workflowId, steps, stepLabels }: WorkflowRunHistoryProps) {
+    const [runs, setRuns] = useState<WorkflowRun[] | null>(null)
+    const [expandedRunId, setExpandedRunId] = useState<string | null>(null)
+    const [runTasks, setRunTasks] = useState<Record<string, Task[]>>({})
+    const [runAttempts, setRunAttempts] = useState<Record<string, TaskAttempt[]>>({})
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        listWorkflowRunsAction(workflowId)
+            .then(setRuns)
+            .catch((e) => setError(e.message || 'Failed to load runs'))
+    }, [workflowId])
+
+    const toggleRun = async (runId: string) => {
+        if (expandedRunId === runId) {
+            setExpandedRunId(null)
+            return
+        }
+        setExpandedRunId(runId)
+        if (!runTasks[runId]) {
+            try {
+                const run = await getWorkflowRunAction(runId)
+                setRunTasks((prev) => ({ ...prev, [runId]: run.tasks }))
+                setRunAttempts((prev) => ({ ...prev, [runId]: run.attempts }))
+            } catch (e: any) {
+                setError(e.message || 'Failed to load run')
+            }
+        }
+    }
+
+    if (error) {
+        return (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+                {error}
+            </div>
+        )
+    }
+
+    if (!runs) {
+        return (
+            <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-foreground/40" />
+            </div>
+        )
+    }
+
+    if (runs.length === 0) {
+        return (
+            <div className="text-center py-8 text-foreground/40">
+                <p>This workflow has not run yet.</p>
+            </div>
+        )
+    }
+
+    const sortedSteps = [...steps].sort((a, b) => a.position - b.position)
+
+    return (
+        <div className="space-y-2">
+            {runs.map((run) => {
+                const isExpanded = expandedRunId === run.id
+                const tasks = runTasks[run.id]
+                const attempts = runAttempts[run.id] || []
+
+                return (
+                    <div key={run.id} className="rounded-lg border border-white/10 overflow-hidden">
+                        <div
+                            className="flex items-center gap-3 p-3 bg-white/5 cursor-pointer hover:bg-white/10 transition-colors"
+                            onClick={() => toggleRun(run.id)}
+                        >
+                            <RunStatusIcon status={run.status} />
+                            <div className="flex-1 min-w-0">
+                                <div className="font-medium text-sm">
+                                    Run #{run.runNumber}
+                                    <span className="ml-2 text-[10px] px-2 py-0.5 bg-white/10 rounded-full text-foreground/60">
+                                        {TRIGGER_LABELS[run.trigger] || run.trigger}
+                                    </span>
+                                    {run.simulated && (
+                                        <span className="ml-1 text-[10px] px-2 py-0.5 bg-purple-500/20 rounded-full text-purple-300">
+                                            Simulation
+                                        </span>
+                                    )}
+                                    {run.workflowVersion && (
+                                        <span className="ml-1 text-[10px] px-2 py-0.5 bg-accent/10 rounded-full text-accent">
+                                            v{run.workflowVersion}
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="text-xs text-foreground/40 flex items-center gap-1">
+                                    <Clock className="w-3 h-3" />
+                                    {new Date(run.startedAt).toLocaleString()} · {formatDuration(run.startedAt, run.completedAt)}
+                                    {run.errorMessage && <span className="text-red-400 truncate"> · {run.errorMessage}</span>}
+                                </div>
+                            </div>
+                            {isExpanded ?
+                                <ChevronDown className="w-4 h-4 text-foreground/40" /> :
+                                <ChevronRight className="w-4 h-4 text-foreground/40" />}
+                        </div>
+
+                        {isExpanded && (
+                            <div className="p-3 border-t border-white/10 bg-black/20 space-y-3">
+                                {!tasks ? (
+                                    <Loader2 className="w-4 h-4 animate-spin text-foreground/40" />
+                                ) : (
+                                    sortedSteps.map((step) => {
+                                        // Latest task for the step within this run
+                                        const task = [...tasks].reverse().find((t) => t.stepId === step.id)
+                                        const output = task?.outputData
+                                        const failedAttempts = attempts.filter((a) => a.taskId === task?.id && a.status !== 'succeeded')
+
+                                        return (
+                                            <div key={step.id}>
+                                                <div className="flex items-center justify-between text-xs">
+                                                    <span className="font-medium">{stepLabels[step.type] || step.type}</span>
+                                                    <span className="text-foreground/40">{task?.status || 'not run'}</span>
+                                                </div>
+                                                {failedAttempts.map((attempt) => (
+                                                    <div key={attempt.id} className="text-[10px] text-foreground/40 truncate">
+                                                        Attempt {attempt.attempt}:{' '}
+                                                        <span className={attempt.status === 'timed_out' ? 'text-amber-400' : 'text-red-400'}>
+                                                            {attempt.status === 'timed_out' ? 'timed out' : attempt.errorCode || 'failed'}
+                                                        </span>
+                                                        {attempt.retry && ` · ${RETRY_LABELS[attempt.retry] || attempt.retry}`}
+                                                        {attempt.errorMessage && ` · ${attempt.errorMessage}`}
+                                                    </div>
+                                                ))}
+                                                {output && Object.keys(output).length > 0 && (
+                                                    <ContentPreview
+                                                        content={
+                                                            output.replies ||
+                                                            output.hooks ||
+                                                            output.emails ||
+                                                            output.selected_items ||
+                                                            output.found_items ||
+                                                            output.content ||
+                                                            output
+                                                        }
+                                                    />
+                                                )}
+                                            </div>
+                                        )
+                                    })
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
@@ -0,0 +1,255 @@
+'use client'
+
+/**
+ * Workflow Versions
+ *
+ * Publishes the draft (the steps being edited) as a new version, lists past versions,
+ * shows what changed between them and rolls back to an earlier one.
+ * Runs keep the version they started on.
+ */
+
+import { useState, useEffect, useTransition } from 'react'
+import { Loader2, Upload, RotateCcw, ChevronDown, ChevronRight, Plus, Minus, Pencil } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import {
+    listWorkflowVersionsAction,
+    diffWorkflowVersionsAction,
+    publishWorkflowVersionAction,
+    rollbackWorkflowAction,
+} from '@/app/actions/workflow-versions'
+import type { StepChange } from '@/lib/workflows/versions'
+
+interface WorkflowVersionsProps {
+    workflowId: string
+    stepLabels: Record<string, string>
+}
+
+type VersionList = Awaited<ReturnType<typeof listWorkflowVersionsAction>>
+
+const FIELD_LABELS: Record<string, string> = {
+    type: 'type',
+    config: 'settings',
+    dependencies: 'dependencies',
+    position: 'order',
+}
+
+function ChangeList({ changes, stepLabels }: { changes: StepChange[]; stepLabels: Record<string, string> }) {
+    if (changes.length === 0) {
+        return <div className="text-xs text-foreground/40 py-1">No changes</div>
+    }
+
+    return (
+        <div className="space-y-1">
+            {changes.map((change) => (
+                <div key={`${change.kind}-${change.stepId}`} className="flex items-center gap-2 text-xs">
+                    {change.kind === 'added' && <Plus className="w-3 h-3 text-green-400 shrink-0" />}
+                    {change.kind === 'removed' && <Minus className="w-3 h-3 text-red-400 shrink-0" />}
+                    {change.kind === 'changed' && <Pencil className="w-3 h-3 text-amber-400 shrink-0" />}
+                    <span className={change.kind === 'removed' ? 'line-through text-foreground/50' : ''}>
+                        {stepLabels[change.type] || change.type}
+                    </span>
+                    {change.kind === 'changed' && (
+                        <span className="text-foreground/40">
+                            {change.fields.map((f) => FIELD_LABELS[f] || f).join(', ')}
+                        </span>
+                    )}
+                </div>
+            ))}
+        </div>
+    )
+}
+
+export default function WorkflowVersions({ workflowId, stepLabels }: WorkflowVersionsProps) {
+    const [data, setData] = useState<VersionList | null>(null)
+    const [note, setNote] = useState('')
+    const [expandedVersion, setExpandedVersion] = useState<number | null>(null)
+    const [diffs, setDiffs] = useState<Record<number, StepChange[]>>({})
+    const [isPending, startTransition] = useTransition()
+    const [error, setError] = useState<string | null>(null)
+    const router = useRouter()
+
+    useEffect(() => {
+        listWorkflowVersionsAction(workflowId)
+            .then(setData)
+            .catch((e) => setError(e.message || 'Failed to load versions'))
+    }, [workflowId])
+
+    // Each version is compared with the one before it
+    const toggleVersion = async (version: number) => {
+        if (expandedVersion === version) {
+            setExpandedVersion(null)
+            return
+        }
+        setExpandedVersion(version)
+        if (version > 1 && !diffs[version]) {
+            try {
+                const changes = await diffWorkflowVersionsAction(workflowId, version - 1, version)
+                setDiffs((prev) => ({ ...prev, [version]: changes }))
+            } catch (e: any) {
+                setError(e.message || 'Failed to compare versions')
+            }
+        }
+    }
+
+    const handlePublish = () => {
+        setError(null)
+        startTransition(async () => {
+            try {
+                await publishWorkflowVersionAction(workflowId, note.trim() || undefined)
+                setNote('')
+                setDiffs({})
+                setData(await listWorkflowVersionsAction(workflowId))
+                router.refresh()
+            } catch (e: any) {
+                setError(e.message || 'Failed to publish')
+            }
+        })
+    }
+
+    const handleRollback = (version: number) => {
+        if (!confirm(`Roll back to version ${version}? Unpublished changes to the steps are discarded. Runs in progress keep their version.`)) return
+        setError(null)
+        startTransition(async () => {
+            try {
+                await rollbackWorkflowAction(workflowId, version)
+                setDiffs({})
+                setExpandedVersion(null)
+                setData(await listWorkflowVersionsAction(workflowId))
+                router.refresh()
+            } catch (e: any) {
+                setError(e.message || 'Failed to roll back')
+            }
+        })
+    }
+
+    if (!data) {
+        return error ? (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+        ) : (
+            <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 animate-spin text-foreground/40" />
+            </div>
+        )
+    }
+
+    const hasDraftChanges = data.publishedVersion === null || data.draftChanges.length > 0
+
+    return (
+        <div className="space-y-4">
+            {/* Draft */}
+            <div className="p-4 bg-white/5 border border-white/10 rounded-lg space-y-3">
+                <div className="flex items-center justify-between">
+                    <div className="text-sm font-bold">
+                        Draft
+                        <span className="ml-2 text-[10px] font-normal text-foreground/50">
+                            {data.publishedVersion === null
+                                ? 'never published - the first run publishes it as v1'
+                                : hasDraftChanges
+                                    ? `unpublished changes since v${data.publishedVersion}`
+                                    : `same as v${data.publishedVersion}`}
+                        </span>
+                    </div>
+                </div>
+
+                {data.publishedVersion !== null && (
+                    <ChangeList changes={data.draftChanges} stepLabels={stepLabels} />
+                )}
+
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="What changed? (optional)"
+                        maxLength={500}
+                        className="flex-1 px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-xs focus:border-accent outline-none"
+                    />
+                    <button
+                        onClick={handlePublish}
+                        disabled={isPending || !hasDraftChanges}
+                        className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-white text-xs font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+                    >
+                        {isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                        Publish v{(data.publishedVersion || 0) + 1}
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">{error}</div>
+            )}
+
+            {/* Published versions */}
+            <div className="space-y-2">
+                {data.versions.map((version) => {
+                    const isExpanded = expandedVersion === version.version
+                    const isLatest = version.version === data.publishedVersion
+
+                    return (
+                        <div key={version.id} className="rounded-lg border border-white/10 overflow-hidden">
+                            <div
+                                className="flex items-center gap-3 p-3 bg-white/5 cursor-pointer hover:bg-white/10 transition-colors"
+                                onClick={() => toggleVersion(version.version)}
+                            >
+                                {isExpanded ?
+                                    <ChevronDown className="w-4 h-4 text-foreground/40" /> :
+                                    <ChevronRight className="w-4 h-4 text-foreground/40" />
+                                }
+                                <div className="flex-1 min-w-0">
+                                    <div className="font-medium text-sm">
+                                        v{version.version}
+                                        {isLatest && (
+                                            <span className="ml-2 text-[10px] px-2 py-0.5 bg-green-500/20 text-green-400 rounded-full">
+                                                Published
+                                            </span>
+                                        )}
+                                        <span className="ml-2 text-xs text-foreground/40">
+                                            {version.steps.length} step{version.steps.length === 1 ? '' : 's'}
+                                        </span>
+                                    </div>
+                                    <div className="text-xs text-foreground/40 truncate">
+                                        {new Date(version.createdAt).toLocaleString()}
+                                        {version.note && ` · ${version.note}`}
+                                    </div>
+                                </div>
+                                {!isLatest && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); handleRollback(version.version) }}
+                                        disabled={isPending}
+                                        className="px-2 py-1 text-xs bg-white/10 hover:bg-white/20 rounded transition-colors disabled:opacity-50 flex items-center gap-1"
+                                        title="Roll back to this version"
+                                    >
+                                        <RotateCcw className="w-3 h-3" /> Roll back
+                                    </button>
+                                )}
+                            </div>
+
+                            {isExpanded && (
+                                <div className="p-3 border-t border-white/10">
+                                    {version.version === 1 ? (
+                                        <div className="space-y-1">
+                                            {version.steps.map((step) => (
+                                                <div key={step.id} className="text-xs">
+                                                    {stepLabels[step.type] || step.type}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    ) : diffs[version.version] ? (
+                                        <>
+                                            <div className="text-[10px] font-bold text-foreground/50 uppercase mb-2">
+                                                Changes since v{version.version - 1}
+                                            </div>
+                                            <ChangeList changes={diffs[version.version]} stepLabels={stepLabels} />
+                                        </>
+                                    ) : (
+                                        <Loader2 className="w-4 h-4 animate-spin text-foreground/40" />
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -7,8 +7,10 @@ import { Key, Save, CheckCircle, ShieldCheck } from 'lucide-react'
 const PROVIDERS = [
     { id: 'openai_key', name: 'OpenAI API Key', placeholder: 'sk-...' },
     { id: 'gemini_key', name: 'Google Gemini Key', placeholder: 'AIza...' },
+    { id: 'anthropic_key', name: 'Anthropic API Key', placeholder: 'sk-ant-...' },
     { id: 'twitter_token', name: 'X (Twitter) Bearer Token', placeholder: 'AAAA...' },
     { id: 'discord_token', name: 'Discord Bot Token', placeholder: 'MTA...' },
+    { id: 'discord_webhook', name: 'Discord Webhook URL', placeholder: 'https://discord.com/api/webhooks/...' },
 ]
 
 export default function ApiKeyManager() {
@@ -0,0 +1,168 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { getModelEndpointAction, saveModelEndpointAction, removeModelEndpointAction } from '@/app/actions/model-endpoint'
+import { Server, Save, CheckCircle, ShieldCheck, Trash2 } from 'lucide-react'
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded-lg py-2 px-3 text-sm font-mono focus:border-accent focus:ring-1 focus:ring-accent transition-all"
+
+/**
+ * The organization's self-hosted model (the "Self-hosted" AI provider on projects)
+ */
+export default function ModelEndpointSettings() {
+    const [baseUrl, setBaseUrl] = useState('')
+    const [model, setModel] = useState('')
+    const [apiKey, setApiKey] = useState('')
+    const [jsonMode, setJsonMode] = useState(false)
+    const [systemPrompt, setSystemPrompt] = useState(true)
+    const [maxOutputTokens, setMaxOutputTokens] = useState('')
+    const [configured, setConfigured] = useState(false)
+    const [hasApiKey, setHasApiKey] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [saved, setSaved] = useState(false)
+
+    useEffect(() => {
+        async function load() {
+            const endpoint = await getModelEndpointAction()
+            if (!endpoint) return
+            setBaseUrl(endpoint.baseUrl)
+            setModel(endpoint.model)
+            setJsonMode(endpoint.capabilities.jsonMode)
+            setSystemPrompt(endpoint.capabilities.systemPrompt)
+            setMaxOutputTokens(endpoint.capabilities.maxOutputTokens ? String(endpoint.capabilities.maxOutputTokens) : '')
+            setHasApiKey(endpoint.hasApiKey)
+            setConfigured(true)
+        }
+        load()
+    }, [])
+
+    const handleSave = async () => {
+        setSaving(true)
+        try {
+            const endpoint = await saveModelEndpointAction({
+                baseUrl: baseUrl.trim(),
+                model: model.trim(),
+                // Leave the stored key alone unless a new one was typed
+                ...(apiKey && { apiKey }),
+                capabilities: {
+                    jsonMode,
+                    systemPrompt,
+                    ...(maxOutputTokens && { maxOutputTokens: Number(maxOutputTokens) }),
+                },
+            })
+            setApiKey('') // Clear input for security
+            setHasApiKey(endpoint.hasApiKey)
+            setConfigured(true)
+            setSaved(true)
+            setTimeout(() => setSaved(false), 3000)
+        } catch (e: any) {
+            alert('Failed to save: ' + e.message)
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleRemove = async () => {
+        if (!confirm('Remove the self-hosted model? Projects using it will stop generating until one is set again.')) return
+        try {
+            await removeModelEndpointAction()
+            setBaseUrl('')
+            setModel('')
+            setApiKey('')
+            setJsonMode(false)
+            setSystemPrompt(true)
+            setMaxOutputTokens('')
+            setHasApiKey(false)
+            setConfigured(false)
+        } catch (e: any) {
+            alert('Failed to remove: ' + e.message)
+        }
+    }
+
+    return (
+        <div className="glass p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="font-bold flex items-center gap-2 text-white">
+                    <Server className="w-4 h-4 text-accent" />
+                    Self-hosted Model
+                </h3>
+                {configured ? (
+                    <span className="text-green-400 text-xs flex items-center gap-1">
+                        <ShieldCheck className="w-3 h-3" /> Configured
+                    </span>
+                ) : (
+                    <span className="text-foreground/30 text-xs">Not configured</span>
+                )}
+            </div>
+
+            <p className="text-xs text-foreground/50">
+                Any OpenAI-compatible server: llama.cpp, Ollama, vLLM. Projects use it when their AI provider is &quot;Self-hosted&quot;.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3">
+                <label className="space-y-1 col-span-2">
+                    <span className="text-xs text-foreground/50">Base URL</span>
+                    <input value={baseUrl} onChange={(e) => setBaseUrl(e.target.value)} placeholder="http://localhost:11434/v1" className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-xs text-foreground/50">Model</span>
+                    <input value={model} onChange={(e) => setModel(e.target.value)} placeholder="llama3.1:8b" className={inputClass} />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-xs text-foreground/50">API key (optional)</span>
+                    <input
+                        type="password"
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        placeholder={hasApiKey ? "••••••••••••••••" : "Usually not needed"}
+                        className={inputClass}
+                    />
+                </label>
+                <label className="space-y-1">
+                    <span className="text-xs text-foreground/50">Max output tokens (optional)</span>
+                    <input
+                        type="number"
+                        min={64}
+                        max={32768}
+                        value={maxOutputTokens}
+                        onChange={(e) => setMaxOutputTokens(e.target.value)}
+                        placeholder="Server default"
+                        className={inputClass}
+                    />
+                </label>
+                <div className="flex flex-col justify-end gap-2 text-sm text-foreground/70">
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={jsonMode} onChange={(e) => setJsonMode(e.target.checked)} />
+                        Supports JSON mode
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={systemPrompt} onChange={(e) => setSystemPrompt(e.target.checked)} />
+                        Supports system prompts
+                    </label>
+                </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                {configured && (
+                    <button
+                        onClick={handleRemove}
+                        className="bg-white/5 hover:bg-red-500/20 hover:text-red-400 text-foreground/70 px-4 py-2 rounded-lg transition-all"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                )}
+                <button
+                    onClick={handleSave}
+                    disabled={saving || !baseUrl.trim() || !model.trim()}
+                    className="bg-white/5 hover:bg-accent hover:text-white text-foreground/70 px-4 py-2 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {saving ? (
+                        <span className="animate-spin text-xs">⏳</span>
+                    ) : (
+                        saved ? <CheckCircle className="w-4 h-4 text-green-400" /> : <Save className="w-4 h-4" />
+                    )}
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -120,6 +120,30 @@ async function waitForTabLoad(tabId, timeout = CONFIG.TAB_LOAD_TIMEOUT_MS) {
     });
 }
 
+/**
+ * Download a generated image (its signed storage URL) so the page script can attach it.
+ * Messages to the page are JSON, so the bytes travel as a data URL.
+ */
+async function fetchImageAttachment(image) {
+    const response = await fetch(image.url);
+    if (!response.ok) throw new Error(`Could not download the image (${response.status})`);
+
+    const blob = await response.blob();
+    const dataUrl = await new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+    const contentType = blob.type || image.contentType || 'image/png';
+    return {
+        dataUrl,
+        contentType,
+        name: `launchgrid-image.${contentType.split('/')[1] || 'png'}`
+    };
+}
+
 // ============================================
 // API COMMUNICATION
 // ============================================
@@ -219,6 +243,7 @@ async function handleBatchReplies(taskId, config) {
         const item = replies[i];
         const targetUrl = item.targetUrl || item.url;
         const replyText = item.replyText || item.reply || item.content;
+        const image = item.image?.url ? item.image : null; // from GENERATE_IMAGE, signed by the API
 
         if (!targetUrl || !replyText) {
             results.push({ success: false, error: 'Missing URL or text' });
@@ -246,6 +271,8 @@ async function handleBatchReplies(taskId, config) {
             const ready = await ensureContentScriptInjected(targetTab.id);
             if (!ready) throw new Error("Could not initialize page script");
 
+            const attachment = image ? await fetchImageAttachment(image) : null;
+
             // 4. Execute single reply and WAIT for result message
             await reportProgress(taskId, `Posting reply ${i + 1}/${replies.length}...`);
 
@@ -269,7 +296,7 @@ async function handleBatchReplies(taskId, config) {
                 chrome.tabs.sendMessage(targetTab.id, {
                     action: 'POST_SINGLE_REPLY',
                     taskId: taskId,
-                    config: { targetUrl, replyText }
+                    config: { targetUrl, replyText, image: attachment }
                 }).catch(err => {
                     chrome.runtime.onMessage.removeListener(listener);
                     clearTimeout(subTimeout);
@@ -186,6 +186,11 @@ async function performSingleReply(taskId, config) {
     editor.dispatchEvent(new Event('input', { bubbles: true }));
     await sleep(1000);
 
+    if (config.image) {
+        sendProgress(taskId, "Attaching image...");
+        await attachImage(config.image);
+    }
+
     const replyBtn = await waitForElement(['[data-testid="tweetButtonInline"]', '[data-testid="tweetButton"]'], 3000);
     if (!replyBtn) throw new Error("Reply button not found");
 
@@ -204,6 +209,30 @@ async function performSingleReply(taskId, config) {
     return true;
 }
 
+/**
+ * Put an image (a data URL from background.js) into the composer's file input,
+ * then wait for X to show it as an attachment
+ */
+async function attachImage(image) {
+    const fileInput = await waitForElement('input[data-testid="fileInput"]', 5000);
+    if (!fileInput) throw new Error("Image upload input not found");
+
+    const bytes = atob(image.dataUrl.split(',')[1]);
+    const buffer = new Uint8Array(bytes.length);
+    for (let i = 0; i < bytes.length; i++) buffer[i] = bytes.charCodeAt(i);
+
+    const transfer = new DataTransfer();
+    transfer.items.add(new File([buffer], image.name, { type: image.contentType }));
+    fileInput.files = transfer.files;
+    fileInput.dispatchEvent(new Event('change', { bubbles: true }));
+
+    const preview = await waitForElement('[data-testid="attachments"]', 15000);
+    if (!preview) throw new Error("The image was not attached. X may not accept its format.");
+
+    // Wait for the upload to finish before posting
+    await sleep(2000);
+}
+
 // ============================================
 // CORE ACTIONS - SCANNING
 // ============================================
@@ -197,6 +197,20 @@ export function createdResponse<T>(data: T, meta?: Record<string, unknown>): Nex
   );
 }
 
+export function acceptedResponse<T>(data: T, meta?: Record<string, unknown>): NextResponse {
+  return NextResponse.json(
+    {
+      success: true,
+      data,
+      meta: {
+        timestamp: new Date().toISOString(),
+        ...meta,
+      },
+    },
+    { status: 202 }
+  );
+}
+
 export function noContentResponse(): NextResponse {
   return new NextResponse(null, { status: 204 });
 }
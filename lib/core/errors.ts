@@ -125,6 +125,19 @@ export class BusinessRuleError extends AppError {
   }
 }
 
+// A project has spent its monthly AI budget (aiSpendCapUsd); AI steps stop until next month or a higher cap
+export class SpendCapExceededError extends AppError {
+  constructor(projectId: string, capUsd: number, spentUsd: number) {
+    super(
+      `AI spend cap reached: this project has spent $${spentUsd.toFixed(2)} of its $${capUsd.toFixed(2)} monthly cap. Raise the cap in the project settings to continue.`,
+      'SPEND_CAP_EXCEEDED',
+      402,
+      true,
+      { projectId, capUsd, spentUsd }
+    );
+  }
+}
+
 export class WorkflowError extends AppError {
   constructor(message: string, workflowId: string, details?: Record<string, unknown>) {
     super(message, 'WORKFLOW_ERROR', 422, true, { workflowId, ...details });
@@ -137,6 +150,19 @@ export class StepExecutionError extends AppError {
   }
 }
 
+export class ExpressionError extends AppError {
+  constructor(message: string, expression: string, position: number) {
+    super(`${message} at position ${position}`, 'EXPRESSION_ERROR', 422, true, { expression, position });
+  }
+}
+
+// A CUSTOM step's script failed: it threw, ran out of time or memory, or returned non-JSON
+export class ScriptError extends AppError {
+  constructor(message: string, reason: 'compile' | 'runtime' | 'timeout' | 'memory' | 'result', details?: Record<string, unknown>) {
+    super(message, 'SCRIPT_ERROR', 422, true, { reason, ...details });
+  }
+}
+
 // ==========================================
 // EXTERNAL SERVICE ERRORS
 // ==========================================
@@ -153,6 +179,32 @@ export class AIProviderError extends AppError {
   }
 }
 
+// A model kept answering in a shape its schema rejects, even after being shown what was wrong
+export class AIOutputValidationError extends AppError {
+  public readonly schema: string;
+  public readonly issues: Array<{ path: string; message: string }>;
+  public readonly attempts: number;
+
+  constructor(
+    schema: string,
+    issues: Array<{ path: string; message: string }>,
+    attempts: number,
+    details?: Record<string, unknown>
+  ) {
+    const summary = issues.slice(0, 3).map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ');
+    super(
+      `AI output did not match the ${schema} schema after ${attempts} attempts (${summary})`,
+      'AI_OUTPUT_INVALID',
+      502,
+      true,
+      { schema, issues, attempts, ...details }
+    );
+    this.schema = schema;
+    this.issues = issues;
+    this.attempts = attempts;
+  }
+}
+
 export class IntegrationError extends AppError {
   constructor(integration: string, message: string, details?: Record<string, unknown>) {
     super(`Integration (${integration}) error: ${message}`, 'INTEGRATION_ERROR', 502, true, { integration, ...details });
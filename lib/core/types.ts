@@ -65,6 +65,9 @@ export interface ProjectContext {
   painPoints: string;
   budget: number;
   aiProvider?: AIProviderID;
+  aiFallbackProviders?: AIProviderID[]; // tried in order when aiProvider fails
+  brandColors?: string[]; // hex, most prominent first - used by generated images
+  aiSpendCapUsd?: number | null; // AI spend allowed per calendar month (UTC); AI steps fail once it is reached
 }
 
 export type ProjectStatus = 'draft' | 'active' | 'paused' | 'archived';
@@ -100,6 +103,7 @@ export interface Workflow {
   phase: WorkflowPhase;
   status: WorkflowStatus;
   config: WorkflowConfig;
+  publishedVersion?: number; // version new runs start on; the steps table is the draft
   createdAt: Date;
   updatedAt: Date;
 }
@@ -112,10 +116,89 @@ export interface WorkflowConfig {
   maxRetries: number;
   timeout: number;
   schedule?: string; // cron expression
+  catchUpPolicy?: CatchUpPolicy; // what to do with fires missed during downtime
+  autoAdvance?: boolean; // run each next step as soon as the last finishes, stopping only at human gates
   templateId?: string; // ID of template this workflow was created from
   templateName?: string; // Name of the template for display
+  templateVersion?: number; // Version of an organization template it was created from
 }
 
+export type CatchUpPolicy = 'skip' | 'latest' | 'all';
+
+// ==========================================
+// WORKFLOW VERSION TYPES (Published Definitions)
+// ==========================================
+
+// A published, immutable step graph. Steps keep the IDs they have in the draft.
+export interface WorkflowVersion {
+  id: string;
+  workflowId: string;
+  version: number;
+  steps: VersionStep[];
+  note?: string;
+  publishedBy?: string;
+  createdAt: Date;
+}
+
+export type VersionStep = Pick<Step, 'id' | 'type' | 'config' | 'dependencyIds' | 'position'>;
+
+// ==========================================
+// WORKFLOW TEMPLATE TYPES (Saved per Organization)
+// ==========================================
+
+export interface OrganizationTemplate {
+  id: string;
+  organizationId: string;
+  name: string;
+  description: string;
+  icon: string;
+  category: TemplateCategory;
+  platform: TemplatePlatform;
+  estimatedTime?: string;
+  latestVersion: number;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrganizationTemplateVersion {
+  id: string;
+  templateId: string;
+  version: number;
+  document: Record<string, unknown>; // workflow document, see lib/workflows/document.ts
+  sourceWorkflowId?: string;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export type TemplateCategory = 'engagement' | 'content' | 'growth' | 'custom';
+export type TemplatePlatform = 'twitter' | 'discord' | 'email' | 'all';
+
+// ==========================================
+// WORKFLOW RUN TYPES (One Execution)
+// ==========================================
+
+export interface WorkflowRun {
+  id: string;
+  workflowId: string;
+  projectId: string;
+  runNumber: number; // 1-based, per workflow
+  trigger: RunTrigger;
+  status: RunStatus;
+  triggeredBy?: string; // user ID, if a person started it
+  parentTaskId?: string; // RUN_WORKFLOW task waiting on this run
+  input?: Record<string, unknown>; // passed to the steps without dependencies
+  workflowVersion?: number; // published version the run is pinned to
+  simulated: boolean; // dry run: fake AI, fixture data, nothing posted
+  scheduledFor?: Date;
+  errorMessage?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export type RunTrigger = 'manual' | 'schedule' | 'api' | 'webhook' | 'workflow';
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
 // ==========================================
 // STEP TYPES (The LEGO Blocks)
 // ==========================================
@@ -146,17 +229,217 @@ export type StepType =
   | 'EMAIL_SEQ'
   | 'COMMUNITY_SYNC'
   | 'WAIT_APPROVAL'
+  | 'CONDITION'
+  | 'FOR_EACH'
+  | 'RUN_WORKFLOW'
   | 'CUSTOM';
 
 export interface StepConfig {
   promptTemplate?: string;
   platform?: string;
   criteria?: Record<string, unknown>;
-  timeout?: number;
-  retries?: number;
+  timeout?: number; // ms; defaults to WorkflowConfig.timeout
+  retries?: number; // shorthand for retryPolicy.maxAttempts - 1; defaults to WorkflowConfig.maxRetries
+  retryPolicy?: Partial<RetryPolicy>;
   [key: string]: unknown;
 }
 
+/**
+ * How a failed step is retried. `retryOn` lists the AppError codes worth retrying;
+ * without it, rate limits and server/provider errors are retried and client errors are not.
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // including the first
+  backoff: RetryBackoff;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn?: string[];
+}
+
+export type RetryBackoff = 'fixed' | 'exponential' | 'jittered';
+
+/**
+ * CONDITION step config: `expression` is evaluated against the parent outputs.
+ * Dependents listed in `onTrue` / `onFalse` only run on that branch; other dependents always run.
+ */
+export interface ConditionStepConfig extends StepConfig {
+  expression: string;
+  onTrue?: string[];
+  onFalse?: string[];
+}
+
+/**
+ * FOR_EACH step config: `itemsPath` is an expression over the parent output that yields
+ * an array; `steps` run in order once per item, at most `concurrency` items at a time.
+ */
+export interface ForEachStepConfig extends StepConfig {
+  itemsPath: string;
+  steps: Array<{ type: StepType; config?: StepConfig }>;
+  concurrency?: number;
+  requireItemApproval?: boolean; // each item's output is approved or rejected on its own
+}
+
+/**
+ * RUN_WORKFLOW step config: starts a run of another workflow in the same project and
+ * waits for it. Each of `inputs` is an expression over the parent output; without
+ * `inputs` the parent output is passed as is.
+ */
+export interface RunWorkflowStepConfig extends StepConfig {
+  workflowId: string;
+  inputs?: Record<string, string>;
+}
+
+/**
+ * GENERATE_HOOKS step config: how many distinct hook variants to generate (1-10, default 3)
+ */
+export interface HooksStepConfig extends StepConfig {
+  count?: number;
+}
+
+export type HookArchetype =
+  | 'question'
+  | 'bold_claim'
+  | 'statistic'
+  | 'story'
+  | 'contrarian'
+  | 'curiosity_gap'
+  | 'how_to'
+  | 'list'
+  | 'other';
+
+/**
+ * One opening line from GENERATE_HOOKS. The hook picked in review is the step's
+ * `selected_hook`, which the following GENERATE_DRAFT opens with.
+ */
+export interface HookVariant {
+  hook: string;
+  rationale: string;
+  archetype: HookArchetype;
+}
+
+/**
+ * GENERATE_IMAGE step config. The prompt defaults to the parent draft's
+ * `suggestedImagePrompt`; `brandColors` overrides the project's.
+ */
+export interface ImageStepConfig extends StepConfig {
+  provider?: ImageProviderID;
+  prompt?: string;
+  style?: string;
+  width?: number;
+  height?: number;
+  brandColors?: string[];
+}
+
+export type ImageProviderID = 'placeholder' | 'openai' | 'gemini'; // `placeholder` renders locally
+
+/**
+ * A generated file kept in storage (owned by the Asset Service)
+ */
+export interface GeneratedAsset {
+  id: string;
+  projectId: string;
+  taskId?: string;
+  runId?: string;
+  kind: 'image';
+  provider: ImageProviderID;
+  prompt: string;
+  storagePath: string;
+  contentType: string;
+  width: number;
+  height: number;
+  altText: string;
+  sizeBytes: number;
+  createdAt: Date;
+}
+
+/**
+ * EMAIL_SEQ step config: an N-email sequence (1-10, default 3) for a segment such as
+ * "Inactive 7 days". Recipients default to the parent output's `recipients`.
+ */
+export interface EmailSequenceStepConfig extends StepConfig {
+  count?: number;
+  segment: string;
+  goal?: string;
+  recipients?: string[];
+  from?: string; // defaults to SMTP_FROM
+}
+
+/**
+ * One email of a sequence. `sendDelayHours` counts from the previous email
+ * (the first from approval).
+ */
+export interface EmailDraft {
+  subject: string;
+  preheader: string;
+  body: string;
+  sendDelayHours: number;
+}
+
+/**
+ * What happened to one email for one recipient. `deferred` (4xx) is retried;
+ * `bounced` (5xx) is final.
+ */
+export interface EmailDelivery {
+  recipient: string;
+  status: 'sent' | 'bounced' | 'deferred';
+  messageId?: string;
+  response: string;
+  at: string;
+}
+
+/**
+ * COMMUNITY_SYNC step config: the Discord channel to read (by ID), how far back
+ * (1-168 hours, default 24) and how many messages at most (1-500, default 200)
+ */
+export interface CommunitySyncStepConfig extends StepConfig {
+  channelId: string;
+  lookbackHours?: number;
+  maxMessages?: number;
+}
+
+/**
+ * A member message read from a community channel
+ */
+export interface CommunityMessage {
+  id: string;
+  author: string;
+  content: string;
+  timestamp: string;
+}
+
+/**
+ * A member win or question picked out of a channel by COMMUNITY_SYNC
+ */
+export interface CommunityHighlight {
+  author: string;
+  text: string;
+  messageId?: string;
+}
+
+/**
+ * What COMMUNITY_SYNC makes of a channel: a summary, the wins and questions in it,
+ * and a spotlight announcement drafted from them
+ */
+export interface CommunityDigest {
+  summary: string;
+  wins: CommunityHighlight[];
+  questions: CommunityHighlight[];
+  spotlight: string;
+}
+
+/**
+ * CUSTOM step config: a user-authored script defining `run(input, context)`, which gets
+ * the parent output and project context and returns JSON. It runs sandboxed (see
+ * lib/workflows/sandbox.ts) within `timeoutMs` (default 1000, max 10000) and
+ * `memoryMb` (default 32, 8-256).
+ */
+export interface CustomStepConfig extends StepConfig {
+  script: string;
+  language?: 'javascript' | 'typescript'; // default javascript
+  timeoutMs?: number;
+  memoryMb?: number;
+}
+
 // ==========================================
 // TASK TYPES (Execution State)
 // ==========================================
@@ -165,6 +448,7 @@ export interface Task {
   id: string;
   stepId: string;
   projectId: string;
+  runId?: string; // Workflow run this task belongs to
   status: TaskStatus;
   outputData: Record<string, unknown>;
   errorMessage?: string;
@@ -183,13 +467,182 @@ export type TaskStatus =
   | 'review_needed'
   | 'completed'
   | 'failed'
-  | 'cancelled';
+  | 'cancelled'
+  | 'skipped'; // on a branch a CONDITION step did not take
+
+/**
+ * One item of a FOR_EACH task
+ */
+export interface TaskItem {
+  id: string;
+  taskId: string;
+  projectId: string;
+  itemIndex: number;
+  item: unknown;
+  status: TaskItemStatus;
+  outputData: Record<string, unknown>;
+  errorMessage?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+export type TaskItemStatus = 'pending' | 'in_progress' | 'review_needed' | 'completed' | 'failed' | 'rejected';
+
+/**
+ * One execution attempt of a task by the job worker, and what happened next
+ */
+export interface TaskAttempt {
+  id: string;
+  taskId: string;
+  projectId: string;
+  runId?: string;
+  jobId?: string;
+  attempt: number;
+  status: TaskAttemptStatus;
+  errorCode?: string;
+  errorMessage?: string;
+  retry?: TaskAttemptRetry;
+  nextAttemptAt?: Date;
+  durationMs: number;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+export type TaskAttemptStatus = 'succeeded' | 'failed' | 'timed_out';
+
+// Why a failed attempt was or was not retried
+export type TaskAttemptRetry = 'retrying' | 'not_retryable' | 'attempts_exhausted';
+
+// ==========================================
+// JOB QUEUE TYPES (Async Workers)
+// ==========================================
+
+export interface Job<T = Record<string, unknown>> {
+  id: string;
+  type: JobType;
+  payload: T;
+  status: JobStatus;
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastError?: string;
+  organizationId?: string;
+  projectId?: string;
+  workflowId?: string;
+  taskId?: string;
+  retryPolicy?: RetryPolicy; // backoff and retryable codes; the queue defaults otherwise
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export type JobType = 'EXECUTE_STEP' | 'SEND_EMAIL';
+
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'dead'; // dead-letter: retries exhausted or non-retryable
 
 // ==========================================
 // AI TYPES
 // ==========================================
 
-export type AIProviderID = 'gemini' | 'openai' | 'anthropic';
+export type AIProviderID = 'gemini' | 'openai' | 'anthropic' | 'local' | 'simulated'; // `simulated` only serves simulated runs
+
+/**
+ * An AI result and the provider in the fallback chain that produced it.
+ * `fallbackFrom` lists the providers tried (or skipped) before it.
+ */
+export interface AIGeneration<T> {
+  result: T;
+  provider: AIProviderID | null; // null when no provider had to be called
+  fallbackFrom: AIProviderID[];
+  usage: AIUsageTotals; // every call it took, including repairs and providers that fell back
+}
+
+export interface AIUsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number; // calls to models without a price count as 0
+}
+
+/**
+ * What an AIService's calls are charged to in the usage ledger, and the spend cap of the
+ * project they belong to. Calls outside a project (a blueprint for a new one) only have
+ * the organization.
+ */
+export interface AIUsageScope {
+  projectId?: string;
+  workflowId?: string;
+  taskId?: string;
+  spendCapUsd?: number | null; // the project's aiSpendCapUsd
+}
+
+/**
+ * One provider call in the usage ledger
+ */
+export interface AIUsageEntry {
+  id: string;
+  organizationId: string;
+  projectId: string | null;
+  workflowId: string | null;
+  taskId: string | null;
+  userId: string | null;
+  operation: string; // the structured output asked for, e.g. content_draft, or image
+  provider: AIProviderID | ImageProviderID;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null; // null when the model has no price
+  createdAt: Date;
+}
+
+/**
+ * Usage added up by project (key: project ID, or 'none'), by provider and model
+ * (key: provider/model) or by day (key: YYYY-MM-DD, UTC)
+ */
+export interface AIUsageGroup extends AIUsageTotals {
+  key: string;
+  calls: number;
+}
+
+export interface AIUsageSummary {
+  from: Date;
+  to: Date;
+  calls: number;
+  unpricedCalls: number; // calls to models without a price: in the token totals, not the cost
+  totals: AIUsageTotals;
+  byProject: AIUsageGroup[];
+  byModel: AIUsageGroup[];
+  byDay: AIUsageGroup[];
+}
+
+/**
+ * What a self-hosted model behind an OpenAI-compatible endpoint supports.
+ * Features it lacks are worked around rather than sent and rejected.
+ */
+export interface ModelCapabilities {
+  jsonMode: boolean;        // accepts response_format json_object
+  systemPrompt: boolean;    // honours a system message (else it is folded into the prompt)
+  maxOutputTokens?: number; // cap on generated tokens, if the server needs one
+}
+
+/**
+ * An organization's self-hosted model (`aiProvider: 'local'`): an OpenAI-compatible
+ * base URL such as a llama.cpp server, Ollama or vLLM. The API key is never returned.
+ */
+export interface ModelEndpoint {
+  organizationId: string;
+  baseUrl: string;
+  model: string;
+  capabilities: ModelCapabilities;
+  hasApiKey: boolean;
+  updatedAt: Date;
+}
 
 export interface Blueprint {
   activePillars: Array<{
@@ -273,6 +726,15 @@ export type EventType =
   | 'WORKFLOW_COMPLETED'
   | 'WORKFLOW_FAILED'
   | 'WORKFLOW_PAUSED'
+  | 'WORKFLOW_VERSION_PUBLISHED'
+  | 'WORKFLOW_ROLLED_BACK'
+  | 'WORKFLOW_RUN_STARTED'
+  | 'WORKFLOW_RUN_COMPLETED'
+  | 'WORKFLOW_RUN_FAILED'
+  // Template Events
+  | 'TEMPLATE_CREATED'
+  | 'TEMPLATE_VERSION_PUBLISHED'
+  | 'TEMPLATE_DELETED'
   // Step Events
   | 'STEP_CREATED'
   | 'STEP_SCHEDULED'
@@ -286,6 +748,8 @@ export type EventType =
   | 'TASK_COMPLETED'
   | 'TASK_FAILED'
   | 'TASK_RETRIED'
+  | 'TASK_SKIPPED'
+  | 'TASK_ITEM_UPDATED'
   // Content Events
   | 'CONTENT_DRAFTED'
   | 'CONTENT_APPROVED'
@@ -309,6 +773,7 @@ export type AggregateType =
   | 'project'
   | 'pillar'
   | 'workflow'
+  | 'template'
   | 'step'
   | 'task'
   | 'user';
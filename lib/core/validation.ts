@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { isValidCronExpression } from '../scheduler/cron';
 
 // ==========================================
 // COMMON VALIDATORS
@@ -50,6 +51,10 @@ export const updateOrganizationSchema = z.object({
 // PROJECT SCHEMAS
 // ==========================================
 
+export const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex colour such as #3b82f6');
+
+export const aiProviderSchema = z.enum(['gemini', 'openai', 'anthropic', 'local']);
+
 export const projectContextSchema = z.object({
   name: sanitizedStringSchema
     .pipe(z.string().min(2, 'Name must be at least 2 characters').max(200, 'Name must be at most 200 characters')),
@@ -60,7 +65,13 @@ export const projectContextSchema = z.object({
   painPoints: sanitizedStringSchema
     .pipe(z.string().min(5, 'Pain points must be at least 5 characters').max(1000, 'Pain points must be at most 1000 characters')),
   budget: z.number().int().min(0, 'Budget must be positive').max(1000000, 'Budget seems unrealistic'),
-  aiProvider: z.enum(['gemini', 'openai', 'anthropic']).optional().default('gemini'),
+  aiProvider: aiProviderSchema.optional().default('gemini'),
+  aiFallbackProviders: z.array(aiProviderSchema).max(3, 'At most 3 fallback providers')
+    .refine((ids) => new Set(ids).size === ids.length, 'Each fallback provider can appear once')
+    .optional(),
+  brandColors: z.array(hexColorSchema).max(5, 'At most 5 brand colours').optional(),
+  // USD per calendar month; null removes the cap
+  aiSpendCapUsd: z.number().min(0, 'Spend cap must be positive').max(1000000, 'Spend cap seems unrealistic').nullable().optional(),
 });
 
 export const createProjectSchema = projectContextSchema;
@@ -104,7 +115,14 @@ export const workflowConfigSchema = z.object({
   requiresApproval: z.boolean().default(true),
   maxRetries: z.number().int().min(0).max(10).default(3),
   timeout: z.number().int().min(1000).max(3600000).default(30000), // 1s to 1h
-  schedule: z.string().optional(), // cron expression
+  schedule: z.string()
+    .refine(isValidCronExpression, 'Invalid cron expression')
+    .optional(),
+  catchUpPolicy: z.enum(['skip', 'latest', 'all']).optional(),
+  autoAdvance: z.boolean().optional(),
+  templateId: z.string().min(1).max(100).optional(),
+  templateName: z.string().max(100).optional(),
+  templateVersion: z.number().int().min(1).optional(),
 });
 
 export const createWorkflowSchema = z.object({
@@ -144,29 +162,54 @@ export const stepTypeSchema = z.enum([
   'EMAIL_SEQ',
   'COMMUNITY_SYNC',
   'WAIT_APPROVAL',
+  'CONDITION',
+  'FOR_EACH',
+  'RUN_WORKFLOW',
   'CUSTOM',
 ]);
 
+// Unset fields fall back to `retries` / WorkflowConfig.maxRetries and the queue's exponential backoff
+export const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  backoff: z.enum(['fixed', 'exponential', 'jittered']).optional(),
+  baseDelayMs: z.number().int().min(1000).max(3600000).optional(), // 1s to 1h
+  maxDelayMs: z.number().int().min(1000).max(86400000).optional(), // 1s to 1 day
+  retryOn: z.array(z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Expected an error code such as RATE_LIMIT_EXCEEDED')).max(20).optional(),
+}).refine(
+  (policy) => !policy.baseDelayMs || !policy.maxDelayMs || policy.baseDelayMs <= policy.maxDelayMs,
+  { message: 'baseDelayMs cannot exceed maxDelayMs', path: ['baseDelayMs'] }
+);
+
 export const stepConfigSchema = z.object({
   promptTemplate: z.string().max(5000).optional(),
   platform: z.string().max(50).optional(),
   criteria: z.record(z.string(), z.unknown()).optional(),
   timeout: z.number().int().min(1000).max(300000).optional(),
   retries: z.number().int().min(0).max(5).optional(),
+  retryPolicy: retryPolicySchema.optional(),
 }).passthrough(); // Allow additional properties
 
+// A step of the same workflow, or `workflow:<workflowId>.<stepId>` for a step of another workflow
+export const stepDependencySchema = z.union([
+  uuidSchema,
+  z.string().regex(
+    /^workflow:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    'Invalid dependency: expected a step ID or workflow:<workflowId>.<stepId>'
+  ),
+]);
+
 export const createStepSchema = z.object({
   workflowId: uuidSchema,
   type: stepTypeSchema,
   config: stepConfigSchema.optional().default({}),
-  dependencyIds: z.array(uuidSchema).optional().default([]),
+  dependencyIds: z.array(stepDependencySchema).optional().default([]),
   position: z.number().int().min(1).max(100),
 });
 
 export const updateStepSchema = z.object({
   type: stepTypeSchema.optional(),
   config: stepConfigSchema.optional(),
-  dependencyIds: z.array(uuidSchema).optional(),
+  dependencyIds: z.array(stepDependencySchema).optional(),
   position: z.number().int().min(1).max(100).optional(),
 });
 
@@ -175,6 +218,325 @@ export const reorderStepsSchema = z.array(z.object({
   position: z.number().int().min(1).max(100),
 }));
 
+// ==========================================
+// WORKFLOW DOCUMENT SCHEMAS
+// ==========================================
+
+export const WORKFLOW_DOCUMENT_FORMAT = 'launchgrid.workflow';
+export const WORKFLOW_DOCUMENT_VERSION = 1;
+
+// A step names itself with a key local to the document; dependsOn lists keys,
+// or steps of other workflows as workflow:<workflowId>.<stepId>
+export const workflowDocumentStepSchema = createStepSchema.pick({ type: true, config: true }).extend({
+  key: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Step keys may only contain letters, digits, _ and - (max 64)'),
+  dependsOn: z.array(z.string().min(1)).optional().default([]),
+});
+
+export const workflowDocumentSchema = z.object({
+  format: z.literal(WORKFLOW_DOCUMENT_FORMAT),
+  version: z.number().int().min(1).max(
+    WORKFLOW_DOCUMENT_VERSION,
+    `Unsupported document version (this version of LaunchGrid reads up to ${WORKFLOW_DOCUMENT_VERSION})`
+  ),
+  workflow: z.object({
+    name: createWorkflowSchema.shape.name,
+    description: createWorkflowSchema.shape.description,
+    phase: workflowPhaseSchema.optional(),
+    config: workflowConfigSchema.optional(),
+  }),
+  steps: z.array(workflowDocumentStepSchema).max(100),
+});
+
+// Import request: the document as parsed JSON, or as JSON/YAML text
+export const importWorkflowSchema = z.object({
+  projectId: uuidSchema,
+  pillarId: uuidSchema,
+  name: sanitizedStringSchema.pipe(z.string().min(2).max(200)).optional(),
+  document: z.union([
+    z.string().min(1, 'Document is empty').max(200000, 'Document too large'),
+    z.record(z.string(), z.unknown()),
+  ]),
+});
+
+export const workflowDocumentFormatSchema = z.enum(['json', 'yaml']);
+
+// ==========================================
+// WORKFLOW TEMPLATE SCHEMAS
+// ==========================================
+
+export const templateCategorySchema = z.enum(['engagement', 'content', 'growth', 'custom']);
+export const templatePlatformSchema = z.enum(['twitter', 'discord', 'email', 'all']);
+
+// Save a workflow as a new organization template (its first version)
+export const createTemplateSchema = z.object({
+  workflowId: uuidSchema,
+  name: sanitizedStringSchema.pipe(z.string().min(2).max(100)),
+  description: sanitizedStringSchema.pipe(z.string().max(500)).optional(),
+  icon: z.string().min(1).max(16).optional().default('🧩'),
+  category: templateCategorySchema.optional().default('custom'),
+  platform: templatePlatformSchema.optional().default('all'),
+  estimatedTime: sanitizedStringSchema.pipe(z.string().max(50)).optional(),
+});
+
+// Save a workflow as the next version of an existing template
+export const publishTemplateVersionSchema = z.object({
+  workflowId: uuidSchema,
+});
+
+// ==========================================
+// WORKFLOW VERSION SCHEMAS
+// ==========================================
+
+export const workflowVersionNumberSchema = z.coerce.number().int().min(1);
+
+// Publish a workflow's draft as its next version
+export const publishWorkflowVersionSchema = z.object({
+  note: sanitizedStringSchema.pipe(z.string().max(500)).optional(),
+});
+
+// Compare a version with another version or with the draft
+export const compareWorkflowVersionsSchema = z.object({
+  from: workflowVersionNumberSchema,
+  to: z.union([z.literal('draft'), workflowVersionNumberSchema]),
+});
+
+// ==========================================
+// STEP DATA SCHEMAS
+// ==========================================
+
+// A post or reply found on a feed (SCAN_FEED, SELECT_TARGETS)
+export const feedItemSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  author: z.string().optional(),
+  url: z.string().optional(),
+}).passthrough();
+
+export const replyDraftSchema = z.object({
+  target_id: z.string().optional(),
+  reply: z.string(),
+}).passthrough();
+
+// Something that was (or will be) posted, as tracked by TRACK_ENGAGEMENT
+export const postedItemSchema = z.object({
+  url: z.string().nullish(),
+  reply: z.string().nullish(),
+  content: z.string().nullish(),
+}).passthrough();
+
+// An image generated for a draft (GENERATE_IMAGE), kept in asset storage
+export const generatedImageSchema = z.object({
+  assetId: z.string(),
+  url: z.string(),
+  storagePath: z.string(),
+  contentType: z.string(),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  altText: z.string(),
+  provider: z.string(),
+}).passthrough();
+
+export const hookArchetypeSchema = z.enum([
+  'question',
+  'bold_claim',
+  'statistic',
+  'story',
+  'contrarian',
+  'curiosity_gap',
+  'how_to',
+  'list',
+  'other',
+]);
+
+export const hookVariantSchema = z.object({
+  hook: z.string().min(1),
+  rationale: z.string(),
+  archetype: hookArchetypeSchema,
+}).passthrough();
+
+// "Name <address>" or a bare address, on one line (it goes into SMTP commands and headers)
+export const emailSenderSchema = z.string().max(320).refine(
+  (value) => /^(?:[^\r\n<>]*<[^\s<>@]+@[^\s<>@]+>|[^\s<>@]+@[^\s<>@]+)$/.test(value.trim()),
+  'Expected an address or "Name <address>"'
+);
+
+// One email of an EMAIL_SEQ sequence; the delay counts from the previous email
+export const emailDraftSchema = z.object({
+  subject: z.string().min(1),
+  preheader: z.string(),
+  body: z.string().min(1),
+  sendDelayHours: z.number().min(0),
+}).passthrough();
+
+// A member win or question COMMUNITY_SYNC picked out of a channel
+export const communityHighlightSchema = z.object({
+  author: z.string().min(1),
+  text: z.string().min(1),
+  messageId: z.string().optional(),
+}).passthrough();
+
+export const generatedContentSchema = z.object({
+  title: z.string(),
+  content: z.string(),
+  hashtags: z.array(z.string()).optional(),
+  suggestedImagePrompt: z.string().optional(),
+}).passthrough();
+
+/**
+ * What each step type reads from its input. Checked when the step starts; required
+ * keys must be produced by an upstream step (or mapped in `config.inputs`) when saving.
+ */
+export const stepInputSchemas = {
+  SELECT_TARGETS: z.object({
+    found_items: z.array(feedItemSchema),
+  }).passthrough(),
+  GENERATE_REPLIES: z.object({
+    selected_items: z.array(feedItemSchema).min(1, 'No targets to reply to'),
+  }).passthrough(),
+  TRACK_ENGAGEMENT: z.object({
+    posts: z.array(postedItemSchema).nullish(),
+  }).passthrough(),
+  EMAIL_SEQ: z.object({
+    recipients: z.array(z.string().email()).nullish(),
+  }).passthrough(),
+};
+
+/**
+ * What each step type writes as output. Validated when the step's output is recorded.
+ * Types without a schema (review, posting, FOR_EACH, RUN_WORKFLOW) produce open-ended data.
+ */
+export const stepOutputSchemas = {
+  GENERATE_DRAFT: generatedContentSchema,
+  GENERATE_OUTLINE: generatedContentSchema,
+  GENERATE_HOOKS: z.object({
+    hooks: z.array(hookVariantSchema).min(1),
+    selected_hook: z.string(),
+  }).passthrough(),
+  GENERATE_IMAGE: z.object({
+    image: generatedImageSchema,
+  }).passthrough(),
+  SCAN_FEED: z.object({
+    found_items: z.array(feedItemSchema),
+  }).passthrough(),
+  SELECT_TARGETS: z.object({
+    selected_items: z.array(feedItemSchema),
+    rationale: z.string().optional(),
+  }).passthrough(),
+  GENERATE_REPLIES: z.object({
+    replies: z.array(replyDraftSchema),
+  }).passthrough(),
+  TRACK_ENGAGEMENT: z.object({
+    tracking_count: z.number().int().min(0),
+  }).passthrough(),
+  EMAIL_SEQ: z.object({
+    emails: z.array(emailDraftSchema).min(1),
+    segment: z.string(),
+    recipients: z.array(z.string().email()),
+    from: emailSenderSchema.optional(),
+  }).passthrough(),
+  COMMUNITY_SYNC: z.object({
+    channelId: z.string(),
+    messageCount: z.number().int().min(0),
+    summary: z.string(),
+    wins: z.array(communityHighlightSchema),
+    questions: z.array(communityHighlightSchema),
+    content: z.string().min(1),
+  }).passthrough(),
+  CONDITION: z.object({
+    condition: z.object({ expression: z.string(), result: z.boolean() }),
+  }).passthrough(),
+};
+
+// Step types whose output carries their input through (plus their own keys)
+export const passThroughStepTypes: StepTypeName[] = [
+  'GENERATE_IMAGE',
+  'REVIEW_CONTENT',
+  'WAIT_APPROVAL',
+  'POST_API',
+  'POST_REPLY',
+  'POST_EXTENSION',
+  'CONDITION',
+];
+
+// Input mappings applied when a step's config.inputs does not set the key
+export const stepDefaultInputs: Partial<Record<StepTypeName, Record<string, string>>> = {
+  TRACK_ENGAGEMENT: { posts: 'replies' },
+};
+
+export type StepTypeName = z.infer<typeof stepTypeSchema>;
+export type FeedItem = z.infer<typeof feedItemSchema>;
+export type ReplyDraft = z.infer<typeof replyDraftSchema>;
+export type PostedItem = z.infer<typeof postedItemSchema>;
+
+export function getStepInputSchema(type: string): z.ZodObject | undefined {
+  return (stepInputSchemas as Partial<Record<string, z.ZodObject>>)[type];
+}
+
+export function getStepOutputSchema(type: string): z.ZodObject | undefined {
+  return (stepOutputSchemas as Partial<Record<string, z.ZodObject>>)[type];
+}
+
+// ==========================================
+// AI OUTPUT SCHEMAS
+// ==========================================
+
+// What a model must answer with for each structured AIService call. Every answer is a JSON
+// object (providers' JSON modes only return objects), checked against its schema.
+
+// Uses snake_case, as the blueprint prompt asks for
+export const blueprintOutputSchema = z.object({
+  active_pillars: z.array(z.object({
+    id: z.string().min(1),
+    type: pillarTypeSchema,
+    name: z.string().min(1),
+  })).min(1),
+  workflows: z.array(z.object({
+    workflow_id: z.string().min(1),
+    pillar_ref: z.string().min(1),
+    name: z.string().min(1),
+    goal: z.string(),
+    frequency: z.string(),
+    description: z.string(),
+  })).min(1),
+}).refine(
+  (blueprint) => blueprint.workflows.every((w) => blueprint.active_pillars.some((p) => p.id === w.pillar_ref)),
+  { message: 'Every workflow pillar_ref must be the id of one of the active_pillars', path: ['workflows'] }
+);
+
+export const contentDraftOutputSchema = z.object({
+  title: z.string().optional(),
+  content: z.string().trim().min(1),
+  hashtags: z.array(z.string()).default([]),
+  suggestedImagePrompt: z.string().optional(),
+});
+
+export const hooksOutputSchema = z.object({
+  hooks: z.array(hookVariantSchema).min(1),
+});
+
+export const emailSequenceOutputSchema = z.object({
+  emails: z.array(emailDraftSchema).min(1),
+});
+
+export const communityDigestOutputSchema = z.object({
+  summary: z.string(),
+  wins: z.array(communityHighlightSchema),
+  questions: z.array(communityHighlightSchema),
+  spotlight: z.string().trim().min(1),
+});
+
+// The feed items worth replying to, by ID (SELECT_TARGETS)
+export const targetSelectionOutputSchema = z.object({
+  selected: z.array(z.object({
+    id: z.string().min(1),
+    reason: z.string(),
+  })).max(5),
+});
+
+export const replyOutputSchema = z.object({
+  reply: z.string().trim().min(1).max(280),
+});
+
 // ==========================================
 // TASK SCHEMAS
 // ==========================================
@@ -188,6 +550,7 @@ export const taskStatusSchema = z.enum([
   'completed',
   'failed',
   'cancelled',
+  'skipped',
 ]);
 
 export const createTaskSchema = z.object({
@@ -244,6 +607,7 @@ export const providerKeySchema = z.enum([
   'anthropic_key',
   'twitter_token',
   'discord_token',
+  'discord_webhook',
 ]);
 
 export const saveSecretSchema = z.object({
@@ -251,6 +615,41 @@ export const saveSecretSchema = z.object({
   value: z.string().min(10, 'API key seems too short').max(500, 'API key too long'),
 });
 
+// ==========================================
+// MODEL ENDPOINT SCHEMAS
+// ==========================================
+
+// An organization's self-hosted, OpenAI-compatible model (e.g. http://localhost:11434/v1 for Ollama)
+export const saveModelEndpointSchema = z.object({
+  baseUrl: z.string().url('Enter the endpoint URL, e.g. http://localhost:8080/v1')
+    .refine((url) => /^https?:\/\//.test(url), 'Only http(s) endpoints are supported')
+    .max(500),
+  model: z.string().trim().min(1, 'Model name is required').max(200),
+  apiKey: z.string().max(500, 'API key too long').optional(), // unset keeps the stored key, '' clears it
+  capabilities: z.object({
+    jsonMode: z.boolean().default(false),
+    systemPrompt: z.boolean().default(true),
+    maxOutputTokens: z.number().int().min(64).max(32768).optional(),
+  }).default({ jsonMode: false, systemPrompt: true }),
+});
+
+// ==========================================
+// USAGE SCHEMAS
+// ==========================================
+
+// Usage report period and filter; the period defaults to the current month (UTC)
+export const usageQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  projectId: uuidSchema.optional(),
+}).refine(
+  (query) => !query.from || !query.to || query.from < query.to,
+  { message: '`from` must be before `to`', path: ['from'] }
+).refine(
+  (query) => !query.from || !query.to || query.to.getTime() - query.from.getTime() <= 366 * 24 * 60 * 60 * 1000,
+  { message: 'Usage can be reported for at most a year at a time', path: ['to'] }
+);
+
 // ==========================================
 // API REQUEST SCHEMAS
 // ==========================================
@@ -299,6 +698,17 @@ export function safeValidateInput<T>(
   return { success: true, data: result.data };
 }
 
+/**
+ * Problems with a step's output, per its type's output schema (none if it has no schema)
+ */
+export function validateStepOutput(type: string, output: unknown): Array<{ field: string; message: string }> {
+  const schema = getStepOutputSchema(type);
+  if (!schema) return [];
+
+  const result = safeValidateInput(schema, output);
+  return result.success ? [] : result.errors;
+}
+
 // Type exports
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
@@ -308,3 +718,8 @@ export type CreateStepInput = z.infer<typeof createStepSchema>;
 export type UpdateStepInput = z.infer<typeof updateStepSchema>;
 export type ExtensionResultInput = z.infer<typeof extensionResultSchema>;
 export type SaveSecretInput = z.infer<typeof saveSecretSchema>;
+export type SaveModelEndpointInput = z.input<typeof saveModelEndpointSchema>;
+export type UsageQuery = z.input<typeof usageQuerySchema>;
+export type WorkflowDocument = z.infer<typeof workflowDocumentSchema>;
+export type WorkflowDocumentStep = z.infer<typeof workflowDocumentStepSchema>;
+export type CreateTemplateInput = z.input<typeof createTemplateSchema>;
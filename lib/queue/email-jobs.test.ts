@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { EmailMessage, EmailSender, EmailSendResult } from '@/utils/email/interface';
+import type { Job } from '@/lib/core/types';
+import { createSendEmailHandler, type SendEmailJobPayload } from './email-jobs';
+
+/**
+ * SEND_EMAIL saves each recipient's delivery as it happens, so a retry after a send that
+ * failed partway only mails the recipients it had not reached
+ */
+
+type Row = Record<string, any>;
+
+// Enough of PostgREST for TaskService: eq filters, single rows and filtered updates
+function fakeSupabase(tables: Record<string, Row[]>): SupabaseClient {
+  const query = (table: string, filters: Array<[string, unknown]> = [], patch?: Row): any => {
+    const run = () => {
+      const rows = (tables[table] ?? []).filter((row) => filters.every(([column, value]) => row[column] === value));
+      if (patch) rows.forEach((row) => Object.assign(row, patch));
+      return rows;
+    };
+    return {
+      select: () => query(table, filters, patch),
+      update: (values: Row) => query(table, filters, values),
+      eq: (column: string, value: unknown) => query(table, [...filters, [column, value]], patch),
+      single: async () => {
+        const rows = run();
+        return rows.length === 1 ? { data: rows[0], error: null } : { data: null, error: { message: 'not found' } };
+      },
+      maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+      then: (resolve: (value: unknown) => void) => resolve({ data: run(), error: null }),
+    };
+  };
+  return { from: (table: string) => query(table) } as unknown as SupabaseClient;
+}
+
+// Sends to each recipient in turn; the connection drops after `failAfter` of them
+class FlakySender implements EmailSender {
+  sentTo: string[] = [];
+
+  constructor(private failAfter = Infinity) { }
+
+  async send(message: EmailMessage, onResult?: (result: EmailSendResult) => Promise<void>): Promise<EmailSendResult[]> {
+    const results: EmailSendResult[] = [];
+    for (const recipient of message.to) {
+      if (results.length === this.failAfter) throw new Error('Connection reset');
+      this.sentTo.push(recipient);
+      const result: EmailSendResult = { recipient, status: 'sent', messageId: `<${recipient}>`, response: '250 Ok' };
+      results.push(result);
+      await onResult?.(result);
+    }
+    return results;
+  }
+}
+
+const recipients = ['ann@example.com', 'bob@example.com', 'cy@example.com'];
+
+let tables: Record<string, Row[]>;
+
+beforeEach(() => {
+  tables = {
+    projects: [{ id: 'project-1', user_id: 'user-1' }],
+    tasks: [{ id: 'task-1', step_id: 'step-1', project_id: 'project-1', status: 'completed', output_data: { recipients } }],
+    task_items: [{
+      id: 'item-1',
+      task_id: 'task-1',
+      project_id: 'project-1',
+      item_index: 0,
+      item: { subject: 'Welcome back', preheader: 'We missed you', body: 'Hello' },
+      status: 'pending',
+      output_data: null,
+    }],
+  };
+});
+
+const job = {
+  id: 'job-1',
+  payload: { taskId: 'task-1', itemId: 'item-1', userId: 'user-1', organizationId: 'org-1', requestId: 'req-1' },
+} as Job<SendEmailJobPayload>;
+
+const item = () => tables.task_items[0];
+
+describe('SEND_EMAIL', () => {
+  it('keeps the deliveries made before a send failed partway, and the retry skips them', async () => {
+    const flaky = new FlakySender(2);
+    await expect(createSendEmailHandler(fakeSupabase(tables), flaky)(job)).rejects.toMatchObject({ code: 'INTEGRATION_ERROR' });
+
+    expect(item().status).toBe('failed');
+    expect(item().output_data.deliveries.map((d: { recipient: string }) => d.recipient))
+      .toEqual(['ann@example.com', 'bob@example.com']);
+
+    const retry = new FlakySender();
+    await createSendEmailHandler(fakeSupabase(tables), retry)(job);
+
+    expect(retry.sentTo).toEqual(['cy@example.com']);
+    expect(item().status).toBe('completed');
+    expect(item().output_data).toMatchObject({ sent: 3, bounced: 0, deferred: 0 });
+  });
+
+  it('saves each delivery on the item while the email is still sending', async () => {
+    const seen: number[] = [];
+    const sender: EmailSender = {
+      send: (message, onResult) => new FlakySender().send(message, async (result) => {
+        await onResult?.(result);
+        seen.push(item().output_data.deliveries.length);
+      }),
+    };
+
+    await createSendEmailHandler(fakeSupabase(tables), sender)(job);
+
+    expect(seen).toEqual([1, 2, 3]);
+  });
+});
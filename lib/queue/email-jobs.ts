@@ -0,0 +1,258 @@
+/**
+ * Email Sending Jobs
+ *
+ * Following the constitution:
+ * - Human-in-the-loop: an EMAIL_SEQ sequence is only scheduled once its task is approved
+ * - Integrations are adapters: jobs send through an EmailSender (SMTP by default)
+ *
+ * Each email of an approved sequence is a task item with its own SEND_EMAIL job, due
+ * `sendDelayHours` after the email before it. The item records what happened to every
+ * recipient (message ID, server reply, bounce).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TaskService, createServiceContext } from '../services';
+import { BusinessRuleError, ConfigurationError, IntegrationError } from '../core/errors';
+import { emailSenderSchema } from '../core/validation';
+import type { EmailDelivery, EmailDraft, RetryPolicy, Task, TaskItem } from '../core/types';
+import type { EmailSender } from '../../utils/email/interface';
+import { SmtpEmailSender, smtpConfigFromEnv } from '../../utils/email/smtp';
+import { simulatedEmailDeliveries } from '../workflows/simulation';
+import { JobQueue } from './job-queue';
+import type { StepJobOrigin } from './step-jobs';
+import type { DeadLetterHandler, JobHandler } from './worker';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface SendEmailJobPayload {
+  taskId: string;
+  itemId: string;
+  userId: string;
+  organizationId: string;
+  requestId: string;
+}
+
+export interface ScheduledEmail {
+  itemId: string;
+  index: number;
+  subject: string;
+  sendAt: string;
+  jobId?: string; // none in a simulated run
+}
+
+// Deferred recipients (4xx) are retried for about a day before the email gives up
+const SEND_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 6,
+  backoff: 'exponential',
+  baseDelayMs: 5 * 60 * 1000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ==========================================
+// SCHEDULE
+// ==========================================
+
+/**
+ * Schedule the emails of an approved EMAIL_SEQ task: one task item and one SEND_EMAIL
+ * job per email, each due its delay after the previous one (the first right away).
+ * In a simulated run nothing is queued; each item records simulated sends instead.
+ * Returns the schedule to record on the task.
+ */
+export async function scheduleEmailSequence(
+  queue: JobQueue,
+  taskService: TaskService,
+  task: Task,
+  origin: StepJobOrigin,
+  options: { simulated?: boolean; now?: Date } = {}
+): Promise<ScheduledEmail[]> {
+  const emails = (task.outputData.emails || []) as EmailDraft[];
+  const recipients = (task.outputData.recipients || []) as string[];
+
+  if (task.status !== 'review_needed' && task.status !== 'awaiting_approval') {
+    throw new BusinessRuleError('Task is not awaiting approval', 'INVALID_APPROVAL_STATE');
+  }
+  if (recipients.length === 0 && !options.simulated) {
+    throw new BusinessRuleError('The email sequence has no recipients', 'RECIPIENTS_REQUIRED');
+  }
+  // The sender can be edited in review, after the step config was checked
+  if (task.outputData.from !== undefined && !emailSenderSchema.safeParse(task.outputData.from).success) {
+    throw new BusinessRuleError('The email sequence has an invalid sender address', 'INVALID_SENDER');
+  }
+
+  const items = await taskService.createItems(task.id, emails);
+
+  const schedule: ScheduledEmail[] = [];
+  let sendAt = (options.now ?? new Date()).getTime();
+
+  for (const item of items) {
+    const email = item.item as EmailDraft;
+    sendAt += (email.sendDelayHours || 0) * HOUR_MS;
+
+    if (options.simulated) {
+      const deliveries = simulatedEmailDeliveries(recipients, item.itemIndex);
+      await taskService.updateItemStatus(item.id, 'in_progress');
+      await taskService.updateItemStatus(item.id, 'completed', { deliveries, sent: deliveries.length, bounced: 0, deferred: 0 });
+    }
+
+    const job = options.simulated ? null : await queue.enqueue<SendEmailJobPayload>(
+      'SEND_EMAIL',
+      {
+        taskId: task.id,
+        itemId: item.id,
+        userId: origin.userId,
+        organizationId: origin.organizationId,
+        requestId: origin.requestId,
+      },
+      {
+        runAt: new Date(sendAt),
+        retryPolicy: SEND_RETRY_POLICY,
+        organizationId: origin.organizationId,
+        projectId: task.projectId,
+        taskId: task.id,
+      }
+    );
+
+    schedule.push({
+      itemId: item.id,
+      index: item.itemIndex,
+      subject: email.subject,
+      sendAt: new Date(sendAt).toISOString(),
+      ...(job && { jobId: job.id }),
+    });
+  }
+
+  return schedule;
+}
+
+// ==========================================
+// HANDLER
+// ==========================================
+
+/**
+ * Worker handler for SEND_EMAIL: sends one email of a sequence to every recipient not
+ * yet sent or bounced. Deferred recipients fail the job so the queue retries them;
+ * an email every recipient bounced fails for good.
+ */
+export function createSendEmailHandler(
+  supabase: SupabaseClient,
+  sender?: EmailSender
+): JobHandler<SendEmailJobPayload> {
+  return async (job) => {
+    const taskService = createTaskService(supabase, job.payload);
+    const task = await taskService.getById(job.payload.taskId);
+    const item = await taskService.getItem(job.payload.itemId);
+
+    // Sent by an earlier attempt whose job did not complete
+    if (item.status === 'completed' || item.status === 'rejected') return;
+
+    const emailSender = sender ?? defaultSender();
+    const email = item.item as EmailDraft;
+    const recipients = (task.outputData.recipients || []) as string[];
+
+    // Recipients that already have a final answer are not sent to again
+    const previous = deliveriesOf(item).filter((d) => d.status !== 'deferred');
+    const done = new Set(previous.map((d) => d.recipient));
+    const pending = recipients.filter((r) => !done.has(r));
+
+    if (item.status !== 'in_progress') {
+      await taskService.updateItemStatus(item.id, 'in_progress');
+    }
+
+    // Each recipient's delivery is saved as soon as the server answers, so a send that
+    // fails partway (or a worker that dies) is retried without mailing them again
+    const delivered: EmailDelivery[] = [];
+    try {
+      await emailSender.send(
+        {
+          from: typeof task.outputData.from === 'string' ? task.outputData.from : '',
+          to: pending,
+          subject: email.subject,
+          preheader: email.preheader,
+          text: email.body,
+        },
+        async (result) => {
+          delivered.push({ ...result, at: new Date().toISOString() });
+          await taskService.updateItemOutput(item.id, { deliveries: [...previous, ...delivered] });
+        }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await taskService.updateItemStatus(item.id, 'failed', { deliveries: [...previous, ...delivered] }, message);
+      throw new IntegrationError('smtp', message, { taskId: task.id, itemId: item.id });
+    }
+
+    const deliveries: EmailDelivery[] = [...previous, ...delivered];
+    const summary = {
+      deliveries,
+      sent: deliveries.filter((d) => d.status === 'sent').length,
+      bounced: deliveries.filter((d) => d.status === 'bounced').length,
+      deferred: deliveries.filter((d) => d.status === 'deferred').length,
+    };
+
+    if (summary.deferred > 0) {
+      const message = `${summary.deferred} of ${recipients.length} recipients deferred`;
+      await taskService.updateItemStatus(item.id, 'failed', summary, message);
+      throw new IntegrationError('smtp', message, {
+        taskId: task.id,
+        itemId: item.id,
+        deferred: deliveries.filter((d) => d.status === 'deferred').map((d) => d.recipient),
+      });
+    }
+
+    if (summary.sent === 0 && recipients.length > 0) {
+      await taskService.updateItemStatus(item.id, 'failed', summary, 'Every recipient bounced');
+      return;
+    }
+
+    await taskService.updateItemStatus(item.id, 'completed', summary);
+  };
+}
+
+/**
+ * Dead-lettered SEND_EMAIL: the email will not be retried, so its item has failed
+ */
+export function createSendEmailDeadLetterHandler(supabase: SupabaseClient): DeadLetterHandler<SendEmailJobPayload> {
+  return async (job, error) => {
+    const taskService = createTaskService(supabase, job.payload);
+    const item = await taskService.getItem(job.payload.itemId);
+
+    // A failed item already carries the reason of its last attempt
+    if (item.status !== 'pending' && item.status !== 'in_progress') return;
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (item.status === 'pending') {
+      await taskService.updateItemStatus(item.id, 'in_progress');
+    }
+    await taskService.updateItemStatus(item.id, 'failed', undefined, message);
+  };
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function defaultSender(): EmailSender {
+  const config = smtpConfigFromEnv();
+  if (!config) {
+    throw new ConfigurationError('SMTP_HOST is not set; email sequences cannot be sent', 'SMTP_HOST');
+  }
+  return new SmtpEmailSender(config);
+}
+
+function deliveriesOf(item: TaskItem): EmailDelivery[] {
+  return Array.isArray(item.outputData?.deliveries) ? (item.outputData.deliveries as EmailDelivery[]) : [];
+}
+
+// Emails are sent as the user who approved the sequence
+function createTaskService(supabase: SupabaseClient, payload: SendEmailJobPayload): TaskService {
+  return new TaskService(createServiceContext(
+    supabase,
+    { id: payload.userId },
+    payload.organizationId,
+    { requestId: payload.requestId }
+  ));
+}
@@ -0,0 +1,32 @@
+/**
+ * LaunchGrid Job Queue
+ *
+ * Durable background execution for workflow steps and scheduled email sends.
+ */
+
+export {
+  JobQueue,
+  isRetryableJobError,
+  planRetry,
+  retryDelay,
+  type EnqueueOptions,
+  type ClaimOptions,
+  type BackoffOptions,
+  type FailResult,
+} from './job-queue';
+export { JobWorker, type JobHandler, type DeadLetterHandler, type JobWorkerOptions, type JobRunResult } from './worker';
+export {
+  enqueueStepExecution,
+  createExecuteStepHandler,
+  createStepDeadLetterHandler,
+  advanceRun,
+  type ExecuteStepJobPayload,
+  type StepJobOrigin,
+} from './step-jobs';
+export {
+  scheduleEmailSequence,
+  createSendEmailHandler,
+  createSendEmailDeadLetterHandler,
+  type SendEmailJobPayload,
+  type ScheduledEmail,
+} from './email-jobs';
@@ -0,0 +1,311 @@
+/**
+ * LaunchGrid Job Queue
+ *
+ * Following the constitution:
+ * - AI is asynchronous and stateless
+ * - Workflows are able to run without UI
+ *
+ * Durable queue on the `jobs` table. Jobs are claimed with FOR UPDATE SKIP LOCKED
+ * (via the `claim_jobs` function), held for a visibility timeout, retried with
+ * backoff and dead-lettered once attempts are exhausted. A job can carry its own
+ * retry policy (backoff strategy and retryable error codes); otherwise the queue's
+ * exponential backoff and default retryable errors apply.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DatabaseError, isAppError, normalizeError } from '../core/errors';
+import type { Job, JobType, RetryPolicy } from '../core/types';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  priority?: number;
+  runAt?: Date;
+  organizationId?: string;
+  projectId?: string;
+  workflowId?: string;
+  taskId?: string;
+  retryPolicy?: RetryPolicy; // maxAttempts here wins over options.maxAttempts
+}
+
+export interface ClaimOptions {
+  limit?: number;
+  visibilityTimeoutMs?: number;
+  types?: JobType[];
+}
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export type FailResult =
+  | { status: 'retrying'; runAt: Date; attempt: number }
+  | { status: 'dead'; attempt: number; reason: 'not_retryable' | 'attempts_exhausted' };
+
+const DEFAULT_VISIBILITY_TIMEOUT_MS = 5 * 60_000;
+
+const DEFAULT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 10_000,
+  maxDelayMs: 10 * 60_000,
+};
+
+// ==========================================
+// JOB QUEUE
+// ==========================================
+
+export class JobQueue {
+  private backoff: BackoffOptions;
+
+  constructor(
+    private supabase: SupabaseClient,
+    backoff: Partial<BackoffOptions> = {}
+  ) {
+    this.backoff = { ...DEFAULT_BACKOFF, ...backoff };
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async enqueue<T extends object>(type: JobType, payload: T, options: EnqueueOptions = {}): Promise<Job<T>> {
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .insert({
+        type,
+        payload,
+        priority: options.priority ?? 0,
+        max_attempts: Math.max(1, options.retryPolicy?.maxAttempts ?? options.maxAttempts ?? 4),
+        run_at: (options.runAt || new Date()).toISOString(),
+        organization_id: options.organizationId || null,
+        project_id: options.projectId || null,
+        workflow_id: options.workflowId || null,
+        task_id: options.taskId || null,
+        retry_policy: options.retryPolicy || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new DatabaseError(`Failed to enqueue job: ${error.message}`, 'INSERT', { type });
+    }
+
+    return mapToJob<T>(data);
+  }
+
+  /**
+   * Claim due jobs for a worker. Claimed jobs are invisible to other workers
+   * until completed, failed, or their visibility timeout expires.
+   */
+  async claim(workerId: string, options: ClaimOptions = {}): Promise<Job[]> {
+    const { data, error } = await this.supabase.rpc('claim_jobs', {
+      p_worker_id: workerId,
+      p_limit: options.limit ?? 1,
+      p_visibility_seconds: Math.ceil((options.visibilityTimeoutMs ?? DEFAULT_VISIBILITY_TIMEOUT_MS) / 1000),
+      p_types: options.types || null,
+    });
+
+    if (error) {
+      throw new DatabaseError(`Failed to claim jobs: ${error.message}`, 'RPC');
+    }
+
+    return (data || []).map((row: any) => mapToJob(row));
+  }
+
+  /**
+   * Extend the visibility timeout of a running job (heartbeat for long jobs)
+   */
+  async extend(job: Job, workerId: string, visibilityTimeoutMs: number = DEFAULT_VISIBILITY_TIMEOUT_MS): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .update({
+        locked_until: new Date(Date.now() + visibilityTimeoutMs).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .eq('locked_by', workerId)
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError(`Failed to extend job lock: ${error.message}`, 'UPDATE');
+    }
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Mark a job as done. Returns false if the worker no longer holds the lock.
+   */
+  async complete(job: Job, workerId: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.supabase
+      .from('jobs')
+      .update({
+        status: 'completed',
+        locked_by: null,
+        locked_until: null,
+        completed_at: now,
+        updated_at: now,
+      })
+      .eq('id', job.id)
+      .eq('locked_by', workerId)
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError(`Failed to complete job: ${error.message}`, 'UPDATE');
+    }
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Record a failed attempt: schedule a retry with backoff, or dead-letter the
+   * job when attempts are exhausted or the error is not retryable.
+   */
+  async fail(job: Job, workerId: string, error: unknown): Promise<FailResult> {
+    const message = error instanceof Error ? error.message : String(error);
+    const now = new Date();
+    const result = planRetry(job, error, now, this.backoff);
+
+    const { error: dbError } = await this.supabase
+      .from('jobs')
+      .update({
+        status: result.status === 'dead' ? 'dead' : 'queued',
+        run_at: result.status === 'retrying' ? result.runAt.toISOString() : job.runAt.toISOString(),
+        locked_by: null,
+        locked_until: null,
+        last_error: message,
+        updated_at: now.toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('locked_by', workerId);
+
+    if (dbError) {
+      throw new DatabaseError(`Failed to record job failure: ${dbError.message}`, 'UPDATE');
+    }
+
+    return result;
+  }
+
+  /**
+   * Move a dead-lettered job back onto the queue with a fresh attempt budget
+   */
+  async requeue(jobId: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await this.supabase
+      .from('jobs')
+      .update({
+        status: 'queued',
+        attempts: 0,
+        run_at: now,
+        last_error: null,
+        updated_at: now,
+      })
+      .eq('id', jobId)
+      .eq('status', 'dead');
+
+    if (error) {
+      throw new DatabaseError(`Failed to requeue job: ${error.message}`, 'UPDATE');
+    }
+  }
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * What happens after a failed attempt. Deterministic for a given job, error and time,
+ * so a handler can record the same decision the queue makes.
+ */
+export function planRetry(
+  job: Job<unknown>,
+  error: unknown,
+  now: Date = new Date(),
+  backoff: BackoffOptions = DEFAULT_BACKOFF
+): FailResult {
+  if (!isRetryableJobError(error, job.retryPolicy?.retryOn)) {
+    return { status: 'dead', attempt: job.attempts, reason: 'not_retryable' };
+  }
+  if (job.attempts >= job.maxAttempts) {
+    return { status: 'dead', attempt: job.attempts, reason: 'attempts_exhausted' };
+  }
+  return { status: 'retrying', attempt: job.attempts, runAt: new Date(now.getTime() + retryDelay(job, backoff)) };
+}
+
+/**
+ * Delay before the next attempt, capped at maxDelayMs:
+ * - fixed: baseDelayMs every time
+ * - exponential: base * 2^(attempt - 1)
+ * - jittered: the exponential delay scaled to 50-100%, seeded by the job ID so
+ *   jobs failing together spread out
+ */
+export function retryDelay(job: Job<unknown>, backoff: BackoffOptions = DEFAULT_BACKOFF): number {
+  const policy = job.retryPolicy;
+  const baseDelayMs = policy?.baseDelayMs ?? backoff.baseDelayMs;
+  const maxDelayMs = policy?.maxDelayMs ?? backoff.maxDelayMs;
+
+  if (policy?.backoff === 'fixed') {
+    return Math.min(baseDelayMs, maxDelayMs);
+  }
+
+  const delay = Math.min(baseDelayMs * Math.pow(2, Math.max(0, job.attempts - 1)), maxDelayMs);
+  if (policy?.backoff === 'jittered') {
+    return Math.round(delay * (0.5 + 0.5 * jitterFraction(`${job.id}:${job.attempts}`)));
+  }
+  return delay;
+}
+
+/**
+ * With `retryOn`, only errors whose AppError code is listed are retried
+ * (plain errors count as INTERNAL_ERROR). Otherwise, client errors (bad input,
+ * missing resources, blocked workflows, misconfiguration) will fail the same way
+ * again, so they go straight to the dead-letter state; rate limits and
+ * server/provider errors are retried - unless every provider in an AI fallback
+ * chain failed for a fatal reason such as a rejected key.
+ */
+export function isRetryableJobError(error: unknown, retryOn?: string[]): boolean {
+  if (retryOn) return retryOn.includes(normalizeError(error).code);
+  if (!isAppError(error)) return true;
+  if (error.code === 'RATE_LIMIT_EXCEEDED') return true;
+  if (error.code === 'CONFIGURATION_ERROR') return false;
+  if (error.code === 'AI_PROVIDER_ERROR' && error.details?.retryable === false) return false;
+  return error.statusCode >= 500;
+}
+
+function mapToJob<T = Record<string, unknown>>(row: any): Job<T> {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload || {},
+    status: row.status,
+    priority: row.priority || 0,
+    attempts: row.attempts || 0,
+    maxAttempts: row.max_attempts,
+    runAt: new Date(row.run_at),
+    lockedBy: row.locked_by || undefined,
+    lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
+    lastError: row.last_error || undefined,
+    organizationId: row.organization_id || undefined,
+    projectId: row.project_id || undefined,
+    workflowId: row.workflow_id || undefined,
+    taskId: row.task_id || undefined,
+    retryPolicy: row.retry_policy || undefined,
+    createdAt: new Date(row.created_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+  };
+}
+
+// Stable fraction in [0, 1) for a key
+function jitterFraction(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  // Finalizer mix, so keys differing only in their last characters still spread
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 2 ** 32;
+}
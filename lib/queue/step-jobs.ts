@@ -0,0 +1,325 @@
+/**
+ * Step Execution Jobs
+ *
+ * Following the constitution:
+ * - Workflows run without UI: entry points enqueue, workers execute
+ * - Every important action emits an event
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WorkflowService, TaskService, RunService, AIService, AssetService, CommunityService, createServiceContext } from '../services';
+import { emitTaskEvent } from '../events/event-bus';
+import {
+  claimReadySteps,
+  executeStepTask,
+  recordSkippedSteps,
+  settleParentTask,
+  startChildRun,
+  syncRunStatus,
+  type ClaimStepResult,
+  type EngineServices,
+  type StepTaskRef,
+} from '../workflows/engine';
+import { isStepTimeout, resolveRetryPolicy } from '../workflows/step-policy';
+import { normalizeError } from '../core/errors';
+import type { Job, Step, Task, Workflow } from '../core/types';
+import { JobQueue, planRetry } from './job-queue';
+import type { DeadLetterHandler, JobHandler } from './worker';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface ExecuteStepJobPayload extends StepTaskRef {
+  userId: string;
+  organizationId: string;
+  requestId: string;
+  source: 'api' | 'ui' | 'worker';
+}
+
+// Who caused a step to be queued, carried into the job so it runs as them
+export type StepJobOrigin = Pick<ExecuteStepJobPayload, 'userId' | 'organizationId' | 'requestId' | 'source'>;
+
+// ==========================================
+// ENQUEUE
+// ==========================================
+
+/**
+ * Queue a claimed step for a worker, carrying the step's retry policy
+ * (attempts, backoff and retryable error codes)
+ */
+export async function enqueueStepExecution(
+  queue: JobQueue,
+  input: {
+    workflow: Workflow;
+    step: Step;
+    task: Task;
+    mode: ExecuteStepJobPayload['mode'];
+    userId: string;
+    organizationId: string;
+    requestId: string;
+    source: ExecuteStepJobPayload['source'];
+  }
+): Promise<Job<ExecuteStepJobPayload>> {
+  const { workflow, step, task } = input;
+
+  const job = await queue.enqueue<ExecuteStepJobPayload>(
+    'EXECUTE_STEP',
+    {
+      workflowId: workflow.id,
+      stepId: step.id,
+      taskId: task.id,
+      mode: input.mode,
+      userId: input.userId,
+      organizationId: input.organizationId,
+      requestId: input.requestId,
+      source: input.source,
+    },
+    {
+      retryPolicy: resolveRetryPolicy(workflow, step),
+      organizationId: input.organizationId,
+      projectId: workflow.projectId,
+      workflowId: workflow.id,
+      taskId: task.id,
+    }
+  );
+
+  await emitTaskEvent(
+    'TASK_QUEUED',
+    task.id,
+    { jobId: job.id, stepId: step.id, stepType: step.type, mode: input.mode },
+    {
+      organizationId: input.organizationId,
+      userId: input.userId,
+      correlationId: input.requestId,
+      source: input.source,
+    }
+  );
+
+  return job;
+}
+
+// ==========================================
+// HANDLER
+// ==========================================
+
+/**
+ * Worker handler for EXECUTE_STEP: runs the step as the user who queued it
+ * and records the attempt
+ */
+export function createExecuteStepHandler(supabase: SupabaseClient): JobHandler<ExecuteStepJobPayload> {
+  return async (job) => {
+    const { payload } = job;
+    const services = createJobServices(supabase, payload);
+
+    if (job.attempts > 1) {
+      await emitTaskEvent('TASK_RETRIED', payload.taskId, { jobId: job.id, attempt: job.attempts }, jobEventContext(payload));
+    }
+
+    const startedAt = new Date();
+    let outcome: Awaited<ReturnType<typeof executeStepTask>>;
+    try {
+      outcome = await executeStepTask(services, payload);
+    } catch (error) {
+      await recordAttempt(services, job, startedAt, error);
+      throw error;
+    }
+
+    // A task already completed or cancelled is not attempted
+    if (outcome) {
+      await recordAttempt(services, job, startedAt);
+    }
+
+    if (outcome?.kind === 'output') {
+      await emitTaskEvent(
+        'TASK_COMPLETED',
+        payload.taskId,
+        { stepId: payload.stepId, hasOutput: !!outcome.data, jobId: job.id },
+        jobEventContext(payload)
+      );
+
+      // A rerun or condition completes its task directly, which may finish the run
+      const task = await services.taskService.getById(payload.taskId);
+      if (task.runId) {
+        const { workflow, frontier } = await services.workflowService.getExecutionState(payload.workflowId, task.runId);
+        await recordSkippedSteps(services, workflow, task.runId, frontier.skipped);
+        await syncRunStatus(services, task.runId);
+
+        // A rerun only redoes its own step
+        if (payload.mode === 'execute') {
+          await advanceRun(new JobQueue(supabase), services, task.runId, workerOrigin(payload));
+        }
+      }
+    }
+
+    if (outcome?.kind === 'run_workflow') {
+      // The task stays in progress until the child run finishes (see settleParentTask)
+      const task = await services.taskService.getById(payload.taskId);
+      const claim = await startChildRun(services, task, outcome);
+      const queue = new JobQueue(supabase);
+
+      if (claim.status === 'claimed') {
+        await enqueueClaim(queue, claim, workerOrigin(payload));
+      }
+
+      // A child run with nothing to do completed the task straight away
+      if (claim.status === 'completed' && task.runId) {
+        await advanceRun(queue, services, task.runId, workerOrigin(payload));
+      }
+    }
+  };
+}
+
+// ==========================================
+// AUTO-ADVANCE
+// ==========================================
+
+/**
+ * Move an auto-advancing run on once one of its steps has finished: claim and queue the
+ * steps it unblocked, so the run only stops at human gates (review, approval, posting),
+ * the extension, or a failure. Call wherever a step finishes - a worker completing it,
+ * an approval, an extension result. Does nothing for runs of other workflows.
+ * A run that finishes settles the RUN_WORKFLOW step waiting on it, whose run moves on in turn.
+ */
+export async function advanceRun(
+  queue: JobQueue,
+  services: Pick<EngineServices, 'workflowService' | 'taskService' | 'runService'>,
+  runId: string,
+  origin: StepJobOrigin
+): Promise<void> {
+  let run = await services.runService.getById(runId);
+
+  if (run.status === 'running') {
+    const workflow = await services.workflowService.getById(run.workflowId);
+    if (!workflow.config?.autoAdvance) return;
+
+    const claim = await claimReadySteps(services, run.workflowId, { trigger: run.trigger, runId });
+    if (claim.status === 'claimed') {
+      await enqueueClaim(queue, claim, origin);
+      return;
+    }
+    if (claim.status !== 'completed') return; // waiting on steps in flight or at a gate
+
+    await settleParentTask(services, claim.run);
+    run = claim.run;
+  }
+
+  if (run.status === 'completed' && run.parentTaskId) {
+    const parentTask = await services.taskService.getById(run.parentTaskId);
+    if (parentTask.status === 'completed' && parentTask.runId) {
+      await advanceRun(queue, services, parentTask.runId, origin);
+    }
+  }
+}
+
+
+/**
+ * Dead-lettered EXECUTE_STEP: the step will not be retried, so its run has failed
+ */
+export function createStepDeadLetterHandler(supabase: SupabaseClient): DeadLetterHandler<ExecuteStepJobPayload> {
+  return async (job, error) => {
+    const services = createJobServices(supabase, job.payload);
+    const task = await services.taskService.getById(job.payload.taskId);
+
+    if (task.runId) {
+      const message = error instanceof Error ? error.message : String(error);
+      const run = await services.runService.finish(task.runId, 'failed', message);
+
+      // A sub-workflow failing fails the RUN_WORKFLOW step waiting on it
+      await settleParentTask(services, run);
+    }
+  };
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+async function enqueueClaim(
+  queue: JobQueue,
+  claim: Extract<ClaimStepResult, { status: 'claimed' }>,
+  origin: StepJobOrigin
+): Promise<void> {
+  for (const { step, task } of claim.claimed) {
+    await enqueueStepExecution(queue, {
+      workflow: claim.workflow,
+      step,
+      task,
+      mode: 'execute',
+      userId: origin.userId,
+      organizationId: origin.organizationId,
+      requestId: origin.requestId,
+      source: origin.source,
+    });
+  }
+}
+
+/**
+ * Record how an attempt ended. A failure records the same retry decision the queue
+ * makes for it, so the attempt shows why the step was (or was not) retried.
+ * Recording is best effort: it never replaces the step's own error.
+ */
+async function recordAttempt(
+  services: ReturnType<typeof createJobServices>,
+  job: Job<ExecuteStepJobPayload>,
+  startedAt: Date,
+  error?: unknown
+): Promise<void> {
+  const finishedAt = new Date();
+  const failure = error === undefined ? null : planRetry(job, error, finishedAt);
+  const appError = error === undefined ? null : normalizeError(error);
+
+  await services.taskService
+    .recordAttempt(job.payload.taskId, {
+      jobId: job.id,
+      attempt: job.attempts,
+      status: error === undefined ? 'succeeded' : isStepTimeout(error) ? 'timed_out' : 'failed',
+      errorCode: appError?.code,
+      errorMessage: appError?.message,
+      retry: failure ? (failure.status === 'retrying' ? 'retrying' : failure.reason) : undefined,
+      nextAttemptAt: failure?.status === 'retrying' ? failure.runAt : undefined,
+      startedAt,
+      finishedAt,
+    })
+    .catch((recordError) => {
+      console.error(`[StepJobs] Failed to record attempt ${job.attempts} of task ${job.payload.taskId}:`, recordError);
+    });
+}
+
+function createJobServices(supabase: SupabaseClient, payload: ExecuteStepJobPayload) {
+  const serviceContext = createServiceContext(
+    supabase,
+    { id: payload.userId },
+    payload.organizationId,
+    { requestId: payload.requestId }
+  );
+
+  return {
+    supabase,
+    workflowService: new WorkflowService(serviceContext),
+    taskService: new TaskService(serviceContext),
+    runService: new RunService(serviceContext),
+    aiService: new AIService(serviceContext),
+    assetService: new AssetService(serviceContext),
+    communityService: new CommunityService(serviceContext),
+  };
+}
+
+// Steps a worker queues run as the user who queued the job
+function workerOrigin(payload: ExecuteStepJobPayload): StepJobOrigin {
+  return {
+    userId: payload.userId,
+    organizationId: payload.organizationId,
+    requestId: payload.requestId,
+    source: 'worker',
+  };
+}
+
+function jobEventContext(payload: ExecuteStepJobPayload) {
+  return {
+    organizationId: payload.organizationId,
+    userId: payload.userId,
+    correlationId: payload.requestId,
+    source: 'worker' as const,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * LaunchGrid Job Worker
+ *
+ * Claims jobs from the queue and dispatches them to handlers by job type.
+ * Long-running jobs keep their claim alive with a heartbeat; failures are
+ * handed back to the queue for retry or dead-lettering.
+ */
+
+import { nanoid } from 'nanoid';
+import { normalizeError } from '../core/errors';
+import type { Job, JobType } from '../core/types';
+import type { FailResult, JobQueue } from './job-queue';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<void>;
+
+// Called once a job is dead-lettered, so owners can fail the work it represented
+export type DeadLetterHandler<T = any> = (job: Job<T>, error: unknown) => Promise<void>;
+
+export interface JobWorkerOptions {
+  workerId?: string;
+  batchSize?: number;
+  visibilityTimeoutMs?: number;
+}
+
+export interface JobRunResult {
+  jobId: string;
+  type: JobType;
+  attempt: number;
+  status: 'completed' | FailResult['status'];
+  error?: string;
+}
+
+// ==========================================
+// WORKER
+// ==========================================
+
+export class JobWorker {
+  readonly workerId: string;
+  private handlers: Map<JobType, JobHandler> = new Map();
+  private deadLetterHandlers: Map<JobType, DeadLetterHandler> = new Map();
+  private batchSize: number;
+  private visibilityTimeoutMs: number;
+
+  constructor(private queue: JobQueue, options: JobWorkerOptions = {}) {
+    this.workerId = options.workerId || `worker_${nanoid(8)}`;
+    this.batchSize = options.batchSize ?? 1;
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 5 * 60_000;
+  }
+
+  register<T>(type: JobType, handler: JobHandler<T>, onDeadLetter?: DeadLetterHandler<T>): this {
+    this.handlers.set(type, handler);
+    if (onDeadLetter) {
+      this.deadLetterHandlers.set(type, onDeadLetter);
+    }
+    return this;
+  }
+
+  /**
+   * Claim one batch of due jobs and run them concurrently
+   */
+  async poll(): Promise<JobRunResult[]> {
+    const jobs = await this.queue.claim(this.workerId, {
+      limit: this.batchSize,
+      visibilityTimeoutMs: this.visibilityTimeoutMs,
+      types: [...this.handlers.keys()],
+    });
+
+    // Claimed jobs run concurrently, so parallel workflow branches do not wait on each other
+    return Promise.all(jobs.map((job) => this.run(job)));
+  }
+
+  private async run(job: Job): Promise<JobRunResult> {
+    const handler = this.handlers.get(job.type);
+
+    // Renew the claim at half the visibility timeout while the handler runs
+    const heartbeat = setInterval(() => {
+      this.queue.extend(job, this.workerId, this.visibilityTimeoutMs).catch((error) => {
+        console.error(`[JobWorker] Heartbeat failed for job ${job.id}:`, error);
+      });
+    }, this.visibilityTimeoutMs / 2);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+      await handler(job);
+      await this.queue.complete(job, this.workerId);
+      return { jobId: job.id, type: job.type, attempt: job.attempts, status: 'completed' };
+    } catch (error) {
+      const failure = await this.queue.fail(job, this.workerId, error);
+
+      if (failure.status === 'dead') {
+        await this.deadLetterHandlers.get(job.type)?.(job, error).catch((hookError) => {
+          console.error(`[JobWorker] Dead-letter handler failed for job ${job.id}:`, hookError);
+        });
+      }
+
+      return {
+        jobId: job.id,
+        type: job.type,
+        attempt: job.attempts,
+        status: failure.status,
+        error: normalizeError(error).message,
+      };
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CronExpression } from './cron';
+
+const at = (iso: string) => new Date(iso);
+
+describe('CronExpression.previous', () => {
+  it('finds the last fire time strictly before a time', () => {
+    const cron = CronExpression.parse('0 * * * *');
+    expect(cron.previous(at('2026-03-10T12:00:00Z'))).toEqual(at('2026-03-10T11:00:00Z'));
+    expect(cron.previous(at('2026-03-10T12:00:30Z'))).toEqual(at('2026-03-10T12:00:00Z'));
+  });
+
+  it('crosses day, month and year boundaries', () => {
+    expect(CronExpression.parse('30 9 * * mon').previous(at('2026-03-10T00:00:00Z')))
+      .toEqual(at('2026-03-09T09:30:00Z'));
+    expect(CronExpression.parse('0 0 15 * *').previous(at('2026-03-10T00:00:00Z')))
+      .toEqual(at('2026-02-15T00:00:00Z'));
+    expect(CronExpression.parse('@yearly').previous(at('2026-03-10T00:00:00Z')))
+      .toEqual(at('2026-01-01T00:00:00Z'));
+    expect(CronExpression.parse('0 0 31 12 *').previous(at('2026-03-10T00:00:00Z')))
+      .toEqual(at('2025-12-31T00:00:00Z'));
+  });
+
+  it('returns null for an expression that never fires', () => {
+    expect(CronExpression.parse('0 0 30 2 *').previous(at('2026-03-10T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('CronExpression.between', () => {
+  it('returns the most recent fire times, oldest first', () => {
+    const cron = CronExpression.parse('@hourly');
+    expect(cron.between(at('2026-03-09T00:00:00Z'), at('2026-03-10T12:00:00Z'), 3)).toEqual([
+      at('2026-03-10T10:00:00Z'),
+      at('2026-03-10T11:00:00Z'),
+      at('2026-03-10T12:00:00Z'),
+    ]);
+  });
+
+  it('excludes `after` and includes `until`', () => {
+    const cron = CronExpression.parse('@hourly');
+    expect(cron.between(at('2026-03-10T10:00:00Z'), at('2026-03-10T12:00:00Z'))).toEqual([
+      at('2026-03-10T11:00:00Z'),
+      at('2026-03-10T12:00:00Z'),
+    ]);
+  });
+});
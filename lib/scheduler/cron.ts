@@ -0,0 +1,268 @@
+/**
+ * LaunchGrid Cron Expressions
+ *
+ * Standard 5-field cron (minute hour day-of-month month day-of-week), evaluated in UTC.
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`),
+ * month/day names (`jan`, `mon-fri`) and the `@hourly`-style macros.
+ */
+
+import { InvalidInputError } from '../core/errors';
+
+// ==========================================
+// FIELD DEFINITIONS
+// ==========================================
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+const MONTH_ALIASES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const DAY_ALIASES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, aliases: MONTH_ALIASES },
+  { name: 'dayOfWeek', min: 0, max: 7, aliases: DAY_ALIASES }, // 0 and 7 are Sunday
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Give up searching after this many years (e.g. `0 0 30 2 *` never fires)
+const MAX_SEARCH_YEARS = 5;
+
+// ==========================================
+// CRON EXPRESSION
+// ==========================================
+
+export class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  private constructor(source: string, fields: string[]) {
+    this.source = source;
+    this.minutes = parseField(fields[0], FIELDS[0]);
+    this.hours = parseField(fields[1], FIELDS[1]);
+    this.daysOfMonth = parseField(fields[2], FIELDS[2]);
+    this.months = parseField(fields[3], FIELDS[3]);
+    this.daysOfWeek = parseField(fields[4], FIELDS[4]);
+
+    // Sunday can be written as 0 or 7
+    if (this.daysOfWeek.has(7)) {
+      this.daysOfWeek.delete(7);
+      this.daysOfWeek.add(0);
+    }
+
+    this.dayOfMonthRestricted = fields[2] !== '*' && !fields[2].startsWith('*/');
+    this.dayOfWeekRestricted = fields[4] !== '*' && !fields[4].startsWith('*/');
+  }
+
+  /**
+   * Parse a cron expression, throwing InvalidInputError if it is malformed
+   */
+  static parse(expression: string): CronExpression {
+    const trimmed = expression.trim().toLowerCase();
+    const expanded = MACROS[trimmed] || trimmed;
+    const fields = expanded.split(/\s+/);
+
+    if (fields.length !== 5) {
+      throw new InvalidInputError(
+        `Cron expression must have 5 fields, got ${fields.length}: "${expression}"`,
+        'schedule'
+      );
+    }
+
+    return new CronExpression(expression, fields);
+  }
+
+  /**
+   * The first fire time strictly after `after` (minute precision, UTC)
+   */
+  next(after: Date): Date {
+    const d = new Date(after.getTime());
+    d.setUTCSeconds(0, 0);
+    d.setUTCMinutes(d.getUTCMinutes() + 1);
+
+    const limitYear = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (d.getUTCFullYear() <= limitYear) {
+      if (!this.months.has(d.getUTCMonth() + 1)) {
+        d.setUTCMonth(d.getUTCMonth() + 1, 1);
+        d.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(d)) {
+        d.setUTCDate(d.getUTCDate() + 1);
+        d.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(d.getUTCHours())) {
+        d.setUTCHours(d.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(d.getUTCMinutes())) {
+        d.setUTCMinutes(d.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+      return d;
+    }
+
+    throw new InvalidInputError(`Cron expression "${this.source}" never fires`, 'schedule');
+  }
+
+  /**
+   * The last fire time strictly before `before` (minute precision, UTC), or null if there
+   * is none within MAX_SEARCH_YEARS
+   */
+  previous(before: Date): Date | null {
+    const d = new Date(before.getTime());
+    const exact = d.getUTCSeconds() === 0 && d.getUTCMilliseconds() === 0;
+    d.setUTCSeconds(0, 0);
+    if (exact) d.setUTCMinutes(d.getUTCMinutes() - 1);
+
+    const limitYear = before.getUTCFullYear() - MAX_SEARCH_YEARS;
+
+    // Each miss jumps to the last minute of the previous month, day or hour
+    while (d.getUTCFullYear() >= limitYear) {
+      if (!this.months.has(d.getUTCMonth() + 1)) {
+        d.setUTCDate(1);
+        d.setUTCHours(0, -1, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(d)) {
+        d.setUTCHours(0, -1, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(d.getUTCHours())) {
+        d.setUTCMinutes(-1, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(d.getUTCMinutes())) {
+        d.setUTCMinutes(d.getUTCMinutes() - 1, 0, 0);
+        continue;
+      }
+      return d;
+    }
+
+    return null;
+  }
+
+  /**
+   * The most recent fire times in (after, until], at most `limit` of them, oldest first.
+   * Searches back from `until`, so a long outage costs `limit` steps, not one per missed slot.
+   */
+  between(after: Date, until: Date, limit: number = 100): Date[] {
+    const times: Date[] = [];
+    let cursor = this.previous(new Date(until.getTime() + 1));
+    while (cursor && cursor > after && times.length < limit) {
+      times.unshift(cursor);
+      cursor = this.previous(cursor);
+    }
+    return times;
+  }
+
+  /**
+   * Vixie cron semantics: when both day fields are restricted, either may match
+   */
+  private matchesDay(d: Date): boolean {
+    const domMatch = this.daysOfMonth.has(d.getUTCDate());
+    const dowMatch = this.daysOfWeek.has(d.getUTCDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return domMatch || dowMatch;
+    }
+    return domMatch && dowMatch;
+  }
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new InvalidInputError(`Invalid step "${stepPart}" in ${spec.name} field`, 'schedule');
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+    } else {
+      start = parseValue(rangePart, spec);
+      // `5/15` means "from 5, every 15"
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new InvalidInputError(`Invalid range "${rangePart}" in ${spec.name} field`, 'schedule');
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const alias = spec.aliases?.[raw];
+  const value = alias !== undefined ? alias : Number(raw);
+
+  if (raw === '' || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new InvalidInputError(
+      `Invalid value "${raw}" in ${spec.name} field (expected ${spec.min}-${spec.max})`,
+      'schedule'
+    );
+  }
+  return value;
+}
+
+/**
+ * Check a cron expression without throwing
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    CronExpression.parse(expression).next(new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
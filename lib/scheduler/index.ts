@@ -0,0 +1,19 @@
+/**
+ * LaunchGrid Scheduler
+ *
+ * Honours WorkflowConfig.schedule (cron) by launching workflow runs on time.
+ */
+
+export { CronExpression, isValidCronExpression } from './cron';
+export {
+  WorkflowScheduler,
+  systemClock,
+  type Clock,
+  type ScheduleState,
+  type ScheduleStore,
+  type ScheduledWorkflow,
+  type RunLauncher,
+  type SchedulerOptions,
+  type SchedulerFire,
+} from './scheduler';
+export { SupabaseScheduleStore, SupabaseRunLauncher } from './supabase-store';
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { WorkflowScheduler, type Clock, type RunLauncher, type ScheduleState, type ScheduleStore, type ScheduledWorkflow } from './scheduler';
+import type { CatchUpPolicy, Workflow } from '../core/types';
+
+class FakeClock implements Clock {
+  constructor(private current: Date) {}
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+  set(iso: string): void {
+    this.current = new Date(iso);
+  }
+}
+
+class MemoryStore implements ScheduleStore {
+  states = new Map<string, ScheduleState>();
+  constructor(private targets: ScheduledWorkflow[]) {}
+
+  async listScheduledWorkflows() {
+    return this.targets;
+  }
+  async getState(workflowId: string) {
+    return this.states.get(workflowId) ?? null;
+  }
+  async saveState(state: ScheduleState, expectedNextFireAt?: Date) {
+    const current = this.states.get(state.workflowId);
+    if (expectedNextFireAt && current?.nextFireAt.getTime() !== expectedNextFireAt.getTime()) return false;
+    this.states.set(state.workflowId, state);
+    return true;
+  }
+}
+
+class RecordingLauncher implements RunLauncher {
+  launched: string[] = [];
+  async launch(_target: ScheduledWorkflow, scheduledFor: Date) {
+    this.launched.push(scheduledFor.toISOString());
+  }
+}
+
+function scheduled(schedule: string, catchUpPolicy?: CatchUpPolicy): ScheduledWorkflow {
+  const workflow: Workflow = {
+    id: 'wf-1',
+    projectId: 'project-1',
+    pillarId: 'pillar-1',
+    name: 'Hourly digest',
+    description: '',
+    phase: 'launch',
+    status: 'active',
+    config: { requiresApproval: false, maxRetries: 0, timeout: 0, schedule, catchUpPolicy },
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+  return { workflow, organizationId: 'org-1', userId: 'user-1' };
+}
+
+/**
+ * An hourly schedule first seen at 2026-03-09 23:30, then a worker outage until `resumeAt`
+ */
+async function afterOutage(policy: CatchUpPolicy, resumeAt: string, options: { maxCatchUp?: number } = {}) {
+  const clock = new FakeClock(new Date('2026-03-09T23:30:00Z'));
+  const store = new MemoryStore([scheduled('@hourly', policy)]);
+  const launcher = new RecordingLauncher();
+  const scheduler = new WorkflowScheduler(store, launcher, { clock, misfireGraceMs: 60_000, ...options });
+
+  await scheduler.tick(); // first sighting: next fire 2026-03-10 00:00
+  clock.set(resumeAt);
+  const fires = await scheduler.tick();
+
+  return { fires, launched: launcher.launched, state: store.states.get('wf-1')! };
+}
+
+describe('WorkflowScheduler catch-up', () => {
+  it('fires an on-time slot', async () => {
+    const { launched, fires } = await afterOutage('latest', '2026-03-10T00:00:20Z');
+    expect(launched).toEqual(['2026-03-10T00:00:00.000Z']);
+    expect(fires[0].late).toBe(false);
+  });
+
+  it('latest: launches the most recent slot after a 24h outage', async () => {
+    const { launched, fires, state } = await afterOutage('latest', '2026-03-11T00:00:30Z');
+    expect(launched).toEqual(['2026-03-11T00:00:00.000Z']);
+    expect(fires[0].late).toBe(false);
+    expect(state.nextFireAt.toISOString()).toBe('2026-03-11T01:00:00.000Z');
+  });
+
+  it('latest: launches a late slot when none is within the grace window', async () => {
+    const { launched, fires } = await afterOutage('latest', '2026-03-10T23:40:00Z');
+    expect(launched).toEqual(['2026-03-10T23:00:00.000Z']);
+    expect(fires[0].late).toBe(true);
+  });
+
+  it('skip: launches the most recent slot when it is within the grace window', async () => {
+    const { launched } = await afterOutage('skip', '2026-03-11T00:00:30Z');
+    expect(launched).toEqual(['2026-03-11T00:00:00.000Z']);
+  });
+
+  it('skip: launches nothing when every slot is past the grace window', async () => {
+    const { launched, state } = await afterOutage('skip', '2026-03-10T23:40:00Z');
+    expect(launched).toEqual([]);
+    expect(state.nextFireAt.toISOString()).toBe('2026-03-11T00:00:00.000Z');
+  });
+
+  it('all: launches the last maxCatchUp slots, oldest first', async () => {
+    const { launched } = await afterOutage('all', '2026-03-11T00:00:30Z', { maxCatchUp: 3 });
+    expect(launched).toEqual([
+      '2026-03-10T22:00:00.000Z',
+      '2026-03-10T23:00:00.000Z',
+      '2026-03-11T00:00:00.000Z',
+    ]);
+  });
+
+  it('does not fire paused workflows, but advances their schedule', async () => {
+    const clock = new FakeClock(new Date('2026-03-09T23:30:00Z'));
+    const target = scheduled('@hourly');
+    target.workflow.status = 'paused';
+    const store = new MemoryStore([target]);
+    const launcher = new RecordingLauncher();
+    const scheduler = new WorkflowScheduler(store, launcher, { clock });
+
+    await scheduler.tick();
+    clock.set('2026-03-10T05:10:00Z');
+    await scheduler.tick();
+
+    expect(launcher.launched).toEqual([]);
+    expect(store.states.get('wf-1')!.nextFireAt.toISOString()).toBe('2026-03-10T06:00:00.000Z');
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * LaunchGrid Workflow Scheduler
+ *
+ * Following the constitution:
+ * - Workflows are triggered by events or schedules and run without UI
+ * - Every important action emits an event
+ *
+ * The scheduler is storage- and clock-agnostic: it computes due fire times
+ * from WorkflowConfig.schedule and hands each fire to a RunLauncher.
+ */
+
+import { CronExpression } from './cron';
+import { emitWorkflowEvent } from '../events/event-bus';
+import { normalizeError } from '../core/errors';
+import type { CatchUpPolicy, Workflow } from '../core/types';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface ScheduledWorkflow {
+  workflow: Workflow;
+  organizationId: string;
+  userId: string;
+}
+
+export interface ScheduleState {
+  workflowId: string;
+  expression: string;
+  nextFireAt: Date;
+  lastFiredAt?: Date;
+}
+
+export interface ScheduleStore {
+  listScheduledWorkflows(): Promise<ScheduledWorkflow[]>;
+  getState(workflowId: string): Promise<ScheduleState | null>;
+  /**
+   * Persist a new state. When `expectedNextFireAt` is given, only succeed if the
+   * stored state still has that value (so two schedulers never fire the same slot).
+   */
+  saveState(state: ScheduleState, expectedNextFireAt?: Date): Promise<boolean>;
+}
+
+export interface RunLauncher {
+  launch(target: ScheduledWorkflow, scheduledFor: Date): Promise<void>;
+}
+
+export interface SchedulerOptions {
+  clock?: Clock;
+  catchUpPolicy?: CatchUpPolicy;
+  misfireGraceMs?: number; // A fire this late still counts as "on time"
+  maxCatchUp?: number;     // Upper bound on fires per workflow per tick
+}
+
+export interface SchedulerFire {
+  workflowId: string;
+  scheduledFor: Date;
+  late: boolean;
+  error?: string;
+}
+
+// ==========================================
+// SCHEDULER
+// ==========================================
+
+export class WorkflowScheduler {
+  private clock: Clock;
+  private catchUpPolicy: CatchUpPolicy;
+  private misfireGraceMs: number;
+  private maxCatchUp: number;
+
+  constructor(
+    private store: ScheduleStore,
+    private launcher: RunLauncher,
+    options: SchedulerOptions = {}
+  ) {
+    this.clock = options.clock || systemClock;
+    this.catchUpPolicy = options.catchUpPolicy || 'latest';
+    this.misfireGraceMs = options.misfireGraceMs ?? 60_000;
+    this.maxCatchUp = options.maxCatchUp ?? 10;
+  }
+
+  /**
+   * Evaluate every scheduled workflow once and launch the runs that are due
+   */
+  async tick(): Promise<SchedulerFire[]> {
+    const now = this.clock.now();
+    const targets = await this.store.listScheduledWorkflows();
+    const fires: SchedulerFire[] = [];
+
+    for (const target of targets) {
+      try {
+        fires.push(...await this.evaluate(target, now));
+      } catch (error) {
+        console.error(`[Scheduler] Failed to evaluate workflow ${target.workflow.id}:`, error);
+      }
+    }
+
+    return fires;
+  }
+
+  /**
+   * Next fire time for a workflow, or null if it has no valid schedule
+   */
+  nextFireTime(workflow: Workflow, after: Date = this.clock.now()): Date | null {
+    if (!workflow.config.schedule) return null;
+    try {
+      return CronExpression.parse(workflow.config.schedule).next(after);
+    } catch {
+      return null;
+    }
+  }
+
+  private async evaluate(target: ScheduledWorkflow, now: Date): Promise<SchedulerFire[]> {
+    const { workflow } = target;
+    const expression = workflow.config.schedule;
+    if (!expression) return [];
+
+    const cron = CronExpression.parse(expression);
+    const state = await this.store.getState(workflow.id);
+
+    // First sighting or schedule changed: start counting from now, never backfill
+    if (!state || state.expression !== expression) {
+      await this.store.saveState({
+        workflowId: workflow.id,
+        expression,
+        nextFireAt: cron.next(now),
+        lastFiredAt: state?.lastFiredAt,
+      });
+      return [];
+    }
+
+    if (state.nextFireAt > now) return [];
+
+    // The most recent slots due in [nextFireAt, now], however long the outage was
+    const due = cron.between(new Date(state.nextFireAt.getTime() - 1), now, this.maxCatchUp);
+    const toFire = workflow.status === 'active' ? this.applyCatchUpPolicy(due, now, workflow) : [];
+
+    // Claim the slot before launching so a crash can never double-fire
+    const claimed = await this.store.saveState(
+      {
+        workflowId: workflow.id,
+        expression,
+        nextFireAt: cron.next(now),
+        lastFiredAt: toFire.length > 0 ? toFire[toFire.length - 1] : state.lastFiredAt,
+      },
+      state.nextFireAt
+    );
+    if (!claimed) return [];
+
+    const fires: SchedulerFire[] = [];
+    for (const scheduledFor of toFire) {
+      const fire: SchedulerFire = {
+        workflowId: workflow.id,
+        scheduledFor,
+        late: now.getTime() - scheduledFor.getTime() > this.misfireGraceMs,
+      };
+
+      try {
+        await this.launcher.launch(target, scheduledFor);
+
+        await emitWorkflowEvent(
+          'WORKFLOW_STARTED',
+          workflow.id,
+          {
+            trigger: 'schedule',
+            schedule: expression,
+            scheduledFor: scheduledFor.toISOString(),
+            late: fire.late,
+          },
+          {
+            organizationId: target.organizationId,
+            userId: target.userId,
+            source: 'worker',
+          }
+        );
+      } catch (error) {
+        fire.error = normalizeError(error).message;
+        console.error(`[Scheduler] Failed to launch workflow ${workflow.id}:`, error);
+      }
+
+      fires.push(fire);
+    }
+
+    return fires;
+  }
+
+  /**
+   * Decide which overdue fire times to honour.
+   * - skip: only fires within the misfire grace window
+   * - latest: the most recent due fire, however late
+   * - all: every due fire, up to maxCatchUp
+   */
+  private applyCatchUpPolicy(due: Date[], now: Date, workflow: Workflow): Date[] {
+    const policy = workflow.config.catchUpPolicy || this.catchUpPolicy;
+    const latest = due[due.length - 1];
+    if (!latest) return [];
+
+    switch (policy) {
+      case 'all':
+        return due.slice(-this.maxCatchUp);
+      case 'skip':
+        return now.getTime() - latest.getTime() <= this.misfireGraceMs ? [latest] : [];
+      case 'latest':
+      default:
+        return [latest];
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Supabase-backed Scheduler Adapters
+ *
+ * Persists per-workflow schedule state in `workflow_schedules` and launches
+ * scheduled runs as the project owner. Meant for the standalone worker,
+ * which uses the admin (service role) client.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { nanoid } from 'nanoid';
+import { WorkflowService, TaskService, RunService, createServiceContext } from '../services';
+import { DatabaseError } from '../core/errors';
+import { claimReadySteps } from '../workflows/engine';
+import { JobQueue, enqueueStepExecution } from '../queue';
+import type { Workflow } from '../core/types';
+import type { RunLauncher, ScheduleState, ScheduleStore, ScheduledWorkflow } from './scheduler';
+
+// ==========================================
+// SCHEDULE STORE
+// ==========================================
+
+export class SupabaseScheduleStore implements ScheduleStore {
+  constructor(private supabase: SupabaseClient) { }
+
+  async listScheduledWorkflows(): Promise<ScheduledWorkflow[]> {
+    const { data, error } = await this.supabase
+      .from('workflows')
+      .select('*, project:projects(user_id, organization_id)')
+      .not('config->>schedule', 'is', null);
+
+    if (error) {
+      throw new DatabaseError(`Failed to list scheduled workflows: ${error.message}`, 'SELECT');
+    }
+
+    return (data || []).map((row: any) => ({
+      workflow: mapToWorkflow(row),
+      userId: row.project?.user_id,
+      organizationId: row.project?.organization_id || row.project?.user_id,
+    }));
+  }
+
+  async getState(workflowId: string): Promise<ScheduleState | null> {
+    const { data, error } = await this.supabase
+      .from('workflow_schedules')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(`Failed to get schedule state: ${error.message}`, 'SELECT');
+    }
+    if (!data) return null;
+
+    return {
+      workflowId: data.workflow_id,
+      expression: data.expression,
+      nextFireAt: new Date(data.next_fire_at),
+      lastFiredAt: data.last_fired_at ? new Date(data.last_fired_at) : undefined,
+    };
+  }
+
+  async saveState(state: ScheduleState, expectedNextFireAt?: Date): Promise<boolean> {
+    const row = {
+      workflow_id: state.workflowId,
+      expression: state.expression,
+      next_fire_at: state.nextFireAt.toISOString(),
+      last_fired_at: state.lastFiredAt?.toISOString() || null,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (!expectedNextFireAt) {
+      const { error } = await this.supabase
+        .from('workflow_schedules')
+        .upsert(row, { onConflict: 'workflow_id' });
+
+      if (error) {
+        throw new DatabaseError(`Failed to save schedule state: ${error.message}`, 'UPSERT');
+      }
+      return true;
+    }
+
+    // Compare-and-swap: only one scheduler instance wins a given slot
+    const { data, error } = await this.supabase
+      .from('workflow_schedules')
+      .update(row)
+      .eq('workflow_id', state.workflowId)
+      .eq('next_fire_at', expectedNextFireAt.toISOString())
+      .select('workflow_id');
+
+    if (error) {
+      throw new DatabaseError(`Failed to claim schedule slot: ${error.message}`, 'UPDATE');
+    }
+    return (data || []).length > 0;
+  }
+}
+
+// ==========================================
+// RUN LAUNCHER
+// ==========================================
+
+export class SupabaseRunLauncher implements RunLauncher {
+  constructor(private supabase: SupabaseClient) { }
+
+  /**
+   * Start a new workflow run, pinned to the published version like any live run, and
+   * queue the steps with no dependencies. Draft edits never reach scheduled runs.
+   */
+  async launch(target: ScheduledWorkflow, scheduledFor: Date): Promise<void> {
+    const requestId = `sched_${nanoid()}`;
+    const serviceContext = createServiceContext(
+      this.supabase,
+      { id: target.userId },
+      target.organizationId,
+      { requestId }
+    );
+
+    const workflowService = new WorkflowService(serviceContext);
+    const taskService = new TaskService(serviceContext);
+    const runService = new RunService(serviceContext);
+
+    const claim = await claimReadySteps(
+      { workflowService, taskService, runService },
+      target.workflow.id,
+      { trigger: 'schedule', newRun: true, scheduledFor }
+    );
+    if (claim.status !== 'claimed') return;
+
+    const queue = new JobQueue(this.supabase);
+    for (const { step, task } of claim.claimed) {
+      await enqueueStepExecution(queue, {
+        workflow: claim.workflow,
+        step,
+        task,
+        mode: 'execute',
+        userId: target.userId,
+        organizationId: target.organizationId,
+        requestId,
+        source: 'worker',
+      });
+    }
+  }
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+function mapToWorkflow(row: any): Workflow {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    pillarId: row.pillar_id,
+    name: row.name,
+    description: row.description || '',
+    phase: row.phase || 'launch',
+    status: row.status || 'draft',
+    config: row.config || {},
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at || row.created_at),
+  };
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AIService } from './ai-service';
+import type { AIUsageScope } from '../core/types';
+
+/**
+ * Image generation is charged to the project: checked against its spend cap and recorded
+ * in the usage ledger. Imagen is answered by a stubbed fetch.
+ */
+
+interface Ledger {
+  spendUsd: number; // this month's spend, as the cap check reads it
+  records: any[]; // record_ai_usage calls
+}
+
+// Reads find no saved key (so the provider uses GEMINI_API_KEY)
+function stubSupabase(ledger: Ledger): SupabaseClient {
+  const query: any = new Proxy({}, {
+    get: (_, prop) => prop === 'then'
+      ? (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+      : () => query,
+  });
+  const rpc = async (fn: string, args: unknown) => {
+    if (fn === 'record_ai_usage') ledger.records.push(args);
+    return { data: fn === 'ai_usage_spend' ? ledger.spendUsd : null, error: null };
+  };
+  return { from: () => query, rpc } as unknown as SupabaseClient;
+}
+
+const request = {
+  prompt: 'A notebook beside a trading screen at dusk',
+  width: 1024,
+  height: 1024,
+  brand: { name: 'TradeJournal', colors: ['#0f172a'] },
+};
+
+let ledger: Ledger;
+let imagenCalls = 0;
+
+function createAIService(scope: AIUsageScope): AIService {
+  return new AIService(
+    {
+      supabase: stubSupabase(ledger),
+      tenant: { organizationId: 'org-1', userId: 'user-1', role: 'owner' },
+      requestId: 'req-1',
+    },
+    scope
+  );
+}
+
+beforeEach(() => {
+  ledger = { spendUsd: 0, records: [] };
+  imagenCalls = 0;
+  process.env.GEMINI_API_KEY = 'gemini-test';
+  vi.stubGlobal('fetch', async () => {
+    imagenCalls++;
+    return new Response(JSON.stringify({
+      predictions: [{ bytesBase64Encoded: Buffer.from('png').toString('base64'), mimeType: 'image/png' }],
+    }));
+  });
+});
+
+afterEach(() => {
+  delete process.env.GEMINI_API_KEY;
+  vi.unstubAllGlobals();
+});
+
+describe('AIService.generateImage', () => {
+  it('records the image in the ledger, priced per image', async () => {
+    const image = await createAIService({ projectId: 'project-1', workflowId: 'workflow-1' }).generateImage(request, 'gemini');
+
+    expect(image.model).toBe('imagen-3.0-generate-002');
+    expect(ledger.records).toEqual([
+      expect.objectContaining({
+        p_organization_id: 'org-1',
+        p_project_id: 'project-1',
+        p_workflow_id: 'workflow-1',
+        p_operation: 'image',
+        p_provider: 'gemini',
+        p_model: 'imagen-3.0-generate-002',
+        p_prompt_tokens: 0,
+        p_completion_tokens: 0,
+        p_cost_usd: 0.04,
+      }),
+    ]);
+  });
+
+  it('does not call the provider for a project over its spend cap', async () => {
+    ledger.spendUsd = 5.5;
+
+    const error = await createAIService({ projectId: 'project-1', spendCapUsd: 5 })
+      .generateImage(request, 'gemini')
+      .catch((e) => e);
+
+    expect(error).toMatchObject({ code: 'SPEND_CAP_EXCEEDED' });
+    expect(imagenCalls).toBe(0);
+    expect(ledger.records).toEqual([]);
+  });
+
+  it('neither caps nor records placeholder images', async () => {
+    ledger.spendUsd = 10;
+
+    const image = await createAIService({ projectId: 'project-1', spendCapUsd: 5 }).generateImage(request);
+
+    expect(image.model).toBe('placeholder');
+    expect(ledger.records).toEqual([]);
+  });
+});
@@ -8,27 +8,40 @@
  * - AI never blocks user actions
  */
 
+import { z } from 'zod';
 import { BaseService, ServiceContext } from './base-service';
-import { AIProviderError, ConfigurationError } from '../core/errors';
+import { UsageService } from './usage-service';
+import { AIOutputValidationError, AIProviderError, AppError, ConfigurationError, SpendCapExceededError } from '../core/errors';
+import {
+  blueprintOutputSchema,
+  communityDigestOutputSchema,
+  contentDraftOutputSchema,
+  emailSequenceOutputSchema,
+  hooksOutputSchema,
+  replyOutputSchema,
+  targetSelectionOutputSchema,
+} from '../core/validation';
 import { logAIDecision } from '../events/audit-logger';
-import type { AIProviderID, Blueprint, ContentDraft, ProjectContext, AggregateType } from '../core/types';
+import type { AIGeneration, AIProviderID, AIUsageScope, AIUsageTotals, Blueprint, ContentDraft, ProjectContext, AggregateType, HookVariant, ImageProviderID, EmailDraft, CommunityDigest, CommunityHighlight, CommunityMessage } from '../core/types';
 import type {
   AIStrategyProvider,
-  Blueprint as RawBlueprint,
-  ContentDraft as RawContentDraft,
-  ProjectContext as RawProjectContext,
-  TaskContext as RawTaskContext
+  ImageProvider,
+  ImageRequest,
+  GeneratedImage,
+  StructuredRequest,
+  TokenUsage
 } from '../../utils/ai/interface';
-import { getSpecializedPrompt, PromptType } from '../../utils/ai/prompts';
-
-// ==========================================
-// AI PROVIDER INTERFACE
-// ==========================================
-
-export interface AIProvider {
-  generateBlueprint(context: ProjectContext, apiKey?: string): Promise<Blueprint>;
-  generateContent(task: ContentTaskContext, apiKey?: string): Promise<ContentDraft>;
-}
+import { extractJsonObject } from '../../utils/ai/interface';
+import { calculateCost, calculateImageCost } from '../../utils/ai/pricing';
+import { getSpecializedPrompt } from '../../utils/ai/prompts';
+import { getBlueprintPrompt } from '../../utils/ai/prompts/blueprint';
+import { getHooksPrompt } from '../../utils/ai/prompts/hooks';
+import { getEmailSequencePrompt } from '../../utils/ai/prompts/email';
+import { getCommunityDigestPrompt } from '../../utils/ai/prompts/community';
+import { getRepairPrompt } from '../../utils/ai/prompts/repair';
+import type { OpenAICompatibleEndpoint } from '../../utils/ai/openai-compatible';
+import { classifyProviderError, UNHEALTHY_REASONS, type ProviderFailureReason } from '../../utils/ai/errors';
+import { providerCircuits } from '../../utils/ai/circuit-breaker';
 
 export interface ContentTaskContext {
   project: ProjectContext;
@@ -37,74 +50,83 @@ export interface ContentTaskContext {
   workflowDescription: string;
   stepConfig?: Record<string, unknown>;
   previousOutput?: Record<string, unknown>;
-  customPrompt?: string;
 }
 
 // ==========================================
-// PROVIDER ADAPTER
+// FALLBACK CHAINS
 // ==========================================
 
 /**
- * Adapter to convert raw AI provider to our AIProvider interface
+ * A project's providers in the order to try them: its AI provider, then its fallbacks
  */
-class AIProviderAdapter implements AIProvider {
-  constructor(private rawProvider: AIStrategyProvider) { }
-
-  async generateBlueprint(context: ProjectContext, apiKey?: string): Promise<Blueprint> {
-    const rawContext: RawProjectContext = {
-      name: context.name,
-      description: context.description,
-      audience: context.audience,
-      painPoints: context.painPoints,
-      budget: context.budget,
-    };
+export function getProviderChain(context: Partial<Pick<ProjectContext, 'aiProvider' | 'aiFallbackProviders'>>): AIProviderID[] {
+  return toProviderChain([context.aiProvider || 'gemini', ...(context.aiFallbackProviders ?? [])]);
+}
 
-    const rawBlueprint = await this.rawProvider.generateBlueprint(rawContext, apiKey);
+function toProviderChain(providers: AIProviderID | AIProviderID[]): AIProviderID[] {
+  return [...new Set(Array.isArray(providers) ? providers : [providers])];
+}
 
-    // Convert snake_case to camelCase
-    return {
-      activePillars: rawBlueprint.active_pillars.map(p => ({
-        id: p.id,
-        type: p.type as any,
-        name: p.name,
-      })),
-      workflows: rawBlueprint.workflows.map(w => ({
-        workflowId: w.workflow_id,
-        pillarRef: w.pillar_ref,
-        name: w.name,
-        goal: w.goal,
-        frequency: w.frequency,
-        description: w.description,
-      })),
-    };
+interface ProviderFailureRecord {
+  provider: AIProviderID;
+  reason: ProviderFailureReason | 'circuit_open';
+  message: string;
+}
+
+/**
+ * Every provider in the chain failed (or was skipped). Retryable unless every failure was fatal.
+ */
+class ProviderChainError extends Error {
+  constructor(
+    public readonly failures: ProviderFailureRecord[],
+    public readonly retryable: boolean,
+    public readonly lastError?: unknown
+  ) {
+    super(failures.length === 1
+      ? failures[0].message
+      : failures.map((f) => `${f.provider}: ${f.message}`).join('; '));
   }
+}
 
-  async generateContent(task: ContentTaskContext, apiKey?: string): Promise<ContentDraft> {
-    const rawTask: RawTaskContext = {
-      project: {
-        name: task.project.name,
-        description: task.project.description,
-        audience: task.project.audience,
-        painPoints: task.project.painPoints,
-        budget: task.project.budget,
-      },
-      pillarName: task.pillarName,
-      workflowName: task.workflowName,
-      workflowDescription: task.workflowDescription,
-      stepConfig: task.stepConfig,
-      previousOutput: task.previousOutput,
-      customPrompt: task.customPrompt,
-    };
+// ==========================================
+// STRUCTURED OUTPUT
+// ==========================================
 
-    const rawContent = await this.rawProvider.generateContent(rawTask, apiKey);
+// How many times an answer that fails its schema is sent back to the same provider to be fixed
+const MAX_REPAIR_ATTEMPTS = 2;
 
-    return {
-      title: rawContent.title,
-      content: rawContent.content,
-      hashtags: rawContent.hashtags,
-      suggestedImagePrompt: rawContent.suggestedImagePrompt,
-    };
+const SYSTEM_PROMPTS = {
+  strategy: 'You are a marketing strategy generator.',
+  content: 'You are a specialized content creator.',
+};
+
+type StructuredCall<S extends z.ZodType> = Omit<StructuredRequest, 'jsonSchema'> & { schema: S };
+
+// Makes structured calls to the provider runWithFallback is currently trying
+type StructuredGenerator = <S extends z.ZodType>(call: StructuredCall<S>) => Promise<z.output<S>>;
+
+type OutputIssue = { path: string; message: string };
+
+/**
+ * A model's answer parsed and checked against its schema, or what was wrong with it
+ */
+function parseStructuredOutput<S extends z.ZodType>(
+  answer: string,
+  schema: S
+): { success: true; data: z.output<S> } | { success: false; issues: OutputIssue[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJsonObject(answer));
+  } catch (error: any) {
+    return { success: false, issues: [{ path: '', message: `Not a valid JSON object (${error.message})` }] };
   }
+
+  const result = schema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+  };
 }
 
 // ==========================================
@@ -115,13 +137,27 @@ export class AIService extends BaseService {
   protected serviceName = 'AIService';
   protected aggregateType: AggregateType = 'task';
 
-  private providers: Map<AIProviderID, AIProvider> = new Map();
+  private providers: Map<AIProviderID, AIStrategyProvider> = new Map();
+  private imageProviders: Map<ImageProviderID, ImageProvider> = new Map();
+  private usageService: UsageService;
 
-  constructor(context: ServiceContext) {
+  /**
+   * `usageScope` is what this service's calls are charged to in the usage ledger, and the
+   * spend cap they are held to. Without one, calls are charged to the organization alone.
+   */
+  constructor(context: ServiceContext, private readonly usageScope: AIUsageScope = {}) {
     super(context);
+    this.usageService = new UsageService(context);
     this.registerProviders();
   }
 
+  /**
+   * The same service, charging its calls to a project, workflow or task
+   */
+  forUsage(scope: AIUsageScope): AIService {
+    return new AIService(this.context, { ...this.usageScope, ...scope });
+  }
+
   /**
    * Register AI providers
    */
@@ -133,17 +169,30 @@ export class AIService extends BaseService {
   /**
    * Get an AI provider
    */
-  private async getProvider(providerId: AIProviderID): Promise<AIProvider> {
+  private async getProvider(providerId: AIProviderID): Promise<AIStrategyProvider> {
     if (!this.providers.has(providerId)) {
-      // Dynamically import and instantiate provider, then wrap with adapter
+      // Dynamically import and instantiate provider
       switch (providerId) {
         case 'gemini':
           const { GeminiProvider } = await import('../../utils/ai/gemini');
-          this.providers.set('gemini', new AIProviderAdapter(new GeminiProvider()));
+          this.providers.set('gemini', new GeminiProvider());
           break;
         case 'openai':
           const { OpenAIProvider } = await import('../../utils/ai/openai');
-          this.providers.set('openai', new AIProviderAdapter(new OpenAIProvider()));
+          this.providers.set('openai', new OpenAIProvider());
+          break;
+        case 'anthropic':
+          const { AnthropicProvider } = await import('../../utils/ai/anthropic');
+          this.providers.set('anthropic', new AnthropicProvider());
+          break;
+        case 'local':
+          const { OpenAICompatibleProvider } = await import('../../utils/ai/openai-compatible');
+          const endpoint = await this.getModelEndpoint();
+          this.providers.set('local', new OpenAICompatibleProvider(endpoint));
+          break;
+        case 'simulated':
+          const { SimulatedProvider } = await import('../../utils/ai/simulated');
+          this.providers.set('simulated', new SimulatedProvider());
           break;
         default:
           throw new ConfigurationError(`AI provider ${providerId} not implemented`);
@@ -153,10 +202,245 @@ export class AIService extends BaseService {
     return this.providers.get(providerId)!;
   }
 
+  /**
+   * Call `fn` with each provider of the chain in turn until one succeeds. Providers whose
+   * circuit is open are skipped; only rate limits, timeouts and outages count against a
+   * provider's health (a bad key is the organization's problem, not the provider's).
+   * A project over its spend cap fails before any provider is called.
+   */
+  private async runWithFallback<T>(
+    chain: AIProviderID[],
+    fn: (generate: StructuredGenerator, providerId: AIProviderID) => Promise<T>
+  ): Promise<AIGeneration<T> & { provider: AIProviderID }> {
+    await this.checkSpendCap(chain);
+
+    const failures: ProviderFailureRecord[] = [];
+    const usage: AIUsageTotals = { promptTokens: 0, completionTokens: 0, costUsd: 0 };
+    let retryable = false;
+    let lastError: unknown;
+
+    for (const providerId of chain) {
+      // Keys (and self-hosted endpoints) belong to the organization, so health is tracked per organization
+      const circuitKey = `${this.organizationId}:${providerId}`;
+      if (!providerCircuits.tryAcquire(circuitKey)) {
+        const retryAt = providerCircuits.retryAt(circuitKey);
+        failures.push({
+          provider: providerId,
+          reason: 'circuit_open',
+          message: `Skipped after repeated failures${retryAt ? ` (until ${retryAt.toISOString()})` : ''}`,
+        });
+        retryable = true;
+        continue;
+      }
+
+      try {
+        const provider = await this.getProvider(providerId);
+        const apiKey = await this.getUserApiKey(providerId);
+        const result = await fn(
+          (call) => this.generateStructured(provider, apiKey, providerId, call, usage),
+          providerId
+        );
+
+        providerCircuits.recordSuccess(circuitKey);
+        return { result, provider: providerId, fallbackFrom: failures.map((f) => f.provider), usage };
+      } catch (error: any) {
+        const failure = classifyProviderError(error);
+        if (UNHEALTHY_REASONS.includes(failure.reason)) {
+          providerCircuits.recordFailure(circuitKey);
+        } else {
+          providerCircuits.release(circuitKey);
+        }
+
+        retryable = retryable || failure.retryable;
+        lastError = error;
+        failures.push({ provider: providerId, reason: failure.reason, message: error.message || String(error) });
+
+        if (providerId !== chain[chain.length - 1]) {
+          console.warn(`[AIService] ${providerId} failed (${failure.reason}), falling back:`, error.message);
+        }
+      }
+    }
+
+    throw new ProviderChainError(failures, retryable, lastError);
+  }
+
+  /**
+   * One structured call to a provider. The answer is parsed and checked against `call.schema`;
+   * one that does not match goes back to the model with what was wrong, up to
+   * MAX_REPAIR_ATTEMPTS times, before giving up with an AIOutputValidationError.
+   * Every attempt is metered: added to `usage` and recorded in the usage ledger.
+   */
+  private async generateStructured<S extends z.ZodType>(
+    provider: AIStrategyProvider,
+    apiKey: string | undefined,
+    providerId: AIProviderID,
+    call: StructuredCall<S>,
+    usage: AIUsageTotals
+  ): Promise<z.output<S>> {
+    const { schema, ...request } = call;
+    // Optional and defaulted fields are optional for the model, so the schema describes the input side
+    const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input' });
+
+    let prompt = request.prompt;
+    let issues: OutputIssue[] = [];
+
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+      const { text: answer, usage: callUsage } = await provider.generateStructured({ ...request, prompt, jsonSchema }, apiKey);
+      await this.meter(request.name, providerId, callUsage, usage);
+
+      const parsed = parseStructuredOutput(answer, schema);
+      if (parsed.success) return parsed.data;
+
+      issues = parsed.issues;
+      console.warn(`[AIService] ${request.name} answer rejected (attempt ${attempt}):`, issues);
+      prompt = getRepairPrompt({ prompt: request.prompt, answer, issues });
+    }
+
+    throw new AIOutputValidationError(request.name, issues, MAX_REPAIR_ATTEMPTS + 1);
+  }
+
+  /**
+   * Add a provider call to the running totals and the usage ledger. Simulated calls are
+   * free and left out; a ledger that cannot be written is logged, never fails the call.
+   */
+  private async meter(
+    operation: string,
+    providerId: AIProviderID,
+    callUsage: TokenUsage,
+    usage: AIUsageTotals
+  ): Promise<void> {
+    const costUsd = calculateCost(callUsage.model, callUsage.promptTokens, callUsage.completionTokens);
+    usage.promptTokens += callUsage.promptTokens;
+    usage.completionTokens += callUsage.completionTokens;
+    usage.costUsd += costUsd ?? 0;
+
+    if (providerId === 'simulated') return;
+    if (costUsd === null) {
+      console.warn(`[AIService] No price for model ${callUsage.model}; set one in AI_PRICE_TABLE`);
+    }
+
+    const { spendCapUsd: _cap, ...scope } = this.usageScope;
+    await this.usageService
+      .record({ ...scope, operation, provider: providerId, ...callUsage, costUsd })
+      .catch((error) => console.error('[AIService] Failed to record AI usage:', error));
+  }
+
+  /**
+   * Record a generated image, priced per image. Placeholders render locally and are free.
+   */
+  private async meterImage(providerId: ImageProviderID, image: GeneratedImage): Promise<void> {
+    if (providerId === 'placeholder') return;
+
+    const costUsd = calculateImageCost(image.model);
+    if (costUsd === null) {
+      console.warn(`[AIService] No image price for model ${image.model}; set one in AI_PRICE_TABLE`);
+    }
+
+    const { spendCapUsd: _cap, ...scope } = this.usageScope;
+    await this.usageService
+      .record({ ...scope, operation: 'image', provider: providerId, model: image.model, promptTokens: 0, completionTokens: 0, costUsd })
+      .catch((error) => console.error('[AIService] Failed to record AI usage:', error));
+  }
+
+  /**
+   * Throw SpendCapExceededError if the project this service is charged to has spent its
+   * monthly cap. Simulated runs and placeholder images cost nothing, so they are never stopped.
+   */
+  private async checkSpendCap(chain: Array<AIProviderID | ImageProviderID>): Promise<void> {
+    const { projectId, spendCapUsd } = this.usageScope;
+    if (!projectId || chain.every((providerId) => providerId === 'simulated' || providerId === 'placeholder')) return;
+
+    await this.usageService.assertWithinSpendCap(projectId, spendCapUsd);
+  }
+
+  /**
+   * The error for a failed call. Chain failures keep each provider's reason; when none of
+   * them is worth retrying the job queue is told so. When every provider answered but never
+   * in the right shape, the last AIOutputValidationError is kept, with the chain's failures.
+   * A spend cap is not a provider failure and is passed on as it is.
+   */
+  private toProviderError(error: any, chain: AIProviderID[], fallbackMessage: string, details: Record<string, unknown>): AppError {
+    if (error instanceof SpendCapExceededError) {
+      return error;
+    }
+    if (error instanceof ProviderChainError) {
+      const invalid = error.lastError;
+      if (invalid instanceof AIOutputValidationError && error.failures.every((f) => f.reason === 'invalid_response')) {
+        return new AIOutputValidationError(invalid.schema, invalid.issues, invalid.attempts, {
+          ...details,
+          provider: chain.join(', '),
+          failures: error.failures,
+        });
+      }
+      return new AIProviderError(chain.join(', '), error.message, {
+        ...details,
+        failures: error.failures,
+        retryable: error.retryable,
+      });
+    }
+    return new AIProviderError(chain.join(', '), error.message || fallbackMessage, details);
+  }
+
+  /**
+   * Get an image provider
+   */
+  private async getImageProvider(providerId: ImageProviderID): Promise<ImageProvider> {
+    if (!this.imageProviders.has(providerId)) {
+      switch (providerId) {
+        case 'placeholder':
+          const { PlaceholderImageProvider } = await import('../../utils/ai/placeholder-image');
+          this.imageProviders.set('placeholder', new PlaceholderImageProvider());
+          break;
+        case 'openai':
+          const { OpenAIImageProvider } = await import('../../utils/ai/openai-image');
+          this.imageProviders.set('openai', new OpenAIImageProvider());
+          break;
+        case 'gemini':
+          const { GeminiImageProvider } = await import('../../utils/ai/gemini-image');
+          this.imageProviders.set('gemini', new GeminiImageProvider());
+          break;
+        default:
+          throw new ConfigurationError(`Image provider ${providerId} not implemented`);
+      }
+    }
+
+    return this.imageProviders.get(providerId)!;
+  }
+
+  /**
+   * The organization's self-hosted model endpoint (see ModelEndpointService), with its key decrypted
+   */
+  private async getModelEndpoint(): Promise<OpenAICompatibleEndpoint & { apiKey?: string }> {
+    const { data } = await this.db
+      .from('model_endpoints')
+      .select('base_url, model, capabilities, api_key')
+      .eq('organization_id', this.organizationId)
+      .maybeSingle();
+
+    if (!data) {
+      throw new ConfigurationError('No self-hosted model endpoint is configured for this organization (Settings > Secrets)', 'model_endpoint');
+    }
+
+    const { decrypt } = await import('../../utils/encryption');
+    return {
+      baseUrl: data.base_url,
+      model: data.model,
+      capabilities: {
+        jsonMode: !!data.capabilities?.jsonMode,
+        systemPrompt: data.capabilities?.systemPrompt !== false,
+        maxOutputTokens: data.capabilities?.maxOutputTokens ?? undefined,
+      },
+      apiKey: data.api_key ? decrypt(data.api_key) : undefined,
+    };
+  }
+
   /**
    * Get user's API key for a provider
    */
   private async getUserApiKey(providerId: AIProviderID): Promise<string | undefined> {
+    if (providerId === 'simulated') return undefined;
+    if (providerId === 'local') return (await this.getModelEndpoint()).apiKey;
+
     const keyColumn = `${providerId}_key`;
 
     const { data } = await this.db
@@ -182,25 +466,45 @@ export class AIService extends BaseService {
   }
 
   /**
-   * Generate a marketing blueprint
+   * Generate a marketing blueprint, with the provider that wrote it
    */
   async generateBlueprint(
     projectContext: ProjectContext,
-    providerId: AIProviderID = 'gemini'
-  ): Promise<Blueprint> {
+    providers: AIProviderID | AIProviderID[] = 'gemini'
+  ): Promise<AIGeneration<Blueprint>> {
     return this.execute('generateBlueprint', async () => {
       const startTime = Date.now();
+      const chain = toProviderChain(providers);
 
       await this.emitEvent('AI_GENERATION_STARTED', 'blueprint', {
-        provider: providerId,
+        provider: chain[0],
         type: 'blueprint',
       });
 
       try {
-        const provider = await this.getProvider(providerId);
-        const apiKey = await this.getUserApiKey(providerId);
-
-        const blueprint = await provider.generateBlueprint(projectContext, apiKey);
+        const generation = await this.runWithFallback(chain, async (generate) => {
+          const output = await generate({
+            name: 'blueprint',
+            schema: blueprintOutputSchema,
+            system: SYSTEM_PROMPTS.strategy,
+            prompt: getBlueprintPrompt(projectContext),
+            context: { project: projectContext },
+          });
+
+          // Convert snake_case to camelCase
+          return {
+            activePillars: output.active_pillars,
+            workflows: output.workflows.map((w) => ({
+              workflowId: w.workflow_id,
+              pillarRef: w.pillar_ref,
+              name: w.name,
+              goal: w.goal,
+              frequency: w.frequency,
+              description: w.description,
+            })),
+          } satisfies Blueprint;
+        });
+        const { result: blueprint, provider: providerId, fallbackFrom, usage } = generation;
 
         const duration = Date.now() - startTime;
 
@@ -213,67 +517,65 @@ export class AIService extends BaseService {
           },
           providerId,
           'generateBlueprint',
-          { projectName: projectContext.name, budget: projectContext.budget },
-          { pillarCount: blueprint.activePillars.length, workflowCount: blueprint.workflows.length },
+          { projectName: projectContext.name, budget: projectContext.budget, fallbackFrom },
+          { pillarCount: blueprint.activePillars.length, workflowCount: blueprint.workflows.length, ...usage },
           duration
         );
 
         await this.emitEvent('AI_GENERATION_COMPLETED', 'blueprint', {
           provider: providerId,
+          fallbackFrom,
+          usage,
           type: 'blueprint',
           duration,
         });
 
-        return blueprint;
+        return generation;
       } catch (error: any) {
         const duration = Date.now() - startTime;
 
         await this.emitEvent('AI_GENERATION_FAILED', 'blueprint', {
-          provider: providerId,
+          provider: chain[0],
           type: 'blueprint',
           error: error.message,
           duration,
         });
 
-        throw new AIProviderError(
-          providerId,
-          error.message || 'Failed to generate blueprint',
-          { duration }
-        );
+        throw this.toProviderError(error, chain, 'Failed to generate blueprint', { duration });
       }
     });
   }
 
   /**
-   * Generate content for a workflow step
+   * Generate content for a workflow step, with the provider that wrote it
    */
   async generateContent(
     taskContext: ContentTaskContext,
-    providerId: AIProviderID = 'gemini'
-  ): Promise<ContentDraft> {
+    providers: AIProviderID | AIProviderID[] = 'gemini'
+  ): Promise<AIGeneration<ContentDraft>> {
     return this.execute('generateContent', async () => {
       const startTime = Date.now();
+      const chain = toProviderChain(providers);
 
       await this.emitEvent('AI_GENERATION_STARTED', taskContext.workflowName, {
-        provider: providerId,
+        provider: chain[0],
         type: 'content',
         pillar: taskContext.pillarName,
       });
 
       try {
-        const provider = await this.getProvider(providerId);
-        const apiKey = await this.getUserApiKey(providerId);
-
         // Check for specialized prompts
-        let customPrompt: string | undefined;
-        if (taskContext.pillarName.toLowerCase().includes('twitter') || taskContext.pillarName.toLowerCase().includes(' x')) {
-          customPrompt = getSpecializedPrompt('TWITTER_THREAD', taskContext);
-        }
-
-        const content = await provider.generateContent({
-          ...taskContext,
-          customPrompt
-        }, apiKey);
+        const pillar = taskContext.pillarName.toLowerCase();
+        const promptType = pillar.includes('twitter') || pillar.includes(' x') ? 'TWITTER_THREAD' : 'GENERIC_DRAFT';
+
+        const generation = await this.runWithFallback(chain, (generate) => generate({
+          name: 'content_draft',
+          schema: contentDraftOutputSchema,
+          system: SYSTEM_PROMPTS.content,
+          prompt: getSpecializedPrompt(promptType, taskContext),
+          context: taskContext,
+        }));
+        const { result: content, provider: providerId, fallbackFrom, usage } = generation;
 
         const duration = Date.now() - startTime;
 
@@ -290,32 +592,386 @@ export class AIService extends BaseService {
             projectName: taskContext.project.name,
             pillar: taskContext.pillarName,
             workflow: taskContext.workflowName,
+            fallbackFrom,
           },
-          { hasTitle: !!content.title, contentLength: content.content.length },
+          { hasTitle: !!content.title, contentLength: content.content.length, ...usage },
           duration
         );
 
         await this.emitEvent('AI_GENERATION_COMPLETED', taskContext.workflowName, {
           provider: providerId,
+          fallbackFrom,
+          usage,
           type: 'content',
           duration,
         });
 
-        return content;
+        return generation;
       } catch (error: any) {
         const duration = Date.now() - startTime;
 
         await this.emitEvent('AI_GENERATION_FAILED', taskContext.workflowName, {
-          provider: providerId,
+          provider: chain[0],
           type: 'content',
           error: error.message,
           duration,
         });
 
+        throw this.toProviderError(error, chain, 'Failed to generate content', { duration, pillar: taskContext.pillarName });
+      }
+    });
+  }
+
+  /**
+   * Generate distinct hook variants (opening lines) for a post
+   */
+  async generateHooks(
+    taskContext: ContentTaskContext,
+    count: number,
+    providers: AIProviderID | AIProviderID[] = 'gemini'
+  ): Promise<AIGeneration<HookVariant[]>> {
+    return this.execute('generateHooks', async () => {
+      const startTime = Date.now();
+      const chain = toProviderChain(providers);
+
+      await this.emitEvent('AI_GENERATION_STARTED', 'hooks', {
+        provider: chain[0],
+        type: 'hooks',
+        count,
+      });
+
+      try {
+        const hooksPrompt = getHooksPrompt({
+          projectName: taskContext.project.name,
+          description: taskContext.project.description,
+          audience: taskContext.project.audience,
+          painPoints: taskContext.project.painPoints,
+          pillarName: taskContext.pillarName,
+          workflowName: taskContext.workflowName,
+          workflowDescription: taskContext.workflowDescription,
+          count,
+        });
+
+        // An answer that cannot be repaired falls back to the next provider like a failed call
+        const generation = await this.runWithFallback(chain, async (generate) => {
+          const output = await generate({
+            name: 'hooks',
+            schema: hooksOutputSchema,
+            system: SYSTEM_PROMPTS.content,
+            prompt: hooksPrompt,
+            context: taskContext,
+          });
+          return this.dedupeHooks(output.hooks).slice(0, count);
+        });
+        const { result: hooks, provider: providerId, fallbackFrom, usage } = generation;
+
+        const duration = Date.now() - startTime;
+
+        await logAIDecision(
+          {
+            organizationId: this.organizationId,
+            userId: this.userId,
+            requestId: this.context.requestId,
+          },
+          providerId,
+          'generateHooks',
+          { projectName: taskContext.project.name, requested: count, fallbackFrom },
+          { hookCount: hooks.length, archetypes: hooks.map((h) => h.archetype), ...usage },
+          duration
+        );
+
+        await this.emitEvent('AI_GENERATION_COMPLETED', 'hooks', {
+          provider: providerId,
+          fallbackFrom,
+          usage,
+          type: 'hooks',
+          hookCount: hooks.length,
+          duration,
+        });
+
+        return generation;
+      } catch (error: any) {
+        const duration = Date.now() - startTime;
+
+        await this.emitEvent('AI_GENERATION_FAILED', 'hooks', {
+          provider: chain[0],
+          type: 'hooks',
+          error: error.message,
+          duration,
+        });
+
+        throw this.toProviderError(error, chain, 'Failed to generate hooks', { duration, count });
+      }
+    });
+  }
+
+  /**
+   * The hooks without repeats (same words, ignoring case and spacing), trimmed
+   */
+  private dedupeHooks(hooks: HookVariant[]): HookVariant[] {
+    const seen = new Set<string>();
+    return hooks
+      .map((h) => ({ hook: h.hook.trim(), rationale: h.rationale.trim(), archetype: h.archetype }))
+      .filter((h) => {
+        const key = h.hook.toLowerCase().replace(/\s+/g, ' ');
+        if (!h.hook || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Generate an email sequence (subject, preheader, body, send delay per email) for a segment
+   */
+  async generateEmailSequence(
+    taskContext: ContentTaskContext,
+    sequence: { count: number; segment: string; goal?: string },
+    providers: AIProviderID | AIProviderID[] = 'gemini'
+  ): Promise<AIGeneration<EmailDraft[]>> {
+    return this.execute('generateEmailSequence', async () => {
+      const startTime = Date.now();
+      const chain = toProviderChain(providers);
+
+      await this.emitEvent('AI_GENERATION_STARTED', 'email_sequence', {
+        provider: chain[0],
+        type: 'email_sequence',
+        count: sequence.count,
+      });
+
+      try {
+        const emailPrompt = getEmailSequencePrompt({
+          projectName: taskContext.project.name,
+          description: taskContext.project.description,
+          audience: taskContext.project.audience,
+          painPoints: taskContext.project.painPoints,
+          workflowName: taskContext.workflowName,
+          workflowDescription: taskContext.workflowDescription,
+          segment: sequence.segment,
+          goal: sequence.goal,
+          count: sequence.count,
+        });
+
+        const generation = await this.runWithFallback(chain, async (generate) => {
+          const output = await generate({
+            name: 'email_sequence',
+            schema: emailSequenceOutputSchema,
+            system: SYSTEM_PROMPTS.content,
+            prompt: emailPrompt,
+            context: taskContext,
+          });
+
+          // The first email goes out on approval, whatever delay the model gave it
+          return output.emails.slice(0, sequence.count).map((email, index): EmailDraft => ({
+            subject: email.subject.trim(),
+            preheader: email.preheader.trim(),
+            body: email.body.trim(),
+            sendDelayHours: index === 0 ? 0 : email.sendDelayHours,
+          }));
+        });
+        const { result: emails, provider: providerId, fallbackFrom, usage } = generation;
+
+        const duration = Date.now() - startTime;
+
+        await logAIDecision(
+          {
+            organizationId: this.organizationId,
+            userId: this.userId,
+            requestId: this.context.requestId,
+          },
+          providerId,
+          'generateEmailSequence',
+          { projectName: taskContext.project.name, segment: sequence.segment, requested: sequence.count, fallbackFrom },
+          { emailCount: emails.length, subjects: emails.map((e) => e.subject), ...usage },
+          duration
+        );
+
+        await this.emitEvent('AI_GENERATION_COMPLETED', 'email_sequence', {
+          provider: providerId,
+          fallbackFrom,
+          usage,
+          type: 'email_sequence',
+          emailCount: emails.length,
+          duration,
+        });
+
+        return generation;
+      } catch (error: any) {
+        const duration = Date.now() - startTime;
+
+        await this.emitEvent('AI_GENERATION_FAILED', 'email_sequence', {
+          provider: chain[0],
+          type: 'email_sequence',
+          error: error.message,
+          duration,
+        });
+
+        throw this.toProviderError(error, chain, 'Failed to generate email sequence', { duration, count: sequence.count });
+      }
+    });
+  }
+
+  /**
+   * Summarize a community channel: member wins, open questions and a spotlight announcement
+   */
+  async summarizeCommunity(
+    taskContext: ContentTaskContext,
+    messages: CommunityMessage[],
+    lookbackHours: number,
+    providers: AIProviderID | AIProviderID[] = 'gemini'
+  ): Promise<AIGeneration<CommunityDigest>> {
+    return this.execute('summarizeCommunity', async () => {
+      const startTime = Date.now();
+      const chain = toProviderChain(providers);
+
+      await this.emitEvent('AI_GENERATION_STARTED', 'community_digest', {
+        provider: chain[0],
+        type: 'community_digest',
+        messageCount: messages.length,
+      });
+
+      try {
+        const digestPrompt = getCommunityDigestPrompt({
+          projectName: taskContext.project.name,
+          description: taskContext.project.description,
+          audience: taskContext.project.audience,
+          workflowName: taskContext.workflowName,
+          lookbackHours,
+          messages,
+        });
+
+        const generation = await this.runWithFallback(chain, async (generate) => {
+          const output = await generate({
+            name: 'community_digest',
+            schema: communityDigestOutputSchema,
+            system: SYSTEM_PROMPTS.content,
+            prompt: digestPrompt,
+            context: taskContext,
+          });
+          return this.toCommunityDigest(output, messages);
+        });
+        const { result: digest, provider: providerId, fallbackFrom, usage } = generation;
+
+        const duration = Date.now() - startTime;
+
+        await logAIDecision(
+          {
+            organizationId: this.organizationId,
+            userId: this.userId,
+            requestId: this.context.requestId,
+          },
+          providerId,
+          'summarizeCommunity',
+          { projectName: taskContext.project.name, messageCount: messages.length, lookbackHours, fallbackFrom },
+          { winCount: digest.wins.length, questionCount: digest.questions.length, ...usage },
+          duration
+        );
+
+        await this.emitEvent('AI_GENERATION_COMPLETED', 'community_digest', {
+          provider: providerId,
+          fallbackFrom,
+          usage,
+          type: 'community_digest',
+          winCount: digest.wins.length,
+          questionCount: digest.questions.length,
+          duration,
+        });
+
+        return generation;
+      } catch (error: any) {
+        const duration = Date.now() - startTime;
+
+        await this.emitEvent('AI_GENERATION_FAILED', 'community_digest', {
+          provider: chain[0],
+          type: 'community_digest',
+          error: error.message,
+          duration,
+        });
+
+        throw this.toProviderError(error, chain, 'Failed to summarize community', { duration, messageCount: messages.length });
+      }
+    });
+  }
+
+  /**
+   * The digest as the model wrote it, trimmed. Highlights pointing at messages that were
+   * not in the channel lose their message ID.
+   */
+  private toCommunityDigest(output: z.output<typeof communityDigestOutputSchema>, messages: CommunityMessage[]): CommunityDigest {
+    const messageIds = new Set(messages.map((m) => m.id));
+    const highlights = (list: CommunityHighlight[]): CommunityHighlight[] => list.map((h) => ({
+      author: h.author.trim(),
+      text: h.text.trim(),
+      ...(h.messageId && messageIds.has(h.messageId) && { messageId: h.messageId }),
+    }));
+
+    return {
+      summary: output.summary.trim(),
+      wins: highlights(output.wins),
+      questions: highlights(output.questions),
+      spotlight: output.spotlight,
+    };
+  }
+
+  /**
+   * Generate an image for a draft. The image is returned, not stored. It is charged to the
+   * project like any provider call, so a project over its spend cap gets no image.
+   */
+  async generateImage(
+    request: ImageRequest,
+    providerId: ImageProviderID = 'placeholder'
+  ): Promise<GeneratedImage> {
+    return this.execute('generateImage', async () => {
+      const startTime = Date.now();
+      await this.checkSpendCap([providerId]);
+
+      await this.emitEvent('AI_GENERATION_STARTED', 'image', {
+        provider: providerId,
+        type: 'image',
+      });
+
+      try {
+        const provider = await this.getImageProvider(providerId);
+        const apiKey = providerId === 'placeholder' ? undefined : await this.getUserApiKey(providerId);
+
+        const image = await provider.generateImage(request, apiKey);
+        await this.meterImage(providerId, image);
+
+        const duration = Date.now() - startTime;
+
+        await logAIDecision(
+          {
+            organizationId: this.organizationId,
+            userId: this.userId,
+            requestId: this.context.requestId,
+          },
+          providerId,
+          'generateImage',
+          { prompt: request.prompt, width: request.width, height: request.height, style: request.style },
+          { contentType: image.contentType, width: image.width, height: image.height, sizeBytes: image.data.byteLength },
+          duration
+        );
+
+        await this.emitEvent('AI_GENERATION_COMPLETED', 'image', {
+          provider: providerId,
+          type: 'image',
+          duration,
+        });
+
+        return image;
+      } catch (error: any) {
+        const duration = Date.now() - startTime;
+
+        await this.emitEvent('AI_GENERATION_FAILED', 'image', {
+          provider: providerId,
+          type: 'image',
+          error: error.message,
+          duration,
+        });
+
         throw new AIProviderError(
           providerId,
-          error.message || 'Failed to generate content',
-          { duration, pillar: taskContext.pillarName }
+          error.message || 'Failed to generate image',
+          { duration }
         );
       }
     });
@@ -327,23 +983,21 @@ export class AIService extends BaseService {
   async generateReplies(
     taskContext: ContentTaskContext,
     targets: Array<{ id: string; text: string; author?: string }>,
-    providerId: AIProviderID = 'gemini'
-  ): Promise<Array<{ targetId: string; reply: string }>> {
+    providers: AIProviderID | AIProviderID[] = 'gemini'
+  ): Promise<AIGeneration<Array<{ targetId: string; reply: string }>>> {
     return this.execute('generateReplies', async () => {
       const startTime = Date.now();
+      const chain = toProviderChain(providers);
 
       await this.emitEvent('AI_GENERATION_STARTED', 'replies', {
-        provider: providerId,
+        provider: chain[0],
         type: 'replies',
         targetCount: targets.length,
       });
 
       try {
-        const provider = await this.getProvider(providerId);
-        const apiKey = await this.getUserApiKey(providerId);
-
-        // Generate replies in parallel with rate limiting
-        const replies = await Promise.all(
+        // Generate replies in parallel with rate limiting; the batch falls back as a whole
+        const generation = await this.runWithFallback(chain, (generate) => Promise.all(
           targets.map(async (target, index) => {
             // Simple rate limiting: stagger requests
             if (index > 0) {
@@ -385,24 +1039,24 @@ BAD EXAMPLES (don't do this):
 - "Great post! 🔥📈" (no value, just noise)
 - "Have you tried journaling with [product]?" (direct pitch)
 
-Return ONLY your reply text. No quotes, no labels, just the reply.`;
+Return ONLY a JSON object: { "reply": "Your reply text, no quotes or labels" }`;
 
-            const replyContext: ContentTaskContext = {
-              ...taskContext,
-              workflowName: `Reply to ${target.author || 'user'}`,
-              workflowDescription: replyPrompt,
-              customPrompt: replyPrompt,
-            };
-
-            const draft = await provider.generateContent(replyContext, apiKey);
+            const output = await generate({
+              name: 'reply',
+              schema: replyOutputSchema,
+              system: SYSTEM_PROMPTS.content,
+              prompt: replyPrompt,
+              context: { ...taskContext, workflowName: `Reply to ${target.author || 'user'}` },
+            });
             return {
               targetId: target.id,
-              reply: draft.content,
+              reply: output.reply,
               url: (target as any).url, // Pass through URL for extension
               author: target.author
             };
           })
-        );
+        ));
+        const { result: replies, provider: providerId, fallbackFrom, usage } = generation;
 
         const duration = Date.now() - startTime;
 
@@ -415,69 +1069,62 @@ Return ONLY your reply text. No quotes, no labels, just the reply.`;
           },
           providerId,
           'generateReplies',
-          { targetCount: targets.length },
-          { replyCount: replies.length },
+          { targetCount: targets.length, fallbackFrom },
+          { replyCount: replies.length, ...usage },
           duration
         );
 
         await this.emitEvent('AI_GENERATION_COMPLETED', 'replies', {
           provider: providerId,
+          fallbackFrom,
+          usage,
           type: 'replies',
           replyCount: replies.length,
           duration,
         });
 
-        return replies;
+        return generation;
       } catch (error: any) {
         const duration = Date.now() - startTime;
 
         await this.emitEvent('AI_GENERATION_FAILED', 'replies', {
-          provider: providerId,
+          provider: chain[0],
           type: 'replies',
           error: error.message,
           duration,
         });
 
-        throw new AIProviderError(
-          providerId,
-          error.message || 'Failed to generate replies',
-          { duration, targetCount: targets.length }
-        );
+        throw this.toProviderError(error, chain, 'Failed to generate replies', { duration, targetCount: targets.length });
       }
     });
   }
 
 
   /**
-   * Filter and rank targets based on relevance
+   * Filter and rank targets based on relevance. Few enough items are returned as they
+   * are, without calling a provider (`provider` is then null).
    */
   async filterTargets(
     taskContext: ContentTaskContext,
     items: Array<{ text: string; author?: string; url?: string }>,
-    providerId: AIProviderID = 'gemini'
-  ): Promise<Array<{ text: string; author?: string; reason?: string }>> {
+    providers: AIProviderID | AIProviderID[] = 'gemini'
+  ): Promise<AIGeneration<Array<{ text: string; author?: string; reason?: string }>>> {
     return this.execute('filterTargets', async () => {
       const startTime = Date.now();
+      const chain = toProviderChain(providers);
 
       // If less than 3 items, just return them all
       if (items.length <= 3) {
-        return items;
+        return { result: items, provider: null, fallbackFrom: [], usage: { promptTokens: 0, completionTokens: 0, costUsd: 0 } };
       }
 
       await this.emitEvent('AI_GENERATION_STARTED', 'filtering', {
-        provider: providerId,
+        provider: chain[0],
         type: 'filtering',
         itemCount: items.length,
       });
 
       try {
-        console.log('[FilterTargets] Getting provider:', providerId);
-        const provider = await this.getProvider(providerId);
-        console.log('[FilterTargets] Got provider, getting API key...');
-        const apiKey = await this.getUserApiKey(providerId);
-        console.log('[FilterTargets] Got API key, length:', apiKey?.length || 0);
-
-        // We reuse generateContent but with a specific prompt
         const filterPrompt = `
 You are an EXTREMELY strict content curator for "${taskContext.project.name}".
 
@@ -508,57 +1155,33 @@ EXAMPLES of IRRELEVANT (REJECT THESE):
 Analyze these posts:
 ${JSON.stringify(items.slice(0, 20), null, 2)}
 
-Return ONLY a valid JSON array (max 5 items). If fewer than 5 are relevant, return fewer.
-            Format: [{ "id": "...", "reason": "Why this is relevant to ${taskContext.project.name}" }]
-            If NO posts are relevant, return an empty array: []
+Return ONLY a JSON object with at most 5 posts. If fewer than 5 are relevant, return fewer.
+            Format: { "selected": [{ "id": "...", "reason": "Why this is relevant to ${taskContext.project.name}" }] }
+            If NO posts are relevant, return an empty list: { "selected": [] }
             `;
 
         console.log('[FilterTargets] Calling AI with prompt length:', filterPrompt.length);
-        const response = await provider.generateContent({
-          ...taskContext,
-          customPrompt: filterPrompt
-        }, apiKey);
-        console.log('[FilterTargets] AI response received, content length:', response?.content?.length || 0);
-
-        // Attempt to parse the JSON response
-        let selectedItems: Array<any> = [];
-        try {
-          // Robust JSON extraction: Find the first '[' and last ']'
-          const jsonString = response.content;
-          const startIndex = jsonString.indexOf('[');
-          const endIndex = jsonString.lastIndexOf(']');
-
-          if (startIndex !== -1 && endIndex !== -1) {
-            const cleanJson = jsonString.substring(startIndex, endIndex + 1);
-            const parsedItems = JSON.parse(cleanJson);
-
-            // Map back to original items to preserve URL/ID/Metadata
-            selectedItems = parsedItems.map((selected: any) => {
-              // Find original item by ID (robust string comparison)
-              const original = items.find(i => String((i as any).id) === String(selected.id));
-              if (!original) {
-                console.warn('[FilterTargets] AI selected generic/invalid ID:', selected.id);
-                return null;
-              }
-              return {
-                ...original,
-                reason: selected.reason
-              };
-            }).filter((item: any) => item !== null);
-
-          } else {
-            throw new Error("No JSON array found in response");
+        const { result: output, provider: providerId, fallbackFrom, usage } = await this.runWithFallback(
+          chain,
+          (generate) => generate({
+            name: 'target_selection',
+            schema: targetSelectionOutputSchema,
+            system: SYSTEM_PROMPTS.content,
+            prompt: filterPrompt,
+            context: taskContext,
+          })
+        );
+
+        // Map back to original items to preserve URL/ID/Metadata
+        const selectedItems = output.selected.flatMap((selected) => {
+          // Find original item by ID (robust string comparison)
+          const original = items.find(i => String((i as any).id) === selected.id);
+          if (!original) {
+            console.warn('[FilterTargets] AI selected generic/invalid ID:', selected.id);
+            return [];
           }
-        } catch (e) {
-          console.error("Failed to parse filter JSON. Raw response:", response.content);
-          console.warn("Falling back to top 5 due to parse error", e);
-
-          // Fallback but mark them as potentially unfiltered
-          selectedItems = items.slice(0, 5).map(item => ({
-            ...item,
-            reason: "⚠️ Fallback: AI filtering failed, showing raw top result."
-          }));
-        }
+          return [{ ...original, reason: selected.reason }];
+        });
 
         const duration = Date.now() - startTime;
 
@@ -570,19 +1193,15 @@ Return ONLY a valid JSON array (max 5 items). If fewer than 5 are relevant, retu
           },
           providerId,
           'filterTargets',
-          { originalCount: items.length },
-          { selectedCount: selectedItems.length },
+          { originalCount: items.length, fallbackFrom },
+          { selectedCount: selectedItems.length, ...usage },
           duration
         );
 
-        return selectedItems;
+        return { result: selectedItems, provider: providerId, fallbackFrom, usage };
 
       } catch (error: any) {
-        throw new AIProviderError(
-          providerId,
-          error.message || 'Failed to filter targets',
-          { duration: Date.now() - startTime }
-        );
+        throw this.toProviderError(error, chain, 'Failed to filter targets', { duration: Date.now() - startTime });
       }
     });
   }
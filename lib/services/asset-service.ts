@@ -0,0 +1,177 @@
+/**
+ * LaunchGrid Asset Service
+ *
+ * Owns: Generated assets (images made for drafts) and their files in storage
+ * Following the constitution:
+ * - Strict service ownership: only this service writes the asset bucket
+ * - Tenant isolation everywhere: files live under their project's folder
+ */
+
+import { BaseService, ServiceContext } from './base-service';
+import { NotFoundError, DatabaseError } from '../core/errors';
+import type { AggregateType, GeneratedAsset, ImageProviderID } from '../core/types';
+
+// Private storage bucket for generated files, one folder per project
+export const GENERATED_ASSETS_BUCKET = 'generated-assets';
+
+// Signed URLs handed to review and the extension stay valid for a week
+export const ASSET_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/svg+xml': 'svg',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+export class AssetService extends BaseService {
+  protected serviceName = 'AssetService';
+  protected aggregateType: AggregateType = 'task';
+
+  constructor(context: ServiceContext) {
+    super(context);
+  }
+
+  /**
+   * Upload a generated image and record it against the task that made it
+   */
+  async storeImage(input: {
+    projectId: string;
+    taskId: string;
+    runId?: string;
+    provider: ImageProviderID;
+    prompt: string;
+    data: Uint8Array;
+    contentType: string;
+    width: number;
+    height: number;
+    altText: string;
+  }): Promise<GeneratedAsset> {
+    return this.execute('storeImage', async () => {
+      const id = crypto.randomUUID();
+      const extension = FILE_EXTENSIONS[input.contentType] || 'bin';
+      const storagePath = `${input.projectId}/${input.taskId}/${id}.${extension}`;
+
+      const { error: uploadError } = await this.db.storage
+        .from(GENERATED_ASSETS_BUCKET)
+        .upload(storagePath, input.data, { contentType: input.contentType, upsert: false });
+
+      if (uploadError) {
+        throw new DatabaseError(`Failed to upload asset: ${uploadError.message}`, 'INSERT');
+      }
+
+      const { data, error } = await this.db
+        .from('generated_assets')
+        .insert({
+          id,
+          project_id: input.projectId,
+          task_id: input.taskId,
+          run_id: input.runId || null,
+          kind: 'image',
+          provider: input.provider,
+          prompt: input.prompt,
+          storage_path: storagePath,
+          content_type: input.contentType,
+          width: input.width,
+          height: input.height,
+          alt_text: input.altText,
+          size_bytes: input.data.byteLength,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Don't leave an orphaned file behind
+        await this.db.storage.from(GENERATED_ASSETS_BUCKET).remove([storagePath]);
+        throw new DatabaseError(`Failed to record asset: ${error.message}`, 'INSERT');
+      }
+
+      await this.audit('storeImage', input.taskId, {
+        assetId: id,
+        provider: input.provider,
+        contentType: input.contentType,
+        sizeBytes: input.data.byteLength,
+      });
+
+      return this.mapToAsset(data);
+    });
+  }
+
+  /**
+   * Get an asset by ID
+   */
+  async getById(assetId: string): Promise<GeneratedAsset> {
+    return this.execute('getById', async () => {
+      const { data, error } = await this.db
+        .from('generated_assets')
+        .select('*')
+        .eq('id', assetId)
+        .single();
+
+      if (error || !data) {
+        throw new NotFoundError('Asset', assetId);
+      }
+
+      return this.mapToAsset(data);
+    });
+  }
+
+  /**
+   * Assets a task generated, oldest first
+   */
+  async listByTask(taskId: string): Promise<GeneratedAsset[]> {
+    return this.execute('listByTask', async () => {
+      const { data, error } = await this.db
+        .from('generated_assets')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new DatabaseError(`Failed to list assets: ${error.message}`, 'SELECT');
+      }
+
+      return (data || []).map((row) => this.mapToAsset(row));
+    });
+  }
+
+  /**
+   * A time-limited URL for an asset's file
+   */
+  async getSignedUrl(storagePath: string, expiresInSeconds: number = ASSET_URL_TTL_SECONDS): Promise<string> {
+    return this.execute('getSignedUrl', async () => {
+      const { data, error } = await this.db.storage
+        .from(GENERATED_ASSETS_BUCKET)
+        .createSignedUrl(storagePath, expiresInSeconds);
+
+      if (error || !data) {
+        throw new DatabaseError(`Failed to sign asset URL: ${error?.message || 'no URL returned'}`, 'SELECT');
+      }
+
+      return data.signedUrl;
+    });
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private mapToAsset(row: any): GeneratedAsset {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      taskId: row.task_id || undefined,
+      runId: row.run_id || undefined,
+      kind: row.kind,
+      provider: row.provider,
+      prompt: row.prompt,
+      storagePath: row.storage_path,
+      contentType: row.content_type,
+      width: row.width,
+      height: row.height,
+      altText: row.alt_text,
+      sizeBytes: row.size_bytes,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * LaunchGrid Community Service
+ *
+ * Owns: Community integrations (reading Discord channels, posting announcements)
+ * Following the constitution:
+ * - Integrations are adapters: the Discord client is only used through this service
+ * - Encrypted secrets vault: the bot token and webhook URL are decrypted here, never returned
+ */
+
+import { BaseService, ServiceContext } from './base-service';
+import { ConfigurationError, IntegrationError, NotFoundError, RateLimitError, ValidationError } from '../core/errors';
+import type { AggregateType, CommunityMessage } from '../core/types';
+import { DiscordApiError, DiscordClient, isDiscordWebhookUrl } from '../../utils/discord/client';
+
+// Discord rejects messages longer than this
+const MAX_ANNOUNCEMENT_CHARS = 2000;
+
+type DiscordSecret = 'discord_token' | 'discord_webhook';
+
+export class CommunityService extends BaseService {
+  protected serviceName = 'CommunityService';
+  protected aggregateType: AggregateType = 'task';
+
+  constructor(context: ServiceContext) {
+    super(context);
+  }
+
+  /**
+   * Member messages posted to a Discord channel since `since`, oldest first.
+   * Bot messages and messages without text are left out.
+   */
+  async readChannel(channelId: string, options: { since: Date; maxMessages: number }): Promise<CommunityMessage[]> {
+    return this.execute('readChannel', async () => {
+      const botToken = await this.getSecret('discord_token');
+      if (!botToken) {
+        throw new ConfigurationError('Add a Discord bot token in Settings > Secrets to read community channels', 'discord_token');
+      }
+
+      let messages;
+      try {
+        messages = await new DiscordClient({ botToken }).getChannelMessages(channelId, options.since, options.maxMessages);
+      } catch (error) {
+        throw this.toAppError(error, channelId);
+      }
+
+      return messages
+        .filter((m) => !m.isBot && m.content.trim())
+        .map((m) => ({ id: m.id, author: m.author, content: m.content, timestamp: m.timestamp }));
+    });
+  }
+
+  /**
+   * Post an approved announcement through the user's Discord webhook
+   */
+  async postAnnouncement(taskId: string, content: string): Promise<{ messageId: string; channelId: string; postedAt: string }> {
+    return this.execute('postAnnouncement', async () => {
+      if (!content.trim()) {
+        throw new ValidationError('The announcement is empty', [{ field: 'content', message: 'Required' }]);
+      }
+      if (content.length > MAX_ANNOUNCEMENT_CHARS) {
+        throw new ValidationError(`Discord messages are limited to ${MAX_ANNOUNCEMENT_CHARS} characters`, [
+          { field: 'content', message: `${content.length} characters` },
+        ]);
+      }
+
+      const webhookUrl = await this.getSecret('discord_webhook');
+      if (!webhookUrl) {
+        throw new ConfigurationError('Add a Discord webhook URL in Settings > Secrets to post announcements', 'discord_webhook');
+      }
+      if (!isDiscordWebhookUrl(webhookUrl)) {
+        throw new ConfigurationError('The Discord webhook URL in Settings > Secrets must be https://discord.com/api/webhooks/...', 'discord_webhook');
+      }
+
+      let posted;
+      try {
+        posted = await new DiscordClient().executeWebhook(webhookUrl, { content });
+      } catch (error) {
+        throw this.toAppError(error);
+      }
+
+      await this.audit('postAnnouncement', taskId, {
+        messageId: posted.id,
+        channelId: posted.channelId,
+        length: content.length,
+      });
+
+      return { messageId: posted.id, channelId: posted.channelId, postedAt: new Date().toISOString() };
+    });
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private async getSecret(column: DiscordSecret): Promise<string | undefined> {
+    const { data } = await this.db
+      .from('user_secrets')
+      .select(column)
+      .eq('user_id', this.userId)
+      .single();
+
+    const encrypted = (data as Record<string, unknown> | null)?.[column] as string | undefined;
+    if (!encrypted) return undefined;
+
+    const { decrypt } = await import('../../utils/encryption');
+    return decrypt(encrypted);
+  }
+
+  private toAppError(error: unknown, channelId?: string): Error {
+    if (!(error instanceof DiscordApiError)) {
+      return new IntegrationError('discord', error instanceof Error ? error.message : String(error));
+    }
+
+    if (error.status === 429) return new RateLimitError(error.message, error.retryAfter);
+    if (error.status === 401 || error.status === 403) {
+      return new ConfigurationError(`Discord refused access: ${error.message}`, 'discord_token');
+    }
+    if (error.status === 404 && channelId) return new NotFoundError('Discord channel', channelId);
+    return new IntegrationError('discord', error.message, { status: error.status });
+  }
+}
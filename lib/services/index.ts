@@ -9,7 +9,13 @@ export { BaseService, createServiceContext, type ServiceContext } from './base-s
 export { ProjectService, type CreateProjectDTO, type UpdateProjectDTO } from './project-service';
 export { WorkflowService, type ExecutableStep } from './workflow-service';
 export { TaskService } from './task-service';
-export { AIService, type AIProvider, type ContentTaskContext } from './ai-service';
+export { RunService } from './run-service';
+export { TemplateService, type OutdatedWorkflow } from './template-service';
+export { AIService, getProviderChain, type ContentTaskContext } from './ai-service';
+export { AssetService, GENERATED_ASSETS_BUCKET, ASSET_URL_TTL_SECONDS } from './asset-service';
+export { CommunityService } from './community-service';
+export { ModelEndpointService } from './model-endpoint-service';
+export { UsageService, type RecordUsageInput } from './usage-service';
 
 // Re-export types
 export type { 
@@ -19,6 +25,11 @@ export type {
   Step,
   Task,
   TaskStatus,
+  WorkflowRun,
+  RunStatus,
+  RunTrigger,
+  OrganizationTemplate,
+  OrganizationTemplateVersion,
   StepType,
   AIProviderID,
   Blueprint,
@@ -0,0 +1,122 @@
+/**
+ * LaunchGrid Model Endpoint Service
+ *
+ * Owns: Organizations' self-hosted model endpoints (OpenAI-compatible base URL + model)
+ * Following the constitution:
+ * - Encrypted secrets vault: the endpoint's API key is encrypted here and never returned
+ * - Tenant isolation everywhere: one endpoint per organization
+ */
+
+import { BaseService, ServiceContext } from './base-service';
+import { validateInput, saveModelEndpointSchema, type SaveModelEndpointInput } from '../core/validation';
+import { DatabaseError } from '../core/errors';
+import type { AggregateType, ModelEndpoint } from '../core/types';
+
+export class ModelEndpointService extends BaseService {
+  protected serviceName = 'ModelEndpointService';
+  protected aggregateType: AggregateType = 'organization';
+
+  constructor(context: ServiceContext) {
+    super(context);
+  }
+
+  /**
+   * The organization's endpoint, or null if it has none
+   */
+  async get(): Promise<ModelEndpoint | null> {
+    return this.execute('get', async () => {
+      const { data, error } = await this.db
+        .from('model_endpoints')
+        .select('*')
+        .eq('organization_id', this.organizationId)
+        .maybeSingle();
+
+      if (error) {
+        throw new DatabaseError(`Failed to load model endpoint: ${error.message}`, 'SELECT');
+      }
+
+      return data ? this.mapToEndpoint(data) : null;
+    });
+  }
+
+  /**
+   * Create or replace the organization's endpoint. An omitted API key keeps the stored
+   * one; an empty one clears it (most local servers need none).
+   */
+  async save(input: SaveModelEndpointInput): Promise<ModelEndpoint> {
+    return this.execute('save', async () => {
+      const validated = validateInput(saveModelEndpointSchema, input);
+
+      let apiKey: string | null | undefined;
+      if (validated.apiKey !== undefined) {
+        const { encrypt } = await import('../../utils/encryption');
+        apiKey = validated.apiKey ? encrypt(validated.apiKey) : null;
+      }
+
+      const { data, error } = await this.db
+        .from('model_endpoints')
+        .upsert({
+          organization_id: this.organizationId,
+          base_url: validated.baseUrl.replace(/\/$/, ''),
+          model: validated.model,
+          capabilities: validated.capabilities,
+          ...(apiKey !== undefined && { api_key: apiKey }),
+          updated_by: this.userId,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'organization_id' })
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to save model endpoint: ${error.message}`, 'UPSERT');
+      }
+
+      // Never log the key itself
+      await this.audit('save', this.organizationId, {
+        baseUrl: data.base_url,
+        model: data.model,
+        capabilities: data.capabilities,
+        apiKeyChanged: apiKey !== undefined,
+      });
+
+      return this.mapToEndpoint(data);
+    });
+  }
+
+  /**
+   * Remove the organization's endpoint; projects using `local` then fail until one is set
+   */
+  async remove(): Promise<void> {
+    return this.execute('remove', async () => {
+      const { error } = await this.db
+        .from('model_endpoints')
+        .delete()
+        .eq('organization_id', this.organizationId);
+
+      if (error) {
+        throw new DatabaseError(`Failed to remove model endpoint: ${error.message}`, 'DELETE');
+      }
+
+      await this.audit('remove', this.organizationId);
+    });
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private mapToEndpoint(row: any): ModelEndpoint {
+    return {
+      organizationId: row.organization_id,
+      baseUrl: row.base_url,
+      model: row.model,
+      capabilities: {
+        jsonMode: !!row.capabilities?.jsonMode,
+        systemPrompt: row.capabilities?.systemPrompt !== false,
+        maxOutputTokens: row.capabilities?.maxOutputTokens ?? undefined,
+      },
+      hasApiKey: !!row.api_key,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -16,7 +16,10 @@ export interface CreateProjectDTO {
   audience: string;
   painPoints: string;
   budget: number;
-  aiProvider?: 'gemini' | 'openai' | 'anthropic';
+  aiProvider?: 'gemini' | 'openai' | 'anthropic' | 'local';
+  aiFallbackProviders?: Array<'gemini' | 'openai' | 'anthropic' | 'local'>;
+  brandColors?: string[];
+  aiSpendCapUsd?: number | null;
 }
 
 export interface UpdateProjectDTO {
@@ -25,7 +28,10 @@ export interface UpdateProjectDTO {
   audience?: string;
   painPoints?: string;
   budget?: number;
-  aiProvider?: 'gemini' | 'openai' | 'anthropic';
+  aiProvider?: 'gemini' | 'openai' | 'anthropic' | 'local';
+  aiFallbackProviders?: Array<'gemini' | 'openai' | 'anthropic' | 'local'>;
+  brandColors?: string[];
+  aiSpendCapUsd?: number | null;
 }
 
 export class ProjectService extends BaseService {
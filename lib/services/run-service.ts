@@ -0,0 +1,377 @@
+/**
+ * LaunchGrid Run Service
+ *
+ * Owns: Workflow runs (one execution of a workflow and its tasks)
+ * Following the constitution:
+ * - Events are the system truth: past runs are kept, never overwritten
+ * - Tenant isolation everywhere
+ */
+
+import { BaseService, ServiceContext } from './base-service';
+import { NotFoundError, DatabaseError, BusinessRuleError } from '../core/errors';
+import type { WorkflowRun, RunStatus, RunTrigger, AggregateType } from '../core/types';
+
+// ==========================================
+// RUN STATE MACHINE
+// ==========================================
+
+const RUN_TRANSITIONS: Record<RunStatus, RunStatus[]> = {
+  running: ['completed', 'failed', 'cancelled'],
+  completed: ['running'], // a step in it is being rerun
+  failed: ['running'], // a failed step is being retried within the same run
+  cancelled: [],
+};
+
+// ==========================================
+// RUN SERVICE
+// ==========================================
+
+export class RunService extends BaseService {
+  protected serviceName = 'RunService';
+  protected aggregateType: AggregateType = 'workflow';
+
+  constructor(context: ServiceContext) {
+    super(context);
+  }
+
+  /**
+   * Start a new run of a workflow. Run numbers are assigned by the database.
+   */
+  async create(input: {
+    workflowId: string;
+    trigger: RunTrigger;
+    scheduledFor?: Date;
+    parentTaskId?: string;
+    input?: Record<string, unknown>;
+    workflowVersion?: number;
+    simulated?: boolean;
+  }): Promise<WorkflowRun> {
+    return this.execute('create', async () => {
+      const { data: workflow, error: workflowError } = await this.db
+        .from('workflows')
+        .select('id, project_id')
+        .eq('id', input.workflowId)
+        .single();
+
+      if (workflowError || !workflow) {
+        throw new NotFoundError('Workflow', input.workflowId);
+      }
+
+      await this.verifyProjectAccess(workflow.project_id);
+
+      const { data, error } = await this.db
+        .from('workflow_runs')
+        .insert({
+          workflow_id: workflow.id,
+          project_id: workflow.project_id,
+          trigger: input.trigger,
+          status: 'running',
+          triggered_by: input.trigger === 'schedule' ? null : this.userId,
+          scheduled_for: input.scheduledFor?.toISOString() || null,
+          parent_task_id: input.parentTaskId || null,
+          input: input.input || null,
+          workflow_version: input.workflowVersion ?? null,
+          simulated: input.simulated ?? false,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to create workflow run: ${error.message}`, 'INSERT');
+      }
+
+      const run = this.mapToRun(data);
+
+      await this.emitEvent('WORKFLOW_RUN_STARTED', run.workflowId, {
+        runId: run.id,
+        runNumber: run.runNumber,
+        trigger: run.trigger,
+        parentTaskId: run.parentTaskId,
+        workflowVersion: run.workflowVersion,
+        simulated: run.simulated,
+      });
+
+      await this.audit('create', run.id, {
+        workflowId: run.workflowId,
+        runNumber: run.runNumber,
+        trigger: run.trigger,
+      });
+
+      return run;
+    });
+  }
+
+  /**
+   * Get a run by ID
+   */
+  async getById(runId: string): Promise<WorkflowRun> {
+    return this.execute('getById', async () => {
+      const { data, error } = await this.db
+        .from('workflow_runs')
+        .select('*')
+        .eq('id', runId)
+        .single();
+
+      if (error || !data) {
+        throw new NotFoundError('Workflow run', runId);
+      }
+
+      await this.verifyProjectAccess(data.project_id);
+
+      return this.mapToRun(data);
+    });
+  }
+
+  /**
+   * Most recent run of a workflow, if any. `simulated` limits it to simulated
+   * (or live) runs.
+   */
+  async getLatest(workflowId: string, options: { simulated?: boolean } = {}): Promise<WorkflowRun | null> {
+    return this.execute('getLatest', async () => {
+      let query = this.db
+        .from('workflow_runs')
+        .select('*')
+        .eq('workflow_id', workflowId);
+
+      if (options.simulated !== undefined) {
+        query = query.eq('simulated', options.simulated);
+      }
+
+      const { data, error } = await query
+        .order('run_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new DatabaseError(`Failed to get latest run: ${error.message}`, 'SELECT');
+      }
+      if (!data) return null;
+
+      await this.verifyProjectAccess(data.project_id);
+
+      return this.mapToRun(data);
+    });
+  }
+
+  /**
+   * Most recent run started by a RUN_WORKFLOW task, if any
+   */
+  async getByParentTask(parentTaskId: string): Promise<WorkflowRun | null> {
+    return this.execute('getByParentTask', async () => {
+      const { data, error } = await this.db
+        .from('workflow_runs')
+        .select('*')
+        .eq('parent_task_id', parentTaskId)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new DatabaseError(`Failed to get child run: ${error.message}`, 'SELECT');
+      }
+      if (!data) return null;
+
+      await this.verifyProjectAccess(data.project_id);
+
+      return this.mapToRun(data);
+    });
+  }
+
+  /**
+   * List runs of a workflow, newest first
+   */
+  async listByWorkflow(workflowId: string, options?: { limit?: number; offset?: number }): Promise<WorkflowRun[]> {
+    return this.execute('listByWorkflow', async () => {
+      const { data: workflow } = await this.db
+        .from('workflows')
+        .select('project_id')
+        .eq('id', workflowId)
+        .single();
+
+      if (!workflow) {
+        throw new NotFoundError('Workflow', workflowId);
+      }
+
+      await this.verifyProjectAccess(workflow.project_id);
+
+      const limit = options?.limit ?? 20;
+      const offset = options?.offset ?? 0;
+
+      const { data, error } = await this.db
+        .from('workflow_runs')
+        .select('*')
+        .eq('workflow_id', workflowId)
+        .order('run_number', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw new DatabaseError(`Failed to list workflow runs: ${error.message}`, 'SELECT');
+      }
+
+      return (data || []).map((row: any) => this.mapToRun(row));
+    });
+  }
+
+  /**
+   * Finish a run. No-op if it is already in the requested state.
+   */
+  async finish(runId: string, status: Exclude<RunStatus, 'running'>, errorMessage?: string): Promise<WorkflowRun> {
+    return this.execute('finish', async () => {
+      const existing = await this.getById(runId);
+      if (existing.status === status) return existing;
+
+      if (!RUN_TRANSITIONS[existing.status].includes(status)) {
+        throw new BusinessRuleError(
+          `Cannot transition run from ${existing.status} to ${status}`,
+          'run_state_machine'
+        );
+      }
+
+      const { data, error } = await this.db
+        .from('workflow_runs')
+        .update({
+          status,
+          error_message: errorMessage || null,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', runId)
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to update workflow run: ${error.message}`, 'UPDATE');
+      }
+
+      const run = this.mapToRun(data);
+
+      if (status !== 'cancelled') {
+        await this.emitEvent(status === 'completed' ? 'WORKFLOW_RUN_COMPLETED' : 'WORKFLOW_RUN_FAILED', run.workflowId, {
+          runId: run.id,
+          runNumber: run.runNumber,
+          error: errorMessage,
+        });
+      }
+
+      await this.auditChange('finish', runId, {
+        status: { old: existing.status, new: status },
+      });
+
+      return run;
+    });
+  }
+
+  /**
+   * Put a finished run back to running (a step in it is being retried or rerun)
+   */
+  async resume(runId: string): Promise<WorkflowRun> {
+    return this.execute('resume', async () => {
+      const existing = await this.getById(runId);
+      if (existing.status === 'running') return existing;
+
+      if (!RUN_TRANSITIONS[existing.status].includes('running')) {
+        throw new BusinessRuleError(
+          `Cannot resume a ${existing.status} run`,
+          'run_state_machine'
+        );
+      }
+
+      const { data, error } = await this.db
+        .from('workflow_runs')
+        .update({ status: 'running', error_message: null, completed_at: null })
+        .eq('id', runId)
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to resume workflow run: ${error.message}`, 'UPDATE');
+      }
+
+      await this.auditChange('resume', runId, {
+        status: { old: existing.status, new: 'running' },
+      });
+
+      return this.mapToRun(data);
+    });
+  }
+
+  /**
+   * Complete a running run once every step has a completed (or skipped) task in it
+   */
+  async syncStatus(runId: string): Promise<WorkflowRun> {
+    return this.execute('syncStatus', async () => {
+      const run = await this.getById(runId);
+      if (run.status !== 'running') return run;
+
+      // Steps of the version the run is pinned to; older runs use the draft
+      let stepCount: number | null = null;
+      if (run.workflowVersion) {
+        const { data: version } = await this.db
+          .from('workflow_versions')
+          .select('steps')
+          .eq('workflow_id', run.workflowId)
+          .eq('version', run.workflowVersion)
+          .maybeSingle();
+        stepCount = version ? (version.steps || []).length : null;
+      }
+      if (stepCount === null) {
+        const { count } = await this.db
+          .from('steps')
+          .select('id', { count: 'exact', head: true })
+          .eq('workflow_id', run.workflowId)
+          .is('removed_at', null);
+        stepCount = count;
+      }
+
+      const { data: tasks } = await this.db
+        .from('tasks')
+        .select('step_id, status')
+        .eq('run_id', runId);
+
+      const completedSteps = new Set(
+        (tasks || []).filter((t: any) => t.status === 'completed' || t.status === 'skipped').map((t: any) => t.step_id)
+      );
+
+      if (stepCount && completedSteps.size >= stepCount) {
+        return this.finish(runId, 'completed');
+      }
+      return run;
+    });
+  }
+
+  // ==========================================
+  // HELPERS
+  // ==========================================
+
+  private async verifyProjectAccess(projectId: string): Promise<void> {
+    const { data, error } = await this.db
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', this.userId)
+      .single();
+
+    if (error || !data) {
+      throw new NotFoundError('Project', projectId);
+    }
+  }
+
+  private mapToRun(row: any): WorkflowRun {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      projectId: row.project_id,
+      runNumber: row.run_number,
+      trigger: row.trigger,
+      status: row.status,
+      triggeredBy: row.triggered_by || undefined,
+      parentTaskId: row.parent_task_id || undefined,
+      input: row.input || undefined,
+      workflowVersion: row.workflow_version ?? undefined,
+      simulated: row.simulated ?? false,
+      scheduledFor: row.scheduled_for ? new Date(row.scheduled_for) : undefined,
+      errorMessage: row.error_message || undefined,
+      startedAt: new Date(row.started_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    };
+  }
+}
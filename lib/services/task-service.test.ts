@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { TaskService } from './task-service';
+
+/**
+ * A TaskService bound to one attempt of a step only writes while that attempt owns the task
+ */
+
+type Row = Record<string, any>;
+
+// Enough of PostgREST for TaskService: eq filters, single rows and filtered updates
+function fakeSupabase(tables: Record<string, Row[]>): SupabaseClient {
+    const query = (table: string, filters: Array<[string, unknown]> = [], patch?: Row): any => {
+        const matching = () => (tables[table] ?? []).filter((row) => filters.every(([column, value]) => row[column] === value));
+        const run = () => {
+            const rows = matching();
+            if (patch) rows.forEach((row) => Object.assign(row, patch));
+            return rows;
+        };
+        return {
+            select: () => query(table, filters, patch),
+            update: (values: Row) => query(table, filters, values),
+            insert: () => query(table, filters, patch),
+            eq: (column: string, value: unknown) => query(table, [...filters, [column, value]], patch),
+            single: async () => {
+                const rows = run();
+                return rows.length === 1 ? { data: rows[0], error: null } : { data: null, error: { message: 'not found' } };
+            },
+            maybeSingle: async () => ({ data: run()[0] ?? null, error: null }),
+            then: (resolve: (value: unknown) => void) => resolve({ data: run(), error: null }),
+        };
+    };
+    return { from: (table: string) => query(table) } as unknown as SupabaseClient;
+}
+
+let tables: Record<string, Row[]>;
+let service: TaskService;
+
+beforeEach(() => {
+    tables = {
+        projects: [{ id: 'project-1', user_id: 'user-1' }],
+        tasks: [{ id: 'task-1', step_id: 'step-1', project_id: 'project-1', status: 'in_progress', retry_count: 0 }],
+    };
+    service = new TaskService({
+        supabase: fakeSupabase(tables),
+        tenant: { organizationId: 'org-1', userId: 'user-1', role: 'owner' },
+        requestId: 'req-1',
+    });
+});
+
+const task = () => tables.tasks[0];
+
+describe('TaskService.forAttempt', () => {
+    it('writes while the attempt owns the task', async () => {
+        await service.forAttempt({ id: 'task-1', retryCount: 0 }).markForReview('task-1', { title: 'Draft' });
+
+        expect(task()).toMatchObject({ status: 'review_needed', output_data: { title: 'Draft' } });
+    });
+
+    it('refuses writes once the attempt has timed out', async () => {
+        const controller = new AbortController();
+        const attempt = service.forAttempt({ id: 'task-1', retryCount: 0 }, controller.signal);
+        controller.abort();
+
+        await expect(attempt.complete('task-1', { title: 'Late' })).rejects.toMatchObject({
+            details: expect.objectContaining({ rule: 'STALE_ATTEMPT' }),
+        });
+        expect(task().status).toBe('in_progress');
+    });
+
+    it('refuses writes after the task failed and its retry picked it up', async () => {
+        const stale = service.forAttempt({ id: 'task-1', retryCount: 0 });
+
+        await service.fail('task-1', 'Step timed out after 30000ms');
+        await service.start('task-1');
+        expect(task()).toMatchObject({ status: 'in_progress', retry_count: 1 });
+
+        await expect(stale.complete('task-1', { title: 'Late' })).rejects.toMatchObject({
+            details: expect.objectContaining({ rule: 'STALE_ATTEMPT' }),
+        });
+        expect(task().output_data).toBeUndefined();
+
+        await service.forAttempt({ id: 'task-1', retryCount: 1 }).complete('task-1', { title: 'Retry' });
+        expect(task()).toMatchObject({ status: 'completed', output_data: { title: 'Retry' } });
+    });
+
+    it('leaves writes to other tasks alone', async () => {
+        tables.tasks.push({ id: 'task-2', step_id: 'step-2', project_id: 'project-1', status: 'in_progress', retry_count: 3 });
+
+        await service.forAttempt({ id: 'task-1', retryCount: 0 }).complete('task-2', { done: true });
+        expect(tables.tasks[1].status).toBe('completed');
+    });
+});
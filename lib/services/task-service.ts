@@ -9,8 +9,17 @@
 
 import { BaseService, ServiceContext } from './base-service';
 import { validateInput, updateTaskSchema } from '../core/validation';
-import { NotFoundError, DatabaseError, BusinessRuleError } from '../core/errors';
-import type { Task, TaskStatus, AggregateType } from '../core/types';
+import { NotFoundError, DatabaseError, BusinessRuleError, ValidationError } from '../core/errors';
+import type {
+  Task,
+  TaskStatus,
+  TaskItem,
+  TaskItemStatus,
+  TaskAttempt,
+  TaskAttemptStatus,
+  TaskAttemptRetry,
+  AggregateType,
+} from '../core/types';
 
 // ==========================================
 // TASK STATE MACHINE
@@ -30,10 +39,31 @@ const TASK_TRANSITIONS: TaskTransition[] = [
   { from: ['in_progress', 'awaiting_approval', 'review_needed'], to: 'completed', action: 'complete' },
   { from: ['in_progress', 'extension_queued', 'awaiting_approval', 'pending'], to: 'failed', action: 'fail' },
   { from: ['failed', 'cancelled'], to: 'pending', action: 'retry' },
+  { from: ['pending'], to: 'skipped', action: 'skip' },
   { from: ['pending', 'in_progress', 'awaiting_approval', 'review_needed', 'extension_queued', 'failed', 'completed'], to: 'cancelled', action: 'cancel' },
-  { from: ['completed', 'failed', 'review_needed', 'awaiting_approval', 'cancelled', 'in_progress', 'extension_queued', 'pending'], to: 'pending', action: 'reset' },
+  { from: ['completed', 'failed', 'review_needed', 'awaiting_approval', 'cancelled', 'in_progress', 'extension_queued', 'pending', 'skipped'], to: 'pending', action: 'reset' },
 ];
 
+// FOR_EACH items: failed items can be retried, reviewed items are approved or rejected
+const ITEM_TRANSITIONS: Record<TaskItemStatus, TaskItemStatus[]> = {
+  pending: ['in_progress'],
+  in_progress: ['review_needed', 'completed', 'failed'],
+  failed: ['in_progress'],
+  review_needed: ['completed', 'rejected'],
+  completed: [],
+  rejected: [],
+};
+
+/**
+ * One attempt of a step at its task: the task's retry_count when the attempt started,
+ * and the signal aborted when the attempt timed out
+ */
+export interface TaskAttemptGuard {
+  taskId: string;
+  retryCount: number;
+  signal?: AbortSignal;
+}
+
 // ==========================================
 // TASK SERVICE
 // ==========================================
@@ -42,16 +72,26 @@ export class TaskService extends BaseService {
   protected serviceName = 'TaskService';
   protected aggregateType: AggregateType = 'task';
 
-  constructor(context: ServiceContext) {
+  constructor(context: ServiceContext, private readonly attempt?: TaskAttemptGuard) {
     super(context);
   }
 
+  /**
+   * The same service, writing for one attempt of a step. Its writes to the task (and its
+   * items) fail once the attempt has timed out or the task has moved on - failed, retried
+   * by a later attempt or cancelled - so a handler that outlives its attempt changes nothing.
+   */
+  forAttempt(task: Pick<Task, 'id' | 'retryCount'>, signal?: AbortSignal): TaskService {
+    return new TaskService(this.context, { taskId: task.id, retryCount: task.retryCount, signal });
+  }
+
   /**
    * Create a new task
    */
   async create(input: {
     stepId: string;
     projectId: string;
+    runId?: string;
     scheduledFor?: Date;
   }): Promise<Task> {
     return this.execute('create', async () => {
@@ -63,6 +103,7 @@ export class TaskService extends BaseService {
         .insert({
           step_id: input.stepId,
           project_id: input.projectId,
+          run_id: input.runId || null,
           status: 'pending',
           output_data: {},
           scheduled_for: input.scheduledFor?.toISOString(),
@@ -78,6 +119,7 @@ export class TaskService extends BaseService {
       await this.emitEvent('TASK_CREATED', data.id, {
         stepId: input.stepId,
         projectId: input.projectId,
+        runId: input.runId,
       });
 
       return this.mapToTask(data);
@@ -107,14 +149,20 @@ export class TaskService extends BaseService {
   }
 
   /**
-   * Get task by step ID
+   * Get the latest task for a step, optionally within one workflow run
    */
-  async getByStepId(stepId: string): Promise<Task | null> {
+  async getByStepId(stepId: string, runId?: string): Promise<Task | null> {
     return this.execute('getByStepId', async () => {
-      const { data, error } = await this.db
+      let query = this.db
         .from('tasks')
         .select('*')
-        .eq('step_id', stepId)
+        .eq('step_id', stepId);
+
+      if (runId) {
+        query = query.eq('run_id', runId);
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
@@ -129,6 +177,29 @@ export class TaskService extends BaseService {
     });
   }
 
+  /**
+   * List the tasks of a workflow run, oldest first
+   */
+  async listByRun(runId: string): Promise<Task[]> {
+    return this.execute('listByRun', async () => {
+      const { data, error } = await this.db
+        .from('tasks')
+        .select('*')
+        .eq('run_id', runId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        throw new DatabaseError(`Failed to list run tasks: ${error.message}`, 'SELECT');
+      }
+
+      const tasks = (data || []).map(this.mapToTask);
+      if (tasks.length > 0) {
+        await this.verifyProjectAccess(tasks[0].projectId);
+      }
+      return tasks;
+    });
+  }
+
   /**
    * List tasks for a project
    */
@@ -173,6 +244,7 @@ export class TaskService extends BaseService {
   ): Promise<Task> {
     return this.execute('updateStatus', async () => {
       const existing = await this.getById(taskId);
+      this.assertAttemptOwns(existing);
 
       // Validate transition
       this.validateStatusTransition(existing.status, status);
@@ -194,7 +266,7 @@ export class TaskService extends BaseService {
         updateData.started_at = new Date().toISOString();
       }
 
-      if (status === 'completed' || status === 'failed') {
+      if (status === 'completed' || status === 'failed' || status === 'skipped') {
         updateData.completed_at = new Date().toISOString();
       }
 
@@ -202,23 +274,33 @@ export class TaskService extends BaseService {
         updateData.retry_count = (existing.retryCount || 0) + 1;
       }
 
-      const { data, error } = await this.db
+      let update = this.db
         .from('tasks')
         .update(updateData)
-        .eq('id', taskId)
-        .select()
-        .single();
+        .eq('id', taskId);
+
+      // An attempt's write only lands while the attempt still owns the task
+      const guard = this.guardFor(taskId);
+      if (guard) {
+        update = update.eq('status', 'in_progress').eq('retry_count', guard.retryCount);
+      }
+
+      const { data, error } = await update.select().maybeSingle();
 
       if (error) {
         throw new DatabaseError(`Failed to update task: ${error.message}`, 'UPDATE');
       }
+      if (!data) {
+        throw guard ? this.staleAttemptError(taskId) : new NotFoundError('Task', taskId);
+      }
 
       // Emit appropriate event
       const eventType = status === 'completed' ? 'TASK_COMPLETED' :
         status === 'failed' ? 'TASK_FAILED' :
-          status === 'in_progress' ? 'TASK_STARTED' :
-            status === 'extension_queued' ? 'EXTENSION_TASK_QUEUED' :
-              'TASK_QUEUED';
+          status === 'skipped' ? 'TASK_SKIPPED' :
+            status === 'in_progress' ? 'TASK_STARTED' :
+              status === 'extension_queued' ? 'EXTENSION_TASK_QUEUED' :
+                'TASK_QUEUED';
 
       await this.emitEvent(eventType, taskId, {
         previousStatus: existing.status,
@@ -255,6 +337,13 @@ export class TaskService extends BaseService {
     return this.updateStatus(taskId, 'failed', undefined, errorMessage);
   }
 
+  /**
+   * Skip a pending task (its step is on a branch a CONDITION step did not take)
+   */
+  async skip(taskId: string, reason: string): Promise<Task> {
+    return this.updateStatus(taskId, 'skipped', { skipped: true, reason });
+  }
+
   /**
    * Mark task for review (human-in-the-loop)
    */
@@ -262,10 +351,35 @@ export class TaskService extends BaseService {
     return this.updateStatus(taskId, 'review_needed', outputData);
   }
 
+  /**
+   * Hold a task until a human decides (e.g. every FOR_EACH item is approved or rejected)
+   */
+  async requestApproval(taskId: string, outputData: Record<string, unknown>): Promise<Task> {
+    return this.updateStatus(taskId, 'awaiting_approval', outputData);
+  }
+
   /**
    * Queue task for browser extension
    */
   async queueForExtension(taskId: string, outputData?: Record<string, unknown>): Promise<Task> {
+    // Simulated runs never hand work to the extension (it acts on a real account)
+    const task = await this.getById(taskId);
+    if (task.runId) {
+      const { data: run } = await this.db
+        .from('workflow_runs')
+        .select('simulated')
+        .eq('id', task.runId)
+        .maybeSingle();
+
+      if (run?.simulated) {
+        throw new BusinessRuleError(
+          'Tasks of a simulated run cannot be queued for the extension',
+          'simulated_run',
+          { taskId, runId: task.runId }
+        );
+      }
+    }
+
     return this.updateStatus(taskId, 'extension_queued', {
       info: 'Waiting for Browser Extension...',
       ...outputData
@@ -273,9 +387,10 @@ export class TaskService extends BaseService {
   }
 
   /**
-   * Approve task content (human-in-the-loop)
+   * Approve task content (human-in-the-loop). `outputData` replaces the output, e.g. with
+   * what a simulated run "posted".
    */
-  async approve(taskId: string): Promise<Task> {
+  async approve(taskId: string, outputData?: Record<string, unknown>): Promise<Task> {
     const task = await this.getById(taskId);
 
     if (task.status !== 'review_needed' && task.status !== 'awaiting_approval') {
@@ -285,7 +400,41 @@ export class TaskService extends BaseService {
       );
     }
 
-    return this.updateStatus(taskId, 'completed', task.outputData);
+    return this.updateStatus(taskId, 'completed', outputData ?? task.outputData);
+  }
+
+  /**
+   * Pick one of a GENERATE_HOOKS task's hooks (human-in-the-loop). The pick becomes
+   * `selected_hook` and approves the task, so the following draft opens with it.
+   * `hookIndex` is 0-based, the position of the hook in `outputData.hooks`.
+   */
+  async selectHook(taskId: string, hookIndex: number): Promise<Task> {
+    const task = await this.getById(taskId);
+
+    if (task.status !== 'review_needed' && task.status !== 'awaiting_approval') {
+      throw new BusinessRuleError(
+        'Task is not awaiting approval',
+        'INVALID_APPROVAL_STATE'
+      );
+    }
+
+    const hooks = task.outputData.hooks;
+    if (!Array.isArray(hooks) || hooks.length === 0) {
+      throw new BusinessRuleError('Task has no hooks to choose from', 'HOOKS_REQUIRED');
+    }
+
+    const picked = hooks[hookIndex] as { hook?: unknown } | undefined;
+    if (!Number.isInteger(hookIndex) || typeof picked?.hook !== 'string') {
+      throw new ValidationError('Invalid hook', [
+        { field: 'hookIndex', message: `Expected a hook index between 0 and ${hooks.length - 1}` },
+      ]);
+    }
+
+    const updated = await this.approve(taskId, { ...task.outputData, selected_hook: picked.hook });
+    await this.auditChange('selectHook', taskId, {
+      selected_hook: { old: task.outputData.selected_hook, new: picked.hook },
+    });
+    return updated;
   }
 
   /**
@@ -358,6 +507,269 @@ export class TaskService extends BaseService {
     return this.markForReview(taskId, result);
   }
 
+  // ==========================================
+  // TASK ITEMS (FOR_EACH)
+  // ==========================================
+
+  /**
+   * Create one item record per list entry. Items that already exist are kept,
+   * so a retried FOR_EACH task resumes instead of starting over.
+   */
+  async createItems(taskId: string, items: unknown[]): Promise<TaskItem[]> {
+    return this.execute('createItems', async () => {
+      const task = await this.getById(taskId);
+      this.assertAttemptOwns(task);
+
+      if (items.length > 0) {
+        const { error } = await this.db
+          .from('task_items')
+          .upsert(
+            items.map((item, index) => ({
+              task_id: taskId,
+              project_id: task.projectId,
+              item_index: index,
+              item: item ?? null,
+              status: 'pending',
+            })),
+            { onConflict: 'task_id,item_index', ignoreDuplicates: true }
+          );
+
+        if (error) {
+          throw new DatabaseError(`Failed to create task items: ${error.message}`, 'INSERT');
+        }
+      }
+
+      return this.listItems(taskId);
+    });
+  }
+
+  /**
+   * List the items of a FOR_EACH task, in list order
+   */
+  async listItems(taskId: string): Promise<TaskItem[]> {
+    return this.execute('listItems', async () => {
+      const { data, error } = await this.db
+        .from('task_items')
+        .select('*')
+        .eq('task_id', taskId)
+        .order('item_index', { ascending: true });
+
+      if (error) {
+        throw new DatabaseError(`Failed to list task items: ${error.message}`, 'SELECT');
+      }
+
+      return (data || []).map(this.mapToTaskItem);
+    });
+  }
+
+  /**
+   * Get a task item by ID
+   */
+  async getItem(itemId: string): Promise<TaskItem> {
+    return this.execute('getItem', async () => {
+      const { data, error } = await this.db
+        .from('task_items')
+        .select('*')
+        .eq('id', itemId)
+        .single();
+
+      if (error || !data) {
+        throw new NotFoundError('Task item', itemId);
+      }
+
+      await this.verifyProjectAccess(data.project_id);
+
+      return this.mapToTaskItem(data);
+    });
+  }
+
+  /**
+   * Update a task item's status, with transition validation
+   */
+  async updateItemStatus(
+    itemId: string,
+    status: TaskItemStatus,
+    outputData?: Record<string, unknown>,
+    errorMessage?: string
+  ): Promise<TaskItem> {
+    return this.execute('updateItemStatus', async () => {
+      const existing = await this.getItem(itemId);
+      if (this.guardFor(existing.taskId)) {
+        this.assertAttemptOwns(await this.getById(existing.taskId));
+      }
+
+      if (!ITEM_TRANSITIONS[existing.status].includes(status)) {
+        throw new BusinessRuleError(
+          `Invalid task item status transition from ${existing.status} to ${status}`,
+          'INVALID_STATUS_TRANSITION'
+        );
+      }
+
+      const updateData: Record<string, unknown> = { status };
+      if (outputData) updateData.output_data = outputData;
+      if (status === 'in_progress') {
+        updateData.started_at = new Date().toISOString();
+        updateData.error_message = null;
+      }
+      if (errorMessage) updateData.error_message = errorMessage;
+      if (status === 'completed' || status === 'failed' || status === 'rejected') {
+        updateData.completed_at = new Date().toISOString();
+      }
+
+      const { data, error } = await this.db
+        .from('task_items')
+        .update(updateData)
+        .eq('id', itemId)
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to update task item: ${error.message}`, 'UPDATE');
+      }
+
+      await this.emitEvent('TASK_ITEM_UPDATED', existing.taskId, {
+        itemId,
+        itemIndex: existing.itemIndex,
+        previousStatus: existing.status,
+        newStatus: status,
+      });
+
+      return this.mapToTaskItem(data);
+    });
+  }
+
+  /**
+   * Save an in-progress item's output without changing its status, e.g. the deliveries
+   * of an email so far
+   */
+  async updateItemOutput(itemId: string, outputData: Record<string, unknown>): Promise<TaskItem> {
+    return this.execute('updateItemOutput', async () => {
+      const existing = await this.getItem(itemId);
+      if (this.guardFor(existing.taskId)) {
+        this.assertAttemptOwns(await this.getById(existing.taskId));
+      }
+
+      const { data, error } = await this.db
+        .from('task_items')
+        .update({ output_data: outputData })
+        .eq('id', itemId)
+        .eq('status', 'in_progress')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        throw new DatabaseError(`Failed to update task item: ${error.message}`, 'UPDATE');
+      }
+      if (!data) {
+        throw new BusinessRuleError(
+          `Only an in-progress task item can save its output (it is ${existing.status})`,
+          'INVALID_STATUS_TRANSITION'
+        );
+      }
+
+      return this.mapToTaskItem(data);
+    });
+  }
+
+  /**
+   * Approve one item's output (human-in-the-loop)
+   */
+  async approveItem(itemId: string): Promise<TaskItem> {
+    const item = await this.getItem(itemId);
+    const updated = await this.updateItemStatus(itemId, 'completed');
+    await this.auditChange('approveItem', item.taskId, {
+      [`items.${item.itemIndex}.status`]: { old: item.status, new: 'completed' },
+    });
+    return updated;
+  }
+
+  /**
+   * Reject one item's output (human-in-the-loop); the rest of the batch is unaffected
+   */
+  async rejectItem(itemId: string, reason: string): Promise<TaskItem> {
+    const item = await this.getItem(itemId);
+    const updated = await this.updateItemStatus(itemId, 'rejected', undefined, reason);
+    await this.auditChange('rejectItem', item.taskId, {
+      [`items.${item.itemIndex}.status`]: { old: item.status, new: 'rejected' },
+    });
+    return updated;
+  }
+
+  // ==========================================
+  // ATTEMPTS
+  // ==========================================
+
+  /**
+   * Record one execution attempt of a task and, if it failed, whether it will be retried
+   */
+  async recordAttempt(
+    taskId: string,
+    input: {
+      jobId?: string;
+      attempt: number;
+      status: TaskAttemptStatus;
+      errorCode?: string;
+      errorMessage?: string;
+      retry?: TaskAttemptRetry;
+      nextAttemptAt?: Date;
+      startedAt: Date;
+      finishedAt: Date;
+    }
+  ): Promise<TaskAttempt> {
+    return this.execute('recordAttempt', async () => {
+      const task = await this.getById(taskId);
+
+      const { data, error } = await this.db
+        .from('task_attempts')
+        .insert({
+          task_id: taskId,
+          project_id: task.projectId,
+          run_id: task.runId || null,
+          job_id: input.jobId || null,
+          attempt: input.attempt,
+          status: input.status,
+          error_code: input.errorCode || null,
+          error_message: input.errorMessage || null,
+          retry: input.retry || null,
+          next_attempt_at: input.nextAttemptAt?.toISOString() || null,
+          duration_ms: input.finishedAt.getTime() - input.startedAt.getTime(),
+          started_at: input.startedAt.toISOString(),
+          finished_at: input.finishedAt.toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to record task attempt: ${error.message}`, 'INSERT');
+      }
+
+      return this.mapToTaskAttempt(data);
+    });
+  }
+
+  /**
+   * Attempts of every task in a run, oldest first
+   */
+  async listAttemptsByRun(runId: string): Promise<TaskAttempt[]> {
+    return this.execute('listAttemptsByRun', async () => {
+      const { data, error } = await this.db
+        .from('task_attempts')
+        .select('*')
+        .eq('run_id', runId)
+        .order('started_at', { ascending: true });
+
+      if (error) {
+        throw new DatabaseError(`Failed to list task attempts: ${error.message}`, 'SELECT');
+      }
+
+      const attempts = (data || []).map(this.mapToTaskAttempt);
+      if (attempts.length > 0) {
+        await this.verifyProjectAccess(attempts[0].projectId);
+      }
+      return attempts;
+    });
+  }
+
   // ==========================================
   // HELPERS
   // ==========================================
@@ -375,6 +787,30 @@ export class TaskService extends BaseService {
     }
   }
 
+  private guardFor(taskId: string): TaskAttemptGuard | undefined {
+    return this.attempt?.taskId === taskId ? this.attempt : undefined;
+  }
+
+  /**
+   * Throw if this service writes for an attempt that no longer owns the task
+   */
+  private assertAttemptOwns(task: Task): void {
+    const guard = this.guardFor(task.id);
+    if (!guard) return;
+
+    if (guard.signal?.aborted || task.status !== 'in_progress' || task.retryCount !== guard.retryCount) {
+      throw this.staleAttemptError(task.id);
+    }
+  }
+
+  private staleAttemptError(taskId: string): BusinessRuleError {
+    return new BusinessRuleError(
+      'The step attempt no longer owns this task (it timed out, or the task moved on)',
+      'STALE_ATTEMPT',
+      { taskId, retryCount: this.attempt?.retryCount }
+    );
+  }
+
   private async verifyProjectAccess(projectId: string): Promise<void> {
     const { data, error } = await this.db
       .from('projects')
@@ -393,6 +829,7 @@ export class TaskService extends BaseService {
       id: row.id,
       stepId: row.step_id,
       projectId: row.project_id,
+      runId: row.run_id || undefined,
       status: row.status,
       outputData: row.output_data || {},
       errorMessage: row.error_message,
@@ -403,4 +840,39 @@ export class TaskService extends BaseService {
       retryCount: row.retry_count || 0,
     };
   }
+
+  private mapToTaskItem(row: any): TaskItem {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      projectId: row.project_id,
+      itemIndex: row.item_index,
+      item: row.item,
+      status: row.status,
+      outputData: row.output_data || {},
+      errorMessage: row.error_message || undefined,
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private mapToTaskAttempt(row: any): TaskAttempt {
+    return {
+      id: row.id,
+      taskId: row.task_id,
+      projectId: row.project_id,
+      runId: row.run_id || undefined,
+      jobId: row.job_id || undefined,
+      attempt: row.attempt,
+      status: row.status,
+      errorCode: row.error_code || undefined,
+      errorMessage: row.error_message || undefined,
+      retry: row.retry || undefined,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      durationMs: row.duration_ms || 0,
+      startedAt: new Date(row.started_at),
+      finishedAt: new Date(row.finished_at),
+    };
+  }
 }
@@ -0,0 +1,361 @@
+/**
+ * LaunchGrid Template Service
+ *
+ * Owns: Organization workflow templates and their versions
+ * Following the constitution:
+ * - Workflows are declarative: a template version is a workflow document
+ * - Events are the system truth: versions are immutable, saving again adds one
+ * - Tenant isolation everywhere
+ */
+
+import { BaseService, ServiceContext } from './base-service';
+import { validateInput, createTemplateSchema, type CreateTemplateInput, type WorkflowDocument } from '../core/validation';
+import { NotFoundError, DatabaseError, BusinessRuleError } from '../core/errors';
+import { parseWorkflowDocument } from '../workflows/document';
+import type { OrganizationTemplate, OrganizationTemplateVersion, AggregateType } from '../core/types';
+
+// A workflow created from an older version of a template
+export interface OutdatedWorkflow {
+  workflowId: string;
+  workflowName: string;
+  projectId: string;
+  templateId: string;
+  templateVersion: number;
+  latestVersion: number;
+}
+
+export class TemplateService extends BaseService {
+  protected serviceName = 'TemplateService';
+  protected aggregateType: AggregateType = 'template';
+
+  constructor(context: ServiceContext) {
+    super(context);
+  }
+
+  /**
+   * List the organization's templates with the document of their latest version
+   */
+  async list(): Promise<Array<OrganizationTemplate & { document: WorkflowDocument }>> {
+    return this.execute('list', async () => {
+      const { data, error } = await this.db
+        .from('workflow_templates')
+        .select('*')
+        .eq('organization_id', this.organizationId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        throw new DatabaseError(`Failed to list templates: ${error.message}`, 'SELECT');
+      }
+
+      const templates = (data || []).map(this.mapToTemplate);
+      if (templates.length === 0) return [];
+
+      const { data: versions, error: versionsError } = await this.db
+        .from('workflow_template_versions')
+        .select('template_id, version, document')
+        .in('template_id', templates.map((t) => t.id));
+
+      if (versionsError) {
+        throw new DatabaseError(`Failed to load template versions: ${versionsError.message}`, 'SELECT');
+      }
+
+      const documents = new Map<string, unknown>();
+      for (const version of versions || []) {
+        const template = templates.find((t) => t.id === version.template_id);
+        if (template && version.version === template.latestVersion) {
+          documents.set(template.id, version.document);
+        }
+      }
+
+      return templates
+        .filter((t) => documents.has(t.id))
+        .map((t) => ({ ...t, document: parseWorkflowDocument(documents.get(t.id)) }));
+    });
+  }
+
+  /**
+   * Get a template by ID
+   */
+  async getById(templateId: string): Promise<OrganizationTemplate> {
+    return this.execute('getById', async () => {
+      const { data, error } = await this.db
+        .from('workflow_templates')
+        .select('*')
+        .eq('id', templateId)
+        .eq('organization_id', this.organizationId)
+        .single();
+
+      if (error || !data) {
+        throw new NotFoundError('Template', templateId);
+      }
+
+      return this.mapToTemplate(data);
+    });
+  }
+
+  /**
+   * Get one version of a template (default: the latest) and its document
+   */
+  async getVersion(templateId: string, version?: number): Promise<{
+    template: OrganizationTemplate;
+    version: OrganizationTemplateVersion;
+    document: WorkflowDocument;
+  }> {
+    return this.execute('getVersion', async () => {
+      const template = await this.getById(templateId);
+      const number = version ?? template.latestVersion;
+
+      const { data, error } = await this.db
+        .from('workflow_template_versions')
+        .select('*')
+        .eq('template_id', templateId)
+        .eq('version', number)
+        .single();
+
+      if (error || !data) {
+        throw new NotFoundError('Template version', `${templateId}@${number}`);
+      }
+
+      const templateVersion = this.mapToVersion(data);
+      return { template, version: templateVersion, document: parseWorkflowDocument(templateVersion.document) };
+    });
+  }
+
+  /**
+   * List the versions of a template, newest first
+   */
+  async listVersions(templateId: string): Promise<OrganizationTemplateVersion[]> {
+    return this.execute('listVersions', async () => {
+      await this.getById(templateId);
+
+      const { data, error } = await this.db
+        .from('workflow_template_versions')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        throw new DatabaseError(`Failed to list template versions: ${error.message}`, 'SELECT');
+      }
+
+      return (data || []).map(this.mapToVersion);
+    });
+  }
+
+  /**
+   * Create a template whose first version is the given document
+   */
+  async create(
+    input: Omit<CreateTemplateInput, 'workflowId'>,
+    document: WorkflowDocument,
+    sourceWorkflowId?: string
+  ): Promise<OrganizationTemplate> {
+    return this.execute('create', async () => {
+      const validated = validateInput(createTemplateSchema.omit({ workflowId: true }), input);
+
+      const { data, error } = await this.db
+        .from('workflow_templates')
+        .insert({
+          organization_id: this.organizationId,
+          created_by: this.userId,
+          name: validated.name,
+          description: validated.description || '',
+          icon: validated.icon,
+          category: validated.category,
+          platform: validated.platform,
+          estimated_time: validated.estimatedTime || null,
+          latest_version: 1,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to create template: ${error.message}`, 'INSERT');
+      }
+
+      try {
+        await this.insertVersion(data.id, 1, document, sourceWorkflowId);
+      } catch (versionError) {
+        // Do not leave a template without a version behind
+        await this.db.from('workflow_templates').delete().eq('id', data.id);
+        throw versionError;
+      }
+
+      await this.emitEvent('TEMPLATE_CREATED', data.id, {
+        name: validated.name,
+        sourceWorkflowId,
+        stepCount: document.steps.length,
+      });
+
+      await this.audit('create', data.id, { name: validated.name, sourceWorkflowId });
+
+      return this.mapToTemplate(data);
+    });
+  }
+
+  /**
+   * Save a document as the next version of a template. Workflows created from
+   * earlier versions keep their steps; they show up in listOutdatedWorkflows.
+   */
+  async publishVersion(
+    templateId: string,
+    document: WorkflowDocument,
+    sourceWorkflowId?: string
+  ): Promise<OrganizationTemplate> {
+    return this.execute('publishVersion', async () => {
+      const template = await this.getById(templateId);
+      const version = template.latestVersion + 1;
+
+      await this.insertVersion(templateId, version, document, sourceWorkflowId);
+
+      const { data, error } = await this.db
+        .from('workflow_templates')
+        .update({ latest_version: version })
+        .eq('id', templateId)
+        .eq('latest_version', template.latestVersion)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw new DatabaseError(`Failed to publish template version: ${error?.message || 'template changed'}`, 'UPDATE');
+      }
+
+      await this.emitEvent('TEMPLATE_VERSION_PUBLISHED', templateId, {
+        version,
+        sourceWorkflowId,
+        stepCount: document.steps.length,
+      });
+
+      await this.audit('publish', templateId, { version, sourceWorkflowId });
+
+      return this.mapToTemplate(data);
+    });
+  }
+
+  /**
+   * Delete a template and its versions. Workflows created from it are kept.
+   */
+  async delete(templateId: string): Promise<void> {
+    return this.execute('delete', async () => {
+      const template = await this.getById(templateId);
+
+      const { error } = await this.db
+        .from('workflow_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (error) {
+        throw new DatabaseError(`Failed to delete template: ${error.message}`, 'DELETE');
+      }
+
+      await this.emitEvent('TEMPLATE_DELETED', templateId, { name: template.name });
+      await this.audit('delete', templateId, { name: template.name });
+    });
+  }
+
+  /**
+   * Workflows the user can see that were created from an older version of one of
+   * the organization's templates (optionally only those of one template)
+   */
+  async listOutdatedWorkflows(templateId?: string): Promise<OutdatedWorkflow[]> {
+    return this.execute('listOutdatedWorkflows', async () => {
+      let query = this.db
+        .from('workflow_templates')
+        .select('id, latest_version')
+        .eq('organization_id', this.organizationId);
+
+      if (templateId) {
+        query = query.eq('id', templateId);
+      }
+
+      const { data: templates, error } = await query;
+      if (error) {
+        throw new DatabaseError(`Failed to list templates: ${error.message}`, 'SELECT');
+      }
+      if (!templates || templates.length === 0) return [];
+
+      const latest = new Map<string, number>(templates.map((t) => [t.id, t.latest_version]));
+
+      const { data: workflows, error: workflowsError } = await this.db
+        .from('workflows')
+        .select('id, name, project_id, config')
+        .in('config->>templateId', [...latest.keys()]);
+
+      if (workflowsError) {
+        throw new DatabaseError(`Failed to list workflows: ${workflowsError.message}`, 'SELECT');
+      }
+
+      return (workflows || [])
+        .map((w) => ({
+          workflowId: w.id,
+          workflowName: w.name,
+          projectId: w.project_id,
+          templateId: w.config.templateId as string,
+          templateVersion: Number(w.config.templateVersion) || 1,
+          latestVersion: latest.get(w.config.templateId) || 1,
+        }))
+        .filter((w) => w.templateVersion < w.latestVersion);
+    });
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  private async insertVersion(
+    templateId: string,
+    version: number,
+    document: WorkflowDocument,
+    sourceWorkflowId?: string
+  ): Promise<void> {
+    const { error } = await this.db
+      .from('workflow_template_versions')
+      .insert({
+        template_id: templateId,
+        version,
+        document,
+        source_workflow_id: sourceWorkflowId || null,
+        created_by: this.userId,
+      });
+
+    if (error?.code === '23505') {
+      throw new BusinessRuleError(
+        'This template was just updated by someone else. Reload and save again.',
+        'template_version_conflict',
+        { templateId, version }
+      );
+    }
+    if (error) {
+      throw new DatabaseError(`Failed to save template version: ${error.message}`, 'INSERT');
+    }
+  }
+
+  private mapToTemplate(row: any): OrganizationTemplate {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      name: row.name,
+      description: row.description || '',
+      icon: row.icon,
+      category: row.category,
+      platform: row.platform,
+      estimatedTime: row.estimated_time || undefined,
+      latestVersion: row.latest_version,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  private mapToVersion(row: any): OrganizationTemplateVersion {
+    return {
+      id: row.id,
+      templateId: row.template_id,
+      version: row.version,
+      document: row.document,
+      sourceWorkflowId: row.source_workflow_id || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
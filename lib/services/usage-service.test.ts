@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { UsageService } from './usage-service';
+
+/**
+ * The ledger is written through record_ai_usage; spend is summed per organization and project
+ */
+
+interface Recorded {
+  rpc: Array<{ fn: string; args: any }>;
+  inserts: number;
+}
+
+function stubSupabase(recorded: Recorded, spend = 0): SupabaseClient {
+  const query: any = new Proxy({}, {
+    get: (_, prop) => {
+      if (prop === 'then') return (resolve: (value: unknown) => void) => resolve({ data: [], error: null });
+      if (prop === 'insert') return () => (recorded.inserts++, query);
+      return () => query;
+    },
+  });
+  const rpc = async (fn: string, args: unknown) => {
+    recorded.rpc.push({ fn, args });
+    return { data: fn === 'ai_usage_spend' ? String(spend) : null, error: null };
+  };
+  return { from: () => query, rpc } as unknown as SupabaseClient;
+}
+
+function createUsageService(recorded: Recorded, spend?: number): UsageService {
+  return new UsageService({
+    supabase: stubSupabase(recorded, spend),
+    tenant: { organizationId: 'org-1', userId: 'user-1', role: 'owner' },
+    requestId: 'req-1',
+  });
+}
+
+const emptyRecord = (): Recorded => ({ rpc: [], inserts: 0 });
+
+describe('UsageService', () => {
+  it('records through record_ai_usage, never a direct insert', async () => {
+    const recorded = emptyRecord();
+    await createUsageService(recorded).record({
+      projectId: 'project-1',
+      operation: 'content_draft',
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      promptTokens: 100,
+      completionTokens: 20,
+      costUsd: 0.0006,
+    });
+
+    expect(recorded.inserts).toBe(0);
+    expect(recorded.rpc).toEqual([{
+      fn: 'record_ai_usage',
+      args: expect.objectContaining({
+        p_organization_id: 'org-1',
+        p_project_id: 'project-1',
+        p_workflow_id: null,
+        p_user_id: 'user-1',
+        p_operation: 'content_draft',
+        p_cost_usd: 0.0006,
+        p_request_id: 'req-1',
+      }),
+    }]);
+  });
+
+  it('reads month-to-date spend for the project within the organization, summed in the database', async () => {
+    const recorded = emptyRecord();
+    const spent = await createUsageService(recorded, 1.75).getMonthToDateSpend('project-1');
+
+    expect(spent).toBe(1.75);
+    expect(recorded.rpc).toEqual([{
+      fn: 'ai_usage_spend',
+      args: expect.objectContaining({ p_organization_id: 'org-1', p_project_id: 'project-1' }),
+    }]);
+    expect(new Date(recorded.rpc[0].args.p_from).getUTCDate()).toBe(1);
+  });
+});
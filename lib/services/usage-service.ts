@@ -0,0 +1,276 @@
+/**
+ * LaunchGrid Usage Service
+ *
+ * Owns: The AI usage ledger (tokens and cost of every provider call), project spend caps
+ * Following the constitution:
+ * - Tenant isolation everywhere: every row and report is scoped to the organization
+ * - Explicit errors: a project over its cap fails with SpendCapExceededError, never silently
+ */
+
+import { BaseService, ServiceContext } from './base-service';
+import { validateInput, usageQuerySchema, type UsageQuery } from '../core/validation';
+import { DatabaseError, SpendCapExceededError } from '../core/errors';
+import type {
+  AggregateType,
+  AIProviderID,
+  AIUsageEntry,
+  AIUsageGroup,
+  AIUsageScope,
+  AIUsageSummary,
+  ImageProviderID,
+} from '../core/types';
+
+// PostgREST returns at most this many rows per request, so reports read the ledger in pages
+const PAGE_SIZE = 1000;
+
+export interface RecordUsageInput extends Omit<AIUsageScope, 'spendCapUsd'> {
+  operation: string;
+  provider: AIProviderID | ImageProviderID;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null;
+}
+
+export class UsageService extends BaseService {
+  protected serviceName = 'UsageService';
+  protected aggregateType: AggregateType = 'organization';
+
+  constructor(context: ServiceContext) {
+    super(context);
+  }
+
+  /**
+   * Add one provider call to the ledger. Clients cannot write ai_usage themselves;
+   * record_ai_usage checks the organization and project before inserting.
+   */
+  async record(input: RecordUsageInput): Promise<void> {
+    return this.execute('record', async () => {
+      const { error } = await this.db.rpc('record_ai_usage', {
+        p_organization_id: this.organizationId,
+        p_project_id: input.projectId || null,
+        p_workflow_id: input.workflowId || null,
+        p_task_id: input.taskId || null,
+        p_user_id: this.userId,
+        p_operation: input.operation,
+        p_provider: input.provider,
+        p_model: input.model,
+        p_prompt_tokens: input.promptTokens,
+        p_completion_tokens: input.completionTokens,
+        p_cost_usd: input.costUsd,
+        p_request_id: this.context.requestId,
+      });
+
+      if (error) {
+        throw new DatabaseError(`Failed to record AI usage: ${error.message}`, 'RPC');
+      }
+    });
+  }
+
+  /**
+   * What a project's AI calls charged to this organization have cost since the start of
+   * the month (UTC)
+   */
+  async getMonthToDateSpend(projectId: string): Promise<number> {
+    return this.execute('getMonthToDateSpend', async () => {
+      // Summed in the database: this runs before every AI call
+      const { data, error } = await this.db.rpc('ai_usage_spend', {
+        p_organization_id: this.organizationId,
+        p_project_id: projectId,
+        p_from: startOfMonth(new Date()).toISOString(),
+        p_to: new Date().toISOString(),
+      });
+
+      if (error) {
+        throw new DatabaseError(`Failed to read AI spend: ${error.message}`, 'RPC');
+      }
+
+      return Number(data ?? 0);
+    });
+  }
+
+  /**
+   * Throw SpendCapExceededError if the project has spent its monthly cap. No cap, no check.
+   */
+  async assertWithinSpendCap(projectId: string, capUsd: number | null | undefined): Promise<void> {
+    if (capUsd === null || capUsd === undefined) return;
+
+    const spent = await this.getMonthToDateSpend(projectId);
+    if (spent >= capUsd) {
+      throw new SpendCapExceededError(projectId, capUsd, spent);
+    }
+  }
+
+  /**
+   * The organization's usage over a period, added up overall, by project, by model and by day
+   */
+  async summarize(query: UsageQuery = {}): Promise<AIUsageSummary> {
+    return this.execute('summarize', async () => {
+      const { from, to, projectId } = this.resolveQuery(query);
+      const rows = await this.readLedger(
+        'project_id, provider, model, prompt_tokens, completion_tokens, cost_usd, created_at',
+        from,
+        to,
+        { organizationId: this.organizationId, projectId }
+      );
+
+      const byProject = new Map<string, AIUsageGroup>();
+      const byModel = new Map<string, AIUsageGroup>();
+      const byDay = new Map<string, AIUsageGroup>();
+      const totals = { promptTokens: 0, completionTokens: 0, costUsd: 0 };
+      let unpricedCalls = 0;
+
+      for (const row of rows) {
+        const entry = {
+          promptTokens: row.prompt_tokens || 0,
+          completionTokens: row.completion_tokens || 0,
+          costUsd: Number(row.cost_usd || 0),
+        };
+        if (row.cost_usd === null) unpricedCalls++;
+
+        totals.promptTokens += entry.promptTokens;
+        totals.completionTokens += entry.completionTokens;
+        totals.costUsd += entry.costUsd;
+
+        addToGroup(byProject, row.project_id || 'none', entry);
+        addToGroup(byModel, `${row.provider}/${row.model}`, entry);
+        addToGroup(byDay, new Date(row.created_at).toISOString().slice(0, 10), entry);
+      }
+
+      const byCost = (a: AIUsageGroup, b: AIUsageGroup) => b.costUsd - a.costUsd || b.calls - a.calls;
+
+      return {
+        from,
+        to,
+        calls: rows.length,
+        unpricedCalls,
+        totals,
+        byProject: [...byProject.values()].sort(byCost),
+        byModel: [...byModel.values()].sort(byCost),
+        byDay: [...byDay.values()].sort((a, b) => a.key.localeCompare(b.key)),
+      };
+    });
+  }
+
+  /**
+   * The ledger rows of a period, newest first
+   */
+  async listEntries(
+    query: UsageQuery = {},
+    options?: { limit?: number; offset?: number }
+  ): Promise<{ entries: AIUsageEntry[]; total: number }> {
+    return this.execute('listEntries', async () => {
+      const { from, to, projectId } = this.resolveQuery(query);
+      const limit = options?.limit ?? 20;
+      const offset = options?.offset ?? 0;
+
+      let request = this.db
+        .from('ai_usage')
+        .select('*', { count: 'exact' })
+        .eq('organization_id', this.organizationId)
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (projectId) {
+        request = request.eq('project_id', projectId);
+      }
+
+      const { data, error, count } = await request;
+
+      if (error) {
+        throw new DatabaseError(`Failed to list AI usage: ${error.message}`, 'SELECT');
+      }
+
+      return {
+        entries: (data || []).map((row: any) => this.mapToEntry(row)),
+        total: count || 0,
+      };
+    });
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * The validated query; the period defaults to the current month (UTC) up to now
+   */
+  private resolveQuery(query: UsageQuery): { from: Date; to: Date; projectId?: string } {
+    const validated = validateInput(usageQuerySchema, query);
+    const to = validated.to ?? new Date();
+    const from = validated.from ?? startOfMonth(to);
+    return { from, to, projectId: validated.projectId };
+  }
+
+  private async readLedger(
+    columns: string,
+    from: Date,
+    to: Date,
+    filter: { organizationId?: string; projectId?: string }
+  ): Promise<any[]> {
+    const rows: any[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      let request = this.db
+        .from('ai_usage')
+        .select(columns)
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (filter.organizationId) {
+        request = request.eq('organization_id', filter.organizationId);
+      }
+      if (filter.projectId) {
+        request = request.eq('project_id', filter.projectId);
+      }
+
+      const { data, error } = await request;
+
+      if (error) {
+        throw new DatabaseError(`Failed to read AI usage: ${error.message}`, 'SELECT');
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  private mapToEntry(row: any): AIUsageEntry {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      projectId: row.project_id,
+      workflowId: row.workflow_id,
+      taskId: row.task_id,
+      userId: row.user_id,
+      operation: row.operation,
+      provider: row.provider,
+      model: row.model,
+      promptTokens: row.prompt_tokens,
+      completionTokens: row.completion_tokens,
+      costUsd: row.cost_usd === null ? null : Number(row.cost_usd),
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function addToGroup(
+  groups: Map<string, AIUsageGroup>,
+  key: string,
+  usage: { promptTokens: number; completionTokens: number; costUsd: number }
+): void {
+  const group = groups.get(key) ?? { key, calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  group.calls++;
+  group.promptTokens += usage.promptTokens;
+  group.completionTokens += usage.completionTokens;
+  group.costUsd += usage.costUsd;
+  groups.set(key, group);
+}
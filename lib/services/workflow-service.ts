@@ -9,9 +9,24 @@
  */
 
 import { BaseService, ServiceContext } from './base-service';
-import { validateInput, createWorkflowSchema, updateWorkflowSchema, createStepSchema, reorderStepsSchema } from '../core/validation';
-import { NotFoundError, DatabaseError, WorkflowError, BusinessRuleError } from '../core/errors';
-import type { Workflow, Step, WorkflowConfig, StepType, AggregateType } from '../core/types';
+import { validateInput, createWorkflowSchema, updateWorkflowSchema, createStepSchema, updateStepSchema, reorderStepsSchema, type WorkflowDocument } from '../core/validation';
+import { NotFoundError, DatabaseError, WorkflowError, BusinessRuleError, ValidationError } from '../core/errors';
+import {
+  assertValidStepGraph,
+  computeFrontier,
+  dependencyStepId,
+  findCycle,
+  HUMAN_GATED_STEP_TYPES,
+  isLinearChain,
+  linearDependencies,
+  parseWorkflowRef,
+  workflowRef,
+  type GraphStep,
+  type StepFrontier,
+} from '../workflows/dag';
+import { exportWorkflowDocument, instantiateWorkflowDocument } from '../workflows/document';
+import { diffVersionSteps, snapshotSteps, versionStepsToSteps, type StepChange } from '../workflows/versions';
+import type { Workflow, Step, WorkflowConfig, WorkflowVersion, StepType, ConditionStepConfig, RunWorkflowStepConfig, TaskStatus, AggregateType } from '../core/types';
 
 // ==========================================
 // WORKFLOW STATE MACHINE
@@ -104,7 +119,7 @@ export class WorkflowService extends BaseService {
   }
 
   /**
-   * Get workflow by ID with steps
+   * Get workflow by ID with its draft steps
    */
   async getById(workflowId: string): Promise<Workflow & { steps: Step[] }> {
     return this.execute('getById', async () => {
@@ -115,6 +130,7 @@ export class WorkflowService extends BaseService {
           steps(*)
         `)
         .eq('id', workflowId)
+        .is('steps.removed_at', null)
         .single();
 
       if (error || !data) {
@@ -176,8 +192,11 @@ export class WorkflowService extends BaseService {
         this.validateStatusTransition(existing.status, validated.status);
         updateData.status = validated.status;
       }
-      if (validated.config) {
-        updateData.config = { ...existing.config, ...validated.config };
+      if (validated.config && input.config) {
+        // The partial schema still fills in defaults; only the keys given change
+        const given = input.config;
+        const changes = Object.fromEntries(Object.entries(validated.config).filter(([key]) => key in given));
+        updateData.config = { ...existing.config, ...changes };
       }
 
       const { data, error } = await this.db
@@ -204,6 +223,21 @@ export class WorkflowService extends BaseService {
     return this.execute('delete', async () => {
       const workflow = await this.getById(workflowId);
 
+      // Workflows that run this one, or wait on its steps, would be left broken
+      const dependents = (await this.getProjectWorkflows(workflow.projectId)).filter((w) =>
+        w.id !== workflowId && w.steps.some((s) =>
+          (s.type === 'RUN_WORKFLOW' && s.config?.workflowId === workflowId) ||
+          (s.dependency_ids || []).some((id) => parseWorkflowRef(id)?.workflowId === workflowId)
+        )
+      );
+      if (dependents.length > 0) {
+        throw new BusinessRuleError(
+          `Workflow is used by ${dependents.map((w) => `"${w.name}"`).join(', ')}; remove those references first`,
+          'workflow_in_use',
+          { workflowIds: dependents.map((w) => w.id) }
+        );
+      }
+
       const { error } = await this.db
         .from('workflows')
         .delete()
@@ -235,7 +269,15 @@ export class WorkflowService extends BaseService {
       const validated = validateInput(createStepSchema, input);
       
       // Verify workflow access
-      await this.getById(validated.workflowId);
+      const workflow = await this.getById(validated.workflowId);
+
+      // Dependencies must be steps of this workflow, or of another workflow of the project
+      const candidate: GraphStep[] = [
+        ...workflow.steps,
+        { id: 'new-step', type: validated.type, config: validated.config, dependencyIds: validated.dependencyIds || [] },
+      ];
+      assertValidStepGraph(candidate);
+      await this.assertValidProjectGraph(workflow, candidate);
 
       const { data, error } = await this.db
         .from('steps')
@@ -257,6 +299,7 @@ export class WorkflowService extends BaseService {
         workflowId: validated.workflowId,
         type: validated.type,
         position: validated.position,
+        dependencyIds: validated.dependencyIds || [],
       });
 
       return this.mapToStep(data);
@@ -264,7 +307,118 @@ export class WorkflowService extends BaseService {
   }
 
   /**
-   * Remove a step from a workflow
+   * Update a step's type, config, dependencies or position.
+   * Rejects dependency changes that would leave a cycle or a dangling reference.
+   */
+  async updateStep(stepId: string, input: {
+    type?: StepType;
+    config?: Record<string, unknown>;
+    dependencyIds?: string[];
+    position?: number;
+  }): Promise<Step> {
+    return this.execute('updateStep', async () => {
+      const validated = validateInput(updateStepSchema, input);
+
+      const { data: existing, error: stepError } = await this.db
+        .from('steps')
+        .select('*')
+        .eq('id', stepId)
+        .is('removed_at', null)
+        .single();
+
+      if (stepError || !existing) {
+        throw new NotFoundError('Step', stepId);
+      }
+
+      const workflow = await this.getById(existing.workflow_id);
+
+      // Tasks of runs on a published version read the step's type from its row
+      if (validated.type && validated.type !== existing.type) {
+        const { count } = await this.db
+          .from('workflow_versions')
+          .select('id', { count: 'exact', head: true })
+          .eq('workflow_id', existing.workflow_id)
+          .contains('steps', [{ id: stepId }]);
+
+        if (count) {
+          throw new BusinessRuleError(
+            'A published step cannot change type; remove it and add a new step instead',
+            'published_step_type',
+            { stepId, type: existing.type }
+          );
+        }
+      }
+
+      // Conditions this step no longer depends on stop routing to it
+      const detached = workflow.steps.filter((s) =>
+        s.type === 'CONDITION' &&
+        validated.dependencyIds !== undefined &&
+        !validated.dependencyIds.includes(s.id) &&
+        [...((s.config as ConditionStepConfig).onTrue || []), ...((s.config as ConditionStepConfig).onFalse || [])].includes(stepId)
+      );
+      const withoutStep = (ids?: string[]) => ids?.filter((id) => id !== stepId);
+      const detachedConfigs = new Map(detached.map((s) => {
+        const config = s.config as ConditionStepConfig;
+        return [s.id, { ...config, onTrue: withoutStep(config.onTrue), onFalse: withoutStep(config.onFalse) }];
+      }));
+
+      if (validated.dependencyIds || validated.type || validated.config) {
+        const candidate = workflow.steps.map((s) => s.id === stepId
+          ? {
+            ...s,
+            type: validated.type ?? s.type,
+            config: validated.config ?? s.config,
+            dependencyIds: validated.dependencyIds ?? s.dependencyIds,
+          }
+          : { ...s, config: detachedConfigs.get(s.id) ?? s.config }
+        );
+        assertValidStepGraph(candidate);
+        await this.assertValidProjectGraph(workflow, candidate);
+      }
+
+      for (const [conditionId, config] of detachedConfigs) {
+        const { error: branchError } = await this.db
+          .from('steps')
+          .update({ config })
+          .eq('id', conditionId);
+
+        if (branchError) {
+          throw new DatabaseError(`Failed to update condition branches: ${branchError.message}`, 'UPDATE');
+        }
+      }
+
+      const updateData: Record<string, unknown> = {};
+      if (validated.type) updateData.type = validated.type;
+      if (validated.config) updateData.config = validated.config;
+      if (validated.dependencyIds) updateData.dependency_ids = validated.dependencyIds;
+      if (validated.position !== undefined) updateData.position = validated.position;
+
+      const { data, error } = await this.db
+        .from('steps')
+        .update(updateData)
+        .eq('id', stepId)
+        .select()
+        .single();
+
+      if (error) {
+        throw new DatabaseError(`Failed to update step: ${error.message}`, 'UPDATE');
+      }
+
+      if (validated.dependencyIds) {
+        await this.auditChange('updateStep', stepId, {
+          dependencyIds: { old: existing.dependency_ids || [], new: validated.dependencyIds },
+        });
+      } else {
+        await this.audit('updateStep', stepId, { fields: Object.keys(updateData) });
+      }
+
+      return this.mapToStep(data);
+    });
+  }
+
+  /**
+   * Remove a step from a workflow's draft. The row is kept for the published versions
+   * (and tasks) that still use it.
    */
   async removeStep(stepId: string): Promise<void> {
     return this.execute('removeStep', async () => {
@@ -273,6 +427,7 @@ export class WorkflowService extends BaseService {
         .from('steps')
         .select('*, workflow:workflows(*)')
         .eq('id', stepId)
+        .is('removed_at', null)
         .single();
 
       if (stepError || !step) {
@@ -281,13 +436,92 @@ export class WorkflowService extends BaseService {
 
       await this.verifyProjectAccess(step.workflow.project_id);
 
+      // Steps that waited on the removed step now wait on its dependencies instead
+      const { data: dependents } = await this.db
+        .from('steps')
+        .select('id, dependency_ids')
+        .eq('workflow_id', step.workflow_id)
+        .is('removed_at', null)
+        .contains('dependency_ids', [stepId]);
+
+      for (const dependent of dependents || []) {
+        const rewired = [...new Set([
+          ...(dependent.dependency_ids as string[]).filter((id) => id !== stepId),
+          ...(step.dependency_ids || []),
+        ])];
+
+        const { error: rewireError } = await this.db
+          .from('steps')
+          .update({ dependency_ids: rewired })
+          .eq('id', dependent.id);
+
+        if (rewireError) {
+          throw new DatabaseError(`Failed to update step dependencies: ${rewireError.message}`, 'UPDATE');
+        }
+      }
+
+      // Steps of other workflows that waited on it likewise inherit its dependencies
+      const removedRef = workflowRef(step.workflow_id, stepId);
+      const { data: externalDependents } = await this.db
+        .from('steps')
+        .select('id, workflow_id, dependency_ids')
+        .is('removed_at', null)
+        .contains('dependency_ids', [removedRef]);
+
+      for (const dependent of externalDependents || []) {
+        const inherited = ((step.dependency_ids || []) as string[]).map((id) => {
+          const ref = parseWorkflowRef(id);
+          if (!ref) return workflowRef(step.workflow_id, id);
+          return ref.workflowId === dependent.workflow_id ? ref.stepId : id;
+        });
+        const rewired = [...new Set([
+          ...(dependent.dependency_ids as string[]).filter((id) => id !== removedRef),
+          ...inherited,
+        ])];
+
+        const { error: rewireError } = await this.db
+          .from('steps')
+          .update({ dependency_ids: rewired })
+          .eq('id', dependent.id);
+
+        if (rewireError) {
+          throw new DatabaseError(`Failed to update step dependencies: ${rewireError.message}`, 'UPDATE');
+        }
+      }
+
+      // A condition branch that led to the removed step now leads to its dependents
+      const { data: conditions } = await this.db
+        .from('steps')
+        .select('id, config')
+        .eq('workflow_id', step.workflow_id)
+        .is('removed_at', null)
+        .eq('type', 'CONDITION');
+
+      for (const condition of conditions || []) {
+        const config = (condition.config || {}) as ConditionStepConfig;
+        if (!config.onTrue?.includes(stepId) && !config.onFalse?.includes(stepId)) continue;
+
+        const rebranch = (targets?: string[]) => targets?.flatMap((id) =>
+          id === stepId ? (dependents || []).map((d) => d.id as string) : [id]
+        );
+
+        const { error: branchError } = await this.db
+          .from('steps')
+          .update({ config: { ...config, onTrue: rebranch(config.onTrue), onFalse: rebranch(config.onFalse) } })
+          .eq('id', condition.id);
+
+        if (branchError) {
+          throw new DatabaseError(`Failed to update condition branches: ${branchError.message}`, 'UPDATE');
+        }
+      }
+
       const { error } = await this.db
         .from('steps')
-        .delete()
+        .update({ removed_at: new Date().toISOString() })
         .eq('id', stepId);
 
       if (error) {
-        throw new DatabaseError(`Failed to delete step: ${error.message}`, 'DELETE');
+        throw new DatabaseError(`Failed to remove step: ${error.message}`, 'UPDATE');
       }
 
       await this.audit('removeStep', stepId, { workflowId: step.workflow_id });
@@ -305,13 +539,27 @@ export class WorkflowService extends BaseService {
       const validated = validateInput(reorderStepsSchema, steps);
       
       // Verify workflow access
-      await this.getById(workflowId);
+      const workflow = await this.getById(workflowId);
+
+      // A plain chain stays a chain in the new order; explicit DAGs keep their dependencies
+      const newPositions = new Map(validated.map((s) => [s.id, s.position]));
+      const reordered = [...workflow.steps].sort(
+        (a, b) => (newPositions.get(a.id) ?? a.position) - (newPositions.get(b.id) ?? b.position)
+      );
+      const chain = isLinearChain(workflow.steps)
+        ? linearDependencies(reordered.map((s) => s.id))
+        : null;
+
+      // The new chain must still pass data each step can use
+      if (chain) {
+        assertValidStepGraph(reordered.map((s) => ({ ...s, dependencyIds: chain.get(s.id) || [] })));
+      }
 
       // Update positions in a transaction-like manner
       for (const step of validated) {
         const { error } = await this.db
           .from('steps')
-          .update({ position: step.position })
+          .update(chain ? { position: step.position, dependency_ids: chain.get(step.id) || [] } : { position: step.position })
           .eq('id', step.id);
 
         if (error) {
@@ -324,78 +572,329 @@ export class WorkflowService extends BaseService {
   }
 
   // ==========================================
-  // WORKFLOW EXECUTION LOGIC
+  // IMPORT / EXPORT
   // ==========================================
 
   /**
-   * Get the next executable step in a workflow
+   * Export a workflow, its steps and their graph as a portable document
    */
-  async getNextExecutableStep(workflowId: string): Promise<ExecutableStep | null> {
-    return this.execute('getNextExecutableStep', async () => {
+  async exportDocument(workflowId: string): Promise<WorkflowDocument> {
+    return this.execute('exportDocument', async () => {
       const workflow = await this.getById(workflowId);
+      await this.audit('export', workflowId, { stepCount: workflow.steps.length });
+      return exportWorkflowDocument(workflow);
+    });
+  }
 
-      // Get all tasks for this workflow's steps
-      const stepIds = workflow.steps.map((s) => s.id);
-      const { data: tasks } = await this.db
-        .from('tasks')
+  /**
+   * Create a workflow from a document (see parseWorkflowDocument). Steps get new IDs;
+   * the graph is validated before anything is written. `template` records the template
+   * the document came from in the workflow's config.
+   */
+  async importDocument(input: {
+    projectId: string;
+    pillarId: string;
+    document: WorkflowDocument;
+    name?: string;
+    template?: { id: string; name: string; version?: number };
+  }): Promise<Workflow & { steps: Step[] }> {
+    return this.execute('importDocument', async () => {
+      const { document } = input;
+      await this.verifyProjectAccess(input.projectId);
+
+      const steps = instantiateWorkflowDocument(document);
+      assertValidStepGraph(steps);
+      await this.assertValidProjectGraph({ id: 'imported-workflow', projectId: input.projectId }, steps);
+
+      const workflow = await this.create({
+        projectId: input.projectId,
+        pillarId: input.pillarId,
+        name: input.name || document.workflow.name,
+        description: document.workflow.description,
+        phase: document.workflow.phase,
+        config: input.template
+          ? {
+            ...document.workflow.config,
+            templateId: input.template.id,
+            templateName: input.template.name,
+            templateVersion: input.template.version,
+          }
+          : document.workflow.config,
+      });
+
+      if (steps.length > 0) {
+        const { error } = await this.db
+          .from('steps')
+          .insert(steps.map((step) => ({
+            id: step.id,
+            workflow_id: workflow.id,
+            type: step.type,
+            config: step.config,
+            dependency_ids: step.dependencyIds,
+            position: step.position,
+          })));
+
+        if (error) {
+          // Do not leave a workflow without its steps behind
+          await this.db.from('workflows').delete().eq('id', workflow.id);
+          throw new DatabaseError(`Failed to import steps: ${error.message}`, 'INSERT');
+        }
+      }
+
+      for (const step of steps) {
+        await this.emitEvent('STEP_CREATED', step.id, {
+          workflowId: workflow.id,
+          type: step.type,
+          position: step.position,
+          dependencyIds: step.dependencyIds,
+        });
+      }
+
+      await this.audit('import', workflow.id, {
+        version: document.version,
+        stepCount: steps.length,
+      });
+
+      return this.getById(workflow.id);
+    });
+  }
+
+  // ==========================================
+  // VERSIONS
+  // ==========================================
+
+  /**
+   * Published versions of a workflow, newest first
+   */
+  async listVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    return this.execute('listVersions', async () => {
+      await this.getById(workflowId);
+
+      const { data, error } = await this.db
+        .from('workflow_versions')
         .select('*')
-        .in('step_id', stepIds);
+        .eq('workflow_id', workflowId)
+        .order('version', { ascending: false });
 
-      const taskMap = new Map((tasks || []).map((t: any) => [t.step_id, t]));
+      if (error) {
+        throw new DatabaseError(`Failed to list workflow versions: ${error.message}`, 'SELECT');
+      }
 
-      // Find the first step that can be executed
-      for (const step of workflow.steps) {
-        const task = taskMap.get(step.id);
-        const isCompleted = task?.status === 'completed' || task?.status === 'review_needed';
-
-        if (!isCompleted) {
-          // Check dependencies
-          const blockedBy: string[] = [];
-          const completedDeps: string[] = [];
-
-          for (const depId of step.dependencyIds) {
-            const depTask = taskMap.get(depId);
-            if (!depTask || (depTask.status !== 'completed' && depTask.status !== 'review_needed')) {
-              blockedBy.push(depId);
-            } else {
-              completedDeps.push(depId);
-            }
-          }
+      return (data || []).map(this.mapToVersion);
+    });
+  }
+
+  /**
+   * One published version of a workflow
+   */
+  async getVersion(workflowId: string, version: number): Promise<WorkflowVersion> {
+    return this.execute('getVersion', async () => {
+      await this.getById(workflowId);
 
-          return {
-            step,
-            canExecute: blockedBy.length === 0,
-            blockedBy,
-            completedDependencies: completedDeps,
-          };
+      const { data, error } = await this.db
+        .from('workflow_versions')
+        .select('*')
+        .eq('workflow_id', workflowId)
+        .eq('version', version)
+        .maybeSingle();
+
+      if (error || !data) {
+        throw new NotFoundError('Workflow version', `${workflowId}@${version}`);
+      }
+
+      return this.mapToVersion(data);
+    });
+  }
+
+  /**
+   * Publish the draft as the workflow's next version. New runs start on it;
+   * runs already started stay on their version.
+   */
+  async publish(workflowId: string, note?: string): Promise<WorkflowVersion> {
+    return this.execute('publish', async () => {
+      const workflow = await this.getById(workflowId);
+      assertValidStepGraph(workflow.steps);
+
+      const latest = await this.getLatestVersion(workflowId);
+      const steps = snapshotSteps(workflow.steps);
+      if (latest && diffVersionSteps(latest.steps, steps).length === 0) {
+        throw new BusinessRuleError(
+          `The draft has no changes since version ${latest.version}`,
+          'no_changes',
+          { version: latest.version }
+        );
+      }
+
+      const version = (latest?.version || 0) + 1;
+      const { data, error } = await this.db
+        .from('workflow_versions')
+        .insert({
+          workflow_id: workflowId,
+          version,
+          steps,
+          note: note || null,
+          published_by: this.userId,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new BusinessRuleError(
+            `Version ${version} was just published; reload and try again`,
+            'version_conflict',
+            { version }
+          );
         }
+        throw new DatabaseError(`Failed to publish workflow version: ${error.message}`, 'INSERT');
+      }
+
+      const { error: pointerError } = await this.db
+        .from('workflows')
+        .update({ published_version: version })
+        .eq('id', workflowId);
+
+      if (pointerError) {
+        throw new DatabaseError(`Failed to update published version: ${pointerError.message}`, 'UPDATE');
       }
 
-      return null; // All steps completed
+      await this.emitEvent('WORKFLOW_VERSION_PUBLISHED', workflowId, {
+        version,
+        previousVersion: latest?.version,
+        stepCount: steps.length,
+        note,
+      });
+
+      await this.auditChange('publish', workflowId, {
+        publishedVersion: { old: latest?.version ?? null, new: version },
+      });
+
+      return this.mapToVersion(data);
     });
   }
 
   /**
-   * Get workflow execution state
+   * The version new runs start on. A workflow that was never published publishes
+   * its draft as version 1.
    */
-  async getExecutionState(workflowId: string): Promise<{
+  async ensurePublished(workflowId: string): Promise<number> {
+    return this.execute('ensurePublished', async () => {
+      const workflow = await this.getById(workflowId);
+      if (workflow.publishedVersion) return workflow.publishedVersion;
+
+      return (await this.publish(workflowId, 'Initial version')).version;
+    });
+  }
+
+  /**
+   * Steps added, removed or changed from version `from` to version `to` (or the draft)
+   */
+  async diffVersions(workflowId: string, from: number, to: number | 'draft'): Promise<StepChange[]> {
+    return this.execute('diffVersions', async () => {
+      const before = await this.getVersion(workflowId, from);
+      const after = to === 'draft'
+        ? snapshotSteps((await this.getById(workflowId)).steps)
+        : (await this.getVersion(workflowId, to)).steps;
+
+      return diffVersionSteps(before.steps, after);
+    });
+  }
+
+  /**
+   * Reset the draft to an earlier version and publish it as the next version.
+   * Unpublished draft changes are discarded.
+   */
+  async rollback(workflowId: string, version: number): Promise<WorkflowVersion> {
+    return this.execute('rollback', async () => {
+      const workflow = await this.getById(workflowId);
+      const target = await this.getVersion(workflowId, version);
+
+      // References to other workflows must still resolve
+      await this.assertValidProjectGraph(workflow, target.steps);
+
+      const kept = new Set(target.steps.map((s) => s.id));
+      const extras = workflow.steps.filter((s) => !kept.has(s.id)).map((s) => s.id);
+      if (extras.length > 0) {
+        const { error: removeError } = await this.db
+          .from('steps')
+          .update({ removed_at: new Date().toISOString() })
+          .in('id', extras);
+
+        if (removeError) {
+          throw new DatabaseError(`Failed to remove draft steps: ${removeError.message}`, 'UPDATE');
+        }
+      }
+
+      if (target.steps.length > 0) {
+        const { error: restoreError } = await this.db
+          .from('steps')
+          .upsert(target.steps.map((step) => ({
+            id: step.id,
+            workflow_id: workflowId,
+            type: step.type,
+            config: step.config,
+            dependency_ids: step.dependencyIds,
+            position: step.position,
+            removed_at: null,
+          })), { onConflict: 'id' });
+
+        if (restoreError) {
+          throw new DatabaseError(`Failed to restore steps: ${restoreError.message}`, 'UPDATE');
+        }
+      }
+
+      // Rolling back to the latest version only discards the draft's changes
+      const latest = await this.getLatestVersion(workflowId);
+      const published = latest && diffVersionSteps(latest.steps, target.steps).length === 0
+        ? latest
+        : await this.publish(workflowId, `Rollback to v${version}`);
+
+      await this.emitEvent('WORKFLOW_ROLLED_BACK', workflowId, {
+        restoredVersion: version,
+        version: published.version,
+        removedStepIds: extras,
+      });
+
+      return published;
+    });
+  }
+
+  // ==========================================
+  // WORKFLOW EXECUTION LOGIC
+  // ==========================================
+
+  /**
+   * Get the next executable step in a workflow run (default: the latest run).
+   * With parallel branches several steps may be ready; this returns the first.
+   */
+  async getNextExecutableStep(workflowId: string, runId?: string | null): Promise<ExecutableStep | null> {
+    return this.execute('getNextExecutableStep', async () => {
+      const { frontier } = await this.getExecutionState(workflowId, runId);
+      return this.toExecutableStep(frontier);
+    });
+  }
+
+  /**
+   * Get workflow execution state for one run (default: the latest run).
+   * A workflow that has never run reports every step as pending.
+   */
+  async getExecutionState(workflowId: string, runId?: string | null): Promise<{
     workflow: Workflow;
+    runId: string | null;
     steps: Array<Step & { task?: any; status: string }>;
     progress: number;
+    frontier: StepFrontier;
     nextStep: ExecutableStep | null;
   }> {
     return this.execute('getExecutionState', async () => {
-      const workflow = await this.getById(workflowId);
-      const stepIds = workflow.steps.map((s) => s.id);
+      const { steps: draftSteps, ...workflow } = await this.getById(workflowId);
+      const resolvedRunId = runId === undefined ? await this.getLatestRunId(workflowId) : runId;
 
-      const { data: tasks } = await this.db
-        .from('tasks')
-        .select('*')
-        .in('step_id', stepIds);
+      // A run follows the version it is pinned to, whatever the draft looks like now
+      const steps = await this.getRunSteps(workflowId, resolvedRunId) ?? draftSteps;
+      const taskMap = await this.getRunTaskMap({ ...workflow, steps }, resolvedRunId);
 
-      const taskMap = new Map((tasks || []).map((t: any) => [t.step_id, t]));
-
-      const stepsWithStatus = workflow.steps.map((step) => {
+      const stepsWithStatus = steps.map((step) => {
         const task = taskMap.get(step.id);
         return {
           ...step,
@@ -404,21 +903,43 @@ export class WorkflowService extends BaseService {
         };
       });
 
-      const completedCount = stepsWithStatus.filter(
-        (s) => s.status === 'completed' || s.status === 'review_needed'
-      ).length;
+      // Branch taken by each finished CONDITION step
+      const conditionResults = new Map<string, boolean>();
+      for (const step of steps) {
+        const result = taskMap.get(step.id)?.output_data?.condition?.result;
+        if (step.type === 'CONDITION' && typeof result === 'boolean') {
+          conditionResults.set(step.id, result);
+        }
+      }
 
-      const progress = workflow.steps.length > 0
-        ? Math.round((completedCount / workflow.steps.length) * 100)
-        : 0;
+      // An auto-advancing run stops at human gates: a gated step in review is still awaiting approval
+      const statusOf = (step: Step): TaskStatus | undefined => {
+        const status = taskMap.get(step.id)?.status;
+        return status === 'review_needed' && workflow.config?.autoAdvance && HUMAN_GATED_STEP_TYPES.includes(step.type)
+          ? 'awaiting_approval'
+          : status;
+      };
+
+      const frontier = computeFrontier(
+        steps,
+        new Map([
+          ...await this.getExternalStatuses(steps, await this.isSimulatedRun(resolvedRunId)),
+          ...steps.map((step) => [step.id, statusOf(step)] as const),
+        ]),
+        conditionResults
+      );
 
-      const nextStep = await this.getNextExecutableStep(workflowId);
+      const progress = steps.length > 0
+        ? Math.round(((frontier.done.length + frontier.skipped.length) / steps.length) * 100)
+        : 0;
 
       return {
         workflow,
+        runId: resolvedRunId,
         steps: stepsWithStatus,
         progress,
-        nextStep,
+        frontier,
+        nextStep: this.toExecutableStep(frontier),
       };
     });
   }
@@ -427,6 +948,232 @@ export class WorkflowService extends BaseService {
   // HELPERS
   // ==========================================
 
+  private async getLatestRunId(workflowId: string, options: { simulated?: boolean } = {}): Promise<string | null> {
+    let query = this.db
+      .from('workflow_runs')
+      .select('id')
+      .eq('workflow_id', workflowId);
+
+    if (options.simulated !== undefined) {
+      query = query.eq('simulated', options.simulated);
+    }
+
+    const { data } = await query
+      .order('run_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data?.id || null;
+  }
+
+  /**
+   * Steps of the version a run is pinned to. Null for runs started before versioning
+   * (or no run), which follow the draft.
+   */
+  private async isSimulatedRun(runId: string | null): Promise<boolean> {
+    if (!runId) return false;
+
+    const { data } = await this.db
+      .from('workflow_runs')
+      .select('simulated')
+      .eq('id', runId)
+      .maybeSingle();
+
+    return data?.simulated ?? false;
+  }
+
+  private async getRunSteps(workflowId: string, runId: string | null): Promise<Step[] | null> {
+    if (!runId) return null;
+
+    const { data: run } = await this.db
+      .from('workflow_runs')
+      .select('workflow_version')
+      .eq('id', runId)
+      .maybeSingle();
+    if (!run?.workflow_version) return null;
+
+    const { data: version } = await this.db
+      .from('workflow_versions')
+      .select('steps, created_at')
+      .eq('workflow_id', workflowId)
+      .eq('version', run.workflow_version)
+      .maybeSingle();
+    if (!version) return null;
+
+    return versionStepsToSteps(workflowId, version.steps || [], new Date(version.created_at));
+  }
+
+  private async getLatestVersion(workflowId: string): Promise<WorkflowVersion | null> {
+    const { data } = await this.db
+      .from('workflow_versions')
+      .select('*')
+      .eq('workflow_id', workflowId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return data ? this.mapToVersion(data) : null;
+  }
+
+  /**
+   * Latest task per step within a run. `undefined` means the latest run.
+   */
+  private async getRunTaskMap(
+    workflow: Workflow & { steps: Step[] },
+    runId: string | null | undefined
+  ): Promise<Map<string, any>> {
+    const resolvedRunId = runId === undefined ? await this.getLatestRunId(workflow.id) : runId;
+    if (!resolvedRunId) return new Map();
+
+    // Oldest first so the latest task per step wins in the map
+    const { data: tasks } = await this.db
+      .from('tasks')
+      .select('*')
+      .eq('run_id', resolvedRunId)
+      .in('step_id', workflow.steps.map((s) => s.id))
+      .order('created_at', { ascending: true });
+
+    return new Map((tasks || []).map((t: any) => [t.step_id, t]));
+  }
+
+  /**
+   * Status of each `workflow:<id>.<stepId>` dependency: the referenced step's latest
+   * task in the latest run of its workflow that is live (or simulated) like this one
+   */
+  private async getExternalStatuses(steps: Step[], simulated: boolean): Promise<Map<string, TaskStatus | undefined>> {
+    const refsByWorkflow = new Map<string, string[]>();
+    for (const dependencyId of steps.flatMap((s) => s.dependencyIds)) {
+      const ref = parseWorkflowRef(dependencyId);
+      if (ref) refsByWorkflow.set(ref.workflowId, [...(refsByWorkflow.get(ref.workflowId) || []), dependencyId]);
+    }
+
+    const statuses = new Map<string, TaskStatus | undefined>();
+    for (const [workflowId, refs] of refsByWorkflow) {
+      const runId = await this.getLatestRunId(workflowId, { simulated });
+      if (!runId) continue;
+
+      const { data: tasks } = await this.db
+        .from('tasks')
+        .select('step_id, status')
+        .eq('run_id', runId)
+        .in('step_id', refs.map(dependencyStepId))
+        .order('created_at', { ascending: true });
+
+      const rows = (tasks || []) as Array<{ step_id: string; status: TaskStatus }>;
+      const latest = new Map(rows.map((t) => [t.step_id, t.status]));
+      for (const ref of refs) {
+        statuses.set(ref, latest.get(dependencyStepId(ref)));
+      }
+    }
+    return statuses;
+  }
+
+  /**
+   * Checks that span workflows: `workflow:<id>.<stepId>` dependencies must point at a
+   * step of another workflow in the same project, RUN_WORKFLOW steps must run another
+   * workflow of the project, and neither may close a loop across workflows.
+   */
+  private async assertValidProjectGraph(workflow: Pick<Workflow, 'id' | 'projectId'>, steps: GraphStep[]): Promise<void> {
+    const refs = steps.flatMap((s) => s.dependencyIds
+      .filter((id) => parseWorkflowRef(id))
+      .map((id) => ({ stepId: s.id, ref: parseWorkflowRef(id)! })));
+    const calls = steps.filter((s) => s.type === 'RUN_WORKFLOW');
+    if (refs.length === 0 && calls.length === 0) return;
+
+    const others = new Map(
+      (await this.getProjectWorkflows(workflow.projectId))
+        .filter((w) => w.id !== workflow.id)
+        .map((w) => [w.id, w])
+    );
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const { stepId, ref } of refs) {
+      const target = others.get(ref.workflowId);
+      if (ref.workflowId === workflow.id) {
+        errors.push({ field: 'dependencyIds', message: `Step ${stepId}: depend on ${ref.stepId} directly, it is in this workflow` });
+      } else if (!target) {
+        errors.push({ field: 'dependencyIds', message: `Step ${stepId} depends on workflow ${ref.workflowId}, which is not in this project` });
+      } else if (!target.steps.some((s) => s.id === ref.stepId)) {
+        errors.push({ field: 'dependencyIds', message: `Step ${stepId} depends on unknown step ${ref.stepId} of "${target.name}"` });
+      }
+    }
+
+    for (const step of calls) {
+      const targetId = (step.config as RunWorkflowStepConfig).workflowId;
+      if (targetId === workflow.id) {
+        errors.push({ field: 'config.workflowId', message: `RUN_WORKFLOW ${step.id} cannot run its own workflow` });
+      } else if (!others.has(targetId)) {
+        errors.push({ field: 'config.workflowId', message: `RUN_WORKFLOW ${step.id}: workflow ${targetId} is not in this project` });
+      }
+    }
+
+    if (errors.length === 0) {
+      // Step IDs are unique across workflows, so references resolve to plain step IDs
+      const cycle = findCycle([
+        ...steps.map((s) => ({ id: s.id, dependencyIds: s.dependencyIds.map(dependencyStepId) })),
+        ...[...others.values()].flatMap((w) => w.steps.map((s) => ({
+          id: s.id,
+          dependencyIds: (s.dependency_ids || []).map(dependencyStepId),
+        }))),
+      ]);
+      if (cycle) {
+        errors.push({ field: 'dependencyIds', message: `Dependency cycle across workflows: ${cycle.join(' -> ')}` });
+      }
+
+      const runTargets = (runSteps: Array<{ type?: string; config?: Record<string, unknown> | null }>) => runSteps
+        .filter((s) => s.type === 'RUN_WORKFLOW')
+        .map((s) => String(s.config?.workflowId));
+      const callCycle = findCycle([
+        { id: workflow.id, dependencyIds: runTargets(steps) },
+        ...[...others.values()].map((w) => ({ id: w.id, dependencyIds: runTargets(w.steps) })),
+      ]);
+      if (callCycle) {
+        errors.push({ field: 'config.workflowId', message: `Workflows would run each other in a loop: ${callCycle.join(' -> ')}` });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid cross-workflow references', errors);
+    }
+  }
+
+  private async getProjectWorkflows(projectId: string): Promise<Array<{
+    id: string;
+    name: string;
+    steps: Array<{ id: string; type: StepType; config: Record<string, unknown> | null; dependency_ids: string[] | null }>;
+  }>> {
+    const { data, error } = await this.db
+      .from('workflows')
+      .select('id, name, steps(id, type, config, dependency_ids)')
+      .eq('project_id', projectId)
+      .is('steps.removed_at', null);
+
+    if (error) {
+      throw new DatabaseError(`Failed to load project workflows: ${error.message}`, 'SELECT');
+    }
+    return (data || []) as any;
+  }
+
+  private toExecutableStep(frontier: StepFrontier): ExecutableStep | null {
+    const completedIds = new Set(frontier.done.map((s) => s.id));
+    const describe = (step: Step, canExecute: boolean, blockedBy: string[]): ExecutableStep => ({
+      step,
+      canExecute,
+      blockedBy,
+      completedDependencies: step.dependencyIds.filter((id) => completedIds.has(id)),
+    });
+
+    if (frontier.ready.length > 0) return describe(frontier.ready[0], true, []);
+    if (frontier.blocked.length > 0) {
+      const { step, blockedBy } = frontier.blocked[0];
+      return describe(step, false, blockedBy);
+    }
+    // Only in-flight steps remain: nothing new can start until they finish
+    if (frontier.active.length > 0) return describe(frontier.active[0], false, []);
+
+    return null; // All steps completed
+  }
+
   private getDefaultConfig(): WorkflowConfig {
     return {
       requiresApproval: true,
@@ -475,11 +1222,24 @@ export class WorkflowService extends BaseService {
       phase: row.phase || 'launch',
       status: row.status || 'draft',
       config: row.config || this.getDefaultConfig(),
+      publishedVersion: row.published_version ?? undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at || row.created_at),
     };
   }
 
+  private mapToVersion(row: any): WorkflowVersion {
+    return {
+      id: row.id,
+      workflowId: row.workflow_id,
+      version: row.version,
+      steps: row.steps || [],
+      note: row.note || undefined,
+      publishedBy: row.published_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
   private mapToStep(row: any): Step {
     return {
       id: row.id,
@@ -0,0 +1,664 @@
+/**
+ * Workflow Step Graph
+ *
+ * Following the constitution:
+ * - Workflows are declarative: `Step.dependencyIds` defines the execution DAG
+ * - Position is display order only; dependencies decide what runs when
+ *
+ * Pure functions, shared by WorkflowService (validation, scheduling) and the
+ * step runner (merging parent outputs).
+ */
+
+import { ValidationError, isAppError } from '@/lib/core/errors';
+import type { CommunitySyncStepConfig, ConditionStepConfig, CustomStepConfig, EmailSequenceStepConfig, ForEachStepConfig, HooksStepConfig, ImageStepConfig, RunWorkflowStepConfig, Step, StepType, TaskStatus } from '@/lib/core/types';
+import { getStepInputSchema, getStepOutputSchema, passThroughStepTypes, stepDefaultInputs } from '@/lib/core/validation';
+import { parseExpression } from './expression';
+import { SCRIPT_LIMITS, findScriptSyntaxError } from './sandbox';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export type GraphStep = Pick<Step, 'id' | 'dependencyIds'> & Partial<Pick<Step, 'type' | 'config'>>;
+
+export interface StepFrontier<S extends GraphStep = Step> {
+    ready: S[];                                        // dependencies satisfied, not started
+    blocked: Array<{ step: S; blockedBy: string[] }>; // waiting on unfinished dependencies
+    active: S[];                                       // running or waiting on a human/extension
+    done: S[];
+    skipped: S[];                                      // on a branch a CONDITION step did not take
+}
+
+// Dependency on a step of another workflow: `workflow:<workflowId>.<stepId>`
+const WORKFLOW_REF_PATTERN = /^workflow:([^.]+)\.(.+)$/;
+
+// `$steps.<name>` or `$steps.<name>.<key>` in an input mapping
+const STEP_REFERENCE_PATTERN = /\$steps\.([A-Za-z_$][A-Za-z0-9_$]*)(?:\.([A-Za-z_$][A-Za-z0-9_$]*))?/g;
+
+// A plain address, as EMAIL_SEQ recipients are given
+const EMAIL_PATTERN = /^[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+$/;
+
+// An EMAIL_SEQ sender: a plain address or "Name <address>", on one line
+const SENDER_PATTERN = /^(?:[^\r\n<>]*<[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+>|[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+)$/;
+
+// A Discord channel ID (a snowflake), as COMMUNITY_SYNC reads
+const DISCORD_ID_PATTERN = /^\d{17,20}$/;
+
+// Statuses that satisfy a dependency (review_needed: output exists, pending human review)
+const DONE_STATUSES: TaskStatus[] = ['completed', 'review_needed'];
+
+// Statuses of a step that is already underway
+const ACTIVE_STATUSES: TaskStatus[] = ['in_progress', 'extension_queued', 'awaiting_approval'];
+
+// Human-gated steps (see steps/approval-steps.ts, GENERATE_HOOKS, whose hook is picked
+// in review, and EMAIL_SEQ and COMMUNITY_SYNC, which send and post on approval): in an
+// auto-advancing workflow their review_needed output does not satisfy dependents until a
+// human approves it
+export const HUMAN_GATED_STEP_TYPES: StepType[] = ['REVIEW_CONTENT', 'WAIT_APPROVAL', 'POST_API', 'POST_REPLY', 'POST_EXTENSION', 'GENERATE_HOOKS', 'EMAIL_SEQ', 'COMMUNITY_SYNC'];
+
+// ==========================================
+// CROSS-WORKFLOW REFERENCES
+// ==========================================
+
+/**
+ * The workflow and step a `workflow:<workflowId>.<stepId>` dependency points at,
+ * or null for a dependency on a step of the same workflow
+ */
+export function parseWorkflowRef(dependencyId: string): { workflowId: string; stepId: string } | null {
+    const match = WORKFLOW_REF_PATTERN.exec(dependencyId);
+    return match ? { workflowId: match[1], stepId: match[2] } : null;
+}
+
+export function workflowRef(workflowId: string, stepId: string): string {
+    return `workflow:${workflowId}.${stepId}`;
+}
+
+/**
+ * The step ID a dependency points at, whichever workflow it is in
+ */
+export function dependencyStepId(dependencyId: string): string {
+    return parseWorkflowRef(dependencyId)?.stepId ?? dependencyId;
+}
+
+// ==========================================
+// STEP NAMES
+// ==========================================
+
+/**
+ * Names a step's output is reachable by in an expression besides its ID: its type
+ * (`select_targets`), the type without its verb (`targets`) and the verb (`select`)
+ */
+export function stepAliases(type: string): string[] {
+    const [verb, ...rest] = type.toLowerCase().split('_');
+    return rest.length > 0 ? [type.toLowerCase(), rest.join('_'), verb] : [verb];
+}
+
+/**
+ * Alias -> step ID for a set of steps; an alias two of the steps share is left out
+ */
+export function resolveStepAliases(steps: Array<{ id: string; type?: string | null }>): Map<string, string> {
+    const claims = new Map<string, string[]>();
+    for (const step of steps) {
+        for (const alias of step.type ? stepAliases(step.type) : []) {
+            claims.set(alias, [...(claims.get(alias) || []), step.id]);
+        }
+    }
+    return new Map([...claims].filter(([, ids]) => ids.length === 1).map(([alias, ids]) => [alias, ids[0]]));
+}
+
+/**
+ * IDs of every step a step (transitively) depends on within its workflow
+ */
+export function findUpstreamStepIds(steps: GraphStep[], stepId: string): Set<string> {
+    const byId = new Map(steps.map((s) => [s.id, s]));
+    const upstream = new Set<string>();
+    const queue = [...(byId.get(stepId)?.dependencyIds || [])];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (upstream.has(id) || !byId.has(id)) continue;
+        upstream.add(id);
+        queue.push(...byId.get(id)!.dependencyIds);
+    }
+    return upstream;
+}
+
+// ==========================================
+// VALIDATION
+// ==========================================
+
+/**
+ * Dependencies that do not point at a step of the same workflow.
+ * Cross-workflow references are checked against the database by WorkflowService.
+ */
+export function findDanglingDependencies(steps: GraphStep[]): Array<{ stepId: string; missing: string[] }> {
+    const ids = new Set(steps.map((s) => s.id));
+    return steps
+        .map((s) => ({ stepId: s.id, missing: s.dependencyIds.filter((d) => !ids.has(d) && !parseWorkflowRef(d)) }))
+        .filter((d) => d.missing.length > 0);
+}
+
+/**
+ * A dependency cycle as a path of step IDs (first === last), or null
+ */
+export function findCycle(steps: GraphStep[]): string[] | null {
+    const byId = new Map(steps.map((s) => [s.id, s]));
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+        if (state.get(id) === 'done') return null;
+        if (state.get(id) === 'visiting') {
+            return [...path.slice(path.indexOf(id)), id];
+        }
+
+        state.set(id, 'visiting');
+        path.push(id);
+        for (const dep of byId.get(id)?.dependencyIds || []) {
+            if (!byId.has(dep)) continue;
+            const cycle = visit(dep);
+            if (cycle) return cycle;
+        }
+        path.pop();
+        state.set(id, 'done');
+        return null;
+    };
+
+    for (const step of steps) {
+        const cycle = visit(step.id);
+        if (cycle) return cycle;
+    }
+    return null;
+}
+
+/**
+ * Throw a ValidationError unless the steps form a DAG with no dangling dependencies
+ */
+export function assertValidStepGraph(steps: GraphStep[]): void {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const { stepId, missing } of findDanglingDependencies(steps)) {
+        errors.push({
+            field: 'dependencyIds',
+            message: `Step ${stepId} depends on unknown step(s): ${missing.join(', ')}`,
+        });
+    }
+
+    const cycle = findCycle(steps);
+    if (cycle) {
+        errors.push({
+            field: 'dependencyIds',
+            message: `Dependency cycle: ${cycle.join(' -> ')}`,
+        });
+    }
+
+    errors.push(
+        ...findConditionErrors(steps),
+        ...findForEachErrors(steps),
+        ...findRunWorkflowErrors(steps),
+        ...findHooksErrors(steps),
+        ...findImageErrors(steps),
+        ...findEmailSequenceErrors(steps),
+        ...findCommunitySyncErrors(steps),
+        ...findCustomScriptErrors(steps),
+        ...(cycle ? [] : findDataFlowErrors(steps))
+    );
+
+    if (errors.length > 0) {
+        throw new ValidationError('Invalid step dependencies', errors);
+    }
+}
+
+/**
+ * CONDITION steps need a valid expression, and their branch edges must point at dependents
+ */
+function findConditionErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'CONDITION')) {
+        const config = (step.config || {}) as Partial<ConditionStepConfig>;
+
+        if (typeof config.expression !== 'string') {
+            errors.push({ field: 'config.expression', message: `Condition ${step.id} has no expression` });
+        } else {
+            try {
+                parseExpression(config.expression);
+            } catch (error) {
+                if (!isAppError(error)) throw error;
+                errors.push({ field: 'config.expression', message: `Condition ${step.id}: ${error.message}` });
+            }
+        }
+
+        const dependents = new Set(steps.filter((s) => s.dependencyIds.includes(step.id)).map((s) => s.id));
+        for (const branch of ['onTrue', 'onFalse'] as const) {
+            const targets = config[branch] ?? [];
+            if (!Array.isArray(targets)) {
+                errors.push({ field: `config.${branch}`, message: `Condition ${step.id}: ${branch} must be a list of step IDs` });
+                continue;
+            }
+            const invalid = targets.filter((id) => !dependents.has(id));
+            if (invalid.length > 0) {
+                errors.push({
+                    field: `config.${branch}`,
+                    message: `Condition ${step.id}: ${branch} must list steps that depend on it (${invalid.join(', ')})`,
+                });
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * FOR_EACH steps need a valid items path and a non-empty chain of steps
+ */
+function findForEachErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'FOR_EACH')) {
+        const config = (step.config || {}) as Partial<ForEachStepConfig>;
+
+        if (typeof config.itemsPath !== 'string') {
+            errors.push({ field: 'config.itemsPath', message: `FOR_EACH ${step.id} has no items path` });
+        } else {
+            try {
+                parseExpression(config.itemsPath);
+            } catch (error) {
+                if (!isAppError(error)) throw error;
+                errors.push({ field: 'config.itemsPath', message: `FOR_EACH ${step.id}: ${error.message}` });
+            }
+        }
+
+        if (!Array.isArray(config.steps) || config.steps.length === 0) {
+            errors.push({ field: 'config.steps', message: `FOR_EACH ${step.id} needs at least one step to run per item` });
+        } else if (config.steps.some((sub) => typeof sub?.type !== 'string' || sub.type === 'FOR_EACH')) {
+            errors.push({ field: 'config.steps', message: `FOR_EACH ${step.id}: each step needs a type, and loops cannot be nested` });
+        }
+
+        if (config.concurrency !== undefined && (!Number.isInteger(config.concurrency) || config.concurrency < 1 || config.concurrency > 10)) {
+            errors.push({ field: 'config.concurrency', message: `FOR_EACH ${step.id}: concurrency must be between 1 and 10` });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * RUN_WORKFLOW steps need a target workflow.
+ * Whether it exists, and is in the same project, is checked by WorkflowService.
+ */
+function findRunWorkflowErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'RUN_WORKFLOW')) {
+        const config = (step.config || {}) as Partial<RunWorkflowStepConfig>;
+
+        if (typeof config.workflowId !== 'string' || !config.workflowId) {
+            errors.push({ field: 'config.workflowId', message: `RUN_WORKFLOW ${step.id} has no workflow to run` });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * GENERATE_HOOKS steps write between 1 and 10 hooks
+ */
+function findHooksErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'GENERATE_HOOKS')) {
+        const config = (step.config || {}) as Partial<HooksStepConfig>;
+
+        if (config.count !== undefined && (!Number.isInteger(config.count) || config.count < 1 || config.count > 10)) {
+            errors.push({ field: 'config.count', message: `GENERATE_HOOKS ${step.id}: count must be between 1 and 10` });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * GENERATE_IMAGE steps need a known provider and a size between 256 and 2048 pixels
+ */
+function findImageErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'GENERATE_IMAGE')) {
+        const config = (step.config || {}) as Partial<ImageStepConfig>;
+
+        if (config.provider !== undefined && !['placeholder', 'openai', 'gemini'].includes(config.provider)) {
+            errors.push({ field: 'config.provider', message: `GENERATE_IMAGE ${step.id}: unknown image provider ${config.provider}` });
+        }
+        for (const dimension of ['width', 'height'] as const) {
+            const value = config[dimension];
+            if (value !== undefined && (!Number.isInteger(value) || value < 256 || value > 2048)) {
+                errors.push({ field: `config.${dimension}`, message: `GENERATE_IMAGE ${step.id}: ${dimension} must be between 256 and 2048` });
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * EMAIL_SEQ steps need a segment, 1-10 emails, valid recipient addresses and, if set, a valid sender
+ */
+function findEmailSequenceErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'EMAIL_SEQ')) {
+        const config = (step.config || {}) as Partial<EmailSequenceStepConfig>;
+
+        if (typeof config.segment !== 'string' || !config.segment.trim()) {
+            errors.push({ field: 'config.segment', message: `EMAIL_SEQ ${step.id}: a segment is required (e.g. "Inactive 7 days")` });
+        }
+        if (config.count !== undefined && (!Number.isInteger(config.count) || config.count < 1 || config.count > 10)) {
+            errors.push({ field: 'config.count', message: `EMAIL_SEQ ${step.id}: count must be between 1 and 10` });
+        }
+        if (config.recipients !== undefined) {
+            const invalid = Array.isArray(config.recipients)
+                ? config.recipients.filter((r) => typeof r !== 'string' || !EMAIL_PATTERN.test(r.trim()))
+                : [String(config.recipients)];
+            if (invalid.length > 0) {
+                errors.push({ field: 'config.recipients', message: `EMAIL_SEQ ${step.id}: invalid recipients ${invalid.join(', ')}` });
+            }
+        }
+        if (config.from !== undefined && (typeof config.from !== 'string' || !SENDER_PATTERN.test(config.from.trim()))) {
+            errors.push({ field: 'config.from', message: `EMAIL_SEQ ${step.id}: from must be an address or "Name <address>"` });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * COMMUNITY_SYNC steps need a Discord channel ID, a lookback of 1-168 hours and 1-500 messages
+ */
+function findCommunitySyncErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'COMMUNITY_SYNC')) {
+        const config = (step.config || {}) as Partial<CommunitySyncStepConfig>;
+
+        if (typeof config.channelId !== 'string' || !DISCORD_ID_PATTERN.test(config.channelId)) {
+            errors.push({ field: 'config.channelId', message: `COMMUNITY_SYNC ${step.id}: a Discord channel ID is required (Developer Mode > Copy Channel ID)` });
+        }
+        if (config.lookbackHours !== undefined && (!Number.isInteger(config.lookbackHours) || config.lookbackHours < 1 || config.lookbackHours > 168)) {
+            errors.push({ field: 'config.lookbackHours', message: `COMMUNITY_SYNC ${step.id}: lookbackHours must be between 1 and 168` });
+        }
+        if (config.maxMessages !== undefined && (!Number.isInteger(config.maxMessages) || config.maxMessages < 1 || config.maxMessages > 500)) {
+            errors.push({ field: 'config.maxMessages', message: `COMMUNITY_SYNC ${step.id}: maxMessages must be between 1 and 500` });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * CUSTOM steps need a script (JavaScript must compile) and limits within the sandbox's bounds
+ */
+function findCustomScriptErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+
+    for (const step of steps.filter((s) => s.type === 'CUSTOM')) {
+        const config = (step.config || {}) as Partial<CustomStepConfig>;
+
+        if (config.language !== undefined && !['javascript', 'typescript'].includes(config.language)) {
+            errors.push({ field: 'config.language', message: `CUSTOM ${step.id}: language must be javascript or typescript` });
+        }
+        if (typeof config.script !== 'string' || !config.script.trim()) {
+            errors.push({ field: 'config.script', message: `CUSTOM ${step.id}: a script defining run(input, context) is required` });
+        } else if (config.script.length > SCRIPT_LIMITS.maxScriptChars) {
+            errors.push({ field: 'config.script', message: `CUSTOM ${step.id}: scripts are limited to ${SCRIPT_LIMITS.maxScriptChars} characters` });
+        } else if (config.language !== 'typescript') {
+            const syntaxError = findScriptSyntaxError(config.script);
+            if (syntaxError) {
+                errors.push({ field: 'config.script', message: `CUSTOM ${step.id}: ${syntaxError}` });
+            }
+        }
+        if (config.timeoutMs !== undefined && (!Number.isInteger(config.timeoutMs) || config.timeoutMs < SCRIPT_LIMITS.minTimeoutMs || config.timeoutMs > SCRIPT_LIMITS.maxTimeoutMs)) {
+            errors.push({ field: 'config.timeoutMs', message: `CUSTOM ${step.id}: timeoutMs must be between ${SCRIPT_LIMITS.minTimeoutMs} and ${SCRIPT_LIMITS.maxTimeoutMs}` });
+        }
+        if (config.memoryMb !== undefined && (!Number.isInteger(config.memoryMb) || config.memoryMb < SCRIPT_LIMITS.minMemoryMb || config.memoryMb > SCRIPT_LIMITS.maxMemoryMb)) {
+            errors.push({ field: 'config.memoryMb', message: `CUSTOM ${step.id}: memoryMb must be between ${SCRIPT_LIMITS.minMemoryMb} and ${SCRIPT_LIMITS.maxMemoryMb}` });
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Data passed along the graph must fit: `config.inputs` mappings must be valid expressions
+ * whose `$steps.<name>` references name an upstream step (and a key it outputs), and each
+ * required input must be produced upstream or mapped. Steps whose output is open-ended
+ * (no schema, a sub-workflow, another workflow's step) are trusted.
+ */
+function findDataFlowErrors(steps: GraphStep[]): Array<{ field: string; message: string }> {
+    const errors: Array<{ field: string; message: string }> = [];
+    const byId = new Map(steps.map((s) => [s.id, s]));
+    const producedCache = new Map<string, Set<string> | null>();
+
+    // Keys a step's output is known to have, or null if it is open-ended
+    const produced = (id: string): Set<string> | null => {
+        if (producedCache.has(id)) return producedCache.get(id)!;
+        const step = byId.get(id);
+        const schema = step?.type ? getStepOutputSchema(step.type) : undefined;
+        const passThrough = !!step?.type && passThroughStepTypes.includes(step.type);
+
+        let keys: Set<string> | null = null;
+        if (step && (schema || passThrough)) {
+            const carried = passThrough ? available(step) : new Set<string>();
+            keys = carried && new Set([...carried, ...Object.keys(schema?.shape || {})]);
+        }
+        producedCache.set(id, keys);
+        return keys;
+    };
+
+    // Keys a step's input is known to have, or null if any part of it is open-ended
+    const available = (step: GraphStep): Set<string> | null => {
+        if (step.dependencyIds.length === 0) return null; // may be a sub-workflow's run input
+        const keys = new Set<string>(Object.keys(inputMappings(step)));
+        for (const dependencyId of step.dependencyIds) {
+            const parentKeys = parseWorkflowRef(dependencyId) ? null : produced(dependencyId);
+            if (!parentKeys) return null;
+            parentKeys.forEach((key) => keys.add(key));
+        }
+        return keys;
+    };
+
+    for (const step of steps) {
+        const mappings = (step.config?.inputs ?? {}) as Record<string, unknown>;
+        if (typeof mappings !== 'object' || Array.isArray(mappings)) {
+            errors.push({ field: 'config.inputs', message: `Step ${step.id}: inputs must map names to expressions` });
+            continue;
+        }
+
+        const upstream = [...findUpstreamStepIds(steps, step.id)].map((id) => byId.get(id)!);
+        const aliases = resolveStepAliases(upstream);
+
+        for (const [name, expression] of Object.entries(mappings)) {
+            if (typeof expression !== 'string') {
+                errors.push({ field: `config.inputs.${name}`, message: `Step ${step.id} input ${name} must be an expression` });
+                continue;
+            }
+            try {
+                parseExpression(expression);
+            } catch (error) {
+                if (!isAppError(error)) throw error;
+                errors.push({ field: `config.inputs.${name}`, message: `Step ${step.id} input ${name}: ${error.message}` });
+                continue;
+            }
+
+            for (const [reference, stepName, key] of expression.matchAll(STEP_REFERENCE_PATTERN)) {
+                const sourceId = byId.has(stepName) && upstream.some((s) => s.id === stepName) ? stepName : aliases.get(stepName);
+                if (!sourceId) {
+                    errors.push({
+                        field: `config.inputs.${name}`,
+                        message: `Step ${step.id} input ${name}: ${reference} does not name a step that runs before it`,
+                    });
+                    continue;
+                }
+                const sourceKeys = produced(sourceId);
+                if (key && sourceKeys && !sourceKeys.has(key)) {
+                    errors.push({
+                        field: `config.inputs.${name}`,
+                        message: `Step ${step.id} input ${name}: ${byId.get(sourceId)!.type} does not output ${key}`,
+                    });
+                }
+            }
+        }
+
+        const inputSchema = step.type ? getStepInputSchema(step.type) : undefined;
+        const keys = inputSchema ? available(step) : null;
+        if (!inputSchema || !keys) continue;
+
+        for (const [key, field] of Object.entries(inputSchema.shape)) {
+            if (!keys.has(key) && !field.safeParse(undefined).success) {
+                errors.push({
+                    field: 'dependencyIds',
+                    message: `${step.type} ${step.id} needs ${key}, which no step before it outputs - reorder the steps or map it in config.inputs`,
+                });
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Input mappings of a step: its type's defaults, overridden by `config.inputs`
+ */
+function inputMappings(step: GraphStep): Record<string, string> {
+    const explicit = step.config?.inputs;
+    return {
+        ...(step.type ? stepDefaultInputs[step.type] : undefined),
+        ...(explicit && typeof explicit === 'object' && !Array.isArray(explicit) ? explicit as Record<string, string> : {}),
+    };
+}
+
+// ==========================================
+// SCHEDULING
+// ==========================================
+
+/**
+ * Partition steps by what can happen next, given the latest task status per step
+ * and the result of each finished CONDITION step.
+ *
+ * A step is skipped if a condition it depends on took the other branch, or if every
+ * one of its dependencies was skipped. Skipped dependencies count as satisfied, so a
+ * step that joins a skipped branch with a taken one still runs.
+ */
+export function computeFrontier<S extends GraphStep>(
+    steps: S[],
+    statusByStep: Map<string, TaskStatus | undefined>,
+    conditionResults: Map<string, boolean> = new Map()
+): StepFrontier<S> {
+    const frontier: StepFrontier<S> = { ready: [], blocked: [], active: [], done: [], skipped: [] };
+    const byId = new Map(steps.map((s) => [s.id, s]));
+    const skipCache = new Map<string, boolean>();
+
+    const isDone = (id: string) => {
+        const status = statusByStep.get(id);
+        return !!status && DONE_STATUSES.includes(status);
+    };
+
+    const isSkipped = (id: string): boolean => {
+        const cached = skipCache.get(id);
+        if (cached !== undefined) return cached;
+        skipCache.set(id, false); // cycle guard - graphs are validated on save
+
+        const step = byId.get(id);
+        const status = statusByStep.get(id);
+        let skipped = status === 'skipped';
+
+        if (step && !skipped && (!status || status === 'pending')) {
+            const offBranch = step.dependencyIds.some((depId) => {
+                const dep = byId.get(depId);
+                const result = conditionResults.get(depId);
+                if (dep?.type !== 'CONDITION' || result === undefined || !isDone(depId)) return false;
+                const config = (dep.config || {}) as Partial<ConditionStepConfig>;
+                return ((result ? config.onFalse : config.onTrue) ?? []).includes(id);
+            });
+            skipped = offBranch || (
+                step.dependencyIds.length > 0 && step.dependencyIds.every((depId) => isSkipped(depId))
+            );
+        }
+
+        skipCache.set(id, skipped);
+        return skipped;
+    };
+
+    for (const step of steps) {
+        const status = statusByStep.get(step.id);
+
+        if (status && DONE_STATUSES.includes(status)) {
+            frontier.done.push(step);
+            continue;
+        }
+        if (status && ACTIVE_STATUSES.includes(status)) {
+            frontier.active.push(step);
+            continue;
+        }
+        if (isSkipped(step.id)) {
+            frontier.skipped.push(step);
+            continue;
+        }
+
+        const blockedBy = step.dependencyIds.filter((dep) => !isDone(dep) && !isSkipped(dep));
+
+        if (blockedBy.length === 0) {
+            frontier.ready.push(step);
+        } else {
+            frontier.blocked.push({ step, blockedBy });
+        }
+    }
+
+    return frontier;
+}
+
+/**
+ * Dependencies that chain steps one after another, in the given order
+ */
+export function linearDependencies(orderedStepIds: string[]): Map<string, string[]> {
+    return new Map(orderedStepIds.map((id, i) => [id, i === 0 ? [] : [orderedStepIds[i - 1]]]));
+}
+
+/**
+ * True if each step depends exactly on the one before it (the pre-DAG default)
+ */
+export function isLinearChain(orderedSteps: GraphStep[]): boolean {
+    return orderedSteps.every((step, i) =>
+        i === 0
+            ? step.dependencyIds.length === 0
+            : step.dependencyIds.length === 1 && step.dependencyIds[0] === orderedSteps[i - 1].id
+    );
+}
+
+// ==========================================
+// OUTPUT MERGING
+// ==========================================
+
+/**
+ * Combine the outputs of several parent steps into one input.
+ * Array values under the same key are concatenated (e.g. `found_items` from two
+ * scans); other keys are taken from the last parent that sets them. Each parent's
+ * raw output stays available under `_parents[stepId]`.
+ */
+export function mergeParentOutputs(
+    parents: Array<{ stepId: string; output: Record<string, unknown> }>
+): Record<string, unknown> {
+    const merged: Record<string, unknown> = {};
+
+    for (const { output } of parents) {
+        for (const [key, value] of Object.entries(output)) {
+            const existing = merged[key];
+            merged[key] = Array.isArray(existing) && Array.isArray(value)
+                ? [...existing, ...value]
+                : value;
+        }
+    }
+
+    merged._parents = Object.fromEntries(parents.map((p) => [p.stepId, p.output]));
+    return merged;
+}
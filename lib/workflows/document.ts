@@ -0,0 +1,184 @@
+/**
+ * Portable Workflow Documents
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - A definition is data: it can be exported, kept in git and imported into another project
+ *
+ * A document names steps by a `key` local to it, and `dependsOn` lists keys. Importing
+ * gives every step a new ID and remaps dependencies and CONDITION branches to those IDs.
+ * Dependencies on other workflows (`workflow:<id>.<stepId>`) and RUN_WORKFLOW targets
+ * keep their IDs, so they only import into the project they point at.
+ */
+
+import { ValidationError, isAppError } from '@/lib/core/errors';
+import type { ConditionStepConfig, Step, StepConfig, StepType, Workflow, WorkflowConfig } from '@/lib/core/types';
+import {
+    createStepSchema,
+    safeValidateInput,
+    validateInput,
+    workflowDocumentSchema,
+    WORKFLOW_DOCUMENT_FORMAT,
+    WORKFLOW_DOCUMENT_VERSION,
+    type WorkflowDocument,
+} from '@/lib/core/validation';
+import { parseWorkflowRef } from './dag';
+import { parseYaml, stringifyYaml } from './yaml';
+
+export type WorkflowDocumentFormat = 'json' | 'yaml';
+
+// A document step with its new ID, ready to insert
+export interface ImportedStep {
+    id: string;
+    type: StepType;
+    config: StepConfig;
+    dependencyIds: string[];
+    position: number;
+}
+
+// ==========================================
+// EXPORT
+// ==========================================
+
+/**
+ * Describe a workflow and its step graph as a portable document
+ */
+export function exportWorkflowDocument(workflow: Workflow & { steps: Step[] }): WorkflowDocument {
+    const steps = [...workflow.steps].sort((a, b) => a.position - b.position);
+
+    // Keys read like the step type: scan_feed, review_content, review_content_2
+    const keys = new Map<string, string>();
+    const counts = new Map<string, number>();
+    for (const step of steps) {
+        const base = step.type.toLowerCase();
+        const count = (counts.get(base) || 0) + 1;
+        counts.set(base, count);
+        keys.set(step.id, count > 1 ? `${base}_${count}` : base);
+    }
+    const toKey = (id: string) => keys.get(id) ?? id;
+
+    return {
+        format: WORKFLOW_DOCUMENT_FORMAT,
+        version: WORKFLOW_DOCUMENT_VERSION,
+        workflow: {
+            name: workflow.name,
+            description: workflow.description || undefined,
+            phase: workflow.phase,
+            config: withoutTemplate(workflow.config),
+        },
+        steps: steps.map((step) => ({
+            key: toKey(step.id),
+            type: step.type,
+            config: remapBranches(step, toKey),
+            dependsOn: step.dependencyIds.map(toKey),
+        })),
+    };
+}
+
+export function serializeWorkflowDocument(document: WorkflowDocument, format: WorkflowDocumentFormat): string {
+    return format === 'yaml' ? stringifyYaml(document) : JSON.stringify(document, null, 2) + '\n';
+}
+
+// ==========================================
+// IMPORT
+// ==========================================
+
+/**
+ * Read a JSON or YAML document (or an already parsed one) and validate it
+ */
+export function parseWorkflowDocument(source: string | unknown): WorkflowDocument {
+    let data = source;
+    if (typeof source === 'string') {
+        const text = source.trim();
+        try {
+            data = text.startsWith('{') ? JSON.parse(text) : parseYaml(text);
+        } catch (error) {
+            if (isAppError(error)) throw error;
+            throw new ValidationError('Invalid workflow document', [{ field: 'document', message: 'Not valid JSON' }]);
+        }
+    }
+
+    const document = validateInput(workflowDocumentSchema, data);
+
+    const errors: Array<{ field: string; message: string }> = [];
+    const keys = new Set<string>();
+    document.steps.forEach((step, i) => {
+        if (keys.has(step.key)) {
+            errors.push({ field: `steps.${i}.key`, message: `Duplicate step key ${step.key}` });
+        }
+        keys.add(step.key);
+    });
+    document.steps.forEach((step, i) => {
+        for (const dependency of step.dependsOn) {
+            if (!keys.has(dependency) && !parseWorkflowRef(dependency)) {
+                errors.push({ field: `steps.${i}.dependsOn`, message: `Step ${step.key} depends on unknown step ${dependency}` });
+            }
+        }
+    });
+    if (errors.length > 0) {
+        throw new ValidationError('Invalid workflow document', errors);
+    }
+
+    return document;
+}
+
+/**
+ * Steps of a document with new IDs, dependencies and CONDITION branches remapped to them.
+ * Each step is checked like a step added through the API.
+ */
+export function instantiateWorkflowDocument(document: WorkflowDocument): ImportedStep[] {
+    const ids = new Map(document.steps.map((step) => [step.key, crypto.randomUUID()]));
+    const toId = (key: string) => ids.get(key) ?? key;
+
+    const errors: Array<{ field: string; message: string }> = [];
+    const steps = document.steps.map((step, i) => {
+        const imported = {
+            id: ids.get(step.key)!,
+            type: step.type,
+            config: remapBranches({ type: step.type, config: step.config || {} }, toId),
+            dependencyIds: step.dependsOn.map(toId),
+            position: i + 1,
+        };
+
+        const result = safeValidateInput(createStepSchema.omit({ workflowId: true }), imported);
+        if (!result.success) {
+            errors.push(...result.errors.map((e) => ({ field: `steps.${i}.${e.field}`, message: `${step.key}: ${e.message}` })));
+        }
+        return imported;
+    });
+
+    if (errors.length > 0) {
+        throw new ValidationError('Invalid workflow document', errors);
+    }
+    return steps;
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * A workflow config without the template it was created from: that describes the
+ * workflow, not its definition, and is recorded again when a document is imported
+ */
+function withoutTemplate(config: WorkflowConfig): WorkflowConfig {
+    const rest = { ...config };
+    delete rest.templateId;
+    delete rest.templateName;
+    delete rest.templateVersion;
+    return rest;
+}
+
+/**
+ * A step's config with CONDITION branch step references passed through `map`
+ */
+function remapBranches(step: Pick<Step, 'type' | 'config'>, map: (id: string) => string): StepConfig {
+    if (step.type !== 'CONDITION') return step.config;
+
+    const config = step.config as ConditionStepConfig;
+    return {
+        ...step.config,
+        ...(config.onTrue ? { onTrue: config.onTrue.map(map) } : {}),
+        ...(config.onFalse ? { onFalse: config.onFalse.map(map) } : {}),
+    };
+}
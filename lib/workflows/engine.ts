@@ -0,0 +1,299 @@
+/**
+ * Workflow Engine
+ *
+ * Following the constitution:
+ * - Workflows are config-driven and able to run without UI
+ * - Independent from AI and integrations (step handlers own those)
+ *
+ * Shared by every entry point that advances a workflow: server actions,
+ * the REST API and background workers. Entry points claim every ready step of
+ * a workflow run (creating and starting their tasks) and enqueue them; workers
+ * execute them, so independent branches of the step graph run concurrently.
+ * A RUN_WORKFLOW step starts a child run the same way and completes when it does.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AIService, AssetService, CommunityService, RunService, TaskService, WorkflowService } from '@/lib/services';
+import type { RunTrigger, Step, Task, Workflow, WorkflowRun } from '@/lib/core/types';
+import { NotFoundError } from '@/lib/core/errors';
+import { mergeParentOutputs } from './dag';
+import { prepareStepContext, runStep, type StepOutcome, type StepRunMode } from './steps';
+
+export interface EngineServices {
+    supabase: SupabaseClient;
+    workflowService: WorkflowService;
+    taskService: TaskService;
+    runService: RunService;
+    aiService: AIService;
+    assetService: AssetService;
+    communityService: CommunityService;
+}
+
+export interface ClaimedStep {
+    step: Step;
+    task: Task;
+}
+
+export type ClaimStepResult =
+    | { status: 'completed'; run: WorkflowRun; progress: number }
+    | { status: 'blocked'; run: WorkflowRun; step: Step; blockedBy: string[] }
+    | { status: 'waiting'; run: WorkflowRun; active: Step[] }
+    | { status: 'claimed'; run: WorkflowRun; workflow: Workflow; claimed: ClaimedStep[] };
+
+export interface ClaimStepOptions {
+    trigger: RunTrigger;
+    runId?: string;     // continue this run
+    newRun?: boolean;   // start a new run even if the latest one is unfinished
+    scheduledFor?: Date;
+    parentTaskId?: string;              // RUN_WORKFLOW task the new run reports to
+    input?: Record<string, unknown>;    // input for the new run's first steps
+    simulate?: boolean;                 // continue (or start) a simulated run instead of a live one
+}
+
+export interface StepTaskRef {
+    workflowId: string;
+    stepId: string;
+    taskId: string;
+    mode: StepRunMode;
+}
+
+/**
+ * Find every step of the current run whose dependencies are satisfied and move
+ * their tasks to in_progress. The latest run (of the same kind, live or simulated)
+ * is continued unless it completed or was cancelled, in which case a new run is
+ * started. Does not run the handlers - pass each claimed step to executeStepTask
+ * (usually via the job queue).
+ */
+export async function claimReadySteps(
+    services: Pick<EngineServices, 'workflowService' | 'taskService' | 'runService'>,
+    workflowId: string,
+    options: ClaimStepOptions
+): Promise<ClaimStepResult> {
+    const { workflowService, taskService, runService } = services;
+
+    let run: WorkflowRun | null = null;
+    if (options.runId) {
+        run = await runService.getById(options.runId);
+    } else if (!options.newRun) {
+        run = await runService.getLatest(workflowId, { simulated: options.simulate ?? false });
+        if (run && (run.status === 'completed' || run.status === 'cancelled')) {
+            run = null;
+        }
+    }
+
+    if (!run) {
+        // Live runs are pinned to the published version, so draft edits do not reach them.
+        // Simulated runs follow the draft, so changes can be tried before they are published.
+        run = await runService.create({
+            workflowId,
+            trigger: options.trigger,
+            scheduledFor: options.scheduledFor,
+            parentTaskId: options.parentTaskId,
+            input: options.input,
+            workflowVersion: options.simulate ? undefined : await workflowService.ensurePublished(workflowId),
+            simulated: options.simulate,
+        });
+    } else if (run.status === 'failed') {
+        run = await runService.resume(run.id);
+    }
+
+    const { workflow, frontier, nextStep, progress } = await workflowService.getExecutionState(workflowId, run.id);
+    await recordSkippedSteps(services, workflow, run.id, frontier.skipped);
+
+    if (!nextStep) {
+        run = await runService.finish(run.id, 'completed');
+        return { status: 'completed', run, progress };
+    }
+
+    if (frontier.ready.length === 0) {
+        // In-flight steps will unblock the rest when they finish
+        if (frontier.active.length > 0) {
+            return { status: 'waiting', run, active: frontier.active };
+        }
+        return { status: 'blocked', run, step: nextStep.step, blockedBy: nextStep.blockedBy };
+    }
+
+    const claimed: ClaimedStep[] = [];
+    for (const step of frontier.ready) {
+        let task = await taskService.getByStepId(step.id, run.id);
+        if (!task) {
+            task = await taskService.create({
+                stepId: step.id,
+                projectId: workflow.projectId,
+                runId: run.id,
+                scheduledFor: options.scheduledFor,
+            });
+        }
+
+        claimed.push({ step, task: await taskService.start(task.id) });
+    }
+
+    return { status: 'claimed', run, workflow, claimed };
+}
+
+/**
+ * Give each step on an untaken CONDITION branch a `skipped` task in the run,
+ * so run history shows it and the run can complete without it.
+ */
+export async function recordSkippedSteps(
+    services: Pick<EngineServices, 'taskService'>,
+    workflow: Workflow,
+    runId: string,
+    skipped: Step[]
+): Promise<void> {
+    const { taskService } = services;
+
+    for (const step of skipped) {
+        let task = await taskService.getByStepId(step.id, runId);
+        if (task?.status === 'skipped') continue;
+        if (!task) {
+            task = await taskService.create({ stepId: step.id, projectId: workflow.projectId, runId });
+        }
+        await taskService.skip(task.id, 'Condition branch not taken');
+    }
+}
+
+/**
+ * Start the run a RUN_WORKFLOW task waits on and claim its ready steps (enqueue them
+ * like any other claim). A retried job continues the child run it already started.
+ */
+export async function startChildRun(
+    services: Pick<EngineServices, 'workflowService' | 'taskService' | 'runService'>,
+    parentTask: Task,
+    request: { workflowId: string; input: Record<string, unknown> }
+): Promise<ClaimStepResult> {
+    const existing = await services.runService.getByParentTask(parentTask.id);
+
+    // A simulated run's sub-workflows are simulated too
+    const parentRun = parentTask.runId ? await services.runService.getById(parentTask.runId) : null;
+
+    const claim = await claimReadySteps(
+        services,
+        request.workflowId,
+        existing?.status === 'running'
+            ? { trigger: 'workflow', runId: existing.id }
+            : { trigger: 'workflow', newRun: true, parentTaskId: parentTask.id, input: request.input, simulate: parentRun?.simulated }
+    );
+
+    // A workflow with nothing left to run completes straight away
+    if (claim.status === 'completed') {
+        await settleParentTask(services, claim.run);
+    }
+    return claim;
+}
+
+/**
+ * Complete a run once every step is done, then settle the RUN_WORKFLOW task waiting on it.
+ * Use instead of RunService.syncStatus wherever a task may have finished.
+ */
+export async function syncRunStatus(
+    services: Pick<EngineServices, 'workflowService' | 'taskService' | 'runService'>,
+    runId: string
+): Promise<WorkflowRun> {
+    const run = await services.runService.syncStatus(runId);
+    await settleParentTask(services, run);
+    return run;
+}
+
+/**
+ * Finish the RUN_WORKFLOW task waiting on a finished run: completed with the run's final
+ * output, or failed - failing its own run - if the run failed or was cancelled.
+ * Nested RUN_WORKFLOW steps settle in turn.
+ */
+export async function settleParentTask(
+    services: Pick<EngineServices, 'workflowService' | 'taskService' | 'runService'>,
+    run: WorkflowRun
+): Promise<void> {
+    if (!run.parentTaskId || run.status === 'running') return;
+
+    const { taskService, runService } = services;
+    const parent = await taskService.getById(run.parentTaskId);
+    if (parent.status !== 'in_progress') return; // settled already, or cancelled
+
+    if (run.status === 'completed') {
+        await taskService.complete(parent.id, {
+            ...await collectRunOutput(services, run),
+            run: { workflowId: run.workflowId, runId: run.id, runNumber: run.runNumber },
+        });
+        if (parent.runId) {
+            await syncRunStatus(services, parent.runId);
+        }
+        return;
+    }
+
+    const message = `Workflow run #${run.runNumber} ${run.status}${run.errorMessage ? `: ${run.errorMessage}` : ''}`;
+    await taskService.fail(parent.id, message);
+
+    if (parent.runId) {
+        const parentRun = await runService.getById(parent.runId);
+        if (parentRun.status === 'running') {
+            await settleParentTask(services, await runService.finish(parentRun.id, 'failed', message));
+        }
+    }
+}
+
+/**
+ * Final output of a run: the outputs of its last completed steps (those no step depends on), merged
+ */
+async function collectRunOutput(
+    services: Pick<EngineServices, 'workflowService'>,
+    run: WorkflowRun
+): Promise<Record<string, unknown>> {
+    const { steps } = await services.workflowService.getExecutionState(run.workflowId, run.id);
+
+    const outputs = steps
+        .filter((s) => s.status === 'completed' && s.task?.output_data)
+        .filter((s) => !steps.some((other) => other.dependencyIds.includes(s.id)))
+        .map((s) => ({ stepId: s.id, output: s.task.output_data as Record<string, unknown> }));
+
+    return outputs.length > 1 ? mergeParentOutputs(outputs) : outputs[0]?.output ?? {};
+}
+
+/**
+ * Run a claimed step through the step registry.
+ * Returns null if the task was cancelled or finished while it waited.
+ * The task is failed (and the error rethrown) if the handler throws.
+ */
+export async function executeStepTask(
+    services: EngineServices,
+    ref: StepTaskRef
+): Promise<StepOutcome | null> {
+    const { supabase, workflowService, taskService, aiService, assetService, communityService } = services;
+
+    let task = await taskService.getById(ref.taskId);
+    if (task.status === 'cancelled' || task.status === 'completed') {
+        return null;
+    }
+
+    const { workflow, steps } = await workflowService.getExecutionState(ref.workflowId, task.runId);
+
+    const step = steps.find((s) => s.id === ref.stepId);
+    if (!step) {
+        throw new NotFoundError('Step', ref.stepId);
+    }
+
+    // A retry picks the task back up from `failed`
+    if (task.status !== 'in_progress') {
+        task = await taskService.start(task.id);
+    }
+
+    try {
+        const ctx = await prepareStepContext({
+            supabase,
+            workflow,
+            steps,
+            step,
+            task,
+            taskService,
+            aiService,
+            assetService,
+            communityService,
+            mode: ref.mode,
+        });
+
+        return await runStep(ctx);
+    } catch (error: any) {
+        await taskService.fail(task.id, error.message);
+        throw error;
+    }
+}
@@ -0,0 +1,340 @@
+/**
+ * Step Expression Language
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - User-authored config never runs as code: expressions are parsed and
+ *   interpreted here, with no access to globals, functions or prototypes
+ *
+ * Grammar (lowest to highest precedence):
+ *   a || b    a && b    a == b  a != b    a < b  a <= b  a > b  a >= b
+ *   a + b  a - b    a * b  a / b  a % b    !a  -a    a.b  a[b]  (a)
+ * Literals: numbers, 'strings' / "strings", true, false, null.
+ * Identifiers resolve against the scope; missing values are null.
+ *
+ * Example: `selected_items.length > 0 && draft.content.length <= 280`
+ */
+
+import { ExpressionError } from '@/lib/core/errors';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+type Token =
+    | { kind: 'number'; value: number; pos: number }
+    | { kind: 'string'; value: string; pos: number }
+    | { kind: 'ident'; value: string; pos: number }
+    | { kind: 'op'; value: string; pos: number }
+    | { kind: 'eof'; pos: number };
+
+type Node =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'ident'; name: string }
+    | { kind: 'member'; object: Node; property: Node }
+    | { kind: 'unary'; op: string; operand: Node }
+    | { kind: 'binary'; op: string; left: Node; right: Node };
+
+export type ExpressionScope = Record<string, unknown>;
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_DEPTH = 32;
+
+// Properties that would reach outside the data
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const OPERATORS = ['||', '&&', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '.', '[', ']', '(', ')'];
+
+const BINARY_PRECEDENCE: string[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+// ==========================================
+// TOKENIZER
+// ==========================================
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9]/.test(ch)) {
+            const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+            tokens.push({ kind: 'number', value: Number(match[0]), pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            let value = '';
+            let j = i + 1;
+            while (j < source.length && source[j] !== ch) {
+                if (source[j] === '\\' && j + 1 < source.length) j++;
+                value += source[j];
+                j++;
+            }
+            if (j >= source.length) {
+                throw new ExpressionError('Unterminated string', source, i);
+            }
+            tokens.push({ kind: 'string', value, pos: i });
+            i = j + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(ch)) {
+            const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+            tokens.push({ kind: 'ident', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        const op = OPERATORS.find((o) => source.startsWith(o, i));
+        if (!op) {
+            throw new ExpressionError(`Unexpected character '${ch}'`, source, i);
+        }
+        tokens.push({ kind: 'op', value: op, pos: i });
+        i += op.length;
+    }
+
+    tokens.push({ kind: 'eof', pos: source.length });
+    return tokens;
+}
+
+// ==========================================
+// PARSER
+// ==========================================
+
+class Parser {
+    private index = 0;
+    private depth = 0;
+
+    constructor(private source: string, private tokens: Token[]) { }
+
+    parse(): Node {
+        const node = this.parseBinary(0);
+        const next = this.peek();
+        if (next.kind !== 'eof') {
+            throw new ExpressionError('Unexpected token', this.source, next.pos);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private isOp(value: string): boolean {
+        const token = this.peek();
+        return token.kind === 'op' && token.value === value;
+    }
+
+    private expectOp(value: string): void {
+        if (!this.isOp(value)) {
+            throw new ExpressionError(`Expected '${value}'`, this.source, this.peek().pos);
+        }
+        this.index++;
+    }
+
+    private enter(): void {
+        if (++this.depth > MAX_DEPTH) {
+            throw new ExpressionError('Expression is nested too deeply', this.source, this.peek().pos);
+        }
+    }
+
+    private parseBinary(level: number): Node {
+        if (level >= BINARY_PRECEDENCE.length) return this.parseUnary();
+
+        let left = this.parseBinary(level + 1);
+        while (BINARY_PRECEDENCE[level].some((op) => this.isOp(op))) {
+            const op = (this.tokens[this.index++] as { value: string }).value;
+            const right = this.parseBinary(level + 1);
+            left = { kind: 'binary', op, left, right };
+        }
+        return left;
+    }
+
+    private parseUnary(): Node {
+        if (this.isOp('!') || this.isOp('-')) {
+            this.enter();
+            const op = (this.tokens[this.index++] as { value: string }).value;
+            const operand = this.parseUnary();
+            this.depth--;
+            return { kind: 'unary', op, operand };
+        }
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): Node {
+        let node = this.parsePrimary();
+
+        for (;;) {
+            if (this.isOp('.')) {
+                this.index++;
+                const name = this.peek();
+                if (name.kind !== 'ident') {
+                    throw new ExpressionError('Expected property name', this.source, name.pos);
+                }
+                this.index++;
+                node = { kind: 'member', object: node, property: { kind: 'literal', value: name.value } };
+            } else if (this.isOp('[')) {
+                this.index++;
+                this.enter();
+                const property = this.parseBinary(0);
+                this.depth--;
+                this.expectOp(']');
+                node = { kind: 'member', object: node, property };
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private parsePrimary(): Node {
+        const token = this.peek();
+
+        if (token.kind === 'number' || token.kind === 'string') {
+            this.index++;
+            return { kind: 'literal', value: token.value };
+        }
+
+        if (token.kind === 'ident') {
+            this.index++;
+            if (token.value === 'true') return { kind: 'literal', value: true };
+            if (token.value === 'false') return { kind: 'literal', value: false };
+            if (token.value === 'null') return { kind: 'literal', value: null };
+            return { kind: 'ident', name: token.value };
+        }
+
+        if (this.isOp('(')) {
+            this.index++;
+            this.enter();
+            const node = this.parseBinary(0);
+            this.depth--;
+            this.expectOp(')');
+            return node;
+        }
+
+        throw new ExpressionError(
+            token.kind === 'eof' ? 'Unexpected end of expression' : 'Unexpected token',
+            this.source,
+            token.pos
+        );
+    }
+}
+
+// ==========================================
+// EVALUATOR
+// ==========================================
+
+function getProperty(object: unknown, property: unknown): unknown {
+    if (object === null || object === undefined) return null;
+    if (typeof property !== 'string' && typeof property !== 'number') return null;
+
+    const key = String(property);
+    if (FORBIDDEN_PROPERTIES.has(key)) return null;
+
+    if (typeof object === 'string' || Array.isArray(object)) {
+        if (key === 'length') return object.length;
+        return /^[0-9]+$/.test(key) ? object[Number(key)] ?? null : null;
+    }
+
+    if (typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key)) {
+        return (object as Record<string, unknown>)[key] ?? null;
+    }
+
+    return null;
+}
+
+function evaluateNode(node: Node, scope: ExpressionScope): unknown {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+
+        case 'ident':
+            return getProperty(scope, node.name);
+
+        case 'member':
+            return getProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+
+        case 'unary': {
+            const value = evaluateNode(node.operand, scope);
+            return node.op === '!' ? !value : -Number(value);
+        }
+
+        case 'binary': {
+            // Short-circuit like JavaScript, but always produce a boolean
+            if (node.op === '||') {
+                return !!evaluateNode(node.left, scope) || !!evaluateNode(node.right, scope);
+            }
+            if (node.op === '&&') {
+                return !!evaluateNode(node.left, scope) && !!evaluateNode(node.right, scope);
+            }
+
+            const left = evaluateNode(node.left, scope);
+            const right = evaluateNode(node.right, scope);
+
+            switch (node.op) {
+                case '==': return left === right;
+                case '!=': return left !== right;
+                case '<': return left !== null && right !== null && (left as number) < (right as number);
+                case '<=': return left !== null && right !== null && (left as number) <= (right as number);
+                case '>': return left !== null && right !== null && (left as number) > (right as number);
+                case '>=': return left !== null && right !== null && (left as number) >= (right as number);
+                case '+':
+                    return typeof left === 'string' || typeof right === 'string'
+                        ? `${left ?? ''}${right ?? ''}`
+                        : Number(left) + Number(right);
+                case '-': return Number(left) - Number(right);
+                case '*': return Number(left) * Number(right);
+                case '/': return Number(left) / Number(right);
+                case '%': return Number(left) % Number(right);
+            }
+        }
+    }
+
+    return null;
+}
+
+// ==========================================
+// PUBLIC API
+// ==========================================
+
+/**
+ * Parse an expression, throwing ExpressionError if it is not valid.
+ * Used to reject bad step config at save time.
+ */
+export function parseExpression(source: string): Node {
+    if (!source.trim()) {
+        throw new ExpressionError('Expression is empty', source, 0);
+    }
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+        throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, source, MAX_EXPRESSION_LENGTH);
+    }
+    return new Parser(source, tokenize(source)).parse();
+}
+
+/**
+ * Evaluate an expression against a scope of plain data
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope): unknown {
+    return evaluateNode(parseExpression(source), scope);
+}
+
+/**
+ * Evaluate an expression as a condition (truthy -> true)
+ */
+export function evaluateCondition(source: string, scope: ExpressionScope): boolean {
+    return !!evaluateExpression(source, scope);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { runSandboxedScript } from './sandbox';
+
+const run = (source: string, options: { timeoutMs?: number; memoryMb?: number } = {}) =>
+    runSandboxedScript({ source }, { items: [1, 2, 3] }, { project: { name: 'Journal' } }, options);
+
+const runTypeScript = (source: string) =>
+    runSandboxedScript({ source, language: 'typescript' }, { items: [1, 2, 3] }, { project: { name: 'Journal' } });
+
+describe('runSandboxedScript', () => {
+    it('runs run(input, context) and returns its JSON result and logs', async () => {
+        const outcome = await run(`
+            async function run(input, context) {
+                console.log('items', input.items.length);
+                return { total: input.items.reduce((a, b) => a + b, 0), project: context.project.name };
+            }
+        `);
+
+        expect(outcome).toEqual({ result: { total: 6, project: 'Journal' }, logs: ['items 3'] });
+    });
+
+    it('transpiles TypeScript scripts before running them', async () => {
+        const outcome = await runTypeScript(`
+            interface Input { items: number[] }
+            type Summary = { total: number; project: string };
+
+            async function run(input: Input, context: { project: { name: string } }): Promise<Summary> {
+                const total = input.items.reduce((sum: number, item: number) => sum + item, 0);
+                return { total, project: context.project.name as string };
+            }
+        `);
+
+        expect(outcome.result).toEqual({ total: 6, project: 'Journal' });
+    });
+
+    it('fails a TypeScript script that does not compile', async () => {
+        await expect(runTypeScript('function run(input: ) { return 1; }'))
+            .rejects.toMatchObject({ code: 'SCRIPT_ERROR', message: expect.stringMatching(/^Script failed to compile/) });
+    });
+
+    it('blocks globalThis.constructor.constructor from reaching process', async () => {
+        const escape = run(`
+            function run() {
+                const process = globalThis.constructor.constructor('return process')();
+                return process.getBuiltinModule('fs').readFileSync('.env.local', 'utf8');
+            }
+        `);
+
+        await expect(escape).rejects.toMatchObject({ code: 'SCRIPT_ERROR', message: expect.stringMatching(/process'? is not defined/) });
+    });
+
+    it('blocks this.constructor.constructor from reaching process', async () => {
+        const escape = run(`
+            var host = this.constructor.constructor('return this')();
+            function run() {
+                return {
+                    process: typeof host.process,
+                    require: typeof host.require,
+                    fetch: typeof host.fetch,
+                    viaConstructor: typeof this === 'undefined' ? 'strict' : typeof this.constructor.constructor('return process')(),
+                };
+            }
+        `);
+
+        await expect(escape).resolves.toMatchObject({
+            result: { process: 'undefined', require: 'undefined', fetch: 'undefined', viaConstructor: 'strict' },
+        });
+    });
+
+    it('has no host globals at all', async () => {
+        const outcome = await run(`
+            function run() {
+                return ['process', 'require', 'module', 'Buffer', 'fetch', 'setTimeout', 'WebAssembly']
+                    .filter((name) => typeof globalThis[name] !== 'undefined');
+            }
+        `);
+
+        expect(outcome.result).toEqual([]);
+    });
+
+    it('stops a script that overruns its time', async () => {
+        await expect(run('function run() { for (;;) {} }', { timeoutMs: 100 }))
+            .rejects.toMatchObject({ code: 'SCRIPT_ERROR', message: 'Script timed out after 100ms' });
+    });
+
+    it('stops a promise chain that overruns its time', async () => {
+        await expect(run('function run() { return Promise.resolve().then(function spin() { for (;;) {} }); }', { timeoutMs: 100 }))
+            .rejects.toMatchObject({ message: 'Script timed out after 100ms' });
+    });
+
+    it('stops a script that outgrows its memory', async () => {
+        await expect(run('function run() { const a = []; for (;;) a.push({ n: a.length }); }', { memoryMb: 8, timeoutMs: 5000 }))
+            .rejects.toMatchObject({ code: 'SCRIPT_ERROR', details: expect.objectContaining({ reason: 'memory' }) });
+    });
+});
@@ -0,0 +1,271 @@
+/**
+ * Script Sandbox
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - User-authored code never runs in the app: CUSTOM step scripts run here, isolated
+ *
+ * A script runs in QuickJS (`quickjs-emscripten`), a separate JavaScript engine compiled to
+ * WebAssembly, so it shares no objects, prototypes or constructors with Node: however it
+ * climbs (`this.constructor.constructor`, `Function('return this')()`), it only reaches its
+ * own bare globals - no `require`, `process`, timers, network or filesystem. QuickJS caps
+ * its memory and interrupts it at its deadline. The engine itself runs in a worker thread
+ * with an empty environment, terminated if it overruns, so a script never blocks the app.
+ * The input and context go in as JSON text and the result comes back as JSON text.
+ *
+ * The script defines `run(input, context)` (or exports it, as `run` or default) and returns
+ * a JSON value or a promise of one. `console.log` lines are kept and returned with it.
+ */
+
+import vm from 'vm';
+import { Worker } from 'worker_threads';
+import { ScriptError } from '@/lib/core/errors';
+
+export const SCRIPT_LIMITS = {
+    maxScriptChars: 20000,
+    defaultTimeoutMs: 1000,
+    minTimeoutMs: 50,
+    maxTimeoutMs: 10000,
+    defaultMemoryMb: 32,
+    minMemoryMb: 8,
+    maxMemoryMb: 256,
+};
+
+// Results beyond this are rejected rather than stored in the task
+const MAX_RESULT_CHARS = 1_000_000;
+const MAX_LOG_LINES = 50;
+
+// Starting the worker and loading QuickJS is not the script's time; the hard stop allows for it
+const WORKER_STARTUP_GRACE_MS = 2000;
+
+// The worker's own heap (QuickJS's memory is a WebAssembly buffer, capped separately)
+const WORKER_HEAP_MB = 64;
+const SCRIPT_STACK_BYTES = 1024 * 1024;
+
+export type ScriptLanguage = 'javascript' | 'typescript';
+
+export interface ScriptOutcome {
+    result: unknown;
+    logs: string[];
+}
+
+// Runs inside the worker thread: evaluates the script in a QuickJS context and settles its
+// promises. The engine is never disposed: the worker is terminated once it answers.
+const SANDBOX_WORKER = `
+const { parentPort, workerData } = require('worker_threads');
+const { getQuickJS, shouldInterruptAfterDeadline } = require('quickjs-emscripten');
+
+const deadline = Date.now() + workerData.timeoutMs;
+
+function reasonOf(error) {
+    const message = String((error && error.message) || error);
+    if (message === 'interrupted') return 'timeout';
+    if (/out of memory/.test(message)) return 'memory';
+    return error && error.name === 'SyntaxError' ? 'compile' : 'runtime';
+}
+
+function failure(error) {
+    return { error: String((error && error.message) || error), reason: reasonOf(error) };
+}
+
+function evaluate(quickjs) {
+    const runtime = quickjs.newRuntime();
+    runtime.setMemoryLimit(workerData.memoryMb * 1024 * 1024);
+    runtime.setMaxStackSize(workerData.stackBytes);
+    runtime.setInterruptHandler(shouldInterruptAfterDeadline(deadline));
+    const context = runtime.newContext();
+
+    const evaluated = context.evalCode(workerData.code, 'custom-step.js');
+    if (evaluated.error) return failure(context.dump(evaluated.error));
+    evaluated.value.dispose();
+
+    // No timers exist, so the script is done once no promise jobs are left
+    for (;;) {
+        const jobs = runtime.executePendingJobs();
+        if (jobs.error) return failure(context.dump(jobs.error));
+        if (jobs.value === 0) break;
+    }
+
+    const outcome = context.dump(context.getProp(context.global, '__outcome'));
+    if (typeof outcome !== 'string') return { error: 'run() returned a promise that never settled', reason: 'runtime' };
+
+    // run() may have caught the interrupt or the memory error; neither lets it finish
+    const parsed = JSON.parse(outcome);
+    if (Date.now() >= deadline) return { error: 'interrupted', reason: 'timeout', logs: parsed.logs };
+    if (parsed.error !== undefined) parsed.reason = parsed.reason === 'runtime' ? reasonOf(parsed.error) : parsed.reason;
+    return parsed;
+}
+
+getQuickJS()
+    .then(evaluate)
+    .catch(failure)
+    .then((outcome) => parentPort.postMessage(JSON.stringify(outcome)));
+`;
+
+/**
+ * Run a CUSTOM step script with `input` and `context` under the given limits.
+ * Throws ScriptError when the script fails to compile, throws, overruns its time or
+ * memory, or returns something that is not JSON.
+ */
+export async function runSandboxedScript(
+    script: { source: string; language?: ScriptLanguage },
+    input: unknown,
+    context: unknown,
+    options: { timeoutMs?: number; memoryMb?: number; signal?: AbortSignal } = {}
+): Promise<ScriptOutcome> {
+    const timeoutMs = clamp(options.timeoutMs ?? SCRIPT_LIMITS.defaultTimeoutMs, SCRIPT_LIMITS.minTimeoutMs, SCRIPT_LIMITS.maxTimeoutMs);
+    const memoryMb = clamp(options.memoryMb ?? SCRIPT_LIMITS.defaultMemoryMb, SCRIPT_LIMITS.minMemoryMb, SCRIPT_LIMITS.maxMemoryMb);
+
+    if (script.source.length > SCRIPT_LIMITS.maxScriptChars) {
+        throw new ScriptError(`Scripts are limited to ${SCRIPT_LIMITS.maxScriptChars} characters`, 'compile');
+    }
+
+    const source = script.language === 'typescript' ? await transpileTypeScript(script.source) : script.source;
+    const message = await runInWorker(buildContextCode(source, input, context), timeoutMs, memoryMb, options.signal);
+
+    if (message.length > MAX_RESULT_CHARS) {
+        throw new ScriptError(`Script result is larger than ${MAX_RESULT_CHARS} characters`, 'result');
+    }
+
+    const outcome = JSON.parse(message) as { result?: unknown; logs?: string[]; error?: string; reason?: ScriptErrorReason };
+    if (outcome.error !== undefined) {
+        const reason = outcome.reason ?? 'runtime';
+        throw new ScriptError(
+            reason === 'timeout' ? `Script timed out after ${timeoutMs}ms` : `Script failed: ${outcome.error}`,
+            reason,
+            { logs: outcome.logs ?? [] }
+        );
+    }
+
+    return { result: outcome.result ?? null, logs: outcome.logs ?? [] };
+}
+
+/**
+ * A syntax error in a JavaScript script, or null. Compiles without running anything;
+ * TypeScript is checked when it is transpiled, at run time.
+ */
+export function findScriptSyntaxError(source: string): string | null {
+    try {
+        new vm.Script(source, { filename: 'custom-step.js' });
+        return null;
+    } catch (error: any) {
+        return error.message;
+    }
+}
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+type ScriptErrorReason = ConstructorParameters<typeof ScriptError>[1];
+
+/**
+ * The script, wrapped so it runs `run` and leaves its outcome as JSON text in `__outcome`.
+ * Input and context are embedded as string literals and parsed inside the context.
+ */
+function buildContextCode(source: string, input: unknown, context: unknown): string {
+    const literal = (value: unknown) => JSON.stringify(JSON.stringify(value ?? null));
+
+    return `'use strict';
+var exports = {};
+var __logs = [];
+var __outcome;
+var console = (function () {
+    function log() {
+        if (__logs.length >= ${MAX_LOG_LINES}) return;
+        __logs.push(Array.prototype.map.call(arguments, function (a) {
+            if (typeof a === 'string') return a;
+            try { return JSON.stringify(a); } catch (e) { return String(a); }
+        }).join(' '));
+    }
+    return { log: log, info: log, warn: log, error: log };
+})();
+${source}
+;(function () {
+    var fn = typeof run === 'function' ? run : typeof exports.run === 'function' ? exports.run : exports.default;
+    function fail(error, reason) {
+        __outcome = JSON.stringify({ error: String((error && error.message) || error), reason: reason, logs: __logs });
+    }
+    if (typeof fn !== 'function') return fail('The script must define a function run(input, context)', 'compile');
+
+    var input = JSON.parse(${literal(input)});
+    var context = JSON.parse(${literal(context)});
+    Promise.resolve()
+        .then(function () { return fn(input, context); })
+        .then(function (value) {
+            var json;
+            try { json = JSON.stringify(value === undefined ? null : value); } catch (e) { return fail('The result is not JSON: ' + e.message, 'result'); }
+            if (json === undefined) return fail('The result is not JSON', 'result');
+            __outcome = '{"result":' + json + ',"logs":' + JSON.stringify(__logs) + '}';
+        }, function (error) { fail(error, 'runtime'); });
+})();
+`;
+}
+
+function runInWorker(code: string, timeoutMs: number, memoryMb: number, signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let settled = false;
+        const worker = new Worker(SANDBOX_WORKER, {
+            eval: true,
+            workerData: { code, timeoutMs, memoryMb, stackBytes: SCRIPT_STACK_BYTES },
+            env: {},
+            stdout: true,
+            stderr: true,
+            resourceLimits: {
+                maxOldGenerationSizeMb: WORKER_HEAP_MB,
+                maxYoungGenerationSizeMb: Math.ceil(WORKER_HEAP_MB / 8),
+                stackSizeMb: 4,
+            },
+        });
+
+        const finish = (error: Error | null, message?: string) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            void worker.terminate();
+            if (error) reject(error);
+            else resolve(message!);
+        };
+
+        // Backstop for a worker that never answers (QuickJS itself is interrupted at the deadline)
+        const timer = setTimeout(() => {
+            finish(new ScriptError(`Script timed out after ${timeoutMs}ms`, 'timeout'));
+        }, timeoutMs + WORKER_STARTUP_GRACE_MS);
+
+        const onAbort = () => finish(new ScriptError('Script was stopped', 'timeout'));
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener('abort', onAbort);
+
+        worker.on('message', (message: string) => finish(null, message));
+        worker.on('error', (error: Error & { code?: string }) => {
+            finish(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+                ? new ScriptError(`Script ran out of memory (limit ${memoryMb} MB)`, 'memory')
+                : new ScriptError(`Script failed: ${error.message}`, 'runtime'));
+        });
+        worker.on('exit', (exitCode) => {
+            finish(new ScriptError(`Script stopped unexpectedly (exit code ${exitCode})`, 'runtime'));
+        });
+    });
+}
+
+// TypeScript is a runtime dependency for this; it is only loaded for TypeScript scripts
+async function transpileTypeScript(source: string): Promise<string> {
+    const ts = await import('typescript');
+
+    const output = ts.transpileModule(source, {
+        compilerOptions: { target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.CommonJS },
+        reportDiagnostics: true,
+    });
+
+    const diagnostic = output.diagnostics?.[0];
+    if (diagnostic) {
+        throw new ScriptError(`Script failed to compile: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`, 'compile');
+    }
+
+    return output.outputText;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, value));
+}
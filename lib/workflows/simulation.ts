@@ -0,0 +1,95 @@
+/**
+ * Simulated Runs
+ *
+ * Following the constitution:
+ * - Human-in-the-loop for social posting: a simulated run never posts
+ * - Integrations are adapters: simulation swaps them for fixtures, the engine is unchanged
+ *
+ * A simulated run (`WorkflowRun.simulated`) goes through the same engine as a live one.
+ * AI steps use the deterministic `simulated` provider, handlers with a `simulate` method
+ * (the extension, engagement and community steps) return the fixtures below instead of
+ * touching an account, approved posting steps (and community spotlights) record a simulated
+ * post instead of posting, and an approved email sequence records simulated sends.
+ */
+
+import type { CommunityMessage, EmailDelivery, StepType } from '@/lib/core/types';
+
+const FIXTURE_AUTHORS = ['trader_jane', 'builder_bob', 'indie_ivy', 'growth_gus', 'ops_olga', 'dev_dan'];
+
+/**
+ * Feed items a simulated SCAN_FEED "finds", built from the scan's keywords
+ */
+export function simulatedFeedItems(keywords: string, count: number = 6): Array<Record<string, unknown>> {
+    const topics = keywords.split(/[,\n]/).map((k) => k.trim()).filter(Boolean);
+    const pick = (i: number) => topics.length > 0 ? topics[i % topics.length] : 'this problem';
+
+    return Array.from({ length: count }, (_, i) => ({
+        id: `sim-${i + 1}`,
+        text: `Does anyone have a good way to deal with ${pick(i)}? Still struggling with it.`,
+        author: FIXTURE_AUTHORS[i % FIXTURE_AUTHORS.length],
+        url: `https://x.com/${FIXTURE_AUTHORS[i % FIXTURE_AUTHORS.length]}/status/simulated-${i + 1}`,
+        simulated: true,
+    }));
+}
+
+/**
+ * What an approved posting step records in a simulated run instead of queueing the post
+ */
+export function simulatedPostOutput(
+    stepType: StepType,
+    output: Record<string, unknown> | undefined
+): Record<string, unknown> {
+    const replies = Array.isArray(output?.replies) ? output.replies as Array<Record<string, unknown>> : null;
+    const postedAt = new Date().toISOString();
+
+    return {
+        ...output,
+        simulated: true,
+        message: `${stepType} simulated - nothing was posted`,
+        postedAt,
+        ...(replies && {
+            replies: replies.map((reply, i) => ({
+                ...reply,
+                url: `https://x.com/simulated/status/reply-${i + 1}`,
+                postedAt,
+            })),
+        }),
+    };
+}
+
+/**
+ * What one email of an approved EMAIL_SEQ records in a simulated run instead of being sent
+ */
+export function simulatedEmailDeliveries(recipients: string[], emailIndex: number): EmailDelivery[] {
+    const at = new Date().toISOString();
+
+    return recipients.map((recipient, i) => ({
+        recipient,
+        status: 'sent',
+        messageId: `<simulated-${emailIndex + 1}-${i + 1}@launchgrid.local>`,
+        response: '250 Simulated - nothing was sent',
+        at,
+    }));
+}
+
+/**
+ * Channel messages a simulated COMMUNITY_SYNC "reads": a mix of wins and questions
+ */
+export function simulatedCommunityMessages(channelId: string, count: number = 6): CommunityMessage[] {
+    const texts = [
+        'Shipped my first paid plan this week, 3 customers already!',
+        'How do you all handle onboarding emails?',
+        'Hit 1,000 followers after following the launch checklist',
+        'Is there a template for the weekly update post?',
+        'Finally fixed my churn problem - the exit survey helped a lot',
+        'What are people using for analytics?',
+    ];
+    const start = Date.now() - count * 3600_000;
+
+    return Array.from({ length: count }, (_, i) => ({
+        id: `sim-${channelId}-${i + 1}`,
+        author: FIXTURE_AUTHORS[i % FIXTURE_AUTHORS.length],
+        content: texts[i % texts.length],
+        timestamp: new Date(start + i * 3600_000).toISOString(),
+    }));
+}
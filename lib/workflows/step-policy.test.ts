@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { Step, Workflow } from '@/lib/core/types';
+import { isStepTimeout, resolveStepTimeout, withStepTimeout } from './step-policy';
+
+const step = { id: 'step-1', type: 'GENERATE_DRAFT' } as Pick<Step, 'id' | 'type'>;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('resolveStepTimeout', () => {
+    const workflow = (timeout?: number) => ({ config: { timeout } } as Pick<Workflow, 'config'>);
+
+    it('uses the step\'s own timeout first', () => {
+        expect(resolveStepTimeout(workflow(30000), { config: { timeout: 5000 } } as Pick<Step, 'config'>)).toBe(5000);
+    });
+
+    it('falls back to the workflow timeout', () => {
+        expect(resolveStepTimeout(workflow(30000), { config: {} } as Pick<Step, 'config'>)).toBe(30000);
+        expect(resolveStepTimeout(workflow(), { config: {} } as Pick<Step, 'config'>)).toBeUndefined();
+    });
+});
+
+describe('withStepTimeout', () => {
+    it('lets an attempt without a timeout run to completion', async () => {
+        let signal: AbortSignal | undefined;
+        const result = await withStepTimeout(step, undefined, async (s) => {
+            signal = s;
+            await sleep(20);
+            return 'done';
+        });
+
+        expect(result).toBe('done');
+        expect(signal?.aborted).toBe(false);
+    });
+
+    it('fails an attempt that overruns its timeout and aborts its signal', async () => {
+        let signal: AbortSignal | undefined;
+        const attempt = withStepTimeout(step, 10, async (s) => {
+            signal = s;
+            await sleep(100);
+            return 'late';
+        });
+
+        const error = await attempt.catch((e) => e);
+        expect(isStepTimeout(error)).toBe(true);
+        expect(signal?.aborted).toBe(true);
+    });
+});
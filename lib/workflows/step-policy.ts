@@ -0,0 +1,89 @@
+/**
+ * Step Timeouts and Retry Policies
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded: how long a step may run and how it is
+ *   retried are step config, with workflow-wide defaults
+ *
+ * A step's `timeout` (or the workflow's) bounds one attempt; a step that runs longer is
+ * aborted and fails with a StepExecutionError. Its retry policy is resolved when the
+ * step is queued and travels with the job, so the queue applies the backoff and the
+ * retryable error codes (see planRetry in lib/queue).
+ */
+
+import type { RetryPolicy, Step, Workflow } from '@/lib/core/types';
+import { isAppError, StepExecutionError } from '@/lib/core/errors';
+
+const DEFAULT_MAX_RETRIES = 3;
+
+const DEFAULT_RETRY_POLICY: Omit<RetryPolicy, 'maxAttempts'> = {
+    backoff: 'exponential',
+    baseDelayMs: 10_000,
+    maxDelayMs: 10 * 60_000,
+};
+
+/**
+ * The step's retry policy: `config.retryPolicy`, with `config.retries` or
+ * WorkflowConfig.maxRetries giving the attempts when it does not set them
+ */
+export function resolveRetryPolicy(workflow: Pick<Workflow, 'config'>, step: Pick<Step, 'config'>): RetryPolicy {
+    const policy = step.config.retryPolicy || {};
+    const retries = step.config.retries ?? workflow.config?.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    return {
+        maxAttempts: policy.maxAttempts ?? retries + 1,
+        backoff: policy.backoff ?? DEFAULT_RETRY_POLICY.backoff,
+        baseDelayMs: policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+        maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+        ...(policy.retryOn && { retryOn: policy.retryOn }),
+    };
+}
+
+/**
+ * How long one attempt of the step may run, in ms: `config.timeout`, or WorkflowConfig.timeout
+ * when the step sets none. Undefined when neither does.
+ */
+export function resolveStepTimeout(workflow: Pick<Workflow, 'config'>, step: Pick<Step, 'config'>): number | undefined {
+    return step.config.timeout ?? workflow.config?.timeout;
+}
+
+/**
+ * Run a step attempt, failing it with a StepExecutionError once it exceeds `timeoutMs`.
+ * The signal is aborted at the same moment, so work that honours it stops too.
+ * Without a timeout the attempt runs to completion.
+ */
+export async function withStepTimeout<T>(
+    step: Pick<Step, 'id' | 'type'>,
+    timeoutMs: number | undefined,
+    run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    const controller = new AbortController();
+    if (timeoutMs === undefined) {
+        return run(controller.signal);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new StepExecutionError(
+                `Step timed out after ${timeoutMs}ms`,
+                step.id,
+                step.type,
+                { reason: 'timeout', timeoutMs }
+            );
+            controller.abort(error);
+            reject(error);
+        }, timeoutMs);
+    });
+
+    try {
+        return await Promise.race([run(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+export function isStepTimeout(error: unknown): boolean {
+    return isAppError(error) && error.code === 'STEP_EXECUTION_ERROR' && error.details?.reason === 'timeout';
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Step, Task, Workflow } from '@/lib/core/types';
+import type { AIService, AssetService, CommunityService, TaskService } from '@/lib/services';
+import { prepareStepContext } from './step-registry';
+
+/**
+ * Cross-workflow parents (`workflow:<id>.<stepId>`) are read from the other workflow's
+ * latest run of the same kind as the task's own run
+ */
+
+type Row = Record<string, any>;
+
+// Enough of PostgREST for prepareStepContext: eq/in filters, order, limit and single rows
+function fakeSupabase(tables: Record<string, Row[]>): SupabaseClient {
+    const query = (rows: Row[]): any => ({
+        select: () => query(rows),
+        eq: (column: string, value: unknown) => query(rows.filter((r) => r[column] === value)),
+        in: (column: string, values: unknown[]) => query(rows.filter((r) => values.includes(r[column]))),
+        order: (column: string, { ascending }: { ascending: boolean }) =>
+            query([...rows].sort((a, b) => (a[column] - b[column]) * (ascending ? 1 : -1))),
+        limit: (count: number) => query(rows.slice(0, count)),
+        single: async () => ({ data: rows[0] ?? null, error: null }),
+        maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+        then: (resolve: (value: unknown) => void) => resolve({ data: rows, error: null }),
+    });
+    return { from: (table: string) => query(tables[table] ?? []) } as unknown as SupabaseClient;
+}
+
+// Workflow B published once for real (run 1) and was simulated since (run 2)
+const tables = {
+    projects: [{ id: 'project-1', name: 'TradeJournal', context: {} }],
+    pillars: [],
+    steps: [{ id: 'publish', type: 'GENERATE_DRAFT' }],
+    workflow_runs: [
+        { id: 'b-live', workflow_id: 'wf-b', run_number: 1, simulated: false },
+        { id: 'b-simulated', workflow_id: 'wf-b', run_number: 2, simulated: true },
+        { id: 'a-live', workflow_id: 'wf-a', run_number: 1, simulated: false, input: null },
+        { id: 'a-simulated', workflow_id: 'wf-a', run_number: 2, simulated: true, input: null },
+    ],
+};
+
+const parentTasks: Record<string, Partial<Task>> = {
+    'b-live': { stepId: 'publish', runId: 'b-live', status: 'completed', outputData: { title: 'Live draft' } },
+    'b-simulated': { stepId: 'publish', runId: 'b-simulated', status: 'completed', outputData: { title: 'Draft (SIMULATED)' } },
+};
+
+const taskService = {
+    getByStepId: async (stepId: string, runId?: string | null) =>
+        Object.values(parentTasks).find((t) => t.stepId === stepId && t.runId === runId) ?? null,
+    listByRun: async () => [],
+} as unknown as TaskService;
+
+const step: Step = {
+    id: 'review',
+    workflowId: 'wf-a',
+    type: 'REVIEW_CONTENT',
+    config: {},
+    dependencyIds: ['workflow:wf-b.publish'],
+    position: 0,
+    createdAt: new Date(),
+};
+
+const workflow = { id: 'wf-a', projectId: 'project-1', pillarId: 'pillar-1', config: {} } as unknown as Workflow;
+
+function prepare(runId: string, runs = tables.workflow_runs) {
+    return prepareStepContext({
+        supabase: fakeSupabase({ ...tables, workflow_runs: runs }),
+        workflow,
+        steps: [step],
+        step,
+        task: { id: `task-${runId}`, stepId: 'review', runId } as Task,
+        taskService,
+        aiService: { forUsage: () => ({}) } as unknown as AIService,
+        assetService: {} as AssetService,
+        communityService: {} as CommunityService,
+        mode: 'execute',
+    });
+}
+
+describe('prepareStepContext', () => {
+    it('reads a cross-workflow parent from its latest live run, skipping newer simulated runs', async () => {
+        const ctx = await prepare('a-live');
+
+        expect(ctx.simulated).toBe(false);
+        expect(ctx.previousOutput).toEqual({ title: 'Live draft' });
+    });
+
+    it('reads a cross-workflow parent from its latest simulated run in a simulated run', async () => {
+        const ctx = await prepare('a-simulated');
+
+        expect(ctx.simulated).toBe(true);
+        expect(ctx.previousOutput).toEqual({ title: 'Draft (SIMULATED)' });
+    });
+
+    it('gives a live run no parent output when the other workflow was only simulated', async () => {
+        const ctx = await prepare('a-live', tables.workflow_runs.filter((r) => r.id !== 'b-live'));
+
+        expect(ctx.previousOutput).toBeUndefined();
+        expect(ctx.parentOutputs).toEqual({});
+    });
+});
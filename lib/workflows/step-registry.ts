@@ -0,0 +1,448 @@
+/**
+ * Step Handler Registry
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - Adding a step type is a single registration, not an edit to every entry point
+ * - Human-in-the-loop for social posting
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { z } from 'zod';
+import type { AIService, AssetService, CommunityService, ContentTaskContext, TaskService } from '@/lib/services';
+import type { AIGeneration, AIProviderID, ProjectContext, Step, StepType, Task, Workflow } from '@/lib/core/types';
+import { getProviderChain } from '@/lib/services/ai-service';
+import { BusinessRuleError, StepExecutionError } from '@/lib/core/errors';
+import { safeValidateInput, stepDefaultInputs, stepInputSchemas, validateStepOutput } from '@/lib/core/validation';
+import {
+    HUMAN_GATED_STEP_TYPES,
+    dependencyStepId,
+    findUpstreamStepIds,
+    mergeParentOutputs,
+    parseWorkflowRef,
+    resolveStepAliases,
+    stepAliases,
+} from './dag';
+import { evaluateExpression, type ExpressionScope } from './expression';
+import { resolveStepTimeout, withStepTimeout } from './step-policy';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+export type StepRunMode = 'execute' | 'rerun';
+
+export interface StepProjectInfo {
+    id: string;
+    name: string;
+    context: Partial<ProjectContext> & Record<string, unknown>;
+}
+
+export interface StepExecutionContext {
+    supabase: SupabaseClient;
+    workflow: Workflow;
+    step: Step;
+    task: Task;
+    project: StepProjectInfo;
+    pillar: { id: string; name: string } | null;
+    providers: AIProviderID[]; // the project's AI provider, then its fallbacks
+    previousOutput?: Record<string, unknown>; // parent output, merged if there are several (or the run input), plus mapped inputs
+    parentOutputs: Record<string, Record<string, unknown>>; // by dependency ID
+    ancestors: StepAncestor[]; // every upstream step with output, for `$steps` in expressions
+    taskService: TaskService;
+    aiService: AIService;
+    assetService: AssetService;
+    communityService: CommunityService;
+    mode: StepRunMode;
+    simulated: boolean; // the run is a dry run (see simulation.ts)
+    signal?: AbortSignal; // aborted when the attempt times out (see step-policy.ts)
+}
+
+export interface StepAncestor {
+    stepId: string;
+    type?: StepType;
+    output: Record<string, unknown>;
+}
+
+/**
+ * What a handler did with the task.
+ * - output: the handler produced data, the runner records it
+ * - extension_queued / awaiting_approval: the handler already moved the task
+ * - run_workflow: the engine starts a run of another workflow; the task waits for it
+ */
+export type StepOutcome =
+    | { kind: 'output'; data: Record<string, unknown> }
+    | { kind: 'extension_queued'; message: string }
+    | { kind: 'awaiting_approval'; message: string }
+    | { kind: 'run_workflow'; workflowId: string; input: Record<string, unknown> };
+
+export interface StepContract {
+    inputs: string[];  // keys read from the parent step output(s)
+    outputs: string[]; // keys written to this step's output
+}
+
+export interface StepHandler {
+    description: string;
+    contract: StepContract;
+    humanGated: boolean;
+    autoComplete?: boolean; // output completes the task directly instead of going to review
+    inline?: boolean;       // only returns output, never moves its task - can run per item in FOR_EACH
+    execute(ctx: StepExecutionContext): Promise<StepOutcome>;
+    rerun?(ctx: StepExecutionContext): Promise<StepOutcome>;
+    simulate?(ctx: StepExecutionContext): Promise<StepOutcome>; // in simulated runs, instead of touching an account
+}
+
+// ==========================================
+// REGISTRY
+// ==========================================
+
+class StepHandlerRegistry {
+    private handlers: Map<StepType, StepHandler> = new Map();
+
+    /**
+     * Register a handler for one or more step types
+     */
+    register(types: StepType | StepType[], handler: StepHandler): void {
+        for (const type of Array.isArray(types) ? types : [types]) {
+            this.handlers.set(type, handler);
+        }
+    }
+
+    has(type: StepType): boolean {
+        return this.handlers.has(type);
+    }
+
+    /**
+     * Get the handler for a step, failing the step if none is registered
+     */
+    get(step: Pick<Step, 'id' | 'type'>): StepHandler {
+        const handler = this.handlers.get(step.type);
+        if (!handler) {
+            throw new StepExecutionError(
+                `Step type ${step.type} not implemented yet`,
+                step.id,
+                step.type
+            );
+        }
+        return handler;
+    }
+
+    isHumanGated(type: StepType): boolean {
+        return this.handlers.get(type)?.humanGated ?? false;
+    }
+
+    registeredTypes(): StepType[] {
+        return [...this.handlers.keys()];
+    }
+}
+
+// ==========================================
+// SINGLETON INSTANCE
+// ==========================================
+
+export const stepRegistry = new StepHandlerRegistry();
+
+// ==========================================
+// RUNNER
+// ==========================================
+
+/**
+ * Dispatch a step through its handler and record the result.
+ * On execute, output goes to review (human-in-the-loop); on rerun, for
+ * autoComplete handlers, or in an auto-advancing workflow (where review is
+ * left to its human-gated steps, such as picking a hook), it completes directly. Simulated runs use the
+ * handler's `simulate` where it has one. A handler that outlives the step's
+ * timeout fails the step; its late result and task writes are dropped.
+ */
+export async function runStep(ctx: StepExecutionContext): Promise<StepOutcome> {
+    const handler = stepRegistry.get(ctx.step);
+
+    // The handler writes through a TaskService bound to this attempt, so one that outlives
+    // its timeout cannot change the task after it failed (or while its retry runs)
+    const outcome = await withStepTimeout(ctx.step, resolveStepTimeout(ctx.workflow, ctx.step), (signal) => {
+        const attempt = { ...ctx, signal, taskService: ctx.taskService.forAttempt(ctx.task, signal) };
+        return ctx.simulated && handler.simulate
+            ? handler.simulate(attempt)
+            : ctx.mode === 'rerun' && handler.rerun
+                ? handler.rerun(attempt)
+                : handler.execute(attempt);
+    });
+
+    if (outcome.kind === 'output') {
+        assertStepOutput(ctx.step, outcome.data);
+        const taskService = ctx.taskService.forAttempt(ctx.task);
+        const autoAdvanced = ctx.workflow.config?.autoAdvance && !HUMAN_GATED_STEP_TYPES.includes(ctx.step.type);
+        if (ctx.mode === 'rerun' || handler.autoComplete || autoAdvanced) {
+            await taskService.complete(ctx.task.id, outcome.data);
+        } else {
+            await taskService.markForReview(ctx.task.id, outcome.data);
+        }
+    }
+
+    return outcome;
+}
+
+/**
+ * Load project/pillar context and the outputs of a step's parents (its dependencies)
+ */
+export async function prepareStepContext(input: {
+    supabase: SupabaseClient;
+    workflow: Workflow;
+    steps: Step[]; // the step graph of the task's run (its pinned version)
+    step: Step;
+    task: Task;
+    taskService: TaskService;
+    aiService: AIService;
+    assetService: AssetService;
+    communityService: CommunityService;
+    mode: StepRunMode;
+}): Promise<StepExecutionContext> {
+    const { supabase, workflow, step, taskService } = input;
+
+    const { data: project } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', workflow.projectId)
+        .single();
+
+    if (!project) {
+        throw new StepExecutionError('Project not found', step.id, step.type, { projectId: workflow.projectId });
+    }
+
+    const { data: pillar } = await supabase
+        .from('pillars')
+        .select('id, name')
+        .eq('id', workflow.pillarId)
+        .single();
+
+    const context = project.context || {};
+
+    const { data: run } = input.task.runId
+        ? await supabase
+            .from('workflow_runs')
+            .select('input, simulated')
+            .eq('id', input.task.runId)
+            .maybeSingle()
+        : { data: null };
+    const simulated: boolean = run?.simulated ?? false;
+
+    // One parent passes its output through; several are merged into one input.
+    // A parent in another workflow is read from that workflow's latest run of the same
+    // kind, so a live run never picks up a simulated run's fixture output.
+    const parents: Array<{ stepId: string; output: Record<string, unknown> }> = [];
+    for (const parentId of step.dependencyIds) {
+        const ref = parseWorkflowRef(parentId);
+        const parentTask = ref
+            ? await getLatestRunTask(supabase, taskService, ref, simulated)
+            : await taskService.getByStepId(parentId, input.task.runId);
+        if (parentTask?.outputData) {
+            parents.push({ stepId: parentId, output: parentTask.outputData });
+        }
+    }
+
+    let previousOutput = parents.length > 1
+        ? mergeParentOutputs(parents)
+        : parents[0]?.output;
+
+    // Steps without dependencies start from the run's input (set by RUN_WORKFLOW)
+    if (step.dependencyIds.length === 0 && input.task.runId) {
+        previousOutput = run?.input || undefined;
+    }
+
+    const ancestors = await loadAncestors(supabase, taskService, input.steps, step, input.task, parents);
+
+    // Mapped inputs (`config.inputs`) override the parent output; type defaults only fill gaps
+    const explicitInputs = step.config?.inputs as Record<string, string> | undefined;
+    const defaultInputs = stepDefaultInputs[step.type];
+    if (explicitInputs || defaultInputs) {
+        const scope = buildExpressionScope({ step, previousOutput, ancestors });
+        const evaluate = (mappings: Record<string, string> = {}) => Object.fromEntries(
+            Object.entries(mappings).map(([name, expression]) => [name, evaluateExpression(expression, scope)])
+        );
+        previousOutput = { ...evaluate(defaultInputs), ...previousOutput, ...evaluate(explicitInputs) };
+    }
+
+    return {
+        supabase,
+        workflow,
+        step,
+        task: input.task,
+        project: { id: project.id, name: project.name, context },
+        pillar: pillar || null,
+        providers: simulated ? ['simulated'] : getProviderChain(context),
+        previousOutput,
+        parentOutputs: Object.fromEntries(parents.map((p) => [p.stepId, p.output])),
+        ancestors,
+        taskService,
+        // AI calls are charged to this task, and held to the project's spend cap
+        aiService: input.aiService.forUsage({
+            projectId: project.id,
+            workflowId: workflow.id,
+            taskId: input.task.id,
+            spendCapUsd: context.aiSpendCapUsd,
+        }),
+        assetService: input.assetService,
+        communityService: input.communityService,
+        mode: input.mode,
+        simulated,
+    };
+}
+
+/**
+ * Outputs of every step upstream of `step` in this run, plus its parents in other workflows
+ */
+async function loadAncestors(
+    supabase: SupabaseClient,
+    taskService: TaskService,
+    steps: Step[],
+    step: Step,
+    task: Task,
+    parents: Array<{ stepId: string; output: Record<string, unknown> }>
+): Promise<StepAncestor[]> {
+    const graph = steps.map((s) => ({ id: s.id, type: s.type, dependencyIds: s.dependencyIds }));
+    const types = new Map(graph.map((s) => [s.id, s.type]));
+
+    const runTasks = task.runId ? await taskService.listByRun(task.runId) : [];
+    const outputs = new Map(runTasks.filter((t) => t.outputData).map((t) => [t.stepId, t.outputData!]));
+    for (const parent of parents) {
+        outputs.set(parent.stepId, parent.output);
+    }
+
+    const ancestors: StepAncestor[] = [];
+    for (const id of findUpstreamStepIds(graph, step.id)) {
+        const output = outputs.get(id);
+        if (output) ancestors.push({ stepId: id, type: types.get(id), output });
+    }
+
+    const external = parents.filter((p) => parseWorkflowRef(p.stepId));
+    if (external.length > 0) {
+        const { data: externalSteps } = await supabase
+            .from('steps')
+            .select('id, type')
+            .in('id', external.map((p) => dependencyStepId(p.stepId)));
+        const externalTypes = new Map((externalSteps || []).map((s: any) => [s.id as string, s.type as StepType]));
+
+        for (const parent of external) {
+            const stepId = dependencyStepId(parent.stepId);
+            ancestors.push({ stepId, type: externalTypes.get(stepId), output: parent.output });
+        }
+    }
+
+    return ancestors;
+}
+
+/**
+ * Scope for an expression in a step's config: the (merged) parent output's keys at the
+ * top level (and as `$output`), and every upstream step's output under `$steps.<id>` and
+ * its unambiguous aliases (`$steps.select`, `$steps.targets`). Direct parents are also
+ * reachable by alias at the top level, where output keys win over aliases.
+ */
+export function buildExpressionScope(
+    ctx: Pick<StepExecutionContext, 'step' | 'previousOutput' | 'ancestors'>
+): ExpressionScope {
+    const steps: Record<string, unknown> = {};
+    for (const ancestor of ctx.ancestors) {
+        steps[ancestor.stepId] = ancestor.output;
+    }
+    for (const [alias, stepId] of resolveStepAliases(ctx.ancestors.map((a) => ({ id: a.stepId, type: a.type })))) {
+        steps[alias] = steps[stepId];
+    }
+
+    const parentIds = new Set(ctx.step.dependencyIds.map(dependencyStepId));
+    const aliases: Record<string, unknown> = {};
+    for (const ancestor of ctx.ancestors.filter((a) => parentIds.has(a.stepId) && a.type)) {
+        for (const alias of stepAliases(ancestor.type!)) {
+            aliases[alias] = ancestor.output;
+        }
+    }
+
+    const output = ctx.previousOutput ?? null;
+    return { ...aliases, ...ctx.previousOutput, output, $output: output, steps, $steps: steps };
+}
+
+/**
+ * A step's input, checked against its type's input schema. A step that cannot
+ * use its input fails for good rather than being retried.
+ */
+export function readStepInput<T extends keyof typeof stepInputSchemas>(
+    ctx: StepExecutionContext,
+    type: T
+): z.infer<(typeof stepInputSchemas)[T]> {
+    const result = safeValidateInput(stepInputSchemas[type] as z.ZodType, ctx.previousOutput ?? {});
+    if (!result.success) {
+        const problems = result.errors.map((e) => e.field ? `${e.field}: ${e.message}` : e.message).join('; ');
+        throw new BusinessRuleError(`${type} cannot use its input (${problems})`, 'step_input', {
+            stepId: ctx.step.id,
+            errors: result.errors,
+        });
+    }
+    return result.data as z.infer<(typeof stepInputSchemas)[T]>;
+}
+
+/**
+ * Fail a step whose output does not match its type's output schema
+ */
+export function assertStepOutput(step: Pick<Step, 'id' | 'type'>, data: unknown): void {
+    const errors = validateStepOutput(step.type, data);
+    if (errors.length > 0) {
+        const problems = errors.map((e) => e.field ? `${e.field}: ${e.message}` : e.message).join('; ');
+        throw new StepExecutionError(`${step.type} produced invalid output (${problems})`, step.id, step.type, { errors });
+    }
+}
+
+/**
+ * Task of a step in another workflow, from that workflow's latest live (or simulated) run
+ */
+async function getLatestRunTask(
+    supabase: SupabaseClient,
+    taskService: TaskService,
+    ref: { workflowId: string; stepId: string },
+    simulated: boolean
+): Promise<Task | null> {
+    const { data: run } = await supabase
+        .from('workflow_runs')
+        .select('id')
+        .eq('workflow_id', ref.workflowId)
+        .eq('simulated', simulated)
+        .order('run_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    return run ? taskService.getByStepId(ref.stepId, run.id) : null;
+}
+
+/**
+ * Output fields recording which provider produced an AI step's output, which providers
+ * it fell back from, and the tokens and cost it took
+ */
+export function aiProviderOutput(generation: AIGeneration<unknown>): Record<string, unknown> {
+    return {
+        aiProvider: generation.provider,
+        ...(generation.fallbackFrom.length > 0 && { aiFallbackFrom: generation.fallbackFrom }),
+        ...(generation.provider && { aiUsage: generation.usage }),
+    };
+}
+
+/**
+ * Build the AI task context shared by every AI-backed step
+ */
+export function buildContentTaskContext(
+    ctx: StepExecutionContext,
+    options?: { includePreviousOutput?: boolean }
+): ContentTaskContext {
+    const context = ctx.project.context;
+    return {
+        project: {
+            name: ctx.project.name,
+            description: context.description || '',
+            audience: context.audience || 'General Audience',
+            painPoints: context.painPoints || '',
+            budget: context.budget || 0,
+        },
+        pillarName: ctx.pillar?.name || 'Unknown',
+        workflowName: ctx.workflow.name,
+        workflowDescription: ctx.workflow.description || '',
+        stepConfig: ctx.step.config,
+        previousOutput: options?.includePreviousOutput ? ctx.previousOutput : undefined,
+    };
+}
@@ -0,0 +1,199 @@
+/**
+ * AI-Backed Step Handlers
+ *
+ * Following the constitution:
+ * - AI is an enhancement layer, not the core engine
+ * - Handlers call AIService, never a provider directly
+ */
+
+import type { HooksStepConfig, ImageStepConfig } from '@/lib/core/types';
+import { aiProviderOutput, buildContentTaskContext, readStepInput, type StepHandler } from '../step-registry';
+
+const DEFAULT_HOOK_COUNT = 3;
+
+// Landscape card, as shown in X / LinkedIn feeds
+const DEFAULT_IMAGE_SIZE = { width: 1200, height: 675 };
+
+/**
+ * GENERATE_DRAFT / GENERATE_OUTLINE - content generation from project context
+ */
+export const generateContentHandler: StepHandler = {
+    description: 'AI generates a content draft based on the project context',
+    contract: { inputs: [], outputs: ['title', 'content', 'hashtags', 'suggestedImagePrompt'] },
+    humanGated: false,
+    inline: true,
+
+    async execute(ctx) {
+        const generation = await ctx.aiService.generateContent(
+            buildContentTaskContext(ctx, { includePreviousOutput: true }),
+            ctx.providers
+        );
+        return { kind: 'output', data: { ...generation.result, ...aiProviderOutput(generation) } };
+    },
+};
+
+/**
+ * GENERATE_HOOKS - AI writes distinct opening lines to choose from.
+ * The first hook is selected until the user picks another in review; the following
+ * GENERATE_DRAFT opens with `selected_hook`.
+ */
+export const generateHooksHandler: StepHandler = {
+    description: 'AI generates distinct hook variants to pick from',
+    contract: { inputs: [], outputs: ['hooks', 'selected_hook'] },
+    humanGated: false,
+    inline: true,
+
+    async execute(ctx) {
+        const count = (ctx.step.config as HooksStepConfig).count ?? DEFAULT_HOOK_COUNT;
+
+        const generation = await ctx.aiService.generateHooks(
+            buildContentTaskContext(ctx),
+            count,
+            ctx.providers
+        );
+        const hooks = generation.result;
+
+        return {
+            kind: 'output',
+            data: {
+                hooks,
+                selected_hook: hooks[0].hook,
+                title: `Generated ${hooks.length} Hooks`,
+                ...aiProviderOutput(generation),
+            },
+        };
+    },
+};
+
+/**
+ * GENERATE_IMAGE - an image for the parent draft, stored as an asset and attached to
+ * the draft as `image` so the posting step can publish it. Simulated runs always use
+ * the local placeholder renderer.
+ */
+export const generateImageHandler: StepHandler = {
+    description: 'Generates an image for the draft (placeholder card unless a hosted provider is set)',
+    contract: { inputs: [], outputs: ['image'] },
+    humanGated: false,
+    inline: true,
+
+    async execute(ctx) {
+        const config = ctx.step.config as ImageStepConfig;
+        const input = ctx.previousOutput || {};
+        const providerId = ctx.simulated ? 'placeholder' : config.provider ?? 'placeholder';
+
+        const prompt = config.prompt ||
+            textOf(input.suggestedImagePrompt) ||
+            textOf(input.selected_hook) ||
+            textOf(input.title) ||
+            ctx.workflow.name;
+
+        const image = await ctx.aiService.generateImage(
+            {
+                prompt,
+                width: config.width ?? DEFAULT_IMAGE_SIZE.width,
+                height: config.height ?? DEFAULT_IMAGE_SIZE.height,
+                style: config.style,
+                brand: {
+                    name: ctx.project.name,
+                    colors: config.brandColors ?? ctx.project.context.brandColors ?? [],
+                },
+            },
+            providerId
+        );
+
+        const asset = await ctx.assetService.storeImage({
+            projectId: ctx.project.id,
+            taskId: ctx.task.id,
+            runId: ctx.task.runId,
+            provider: providerId,
+            prompt: image.revisedPrompt || prompt,
+            data: image.data,
+            contentType: image.contentType,
+            width: image.width,
+            height: image.height,
+            altText: image.altText,
+        });
+
+        return {
+            kind: 'output',
+            data: {
+                ...input,
+                image: {
+                    assetId: asset.id,
+                    url: await ctx.assetService.getSignedUrl(asset.storagePath),
+                    storagePath: asset.storagePath,
+                    contentType: asset.contentType,
+                    width: asset.width,
+                    height: asset.height,
+                    altText: asset.altText,
+                    provider: asset.provider,
+                },
+            },
+        };
+    },
+};
+
+/**
+ * SELECT_TARGETS - AI filters scanned items down to high-value targets
+ */
+export const selectTargetsHandler: StepHandler = {
+    description: 'AI filters and ranks the best targets for engagement',
+    contract: { inputs: ['found_items'], outputs: ['selected_items', 'rationale'] },
+    humanGated: false,
+    inline: true,
+
+    async execute(ctx) {
+        const foundItems = readStepInput(ctx, 'SELECT_TARGETS').found_items;
+
+        const generation = await ctx.aiService.filterTargets(
+            buildContentTaskContext(ctx),
+            foundItems,
+            ctx.providers
+        );
+        const selectedItems = generation.result;
+
+        return {
+            kind: 'output',
+            data: {
+                selected_items: selectedItems,
+                title: `Selected ${selectedItems.length} High-Value Targets`,
+                rationale: `Filtered from ${foundItems.length} raw candidates.`,
+                ...aiProviderOutput(generation),
+            },
+        };
+    },
+};
+
+/**
+ * GENERATE_REPLIES - AI drafts one reply per selected target
+ */
+export const generateRepliesHandler: StepHandler = {
+    description: 'AI crafts curiosity-generating replies (reviewed before posting)',
+    contract: { inputs: ['selected_items'], outputs: ['replies'] },
+    humanGated: false,
+    inline: true,
+
+    async execute(ctx) {
+        const targets = readStepInput(ctx, 'GENERATE_REPLIES').selected_items;
+
+        const generation = await ctx.aiService.generateReplies(
+            buildContentTaskContext(ctx),
+            targets,
+            ctx.providers
+        );
+        const replies = generation.result;
+
+        return {
+            kind: 'output',
+            data: {
+                replies,
+                title: `Drafted ${replies.length} Replies`,
+                ...aiProviderOutput(generation),
+            },
+        };
+    },
+};
+
+function textOf(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
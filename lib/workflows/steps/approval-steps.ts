@@ -0,0 +1,53 @@
+/**
+ * Human-Gated Step Handlers
+ *
+ * Following the constitution:
+ * - Human-in-the-loop for social posting
+ * - LaunchGrid prepares. User approves and posts.
+ */
+
+import type { StepHandler } from '../step-registry';
+
+/**
+ * Re-presenting a gated step just puts the previous output back in review
+ */
+async function resetForReview(ctx: Parameters<StepHandler['execute']>[0]) {
+    await ctx.taskService.markForReview(ctx.task.id, ctx.previousOutput || {});
+    return { kind: 'awaiting_approval' as const, message: 'Reset for review' };
+}
+
+/**
+ * REVIEW_CONTENT / WAIT_APPROVAL - pause for human approval
+ */
+export const reviewHandler: StepHandler = {
+    description: 'Pause for human approval before proceeding',
+    contract: { inputs: ['*'], outputs: ['*'] },
+    humanGated: true,
+
+    async execute(ctx) {
+        await ctx.taskService.markForReview(ctx.task.id, ctx.previousOutput || {});
+        return { kind: 'awaiting_approval', message: 'Content ready for review' };
+    },
+
+    rerun: resetForReview,
+};
+
+/**
+ * POST_API / POST_REPLY / POST_EXTENSION - require approval before posting
+ */
+export const postHandler: StepHandler = {
+    description: 'Publish approved content (approval required before anything is posted)',
+    contract: { inputs: ['*'], outputs: ['pending_action'] },
+    humanGated: true,
+
+    async execute(ctx) {
+        await ctx.taskService.markForReview(ctx.task.id, {
+            ...ctx.previousOutput,
+            pending_action: ctx.step.type,
+            message: 'Ready to post - awaiting approval',
+        });
+        return { kind: 'awaiting_approval', message: 'Ready to post - awaiting approval' };
+    },
+
+    rerun: resetForReview,
+};
@@ -0,0 +1,91 @@
+/**
+ * Community Step Handlers
+ *
+ * Following the constitution:
+ * - Human-in-the-loop: the spotlight is only posted once approved
+ * - Integrations are adapters: Discord is reached through CommunityService
+ */
+
+import { BusinessRuleError } from '@/lib/core/errors';
+import type { CommunityMessage, CommunitySyncStepConfig } from '@/lib/core/types';
+import { aiProviderOutput, assertStepOutput, buildContentTaskContext, type StepExecutionContext, type StepHandler, type StepOutcome } from '../step-registry';
+import { simulatedCommunityMessages } from '../simulation';
+
+const DEFAULT_LOOKBACK_HOURS = 24;
+const DEFAULT_MAX_MESSAGES = 200;
+
+/**
+ * COMMUNITY_SYNC - read a Discord channel's recent messages, have AI pick out member wins
+ * and questions, and draft a spotlight announcement. The draft waits in review; approving
+ * it posts `content` through the user's Discord webhook.
+ */
+export const communitySyncHandler: StepHandler = {
+    description: 'Reads a Discord channel and drafts a spotlight of member wins and questions (posted on approval)',
+    contract: { inputs: [], outputs: ['channelId', 'messageCount', 'summary', 'wins', 'questions', 'content'] },
+    humanGated: true,
+
+    async execute(ctx) {
+        const config = ctx.step.config as CommunitySyncStepConfig;
+        const messages = await ctx.communityService.readChannel(config.channelId, {
+            since: new Date(Date.now() - lookbackHours(config) * 3600_000),
+            maxMessages: config.maxMessages ?? DEFAULT_MAX_MESSAGES,
+        });
+
+        return { kind: 'output', data: await draftSpotlight(ctx, messages) };
+    },
+
+    // A redrafted spotlight goes back to review rather than completing unposted
+    async rerun(ctx) {
+        const outcome = await this.execute(ctx);
+        return outcome.kind === 'output' ? sendToReview(ctx, outcome.data) : outcome;
+    },
+
+    // Summarizes fixture messages instead of reading the channel
+    async simulate(ctx) {
+        const config = ctx.step.config as CommunitySyncStepConfig;
+        const data = await draftSpotlight(ctx, simulatedCommunityMessages(config.channelId));
+        return ctx.mode === 'rerun' ? sendToReview(ctx, data) : { kind: 'output', data };
+    },
+};
+
+async function sendToReview(ctx: StepExecutionContext, data: Record<string, unknown>): Promise<StepOutcome> {
+    assertStepOutput(ctx.step, data);
+    await ctx.taskService.markForReview(ctx.task.id, data);
+    return { kind: 'awaiting_approval', message: 'Community spotlight ready for review' };
+}
+
+function lookbackHours(config: CommunitySyncStepConfig): number {
+    return config.lookbackHours ?? DEFAULT_LOOKBACK_HOURS;
+}
+
+async function draftSpotlight(ctx: StepExecutionContext, messages: CommunityMessage[]): Promise<Record<string, unknown>> {
+    const config = ctx.step.config as CommunitySyncStepConfig;
+
+    // Nothing to celebrate - fail visibly rather than ask AI to invent a spotlight
+    if (messages.length === 0) {
+        throw new BusinessRuleError(
+            `No member messages in channel ${config.channelId} in the last ${lookbackHours(config)} hours`,
+            'COMMUNITY_CHANNEL_EMPTY',
+            { channelId: config.channelId }
+        );
+    }
+
+    const generation = await ctx.aiService.summarizeCommunity(
+        buildContentTaskContext(ctx),
+        messages,
+        lookbackHours(config),
+        ctx.providers
+    );
+    const digest = generation.result;
+
+    return {
+        channelId: config.channelId,
+        messageCount: messages.length,
+        summary: digest.summary,
+        wins: digest.wins,
+        questions: digest.questions,
+        content: digest.spotlight,
+        title: `Community Spotlight: ${digest.wins.length} wins, ${digest.questions.length} questions`,
+        ...aiProviderOutput(generation),
+    };
+}
@@ -0,0 +1,53 @@
+/**
+ * Custom Script Step Handler
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - No AI, no integrations: a script only reshapes data, in the sandbox
+ */
+
+import type { CustomStepConfig } from '@/lib/core/types';
+import { runSandboxedScript } from '../sandbox';
+import { buildExpressionScope, type StepHandler } from '../step-registry';
+
+/**
+ * CUSTOM - run the user's `run(input, context)` script over the parent output, e.g. to
+ * dedupe targets or reformat a thread. A returned object becomes the step output; any
+ * other JSON value is output as `result`. Lines the script logs are kept in `scriptLogs`.
+ */
+export const customScriptHandler: StepHandler = {
+    description: 'Run your own script to reshape the previous output (sandboxed: no network or files)',
+    contract: { inputs: ['*'], outputs: ['*'] },
+    humanGated: false,
+    autoComplete: true,
+    inline: true,
+
+    async execute(ctx) {
+        const config = ctx.step.config as CustomStepConfig;
+        const input = { ...ctx.previousOutput };
+        delete input._parents;
+
+        const { result, logs } = await runSandboxedScript(
+            { source: config.script, language: config.language },
+            input,
+            {
+                project: { id: ctx.project.id, name: ctx.project.name, ...ctx.project.context },
+                pillar: ctx.pillar,
+                workflow: { id: ctx.workflow.id, name: ctx.workflow.name },
+                step: { id: ctx.step.id },
+                steps: buildExpressionScope(ctx).steps,
+                simulated: ctx.simulated,
+            },
+            { timeoutMs: config.timeoutMs, memoryMb: config.memoryMb, signal: ctx.signal }
+        );
+
+        const isObject = !!result && typeof result === 'object' && !Array.isArray(result);
+        return {
+            kind: 'output',
+            data: {
+                ...(isObject ? result as Record<string, unknown> : { result }),
+                ...(logs.length > 0 && { scriptLogs: logs }),
+            },
+        };
+    },
+};
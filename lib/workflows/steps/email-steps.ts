@@ -0,0 +1,59 @@
+/**
+ * Email Step Handlers
+ *
+ * Following the constitution:
+ * - Human-in-the-loop: nothing is sent until the sequence is approved
+ * - Handlers call AIService, never a provider directly
+ */
+
+import type { EmailSequenceStepConfig } from '@/lib/core/types';
+import { aiProviderOutput, assertStepOutput, buildContentTaskContext, readStepInput, type StepExecutionContext, type StepHandler } from '../step-registry';
+
+const DEFAULT_EMAIL_COUNT = 3;
+
+/**
+ * EMAIL_SEQ - AI writes an N-email sequence for a segment. The sequence waits in review;
+ * approving it schedules one SEND_EMAIL job per email (see lib/queue/email-jobs.ts).
+ * Recipients come from `config.recipients`, else the parent output's `recipients`.
+ */
+export const emailSequenceHandler: StepHandler = {
+    description: 'AI writes an email sequence for a segment (sent on approval, one email at a time)',
+    contract: { inputs: ['recipients'], outputs: ['emails', 'segment', 'recipients'] },
+    humanGated: true,
+
+    async execute(ctx) {
+        return { kind: 'output', data: await writeSequence(ctx) };
+    },
+
+    // A rewritten sequence goes back to review rather than completing unsent
+    async rerun(ctx) {
+        const data = await writeSequence(ctx);
+        assertStepOutput(ctx.step, data);
+        await ctx.taskService.markForReview(ctx.task.id, data);
+        return { kind: 'awaiting_approval', message: 'Email sequence ready for review' };
+    },
+};
+
+async function writeSequence(ctx: StepExecutionContext): Promise<Record<string, unknown>> {
+    const config = ctx.step.config as EmailSequenceStepConfig;
+    const input = readStepInput(ctx, 'EMAIL_SEQ');
+
+    const generation = await ctx.aiService.generateEmailSequence(
+        buildContentTaskContext(ctx),
+        { count: config.count ?? DEFAULT_EMAIL_COUNT, segment: config.segment, goal: config.goal },
+        ctx.providers
+    );
+    const emails = generation.result;
+
+    // Each address once, however it was cased
+    const recipients = [...new Set((config.recipients ?? input.recipients ?? []).map((r) => r.trim().toLowerCase()))];
+
+    return {
+        emails,
+        segment: config.segment,
+        recipients,
+        ...(config.from && { from: config.from }),
+        title: `${emails.length}-Email Sequence: ${config.segment}`,
+        ...aiProviderOutput(generation),
+    };
+}
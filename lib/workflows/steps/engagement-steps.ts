@@ -0,0 +1,76 @@
+/**
+ * Engagement Step Handlers
+ *
+ * Following the constitution:
+ * - Analytics Service owns metrics and performance
+ */
+
+import { readStepInput, type StepHandler } from '../step-registry';
+
+/**
+ * TRACK_ENGAGEMENT - create engagement tracking records for posted content.
+ * Reads `posts`, which defaults to the upstream `replies` (map it in config.inputs otherwise).
+ */
+export const trackEngagementHandler: StepHandler = {
+    description: 'Monitor likes, replies, DMs from posted content',
+    contract: { inputs: ['posts'], outputs: ['tracking_count'] },
+    humanGated: false,
+
+    async execute(ctx) {
+        const postedContent = readStepInput(ctx, 'TRACK_ENGAGEMENT').posts || [];
+
+        if (postedContent.length > 0) {
+            const trackingRecords = postedContent.map((item: any) => ({
+                id: `eng_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+                project_id: ctx.project.id,
+                task_id: ctx.task.id,
+                platform: 'twitter',
+                post_type: item.type || 'reply',
+                post_url: item.url || null,
+                original_target_author: item.targetAuthor || item.author || null,
+                original_post_text: item.targetText || item.text || null,
+                our_reply_text: item.reply || item.content || null,
+                status: item.url ? 'posted' : 'pending',
+                posted_at: item.postedAt || new Date().toISOString(),
+            }));
+
+            const { error } = await ctx.supabase
+                .from('engagement_metrics')
+                .insert(trackingRecords);
+
+            if (error) {
+                console.error('[Engagement] Failed to create tracking records:', error);
+            }
+        }
+
+        const trackingCount = postedContent.length;
+        return {
+            kind: 'output',
+            data: {
+                title: 'Engagement Tracking Started',
+                message: `Tracking ${trackingCount} posted items`,
+                tracking_count: trackingCount,
+                instruction: 'Check back later to see engagement stats. You can also manually update metrics.',
+            },
+        };
+    },
+
+    // Simulated posts are not tracked; nothing was posted
+    async simulate(ctx) {
+        const trackingCount = (readStepInput(ctx, 'TRACK_ENGAGEMENT').posts || []).length;
+        return {
+            kind: 'output',
+            data: {
+                title: 'Engagement Tracking (SIMULATED)',
+                message: `Would track ${trackingCount} posted items`,
+                tracking_count: trackingCount,
+            },
+        };
+    },
+
+    // Rerunning must not duplicate tracking records
+    async rerun(ctx) {
+        await ctx.taskService.markForReview(ctx.task.id, ctx.previousOutput || {});
+        return { kind: 'awaiting_approval', message: 'Reset for review' };
+    },
+};
@@ -0,0 +1,40 @@
+/**
+ * Browser Extension Step Handlers
+ *
+ * Following the constitution:
+ * - Integrations are adapters, not business logic holders
+ * - Human-in-the-loop for social posting
+ */
+
+import type { StepHandler } from '../step-registry';
+import { simulatedFeedItems } from '../simulation';
+
+/**
+ * SCAN_FEED - queue a feed scan for the browser extension
+ */
+export const scanFeedHandler: StepHandler = {
+    description: 'Extension scans X/Twitter for relevant conversations to engage with',
+    contract: { inputs: [], outputs: ['found_items'] },
+    humanGated: false,
+
+    async execute(ctx) {
+        // Pain points double as keywords for the smart search fallback
+        await ctx.taskService.queueForExtension(ctx.task.id, {
+            keywords: ctx.project.context.painPoints || 'trading tips',
+        });
+
+        return { kind: 'extension_queued', message: 'Task queued for browser extension' };
+    },
+
+    // Resolves straight away with fixture posts instead of waiting for the extension
+    async simulate(ctx) {
+        const foundItems = simulatedFeedItems(String(ctx.project.context.painPoints || 'trading tips'));
+        return {
+            kind: 'output',
+            data: {
+                found_items: foundItems,
+                title: `Found ${foundItems.length} Posts (SIMULATED)`,
+            },
+        };
+    },
+};
@@ -0,0 +1,51 @@
+/**
+ * Built-in Step Handlers
+ *
+ * Registers every built-in step type with the registry.
+ * Import from here (not step-registry) so the built-ins are always loaded.
+ */
+
+import { stepRegistry } from '../step-registry';
+import { generateContentHandler, generateHooksHandler, generateImageHandler, selectTargetsHandler, generateRepliesHandler } from './ai-steps';
+import { scanFeedHandler } from './extension-steps';
+import { reviewHandler, postHandler } from './approval-steps';
+import { trackEngagementHandler } from './engagement-steps';
+import { conditionHandler, runWorkflowHandler } from './logic-steps';
+import { forEachHandler } from './loop-steps';
+import { emailSequenceHandler } from './email-steps';
+import { communitySyncHandler } from './community-steps';
+import { customScriptHandler } from './custom-steps';
+
+stepRegistry.register(['GENERATE_DRAFT', 'GENERATE_OUTLINE'], generateContentHandler);
+stepRegistry.register('GENERATE_HOOKS', generateHooksHandler);
+stepRegistry.register('GENERATE_IMAGE', generateImageHandler);
+stepRegistry.register('SCAN_FEED', scanFeedHandler);
+stepRegistry.register('SELECT_TARGETS', selectTargetsHandler);
+stepRegistry.register('GENERATE_REPLIES', generateRepliesHandler);
+stepRegistry.register(['REVIEW_CONTENT', 'WAIT_APPROVAL'], reviewHandler);
+stepRegistry.register(['POST_API', 'POST_REPLY', 'POST_EXTENSION'], postHandler);
+stepRegistry.register('TRACK_ENGAGEMENT', trackEngagementHandler);
+stepRegistry.register('EMAIL_SEQ', emailSequenceHandler);
+stepRegistry.register('COMMUNITY_SYNC', communitySyncHandler);
+stepRegistry.register('CONDITION', conditionHandler);
+stepRegistry.register('FOR_EACH', forEachHandler);
+stepRegistry.register('RUN_WORKFLOW', runWorkflowHandler);
+stepRegistry.register('CUSTOM', customScriptHandler);
+
+export { settleForEachTask } from './loop-steps';
+
+export {
+    stepRegistry,
+    runStep,
+    prepareStepContext,
+    buildContentTaskContext,
+    buildExpressionScope,
+    readStepInput,
+    assertStepOutput,
+    type StepAncestor,
+    type StepHandler,
+    type StepOutcome,
+    type StepContract,
+    type StepExecutionContext,
+    type StepRunMode,
+} from '../step-registry';
@@ -0,0 +1,60 @@
+/**
+ * Control-Flow Step Handlers
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - No AI, no integrations: these steps only route execution
+ */
+
+import type { ConditionStepConfig, RunWorkflowStepConfig } from '@/lib/core/types';
+import { evaluateCondition } from '../expression';
+import { buildExpressionScope, type StepHandler } from '../step-registry';
+
+/**
+ * CONDITION - evaluate an expression over parent outputs and pick a branch.
+ * The parent output is passed through so steps on either branch can use it.
+ */
+export const conditionHandler: StepHandler = {
+    description: 'Route execution down the true or false branch based on previous outputs',
+    contract: { inputs: ['*'], outputs: ['*', 'condition'] },
+    humanGated: false,
+    autoComplete: true,
+
+    async execute(ctx) {
+        const config = ctx.step.config as ConditionStepConfig;
+        const result = evaluateCondition(config.expression, buildExpressionScope(ctx));
+
+        return {
+            kind: 'output',
+            data: {
+                ...ctx.previousOutput,
+                condition: { expression: config.expression, result },
+            },
+        };
+    },
+};
+
+/**
+ * RUN_WORKFLOW - run another workflow of the project with the parent output as its input,
+ * or only the keys mapped in `config.inputs`.
+ * The engine starts the run; the task completes with the run's final output.
+ */
+export const runWorkflowHandler: StepHandler = {
+    description: 'Run another workflow of the project and wait for its output',
+    contract: { inputs: ['*'], outputs: ['*', 'run'] },
+    humanGated: false,
+
+    async execute(ctx) {
+        const config = ctx.step.config as RunWorkflowStepConfig;
+        const previous = ctx.previousOutput || {};
+
+        let input: Record<string, unknown> = { ...previous };
+        delete input._parents;
+
+        if (config.inputs) {
+            input = Object.fromEntries(Object.keys(config.inputs).map((name) => [name, previous[name] ?? null]));
+        }
+
+        return { kind: 'run_workflow', workflowId: config.workflowId, input };
+    },
+};
@@ -0,0 +1,187 @@
+/**
+ * Loop Step Handlers
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - Human-in-the-loop: with per-item approval, each item is approved on its own
+ *
+ * FOR_EACH runs a short chain of inline steps once per item of a list from the
+ * parent output. Every item has its own task_items record, so one failing item
+ * does not sink the batch and a retry only reruns the items that did not finish.
+ */
+
+import { BusinessRuleError, StepExecutionError } from '@/lib/core/errors';
+import type { ForEachStepConfig, Task, TaskItem } from '@/lib/core/types';
+import type { TaskService } from '@/lib/services';
+import { mergeParentOutputs } from '../dag';
+import { evaluateExpression } from '../expression';
+import { assertStepOutput, buildExpressionScope, stepRegistry, type StepExecutionContext, type StepHandler } from '../step-registry';
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+
+// Items that still need a human decision or are still running
+const OPEN_ITEM_STATUSES: TaskItem['status'][] = ['pending', 'in_progress', 'review_needed'];
+
+// ==========================================
+// HELPERS
+// ==========================================
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            await fn(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Input for one item: the parent output with the list narrowed to this item, so
+ * list-oriented handlers (e.g. GENERATE_REPLIES over `selected_items`) work per item.
+ */
+function itemInput(ctx: StepExecutionContext, config: ForEachStepConfig, item: TaskItem): Record<string, unknown> {
+    const input: Record<string, unknown> = { ...ctx.previousOutput, item: item.item, item_index: item.itemIndex };
+    if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(config.itemsPath.trim())) {
+        input[config.itemsPath.trim()] = [item.item];
+    }
+    return input;
+}
+
+/**
+ * Combined output of the finished items: array outputs are concatenated (e.g. `replies`),
+ * plus a per-item status list
+ */
+function summarizeItems(items: TaskItem[]): Record<string, unknown> {
+    const completed = items.filter((i) => i.status === 'completed');
+    const merged = mergeParentOutputs(completed.map((i) => ({ stepId: String(i.itemIndex), output: i.outputData })));
+    delete merged._parents;
+
+    const failed = items.filter((i) => i.status === 'failed').length;
+    const awaitingReview = items.filter((i) => i.status === 'review_needed').length;
+
+    return {
+        ...merged,
+        title: `${completed.length} of ${items.length} items done`
+            + (awaitingReview ? `, ${awaitingReview} awaiting review` : '')
+            + (failed ? `, ${failed} failed` : ''),
+        items: items.map((i) => ({
+            index: i.itemIndex,
+            status: i.status,
+            error: i.errorMessage,
+        })),
+        succeeded: completed.length,
+        failed,
+    };
+}
+
+/**
+ * Run the chain for one item; failures are recorded on the item, not thrown
+ */
+async function runItem(
+    ctx: StepExecutionContext,
+    config: ForEachStepConfig,
+    chain: Array<{ handler: StepHandler; sub: ForEachStepConfig['steps'][number] }>,
+    item: TaskItem
+): Promise<void> {
+    await ctx.taskService.updateItemStatus(item.id, 'in_progress');
+
+    try {
+        let output = itemInput(ctx, config, item);
+        for (const { handler, sub } of chain) {
+            const step = { ...ctx.step, type: sub.type, config: sub.config || {} };
+            const outcome = await handler.execute({ ...ctx, step, previousOutput: output, parentOutputs: {} });
+            if (outcome.kind !== 'output') {
+                throw new StepExecutionError(`${sub.type} did not produce output`, ctx.step.id, sub.type);
+            }
+            assertStepOutput(step, outcome.data);
+            output = { ...outcome.data, item: item.item, item_index: item.itemIndex };
+        }
+
+        await ctx.taskService.updateItemStatus(
+            item.id,
+            config.requireItemApproval ? 'review_needed' : 'completed',
+            output
+        );
+    } catch (error: any) {
+        await ctx.taskService.updateItemStatus(item.id, 'failed', undefined, error.message || String(error));
+    }
+}
+
+/**
+ * Complete a FOR_EACH task once no item is waiting on a human.
+ * Returns the completed task, or null if items are still open.
+ */
+export async function settleForEachTask(taskService: TaskService, taskId: string): Promise<Task | null> {
+    const task = await taskService.getById(taskId);
+    if (task.status !== 'awaiting_approval') return null;
+
+    const items = await taskService.listItems(taskId);
+    if (items.some((i) => OPEN_ITEM_STATUSES.includes(i.status))) return null;
+
+    return taskService.complete(taskId, summarizeItems(items));
+}
+
+// ==========================================
+// HANDLER
+// ==========================================
+
+/**
+ * FOR_EACH - run a chain of inline steps once per item of a list
+ */
+export const forEachHandler: StepHandler = {
+    description: 'Run a chain of steps once per item of a list (e.g. once per selected target)',
+    contract: { inputs: ['*'], outputs: ['*', 'items', 'succeeded', 'failed'] },
+    humanGated: false,
+
+    async execute(ctx) {
+        const config = ctx.step.config as ForEachStepConfig;
+
+        const chain = config.steps.map((sub) => ({ sub, handler: stepRegistry.get({ id: ctx.step.id, type: sub.type }) }));
+        const notInline = chain.filter((c) => !c.handler.inline).map((c) => c.sub.type);
+        if (notInline.length > 0) {
+            throw new BusinessRuleError(
+                `Step type(s) ${notInline.join(', ')} cannot run inside FOR_EACH`,
+                'for_each_inline_steps',
+                { stepId: ctx.step.id }
+            );
+        }
+
+        const list = evaluateExpression(config.itemsPath, buildExpressionScope(ctx));
+        if (!Array.isArray(list)) {
+            throw new BusinessRuleError(
+                `FOR_EACH items path "${config.itemsPath}" is not a list`,
+                'for_each_items',
+                { stepId: ctx.step.id }
+            );
+        }
+
+        // Existing items are kept: a retry or rerun only picks up unfinished ones
+        const items = await ctx.taskService.createItems(ctx.task.id, list);
+        const todo = items.filter((i) => i.status === 'pending' || i.status === 'in_progress' || i.status === 'failed');
+        const concurrency = Math.min(Math.max(config.concurrency ?? DEFAULT_CONCURRENCY, 1), MAX_CONCURRENCY);
+
+        await runWithConcurrency(todo, concurrency, (item) => runItem(ctx, config, chain, item));
+
+        const settled = await ctx.taskService.listItems(ctx.task.id);
+        if (settled.length > 0 && settled.every((i) => i.status === 'failed')) {
+            throw new StepExecutionError(
+                `All ${settled.length} items failed: ${settled[0].errorMessage}`,
+                ctx.step.id,
+                ctx.step.type
+            );
+        }
+
+        const summary = summarizeItems(settled);
+        if (settled.some((i) => i.status === 'review_needed')) {
+            await ctx.taskService.requestApproval(ctx.task.id, summary);
+            return { kind: 'awaiting_approval', message: 'Items ready for review' };
+        }
+
+        return { kind: 'output', data: summary };
+    },
+};
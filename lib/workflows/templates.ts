@@ -8,10 +8,15 @@
  */
 
 import type { StepType } from '@/lib/core/types';
+import { WORKFLOW_DOCUMENT_FORMAT, WORKFLOW_DOCUMENT_VERSION, type WorkflowDocument } from '@/lib/core/validation';
+import { parseWorkflowDocument } from './document';
 
+// Same shape as a workflow document step; without dependsOn a step runs after the one before it
 export interface WorkflowTemplateStep {
+    key?: string;
     type: StepType;
     config?: Record<string, unknown>;
+    dependsOn?: string[];
 }
 
 export interface WorkflowTemplate {
@@ -23,6 +28,7 @@ export interface WorkflowTemplate {
     platform: 'twitter' | 'discord' | 'email' | 'all';
     steps: WorkflowTemplateStep[];
     estimatedTime?: string; // e.g., "5-10 min"
+    version?: number; // organization templates: the version new workflows are created from
 }
 
 /**
@@ -147,6 +153,46 @@ export function getTemplatesGroupedByCategory(): Record<string, WorkflowTemplate
     }, {} as Record<string, WorkflowTemplate[]>);
 }
 
+/**
+ * A template as a workflow document, ready to import
+ */
+export function documentFromTemplate(template: WorkflowTemplate, name?: string): WorkflowDocument {
+    const keys = template.steps.map((step, i) => step.key || `step_${i + 1}`);
+    return parseWorkflowDocument({
+        format: WORKFLOW_DOCUMENT_FORMAT,
+        version: WORKFLOW_DOCUMENT_VERSION,
+        workflow: { name: name || template.name, description: template.description },
+        steps: template.steps.map((step, i) => ({
+            key: keys[i],
+            type: step.type,
+            config: step.config || {},
+            dependsOn: step.dependsOn ?? (i > 0 ? [keys[i - 1]] : []),
+        })),
+    });
+}
+
+/**
+ * Define a template from a JSON or YAML workflow document (name and description
+ * default to the document's)
+ */
+export function templateFromDocument(
+    source: string | WorkflowDocument,
+    meta: Omit<WorkflowTemplate, 'name' | 'description' | 'steps'> & Partial<Pick<WorkflowTemplate, 'name' | 'description'>>
+): WorkflowTemplate {
+    const document = parseWorkflowDocument(source);
+    return {
+        ...meta,
+        name: meta.name || document.workflow.name,
+        description: meta.description || document.workflow.description || '',
+        steps: document.steps.map((step) => ({
+            key: step.key,
+            type: step.type,
+            config: step.config,
+            dependsOn: step.dependsOn,
+        })),
+    };
+}
+
 /**
  * Category display names
  */
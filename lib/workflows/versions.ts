@@ -0,0 +1,153 @@
+/**
+ * Workflow Versions
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded
+ * - Events are the system truth: a published version is never changed
+ *
+ * The steps table is a workflow's draft. Publishing snapshots the draft's step graph
+ * with its step IDs; runs are pinned to the version they started on, so edits to the
+ * draft only reach runs started after the next publish.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Step, StepType, VersionStep } from '@/lib/core/types';
+
+export type StepChangeKind = 'added' | 'removed' | 'changed';
+export type StepField = 'type' | 'config' | 'dependencies' | 'position';
+
+// How one step differs between two versions (or a version and the draft)
+export interface StepChange {
+    stepId: string;
+    type: StepType;
+    kind: StepChangeKind;
+    fields: StepField[]; // what changed, for `changed`
+    before?: VersionStep;
+    after?: VersionStep;
+}
+
+// ==========================================
+// SNAPSHOTS
+// ==========================================
+
+/**
+ * The part of each step a version records, in position order
+ */
+export function snapshotSteps(steps: Array<Step | VersionStep>): VersionStep[] {
+    return [...steps]
+        .sort((a, b) => a.position - b.position)
+        .map((s) => ({
+            id: s.id,
+            type: s.type,
+            config: s.config || {},
+            dependencyIds: s.dependencyIds || [],
+            position: s.position,
+        }));
+}
+
+/**
+ * Steps of a version as steps of its workflow
+ */
+export function versionStepsToSteps(workflowId: string, steps: VersionStep[], createdAt: Date): Step[] {
+    return snapshotSteps(steps).map((s) => ({ ...s, workflowId, createdAt }));
+}
+
+// ==========================================
+// DIFF
+// ==========================================
+
+/**
+ * Steps added, removed or changed going from `before` to `after`. Steps are matched by ID.
+ */
+export function diffVersionSteps(before: VersionStep[], after: VersionStep[]): StepChange[] {
+    const previous = new Map(before.map((s) => [s.id, s]));
+    const next = new Map(after.map((s) => [s.id, s]));
+    const changes: StepChange[] = [];
+
+    for (const step of snapshotSteps(after)) {
+        const old = previous.get(step.id);
+        if (!old) {
+            changes.push({ stepId: step.id, type: step.type, kind: 'added', fields: [], after: step });
+            continue;
+        }
+
+        const fields: StepField[] = [];
+        if (old.type !== step.type) fields.push('type');
+        if (!sameValue(old.config, step.config)) fields.push('config');
+        if (!sameValue([...old.dependencyIds].sort(), [...step.dependencyIds].sort())) fields.push('dependencies');
+        if (old.position !== step.position) fields.push('position');
+
+        if (fields.length > 0) {
+            changes.push({ stepId: step.id, type: step.type, kind: 'changed', fields, before: old, after: step });
+        }
+    }
+
+    for (const step of snapshotSteps(before)) {
+        if (!next.has(step.id)) {
+            changes.push({ stepId: step.id, type: step.type, kind: 'removed', fields: [], before: step });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Deep equality for JSON values; object key order does not matter
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) &&
+            a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+    const keys = (o: object) => Object.keys(o).filter((k) => (o as Record<string, unknown>)[k] !== undefined);
+    const aKeys = keys(a);
+    return aKeys.length === keys(b).length &&
+        aKeys.every((k) => sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+// ==========================================
+// PINNED STEPS
+// ==========================================
+
+/**
+ * A step as published in the version a run is pinned to. Falls back to the step's row
+ * (the draft) for runs without a version. For callers without a service context.
+ */
+export async function loadRunStep(
+    supabase: SupabaseClient,
+    runId: string | null | undefined,
+    stepId: string
+): Promise<VersionStep | null> {
+    if (runId) {
+        const { data: run } = await supabase
+            .from('workflow_runs')
+            .select('workflow_id, workflow_version')
+            .eq('id', runId)
+            .maybeSingle();
+
+        if (run?.workflow_version) {
+            const { data: version } = await supabase
+                .from('workflow_versions')
+                .select('steps')
+                .eq('workflow_id', run.workflow_id)
+                .eq('version', run.workflow_version)
+                .maybeSingle();
+
+            const step = ((version?.steps || []) as VersionStep[]).find((s) => s.id === stepId);
+            if (step) return step;
+        }
+    }
+
+    const { data: row } = await supabase
+        .from('steps')
+        .select('id, type, config, dependency_ids, position')
+        .eq('id', stepId)
+        .maybeSingle();
+
+    return row
+        ? { id: row.id, type: row.type, config: row.config || {}, dependencyIds: row.dependency_ids || [], position: row.position }
+        : null;
+}
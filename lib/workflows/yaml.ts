@@ -0,0 +1,355 @@
+/**
+ * YAML Subset
+ *
+ * Following the constitution:
+ * - Workflows are declarative, not hardcoded: a definition can live in git as YAML
+ *
+ * Enough YAML for workflow documents: block mappings and sequences, flow `[a, b]` /
+ * `{ a: 1 }` collections, plain and quoted scalars, `|` / `>` block scalars and
+ * comments. Anchors, aliases, tags and multi-document streams are not supported.
+ */
+
+import { ValidationError } from '@/lib/core/errors';
+
+// ==========================================
+// TYPES
+// ==========================================
+
+interface Line {
+    index: number;  // position in the source lines
+    indent: number;
+    text: string;   // without indentation or trailing comment
+}
+
+interface ParserState {
+    lines: string[];
+    index: number;
+}
+
+// Strings that would read back as something else when unquoted
+const RESERVED_PLAIN = /^(true|false|null|yes|no|on|off|y|n|~)$/i;
+const NUMERIC = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/;
+const SAFE_PLAIN = /^[A-Za-z_$][\w$.\/@()-]*(?: [\w$.\/@()-]+)*$/;
+
+// ==========================================
+// STRINGIFY
+// ==========================================
+
+/**
+ * Write a JSON-like value as block-style YAML
+ */
+export function stringifyYaml(value: unknown): string {
+    return (isBlock(value) ? writeBlock(value, 0) : [writeScalar(value)]).join('\n') + '\n';
+}
+
+function isBlock(value: unknown): value is unknown[] | Record<string, unknown> {
+    if (Array.isArray(value)) return value.length > 0;
+    return isPlainObject(value) && Object.values(value).some((v) => v !== undefined);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function writeBlock(value: unknown[] | Record<string, unknown>, indent: number): string[] {
+    const pad = ' '.repeat(indent);
+
+    if (Array.isArray(value)) {
+        return value.flatMap((item) => {
+            if (!isBlock(item)) return [`${pad}- ${writeScalar(item)}`];
+            const [first, ...rest] = writeBlock(item, indent + 2);
+            return [`${pad}- ${first.trimStart()}`, ...rest];
+        });
+    }
+
+    return Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .flatMap(([key, v]) => isBlock(v)
+            ? [`${pad}${writeString(key)}:`, ...writeBlock(v, indent + 2)]
+            : [`${pad}${writeString(key)}: ${writeScalar(v)}`]);
+}
+
+function writeScalar(value: unknown): string {
+    if (Array.isArray(value)) return '[]';
+    if (isPlainObject(value)) return '{}';
+    if (typeof value === 'string') return writeString(value);
+    if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+    if (typeof value === 'boolean') return String(value);
+    return 'null';
+}
+
+// JSON strings are valid double-quoted YAML
+function writeString(value: string): string {
+    return SAFE_PLAIN.test(value) && !RESERVED_PLAIN.test(value) ? value : JSON.stringify(value);
+}
+
+// ==========================================
+// PARSE
+// ==========================================
+
+/**
+ * Parse a YAML document into plain objects, arrays and scalars
+ */
+export function parseYaml(source: string): unknown {
+    const state: ParserState = { lines: source.replace(/\r\n?/g, '\n').split('\n'), index: 0 };
+
+    const first = peek(state);
+    if (!first) return null;
+
+    const value = isSequenceItem(first.text) || splitKey(first.text)
+        ? parseBlock(state, first.indent)
+        : parseValue(state, first.text, first, -1, true);
+
+    const rest = peek(state);
+    if (rest) fail(rest, 'Unexpected indentation');
+    return value;
+}
+
+function fail(line: Pick<Line, 'index'>, message: string): never {
+    throw new ValidationError('Invalid YAML', [{ field: 'document', message: `Line ${line.index + 1}: ${message}` }]);
+}
+
+/**
+ * Next line with content, skipping blank lines, comments and document markers
+ */
+function peek(state: ParserState): Line | null {
+    for (let i = state.index; i < state.lines.length; i++) {
+        const raw = state.lines[i];
+        const indent = raw.length - raw.trimStart().length;
+        if (raw.slice(0, indent).includes('\t')) fail({ index: i }, 'Tabs are not allowed in indentation');
+
+        const text = stripComment(raw.slice(indent)).trimEnd();
+        if (!text || text === '---' || text === '...') {
+            state.index = i + 1;
+            continue;
+        }
+        return { index: i, indent, text };
+    }
+    return null;
+}
+
+function stripComment(text: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') i++;
+            else if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i);
+        }
+    }
+    return text;
+}
+
+function isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * `key: rest` of a mapping entry, or null if the text is not one
+ */
+function splitKey(text: string): { key: string; rest: string } | null {
+    if (text.startsWith('"') || text.startsWith("'")) {
+        const end = findQuoteEnd(text, 0);
+        const after = end < 0 ? null : text.slice(end + 1).match(/^\s*:(\s|$)/);
+        if (!after) return null;
+        return { key: parseQuoted(text.slice(0, end + 1)), rest: text.slice(end + 1 + after[0].length).trim() };
+    }
+    if (/^[\[{|>]/.test(text) || isSequenceItem(text)) return null;
+
+    const match = text.match(/:(\s|$)/);
+    if (!match || match.index === 0) return null;
+    return { key: text.slice(0, match.index).trim(), rest: text.slice(match.index! + 1).trim() };
+}
+
+function parseBlock(state: ParserState, indent: number): unknown {
+    const line = peek(state)!;
+    return isSequenceItem(line.text) ? parseSequence(state, indent) : parseMapping(state, indent);
+}
+
+function parseSequence(state: ParserState, indent: number): unknown[] {
+    const items: unknown[] = [];
+
+    for (let line = peek(state); line && line.indent === indent && isSequenceItem(line.text); line = peek(state)) {
+        const rest = line.text.slice(1).trimStart();
+
+        if (!rest) {
+            state.index = line.index + 1;
+            const next = peek(state);
+            items.push(next && next.indent > indent ? parseBlock(state, next.indent) : null);
+            continue;
+        }
+
+        // `- key: value` / `- - item` open a nested block; reread the line as that block's first line
+        const itemIndent = indent + (line.text.length - rest.length);
+        if (isSequenceItem(rest) || splitKey(rest)) {
+            state.lines[line.index] = ' '.repeat(itemIndent) + rest;
+            items.push(parseBlock(state, itemIndent));
+        } else {
+            state.index = line.index + 1;
+            items.push(parseValue(state, rest, line, indent));
+        }
+    }
+
+    return items;
+}
+
+function parseMapping(state: ParserState, indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (let line = peek(state); line && line.indent === indent; line = peek(state)) {
+        const entry = splitKey(line.text);
+        if (!entry) fail(line, 'Expected "key: value"');
+        if (entry.key === '__proto__') fail(line, 'Key __proto__ is not allowed');
+        if (Object.prototype.hasOwnProperty.call(result, entry.key)) fail(line, `Duplicate key ${entry.key}`);
+
+        state.index = line.index + 1;
+        if (entry.rest) {
+            result[entry.key] = parseValue(state, entry.rest, line, indent);
+            continue;
+        }
+
+        // A nested block, or a sequence at the same indentation as the key
+        const next = peek(state);
+        result[entry.key] = next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))
+            ? parseBlock(state, next.indent)
+            : null;
+    }
+
+    return result;
+}
+
+/**
+ * Value after `key:` or `-`: a block scalar, a flow collection or a scalar
+ */
+function parseValue(state: ParserState, text: string, line: Line, parentIndent: number, consume = false): unknown {
+    if (consume) state.index = line.index + 1;
+
+    const blockScalar = text.match(/^([|>])([+-]?)$/);
+    if (blockScalar) return parseBlockScalar(state, parentIndent, blockScalar[1] === '>', blockScalar[2]);
+
+    if (text.startsWith('[') || text.startsWith('{')) return parseFlow(text, line);
+    return parseScalar(text, line);
+}
+
+function parseBlockScalar(state: ParserState, parentIndent: number, folded: boolean, chomping: string): string {
+    const lines: string[] = [];
+    let indent = -1;
+
+    while (state.index < state.lines.length) {
+        const raw = state.lines[state.index];
+        const lineIndent = raw.length - raw.trimStart().length;
+        if (raw.trim() && lineIndent <= parentIndent) break;
+        if (raw.trim() && indent < 0) indent = lineIndent;
+        lines.push(raw.trim() ? raw.slice(indent) : '');
+        state.index++;
+    }
+
+    while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
+    const body = folded
+        ? lines.reduce((text, l, i) => i === 0 ? l : text + (l && lines[i - 1] ? ' ' : '\n') + l, '')
+        : lines.join('\n');
+
+    if (chomping === '-') return body;
+    return chomping === '+' ? body + '\n' : (body ? body + '\n' : '');
+}
+
+function parseScalar(text: string, line: Line): unknown {
+    if (text.startsWith('"') || text.startsWith("'")) {
+        if (findQuoteEnd(text, 0) !== text.length - 1) fail(line, 'Unterminated string');
+        return parseQuoted(text);
+    }
+    if (text === 'null' || text === 'Null' || text === 'NULL' || text === '~') return null;
+    if (text === 'true' || text === 'True' || text === 'TRUE') return true;
+    if (text === 'false' || text === 'False' || text === 'FALSE') return false;
+    if (NUMERIC.test(text)) return Number(text);
+    return text;
+}
+
+function findQuoteEnd(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (quote === '"' && text[i] === '\\') i++;
+        else if (text[i] === quote) {
+            if (quote === "'" && text[i + 1] === "'") i++;
+            else return i;
+        }
+    }
+    return -1;
+}
+
+function parseQuoted(text: string): string {
+    if (text.startsWith("'")) return text.slice(1, -1).replace(/''/g, "'");
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new ValidationError('Invalid YAML', [{ field: 'document', message: `Invalid string ${text}` }]);
+    }
+}
+
+/**
+ * `[a, "b", { c: 1 }]` / `{ a: [1, 2] }` on one line
+ */
+function parseFlow(text: string, line: Line): unknown {
+    let pos = 0;
+    const skipSpace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    const readValue = (isKey: boolean): unknown => {
+        skipSpace();
+        const ch = text[pos];
+
+        if (ch === '[' || ch === '{') {
+            const close = ch === '[' ? ']' : '}';
+            const list: unknown[] = [];
+            const map: Record<string, unknown> = {};
+            pos++;
+            skipSpace();
+
+            while (text[pos] !== close) {
+                if (ch === '[') {
+                    list.push(readValue(false));
+                } else {
+                    const key = String(readValue(true));
+                    skipSpace();
+                    if (text[pos] !== ':') fail(line, `Expected ":" after ${key}`);
+                    pos++;
+                    if (key === '__proto__') fail(line, 'Key __proto__ is not allowed');
+                    map[key] = readValue(false);
+                }
+                skipSpace();
+                if (text[pos] === ',') {
+                    pos++;
+                    skipSpace();
+                } else if (text[pos] !== close) {
+                    fail(line, `Expected "," or "${close}"`);
+                }
+            }
+            pos++;
+            return ch === '[' ? list : map;
+        }
+
+        if (ch === '"' || ch === "'") {
+            const end = findQuoteEnd(text, pos);
+            if (end < 0) fail(line, 'Unterminated string');
+            const value = parseQuoted(text.slice(pos, end + 1));
+            pos = end + 1;
+            return value;
+        }
+
+        const start = pos;
+        while (pos < text.length && !',[]{}'.includes(text[pos]) && !(isKey && text[pos] === ':')) pos++;
+        const plain = text.slice(start, pos).trim();
+        if (!plain) fail(line, 'Expected a value');
+        return isKey ? plain : parseScalar(plain, line);
+    };
+
+    const value = readValue(false);
+    skipSpace();
+    if (pos < text.length) fail(line, `Unexpected "${text.slice(pos)}"`);
+    return value;
+}
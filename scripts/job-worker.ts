@@ -0,0 +1,85 @@
+/**
+ * Job Queue Worker
+ *
+ * Standalone process that runs queued workflow steps and email sends.
+ * Usage: npm run worker:jobs [-- --once]
+ *
+ * Env:
+ *   JOB_WORKER_POLL_MS       idle poll interval (default 2000)
+ *   JOB_WORKER_BATCH         jobs claimed and run concurrently per poll (default 4)
+ *   JOB_VISIBILITY_MS        claim lifetime before another worker may retry (default 300000)
+ *   SMTP_HOST, SMTP_PORT     mail server for EMAIL_SEQ sends (e.g. localhost:1025 for a mail catcher)
+ *   SMTP_SECURE              "true" for TLS from the start (port 465); otherwise STARTTLS when offered
+ *   SMTP_USER, SMTP_PASS     AUTH PLAIN credentials, if the server needs them
+ *   SMTP_FROM                default sender, e.g. "Acme <hello@acme.com>"
+ */
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+import { createAdminClient } from '../utils/supabase/admin';
+import {
+    JobQueue,
+    JobWorker,
+    createExecuteStepHandler,
+    createStepDeadLetterHandler,
+    createSendEmailHandler,
+    createSendEmailDeadLetterHandler,
+} from '../lib/queue';
+
+const pollMs = Number(process.env.JOB_WORKER_POLL_MS || 2000);
+const runOnce = process.argv.includes('--once');
+
+async function main() {
+    const supabase = createAdminClient();
+
+    const worker = new JobWorker(new JobQueue(supabase), {
+        batchSize: Number(process.env.JOB_WORKER_BATCH || 4),
+        visibilityTimeoutMs: Number(process.env.JOB_VISIBILITY_MS || 300000),
+    })
+        .register('EXECUTE_STEP', createExecuteStepHandler(supabase), createStepDeadLetterHandler(supabase))
+        .register('SEND_EMAIL', createSendEmailHandler(supabase), createSendEmailDeadLetterHandler(supabase));
+
+    const poll = async () => {
+        const results = await worker.poll();
+        for (const result of results) {
+            const label = result.status === 'completed'
+                ? 'completed'
+                : `${result.status.toUpperCase()} (${result.error})`;
+            console.log(`[JobWorker] ${result.type} ${result.jobId} attempt ${result.attempt} ${label}`);
+        }
+        return results.length;
+    };
+
+    console.log(`[JobWorker] Starting ${worker.workerId} (poll ${pollMs}ms${runOnce ? ', single pass' : ''})`);
+    if (runOnce) {
+        await poll();
+        return;
+    }
+
+    let stopping = false;
+    const shutdown = () => {
+        console.log('[JobWorker] Shutting down after current job');
+        stopping = true;
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    while (!stopping) {
+        let processed = 0;
+        try {
+            processed = await poll();
+        } catch (error) {
+            console.error('[JobWorker] Poll failed:', error);
+        }
+        // Drain back-to-back while there is work, otherwise wait
+        if (processed === 0 && !stopping) {
+            await new Promise((resolve) => setTimeout(resolve, pollMs));
+        }
+    }
+}
+
+main().catch((error) => {
+    console.error('[JobWorker] Fatal:', error);
+    process.exit(1);
+});
@@ -0,0 +1,72 @@
+/**
+ * Workflow Scheduler Worker
+ *
+ * Standalone process that launches scheduled workflow runs.
+ * Usage: npm run worker:scheduler [-- --once]
+ *
+ * Env:
+ *   SCHEDULER_TICK_MS       tick interval (default 30000)
+ *   SCHEDULER_CATCH_UP      skip | latest | all (default latest)
+ *   SCHEDULER_GRACE_MS      lateness still treated as on time (default 60000)
+ */
+
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+import { createAdminClient } from '../utils/supabase/admin';
+import { WorkflowScheduler, SupabaseScheduleStore, SupabaseRunLauncher } from '../lib/scheduler';
+import type { CatchUpPolicy } from '../lib/core/types';
+
+const tickMs = Number(process.env.SCHEDULER_TICK_MS || 30000);
+const runOnce = process.argv.includes('--once');
+
+async function main() {
+    const supabase = createAdminClient();
+
+    const scheduler = new WorkflowScheduler(
+        new SupabaseScheduleStore(supabase),
+        new SupabaseRunLauncher(supabase),
+        {
+            catchUpPolicy: (process.env.SCHEDULER_CATCH_UP as CatchUpPolicy) || 'latest',
+            misfireGraceMs: Number(process.env.SCHEDULER_GRACE_MS || 60000),
+        }
+    );
+
+    const tick = async () => {
+        const fires = await scheduler.tick();
+        for (const fire of fires) {
+            const label = fire.error ? `FAILED (${fire.error})` : fire.late ? 'fired late' : 'fired';
+            console.log(`[Scheduler] ${fire.workflowId} @ ${fire.scheduledFor.toISOString()} ${label}`);
+        }
+    };
+
+    console.log(`[Scheduler] Starting (tick ${tickMs}ms${runOnce ? ', single pass' : ''})`);
+    await tick();
+    if (runOnce) return;
+
+    let running = false;
+    const interval = setInterval(async () => {
+        if (running) return; // never overlap ticks
+        running = true;
+        try {
+            await tick();
+        } catch (error) {
+            console.error('[Scheduler] Tick failed:', error);
+        } finally {
+            running = false;
+        }
+    }, tickMs);
+
+    const shutdown = () => {
+        console.log('[Scheduler] Shutting down');
+        clearInterval(interval);
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+    console.error('[Scheduler] Fatal:', error);
+    process.exit(1);
+});
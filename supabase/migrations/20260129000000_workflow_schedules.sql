@@ -0,0 +1,27 @@
+-- Workflow Schedules
+-- Scheduler state for workflows with a cron `config.schedule`
+-- Following the constitution: "Workflows are triggered by events" and "Able to run without UI"
+
+create table if not exists workflow_schedules (
+    workflow_id uuid primary key references workflows(id) on delete cascade,
+    expression text not null, -- cron expression this state was computed from
+    next_fire_at timestamptz not null,
+    last_fired_at timestamptz,
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_workflow_schedules_next on workflow_schedules(next_fire_at);
+
+-- Enable RLS (the scheduler worker uses the service role)
+alter table workflow_schedules enable row level security;
+
+create policy "Users can view own workflow schedules" on workflow_schedules
+    for select using (
+        workflow_id in (
+            select w.id from workflows w
+            join projects p on p.id = w.project_id
+            where p.user_id = auth.uid()
+        )
+    );
+
+comment on table workflow_schedules is 'Next/last fire times per scheduled workflow - owned by the Workflow Engine scheduler';
@@ -0,0 +1,85 @@
+-- Jobs Queue
+-- Durable background work (step execution) on Postgres, claimed with FOR UPDATE SKIP LOCKED
+-- Following the constitution: "AI is asynchronous and stateless" and "Able to run without UI"
+
+create table if not exists jobs (
+    id uuid primary key default gen_random_uuid(),
+    type text not null, -- EXECUTE_STEP
+    payload jsonb not null default '{}'::jsonb,
+    status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'dead')),
+    priority integer not null default 0,
+    attempts integer not null default 0,
+    max_attempts integer not null default 4,
+    run_at timestamptz not null default now(), -- not claimable before this (retry backoff)
+    locked_by text, -- worker id holding the job
+    locked_until timestamptz, -- visibility timeout: expired locks are claimable again
+    last_error text,
+    organization_id uuid,
+    project_id uuid references projects(id) on delete cascade,
+    workflow_id uuid references workflows(id) on delete cascade,
+    task_id uuid references tasks(id) on delete cascade,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    completed_at timestamptz
+);
+
+create index if not exists idx_jobs_claimable on jobs(status, run_at, priority desc);
+create index if not exists idx_jobs_locked_until on jobs(locked_until) where status = 'running';
+create index if not exists idx_jobs_task on jobs(task_id);
+
+-- Claim up to p_limit jobs for a worker.
+-- Running jobs whose visibility timeout expired are reclaimed (the worker died mid-job),
+-- unless they have used all attempts, in which case they are dead-lettered.
+create or replace function claim_jobs(
+    p_worker_id text,
+    p_limit integer default 1,
+    p_visibility_seconds integer default 300,
+    p_types text[] default null
+)
+returns setof jobs
+language plpgsql
+as $$
+begin
+    update jobs
+    set status = 'dead',
+        locked_by = null,
+        locked_until = null,
+        last_error = coalesce(last_error, 'Visibility timeout expired on final attempt'),
+        updated_at = now()
+    where status = 'running'
+      and locked_until < now()
+      and attempts >= max_attempts;
+
+    return query
+    update jobs
+    set status = 'running',
+        attempts = jobs.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_visibility_seconds),
+        updated_at = now()
+    where jobs.id in (
+        select j.id from jobs j
+        where (
+            (j.status = 'queued' and j.run_at <= now())
+            or (j.status = 'running' and j.locked_until < now())
+        )
+        and (p_types is null or j.type = any(p_types))
+        order by j.priority desc, j.run_at asc
+        limit p_limit
+        for update skip locked
+    )
+    returning jobs.*;
+end;
+$$;
+
+-- Enable RLS (workers and enqueueing use the service role)
+alter table jobs enable row level security;
+
+create policy "Users can view own jobs" on jobs
+    for select using (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+revoke execute on function claim_jobs(text, integer, integer, text[]) from public, anon, authenticated;
+
+comment on table jobs is 'Background job queue with retries and dead-lettering - owned by the Workflow Engine';
@@ -0,0 +1,81 @@
+-- Workflow Runs
+-- Groups the tasks of one workflow execution so history is kept across runs
+-- Following the constitution: "Events are the system truth" - past runs are never overwritten
+
+create table if not exists workflow_runs (
+    id uuid primary key default gen_random_uuid(),
+    workflow_id uuid not null references workflows(id) on delete cascade,
+    project_id uuid not null references projects(id) on delete cascade,
+    run_number integer not null,
+    trigger text not null default 'manual' check (trigger in ('manual', 'schedule', 'api', 'webhook')),
+    status text not null default 'running' check (status in ('running', 'completed', 'failed', 'cancelled')),
+    triggered_by uuid references auth.users(id) on delete set null,
+    scheduled_for timestamptz,
+    error_message text,
+    started_at timestamptz not null default now(),
+    completed_at timestamptz,
+    unique (workflow_id, run_number)
+);
+
+create index if not exists idx_workflow_runs_workflow on workflow_runs(workflow_id, run_number desc);
+
+-- Assign run numbers per workflow (row lock on the workflow serialises concurrent starts)
+create or replace function assign_workflow_run_number()
+returns trigger
+language plpgsql
+as $$
+begin
+    perform 1 from workflows where id = new.workflow_id for update;
+    select coalesce(max(run_number), 0) + 1 into new.run_number
+    from workflow_runs
+    where workflow_id = new.workflow_id;
+    return new;
+end;
+$$;
+
+drop trigger if exists set_workflow_run_number on workflow_runs;
+create trigger set_workflow_run_number
+    before insert on workflow_runs
+    for each row execute function assign_workflow_run_number();
+
+-- Tasks belong to a run
+alter table tasks add column if not exists run_id uuid references workflow_runs(id) on delete cascade;
+create index if not exists idx_tasks_run on tasks(run_id, step_id);
+
+-- Backfill: existing tasks become run #1 of their workflow, still in progress
+insert into workflow_runs (workflow_id, project_id, run_number, trigger, status, started_at)
+select w.id, w.project_id, 1, 'manual', 'running', min(t.created_at)
+from tasks t
+join steps s on s.id = t.step_id
+join workflows w on w.id = s.workflow_id
+where t.run_id is null
+group by w.id, w.project_id
+on conflict (workflow_id, run_number) do nothing;
+
+update tasks t
+set run_id = r.id
+from steps s, workflow_runs r
+where t.run_id is null
+  and s.id = t.step_id
+  and r.workflow_id = s.workflow_id
+  and r.run_number = 1;
+
+-- Enable RLS
+alter table workflow_runs enable row level security;
+
+create policy "Users can view own workflow runs" on workflow_runs
+    for select using (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+create policy "Users can create own workflow runs" on workflow_runs
+    for insert with check (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+create policy "Users can update own workflow runs" on workflow_runs
+    for update using (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+comment on table workflow_runs is 'One execution of a workflow; tasks reference their run - owned by the Workflow Engine';
@@ -0,0 +1,25 @@
+-- Step Dependencies
+-- dependency_ids now drive execution order (a DAG); position is display order only
+-- Workflows created before this had no dependencies and ran strictly by position,
+-- so their steps are chained to keep running one after another
+
+with chained as (
+    select
+        s.id,
+        lag(s.id) over (partition by s.workflow_id order by s.position, s.created_at) as previous_id
+    from steps s
+    where not exists (
+        select 1 from steps d
+        where d.workflow_id = s.workflow_id
+        and cardinality(d.dependency_ids) > 0
+    )
+)
+update steps
+set dependency_ids = array[chained.previous_id]
+from chained
+where steps.id = chained.id
+and chained.previous_id is not null;
+
+create index if not exists idx_steps_dependency_ids on steps using gin (dependency_ids);
+
+comment on column steps.dependency_ids is 'Steps that must complete before this one runs; steps whose dependencies are all done run in parallel';
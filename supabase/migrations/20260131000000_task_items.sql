@@ -0,0 +1,40 @@
+-- Task Items
+-- Per-item records of a FOR_EACH task: each item of the list runs, fails and is
+-- approved on its own, so one bad item does not sink the whole batch
+
+create table if not exists task_items (
+    id uuid primary key default gen_random_uuid(),
+    task_id uuid not null references tasks(id) on delete cascade,
+    project_id uuid not null references projects(id) on delete cascade,
+    item_index integer not null,
+    item jsonb not null default 'null'::jsonb,
+    status text not null default 'pending' check (status in ('pending', 'in_progress', 'review_needed', 'completed', 'failed', 'rejected')),
+    output_data jsonb not null default '{}'::jsonb,
+    error_message text,
+    started_at timestamptz,
+    completed_at timestamptz,
+    created_at timestamptz not null default now(),
+    unique (task_id, item_index)
+);
+
+create index if not exists idx_task_items_task on task_items(task_id, item_index);
+
+-- Enable RLS
+alter table task_items enable row level security;
+
+create policy "Users can view own task items" on task_items
+    for select using (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+create policy "Users can create own task items" on task_items
+    for insert with check (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+create policy "Users can update own task items" on task_items
+    for update using (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+comment on table task_items is 'Per-item state of a FOR_EACH task - owned by the Task Service';
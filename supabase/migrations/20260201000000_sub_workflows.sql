@@ -0,0 +1,24 @@
+-- Sub-Workflows and Cross-Workflow Dependencies
+-- A RUN_WORKFLOW step starts a run of another workflow and waits for it; steps may
+-- also depend on a step of another workflow in the same project (workflow:<id>.<stepId>)
+
+-- Dependencies are step IDs or workflow:<workflowId>.<stepId> references
+drop index if exists idx_steps_dependency_ids;
+alter table steps alter column dependency_ids type text[] using dependency_ids::text[];
+alter table steps alter column dependency_ids set default '{}';
+create index if not exists idx_steps_dependency_ids on steps using gin (dependency_ids);
+
+comment on column steps.dependency_ids is 'Steps that must complete before this one runs (step IDs, or workflow:<workflowId>.<stepId> for a step of another workflow)';
+
+-- Runs started by a RUN_WORKFLOW step
+alter table workflow_runs drop constraint if exists workflow_runs_trigger_check;
+alter table workflow_runs add constraint workflow_runs_trigger_check
+    check (trigger in ('manual', 'schedule', 'api', 'webhook', 'workflow'));
+
+alter table workflow_runs add column if not exists parent_task_id uuid references tasks(id) on delete set null;
+alter table workflow_runs add column if not exists input jsonb;
+
+create index if not exists idx_workflow_runs_parent_task on workflow_runs(parent_task_id) where parent_task_id is not null;
+
+comment on column workflow_runs.parent_task_id is 'RUN_WORKFLOW task that started this run and completes with its output';
+comment on column workflow_runs.input is 'Input passed to the steps of this run that have no dependencies';
@@ -0,0 +1,84 @@
+-- Workflow Templates
+-- Templates users save from their own workflows, shared across their organization.
+-- Every save is a new immutable version (a workflow document); workflows created
+-- from a template record its ID and version in their config.
+-- Actions pass the user's ID as the organization until users join a real one, so
+-- both count as the caller's organization here.
+
+create table if not exists workflow_templates (
+    id uuid primary key default gen_random_uuid(),
+    organization_id uuid not null,
+    created_by uuid references auth.users on delete set null,
+    name text not null,
+    description text not null default '',
+    icon text not null default '🧩',
+    category text not null default 'custom' check (category in ('engagement', 'content', 'growth', 'custom')),
+    platform text not null default 'all' check (platform in ('twitter', 'discord', 'email', 'all')),
+    estimated_time text,
+    latest_version integer not null default 1,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_workflow_templates_org on workflow_templates(organization_id, created_at desc);
+
+create table if not exists workflow_template_versions (
+    id uuid primary key default gen_random_uuid(),
+    template_id uuid not null references workflow_templates(id) on delete cascade,
+    version integer not null,
+    document jsonb not null, -- portable workflow document (lib/workflows/document.ts)
+    source_workflow_id uuid references workflows(id) on delete set null,
+    created_by uuid references auth.users on delete set null,
+    created_at timestamptz not null default now(),
+    unique (template_id, version)
+);
+
+create index if not exists idx_workflow_template_versions_template on workflow_template_versions(template_id, version desc);
+
+-- Keep updated_at current
+create trigger update_workflow_templates_updated_at
+    before update on workflow_templates
+    for each row execute function update_updated_at_column();
+
+-- Enable RLS
+alter table workflow_templates enable row level security;
+alter table workflow_template_versions enable row level security;
+
+create policy "Members can view organization templates" on workflow_templates
+    for select using (
+        organization_id = auth.uid()
+        or organization_id in (select organization_id from organization_members where user_id = auth.uid())
+    );
+
+create policy "Members can create organization templates" on workflow_templates
+    for insert with check (
+        organization_id = auth.uid()
+        or organization_id in (select organization_id from organization_members where user_id = auth.uid())
+    );
+
+create policy "Members can update organization templates" on workflow_templates
+    for update using (
+        organization_id = auth.uid()
+        or organization_id in (select organization_id from organization_members where user_id = auth.uid())
+    );
+
+create policy "Members can delete organization templates" on workflow_templates
+    for delete using (
+        organization_id = auth.uid()
+        or organization_id in (select organization_id from organization_members where user_id = auth.uid())
+    );
+
+-- Versions follow their template; they are never updated
+create policy "Members can view template versions" on workflow_template_versions
+    for select using (
+        template_id in (select id from workflow_templates)
+    );
+
+create policy "Members can create template versions" on workflow_template_versions
+    for insert with check (
+        template_id in (select id from workflow_templates)
+    );
+
+comment on table workflow_templates is 'Organization workflow templates - owned by the Template Service';
+comment on table workflow_template_versions is 'Immutable versions of a workflow template, each a workflow document';
+comment on column workflow_templates.latest_version is 'Version new workflows are created from';
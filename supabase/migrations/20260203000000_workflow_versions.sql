@@ -0,0 +1,68 @@
+-- Workflow Versions
+-- The steps table holds a workflow's draft; publishing snapshots the draft's step graph
+-- as an immutable version. Runs are pinned to the version they started on, so editing
+-- the draft never changes a run in progress. Snapshots keep the step IDs, so tasks
+-- keep pointing at their step rows; steps removed from the draft are only marked removed.
+
+create table if not exists workflow_versions (
+    id uuid primary key default gen_random_uuid(),
+    workflow_id uuid not null references workflows(id) on delete cascade,
+    version integer not null,
+    steps jsonb not null default '[]', -- [{ id, type, config, dependencyIds, position }]
+    note text,
+    published_by uuid references auth.users(id) on delete set null,
+    created_at timestamptz not null default now(),
+    unique (workflow_id, version)
+);
+
+create index if not exists idx_workflow_versions_workflow on workflow_versions(workflow_id, version desc);
+
+alter table workflows add column if not exists published_version integer;
+alter table workflow_runs add column if not exists workflow_version integer;
+alter table steps add column if not exists removed_at timestamptz;
+
+-- Backfill: every workflow's current steps become version 1, and existing runs ran on it
+insert into workflow_versions (workflow_id, version, steps, note)
+select w.id, 1, coalesce((
+    select jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'type', s.type,
+        'config', coalesce(s.config, '{}'::jsonb),
+        'dependencyIds', to_jsonb(coalesce(s.dependency_ids, '{}')),
+        'position', s.position
+    ) order by s.position)
+    from steps s
+    where s.workflow_id = w.id
+), '[]'::jsonb), 'Initial version'
+from workflows w
+on conflict (workflow_id, version) do nothing;
+
+update workflows set published_version = 1 where published_version is null;
+
+update workflow_runs set workflow_version = 1 where workflow_version is null;
+
+-- Enable RLS
+alter table workflow_versions enable row level security;
+
+create policy "Users can view own workflow versions" on workflow_versions
+    for select using (
+        workflow_id in (
+            select w.id from workflows w
+            join projects p on p.id = w.project_id
+            where p.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can create own workflow versions" on workflow_versions
+    for insert with check (
+        workflow_id in (
+            select w.id from workflows w
+            join projects p on p.id = w.project_id
+            where p.user_id = auth.uid()
+        )
+    );
+
+comment on table workflow_versions is 'Published, immutable step graphs of a workflow - owned by the Workflow Service';
+comment on column workflows.published_version is 'Version new runs start on (null until the draft is first published)';
+comment on column workflow_runs.workflow_version is 'Version of the workflow this run is pinned to';
+comment on column steps.removed_at is 'Removed from the draft; kept for published versions and their tasks';
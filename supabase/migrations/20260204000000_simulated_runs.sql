@@ -0,0 +1,11 @@
+-- Simulated Runs
+-- A simulated run goes through every step of a workflow without touching a real account:
+-- AI calls go to a deterministic fake provider, extension steps resolve with fixture data
+-- and posting steps never queue for the extension. Its tasks and outputs are recorded
+-- like any other run.
+
+alter table workflow_runs add column if not exists simulated boolean not null default false;
+
+create index if not exists idx_workflow_runs_workflow_simulated on workflow_runs(workflow_id, simulated, run_number desc);
+
+comment on column workflow_runs.simulated is 'Dry run: fake AI, fixture data, nothing posted';
@@ -0,0 +1,42 @@
+-- Step Retry Policies
+-- Jobs carry the retry policy of the step they run (backoff and retryable error codes),
+-- and every execution attempt of a task is recorded with why it was or was not retried
+
+alter table jobs add column if not exists retry_policy jsonb;
+
+create table if not exists task_attempts (
+    id uuid primary key default gen_random_uuid(),
+    task_id uuid not null references tasks(id) on delete cascade,
+    project_id uuid not null references projects(id) on delete cascade,
+    run_id uuid references workflow_runs(id) on delete cascade,
+    job_id uuid references jobs(id) on delete set null,
+    attempt integer not null,
+    status text not null check (status in ('succeeded', 'failed', 'timed_out')),
+    error_code text,
+    error_message text,
+    retry text check (retry in ('retrying', 'not_retryable', 'attempts_exhausted')),
+    next_attempt_at timestamptz,
+    duration_ms integer not null default 0,
+    started_at timestamptz not null,
+    finished_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists idx_task_attempts_task on task_attempts(task_id, started_at);
+create index if not exists idx_task_attempts_run on task_attempts(run_id, started_at);
+
+-- Enable RLS
+alter table task_attempts enable row level security;
+
+create policy "Users can view own task attempts" on task_attempts
+    for select using (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+create policy "Users can create own task attempts" on task_attempts
+    for insert with check (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+comment on column jobs.retry_policy is 'RetryPolicy (backoff, delays, retryOn error codes); null uses the queue defaults';
+comment on table task_attempts is 'Execution attempts of a task and their retry decisions - owned by the Task Service';
@@ -0,0 +1,62 @@
+-- Generated Assets
+-- Images generated for drafts (GENERATE_IMAGE) are kept in a private storage bucket,
+-- one folder per project, and recorded against the task that made them
+
+insert into storage.buckets (id, name, public)
+values ('generated-assets', 'generated-assets', false)
+on conflict (id) do nothing;
+
+create table if not exists generated_assets (
+    id uuid primary key default gen_random_uuid(),
+    project_id uuid not null references projects(id) on delete cascade,
+    task_id uuid references tasks(id) on delete set null,
+    run_id uuid references workflow_runs(id) on delete set null,
+    kind text not null check (kind in ('image')),
+    provider text not null,
+    prompt text not null,
+    storage_path text not null unique,
+    content_type text not null,
+    width integer not null,
+    height integer not null,
+    alt_text text not null default '',
+    size_bytes integer not null default 0,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists idx_generated_assets_task on generated_assets(task_id, created_at);
+create index if not exists idx_generated_assets_project on generated_assets(project_id, created_at desc);
+
+-- Enable RLS
+alter table generated_assets enable row level security;
+
+create policy "Users can view own generated assets" on generated_assets
+    for select using (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+create policy "Users can create own generated assets" on generated_assets
+    for insert with check (
+        project_id in (select id from projects where user_id = auth.uid())
+    );
+
+-- Files: the first folder of the path is the project
+create policy "Users can read own asset files" on storage.objects
+    for select using (
+        bucket_id = 'generated-assets'
+        and (storage.foldername(name))[1] in (select id::text from projects where user_id = auth.uid())
+    );
+
+create policy "Users can upload own asset files" on storage.objects
+    for insert with check (
+        bucket_id = 'generated-assets'
+        and (storage.foldername(name))[1] in (select id::text from projects where user_id = auth.uid())
+    );
+
+create policy "Users can delete own asset files" on storage.objects
+    for delete using (
+        bucket_id = 'generated-assets'
+        and (storage.foldername(name))[1] in (select id::text from projects where user_id = auth.uid())
+    );
+
+comment on table generated_assets is 'Generated files (images for drafts) and where they are stored - owned by the Asset Service';
+comment on column generated_assets.storage_path is 'Path in the generated-assets bucket: <project_id>/<task_id>/<asset_id>.<ext>';
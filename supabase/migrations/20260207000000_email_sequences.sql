@@ -0,0 +1,6 @@
+-- Email Sequences
+-- An approved EMAIL_SEQ task gets one task item per email, sent by a SEND_EMAIL job
+-- when it is due. The item's output_data records each recipient's delivery
+-- (message ID, server reply, bounce). No new tables: jobs.type is free text.
+
+comment on table task_items is 'Per-item state of a FOR_EACH task, or the per-email sends of an EMAIL_SEQ task - owned by the Task Service';
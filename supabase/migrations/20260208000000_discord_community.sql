@@ -0,0 +1,8 @@
+-- Discord Community Sync
+-- COMMUNITY_SYNC reads a channel with the user's bot token (discord_token) and, once
+-- the spotlight is approved, posts it through a channel webhook. The webhook URL is a
+-- secret like the others: encrypted by the app, never sent back to the browser.
+
+alter table user_secrets add column if not exists discord_webhook text;
+
+comment on column user_secrets.discord_webhook is 'Encrypted Discord channel webhook URL that approved COMMUNITY_SYNC spotlights are posted to';
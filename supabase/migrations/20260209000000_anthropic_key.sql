@@ -0,0 +1,7 @@
+-- Anthropic Provider
+-- Projects can use Anthropic for blueprints and content; the user's key is kept
+-- encrypted with the other BYOK secrets and read by AIService as `anthropic_key`.
+
+alter table user_secrets add column if not exists anthropic_key text;
+
+comment on column user_secrets.anthropic_key is 'Encrypted Anthropic API key used when a project''s aiProvider is anthropic';
@@ -0,0 +1,36 @@
+-- Self-Hosted Model Endpoints
+-- An organization can point the `local` AI provider at its own OpenAI-compatible
+-- server (llama.cpp, Ollama, vLLM). One endpoint per organization; the optional API
+-- key is encrypted like the BYOK secrets. Capabilities describe what the model
+-- supports so requests leave out what it cannot handle (see OpenAICompatibleProvider).
+-- Actions pass the user's ID as the organization, so both count here.
+
+create table if not exists model_endpoints (
+    organization_id uuid primary key,
+    base_url text not null,
+    model text not null,
+    api_key text, -- encrypted; most local servers need none
+    capabilities jsonb not null default '{}'::jsonb, -- { jsonMode, systemPrompt, maxOutputTokens }
+    updated_by uuid references auth.users on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+-- Keep updated_at current
+create trigger update_model_endpoints_updated_at
+    before update on model_endpoints
+    for each row execute function update_updated_at_column();
+
+-- Enable RLS
+alter table model_endpoints enable row level security;
+
+create policy "Members can manage the organization model endpoint" on model_endpoints
+    for all using (
+        organization_id = auth.uid()
+        or organization_id in (select organization_id from organization_members where user_id = auth.uid())
+    ) with check (
+        organization_id = auth.uid()
+        or organization_id in (select organization_id from organization_members where user_id = auth.uid())
+    );
+
+comment on table model_endpoints is 'Per-organization OpenAI-compatible endpoint used when a project''s aiProvider is local';
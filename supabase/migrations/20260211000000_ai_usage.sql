@@ -0,0 +1,123 @@
+-- AI Usage Ledger
+-- One row per AI provider call: the model, the tokens it took and what that cost
+-- (from the price table in utils/ai/pricing.ts). Rows are kept when the project,
+-- workflow or task they were charged to is deleted, so organization totals stay right.
+-- Project spend caps (context.aiSpendCapUsd) are checked against this month's total (ai_usage_spend).
+-- Clients cannot write rows themselves: they go through record_ai_usage.
+-- Actions pass the user's ID as the organization, so both count here.
+
+create table if not exists ai_usage (
+    id uuid primary key default gen_random_uuid(),
+    organization_id uuid not null,
+    project_id uuid references projects(id) on delete set null,
+    workflow_id uuid references workflows(id) on delete set null,
+    task_id uuid references tasks(id) on delete set null,
+    user_id uuid references auth.users on delete set null,
+    operation text not null, -- the structured output asked for: blueprint, content_draft, hooks, ...
+    provider text not null,
+    model text not null,
+    prompt_tokens integer not null default 0 check (prompt_tokens >= 0),
+    completion_tokens integer not null default 0 check (completion_tokens >= 0),
+    cost_usd numeric(12, 6) check (cost_usd >= 0), -- null when the model has no price
+    request_id text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists idx_ai_usage_organization on ai_usage(organization_id, created_at desc);
+create index if not exists idx_ai_usage_project on ai_usage(project_id, created_at desc);
+
+-- Enable RLS
+alter table ai_usage enable row level security;
+
+create policy "Members can view organization AI usage" on ai_usage
+    for select using (
+        organization_id = auth.uid()
+        or organization_id in (select organization_id from organization_members where user_id = auth.uid())
+    );
+
+-- Record one provider call. The worker calls it with the service role; anyone else records
+-- as themselves, for an organization they belong to.
+create or replace function record_ai_usage(
+    p_organization_id uuid,
+    p_project_id uuid,
+    p_workflow_id uuid,
+    p_task_id uuid,
+    p_user_id uuid,
+    p_operation text,
+    p_provider text,
+    p_model text,
+    p_prompt_tokens integer,
+    p_completion_tokens integer,
+    p_cost_usd numeric,
+    p_request_id text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user_id uuid := p_user_id;
+begin
+    if auth.role() is distinct from 'service_role' then
+        if auth.uid() is null then
+            raise exception 'Not authenticated' using errcode = '42501';
+        end if;
+
+        if p_organization_id <> auth.uid() and not exists (
+            select 1 from organization_members
+            where organization_id = p_organization_id and user_id = auth.uid()
+        ) then
+            raise exception 'Not a member of organization %', p_organization_id using errcode = '42501';
+        end if;
+
+        v_user_id := auth.uid();
+    end if;
+
+    if p_project_id is not null and not exists (
+        select 1 from projects
+        where id = p_project_id
+          and (organization_id = p_organization_id or user_id = p_organization_id)
+    ) then
+        raise exception 'Project % is not in organization %', p_project_id, p_organization_id using errcode = '42501';
+    end if;
+
+    insert into ai_usage (
+        organization_id, project_id, workflow_id, task_id, user_id,
+        operation, provider, model, prompt_tokens, completion_tokens, cost_usd, request_id
+    ) values (
+        p_organization_id, p_project_id, p_workflow_id, p_task_id, v_user_id,
+        p_operation, p_provider, p_model, p_prompt_tokens, p_completion_tokens, p_cost_usd, p_request_id
+    );
+end;
+$$;
+
+revoke execute on function record_ai_usage(uuid, uuid, uuid, uuid, uuid, text, text, text, integer, integer, numeric, text) from public, anon;
+grant execute on function record_ai_usage(uuid, uuid, uuid, uuid, uuid, text, text, text, integer, integer, numeric, text) to authenticated, service_role;
+
+-- What a project's calls charged to an organization cost over a period; spend caps check
+-- it before every call, so it is summed here rather than read row by row. Runs as the
+-- caller, so members only see their organizations' spend.
+create or replace function ai_usage_spend(
+    p_organization_id uuid,
+    p_project_id uuid,
+    p_from timestamptz,
+    p_to timestamptz
+)
+returns numeric
+language sql
+stable
+as $$
+    select coalesce(sum(cost_usd), 0)
+    from ai_usage
+    where organization_id = p_organization_id
+      and project_id = p_project_id
+      and created_at >= p_from
+      and created_at < p_to;
+$$;
+
+revoke execute on function ai_usage_spend(uuid, uuid, timestamptz, timestamptz) from public, anon;
+grant execute on function ai_usage_spend(uuid, uuid, timestamptz, timestamptz) to authenticated, service_role;
+
+comment on table ai_usage is 'Tokens and cost of every AI provider call - owned by the Usage Service';
+comment on function record_ai_usage is 'The only way into ai_usage - owned by the Usage Service';
@@ -0,0 +1,218 @@
+import http from "node:http";
+import { readFileSync } from "node:fs";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { AIService, type ContentTaskContext } from "@/lib/services/ai-service";
+import { AnthropicProvider } from "./anthropic";
+
+/**
+ * AnthropicProvider and AIService against recorded Messages API responses, replayed by a
+ * local stand-in at ANTHROPIC_BASE_URL. Each request gets the recording for the tool it
+ * forces (`tool_choice.name`) unless a test overrides it.
+ */
+
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(new URL(`./__fixtures__/anthropic/${name}.json`, import.meta.url), "utf8"));
+
+interface RecordedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+let server: http.Server;
+let requests: RecordedRequest[] = [];
+let replay: (body: any) => { status: number; body: unknown };
+
+const byTool = (body: any) => ({ status: 200, body: fixture(body.tool_choice.name) });
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = JSON.parse(raw);
+      requests.push({ headers: req.headers, body });
+      const answer = replay(body);
+      res.writeHead(answer.status, { "content-type": "application/json" });
+      res.end(JSON.stringify(answer.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+  process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+});
+
+afterAll(async () => {
+  delete process.env.ANTHROPIC_BASE_URL;
+  delete process.env.ANTHROPIC_API_KEY;
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  replay = byTool;
+});
+
+// Reads find no saved key (so the provider uses ANTHROPIC_API_KEY); writes succeed
+function stubSupabase(): SupabaseClient {
+  const query: any = new Proxy({}, {
+    get: (_, prop) => prop === "then"
+      ? (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+      : () => query,
+  });
+  return { from: () => query, rpc: async () => ({ data: null, error: null }) } as unknown as SupabaseClient;
+}
+
+// A fresh organization per service, so one test's failures never open another's circuit
+let organizations = 0;
+function createAIService(): AIService {
+  return new AIService({
+    supabase: stubSupabase(),
+    tenant: { organizationId: `org-${++organizations}`, userId: "user-1", role: "owner" },
+    requestId: "req-1",
+  });
+}
+
+const project = {
+  name: "TradeJournal",
+  description: "A trading journal that finds patterns in your trades",
+  audience: "Retail day traders",
+  painPoints: "Repeating the same mistakes",
+  budget: 100,
+};
+
+const taskContext: ContentTaskContext = {
+  project,
+  pillarName: "Social Organic",
+  workflowName: "Reply Engine",
+  workflowDescription: "Reply to traders talking about discipline",
+};
+
+describe("AnthropicProvider", () => {
+  it("forces the answer through a tool whose input schema is the requested one", async () => {
+    const jsonSchema = { type: "object", properties: { reply: { type: "string" } }, required: ["reply"] };
+    const response = await new AnthropicProvider().generateStructured({
+      name: "reply",
+      system: "Be brief",
+      prompt: "Reply to this",
+      jsonSchema,
+      context: { project },
+    });
+
+    const [request] = requests;
+    expect(request.headers["x-api-key"]).toBe("sk-ant-test");
+    expect(request.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(request.body).toMatchObject({
+      system: "Be brief",
+      messages: [{ role: "user", content: "Reply to this" }],
+      tools: [{ name: "reply", input_schema: jsonSchema }],
+      tool_choice: { type: "tool", name: "reply" },
+    });
+
+    expect(JSON.parse(response.text)).toEqual(fixture("reply").content[0].input);
+    expect(response.usage).toEqual({ model: "claude-sonnet-4-5-20250929", promptTokens: 512, completionTokens: 48 });
+  });
+
+  it("reads the tool_use block when the model writes text before it", async () => {
+    const response = await new AnthropicProvider().generateStructured({
+      name: "content_draft",
+      system: "",
+      prompt: "Write",
+      jsonSchema: { type: "object" },
+      context: { project },
+    });
+
+    expect(JSON.parse(response.text).title).toBe("The 10-minute review");
+  });
+
+  it("rejects an answer cut off at max_tokens", async () => {
+    replay = () => ({ status: 200, body: fixture("max_tokens") });
+
+    const error = await new AnthropicProvider()
+      .generateStructured({ name: "content_draft", system: "", prompt: "Write", jsonSchema: { type: "object" }, context: { project } })
+      .catch((e) => e);
+
+    expect(error.message).toBe("Failed to generate content_draft with Anthropic.");
+    expect(error.cause.message).toBe("Response was cut off at the token limit");
+  });
+
+  it("rejects a response without a tool_use block", async () => {
+    replay = () => ({ status: 200, body: { ...fixture("reply"), content: [{ type: "text", text: "Sure!" }], stop_reason: "end_turn" } });
+
+    const error = await new AnthropicProvider()
+      .generateStructured({ name: "reply", system: "", prompt: "Reply", jsonSchema: { type: "object" }, context: { project } })
+      .catch((e) => e);
+
+    expect(error.cause.message).toBe("No content returned");
+  });
+});
+
+describe("AIService with Anthropic", () => {
+  it("generates a blueprint", async () => {
+    const generation = await createAIService().generateBlueprint(project, "anthropic");
+
+    expect(generation.provider).toBe("anthropic");
+    expect(generation.result.activePillars.map((p) => p.id)).toEqual(["p1", "p2"]);
+    expect(generation.result.workflows[0]).toMatchObject({ workflowId: "x_reply_engine", pillarRef: "p1", frequency: "daily" });
+    expect(generation.usage).toMatchObject({ promptTokens: 1184, completionTokens: 262 });
+    expect(generation.usage.costUsd).toBeCloseTo((1184 * 3 + 262 * 15) / 1_000_000, 8);
+  });
+
+  it("generates content", async () => {
+    const generation = await createAIService().generateContent(taskContext, "anthropic");
+
+    expect(generation.result).toMatchObject({
+      title: "The 10-minute review",
+      hashtags: ["trading", "journaling"],
+      suggestedImagePrompt: "A notebook beside a trading screen at dusk",
+    });
+    expect(requests[0].body.tool_choice.name).toBe("content_draft");
+  });
+
+  it("generates one reply per target", async () => {
+    const targets = [
+      { id: "t1", text: "I keep revenge trading after a loss", author: "daytrader" },
+      { id: "t2", text: "How do you review your trades?", author: "swingguy" },
+    ];
+    const generation = await createAIService().generateReplies(taskContext, targets, "anthropic");
+
+    expect(generation.result.map((r) => r.targetId)).toEqual(["t1", "t2"]);
+    expect(generation.result[0].reply).toMatch(/^Same here/);
+    expect(requests).toHaveLength(2);
+    expect(requests[0].body.messages[0].content).toContain("I keep revenge trading after a loss");
+    expect(generation.usage).toMatchObject({ promptTokens: 1024, completionTokens: 96 });
+  });
+
+  it("filters targets to the posts the model selected, dropping unknown IDs", async () => {
+    const items = ["t1", "t2", "t3", "t4", "t5"].map((id) => ({ id, text: `Post ${id}`, url: `https://x.com/a/status/${id}` }));
+    const generation = await createAIService().filterTargets(taskContext, items, "anthropic");
+
+    expect(generation.result).toEqual([
+      { id: "t2", text: "Post t2", url: "https://x.com/a/status/t2", reason: "Asks how to stop repeating the same trading mistakes" },
+      { id: "t4", text: "Post t4", url: "https://x.com/a/status/t4", reason: "Wants to track trading performance" },
+    ]);
+  });
+
+  it("fails over when the answer is cut off at max_tokens", async () => {
+    replay = () => ({ status: 200, body: fixture("max_tokens") });
+
+    const failed = await createAIService().generateContent(taskContext, "anthropic").catch((e) => e);
+    expect(failed.code).toBe("AI_PROVIDER_ERROR");
+    expect(failed.details.failures).toEqual([
+      expect.objectContaining({ provider: "anthropic", reason: "invalid_response" }),
+    ]);
+
+    const generation = await createAIService().generateContent(taskContext, ["anthropic", "simulated"]);
+    expect(generation).toMatchObject({ provider: "simulated", fallbackFrom: ["anthropic"] });
+  });
+
+  it("reports rate limits as retryable", async () => {
+    replay = () => ({ status: 429, body: { type: "error", error: { type: "rate_limit_error", message: "Number of requests has exceeded your rate limit" } } });
+
+    const failed = await createAIService().generateContent(taskContext, "anthropic").catch((e) => e);
+    expect(failed.details.failures).toEqual([
+      expect.objectContaining({ provider: "anthropic", reason: "rate_limit" }),
+    ]);
+    expect(failed.details.retryable).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { AIStrategyProvider, StructuredRequest, StructuredResponse } from "./interface";
+import { ProviderHttpError } from "./errors";
+
+// Point ANTHROPIC_BASE_URL at a stand-in that replays recorded responses to run without the API
+const DEFAULT_BASE_URL = "https://api.anthropic.com";
+const API_VERSION = "2023-06-01";
+const MODEL = "claude-sonnet-4-5";
+const MAX_TOKENS = 4096;
+
+export class AnthropicProvider implements AIStrategyProvider {
+  async generateStructured(request: StructuredRequest, apiKey?: string): Promise<StructuredResponse> {
+    const key = apiKey || process.env.ANTHROPIC_API_KEY;
+    if (!key) {
+      throw new Error("Anthropic API Key missing. Please set it in Settings.");
+    }
+
+    try {
+      return await createMessage(key, request);
+    } catch (error) {
+      console.error("Anthropic Generation Error:", error);
+      throw new Error(`Failed to generate ${request.name} with Anthropic.`, { cause: error });
+    }
+  }
+}
+
+/**
+ * One Messages API call. The answer comes back as the input of a tool the model is made to
+ * call, whose input schema is the one asked for; returns that input as JSON text.
+ */
+async function createMessage(apiKey: string, request: StructuredRequest): Promise<StructuredResponse> {
+  const baseUrl = (process.env.ANTHROPIC_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, "");
+
+  const response = await fetch(`${baseUrl}/v1/messages`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": API_VERSION,
+    },
+    body: JSON.stringify({
+      model: MODEL,
+      max_tokens: MAX_TOKENS,
+      system: request.system,
+      messages: [{ role: "user", content: request.prompt }],
+      tools: [{ name: request.name, description: `Return the ${request.name} answer`, input_schema: request.jsonSchema }],
+      tool_choice: { type: "tool", name: request.name },
+    }),
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ProviderHttpError(`Anthropic API ${response.status}: ${body?.error?.message || response.statusText}`, response.status);
+  }
+  if (body?.stop_reason === "max_tokens") throw new Error("Response was cut off at the token limit");
+
+  const toolUse = (body?.content || []).find((block: { type: string }) => block.type === "tool_use");
+  if (!toolUse?.input) throw new Error("No content returned");
+
+  return {
+    text: JSON.stringify(toolUse.input),
+    usage: {
+      model: body.model || MODEL,
+      promptTokens: body.usage?.input_tokens ?? 0,
+      completionTokens: body.usage?.output_tokens ?? 0,
+    },
+  };
+}
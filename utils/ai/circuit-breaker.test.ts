@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CircuitBreaker, type Clock } from "./circuit-breaker";
+
+class FakeClock implements Clock {
+  constructor(private current: Date) {}
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
+
+const key = "anthropic";
+
+let clock: FakeClock;
+let breaker: CircuitBreaker;
+
+beforeEach(() => {
+  clock = new FakeClock(new Date("2026-03-10T09:00:00Z"));
+  breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000, clock });
+});
+
+function failTimes(count: number) {
+  for (let i = 0; i < count; i++) breaker.recordFailure(key);
+}
+
+describe("CircuitBreaker", () => {
+  it("stays closed below the failure threshold", () => {
+    failTimes(2);
+
+    expect(breaker.state(key)).toBe("closed");
+    expect(breaker.tryAcquire(key)).toBe(true);
+    expect(breaker.retryAt(key)).toBeUndefined();
+  });
+
+  it("opens on reaching the threshold and skips calls for the cooldown", () => {
+    failTimes(3);
+
+    expect(breaker.state(key)).toBe("open");
+    expect(breaker.tryAcquire(key)).toBe(false);
+    expect(breaker.retryAt(key)).toEqual(new Date("2026-03-10T09:01:00Z"));
+
+    clock.advance(59_999);
+    expect(breaker.tryAcquire(key)).toBe(false);
+  });
+
+  it("lets one trial call through once the cooldown is over", () => {
+    failTimes(3);
+    clock.advance(60_000);
+
+    expect(breaker.state(key)).toBe("half_open");
+    expect(breaker.tryAcquire(key)).toBe(true);
+    expect(breaker.tryAcquire(key)).toBe(false);
+  });
+
+  it("closes after a successful trial", () => {
+    failTimes(3);
+    clock.advance(60_000);
+    breaker.tryAcquire(key);
+
+    breaker.recordSuccess(key);
+
+    expect(breaker.state(key)).toBe("closed");
+    expect(breaker.tryAcquire(key)).toBe(true);
+    // The failure count starts over too
+    failTimes(2);
+    expect(breaker.state(key)).toBe("closed");
+  });
+
+  it("re-opens for a full cooldown after a failed trial", () => {
+    failTimes(3);
+    clock.advance(60_000);
+    breaker.tryAcquire(key);
+
+    breaker.recordFailure(key);
+
+    expect(breaker.state(key)).toBe("open");
+    expect(breaker.retryAt(key)).toEqual(new Date("2026-03-10T09:02:00Z"));
+    clock.advance(60_000);
+    expect(breaker.tryAcquire(key)).toBe(true);
+  });
+
+  it("allows another trial after one released for an unrelated failure", () => {
+    failTimes(3);
+    clock.advance(60_000);
+    breaker.tryAcquire(key);
+
+    breaker.release(key);
+
+    expect(breaker.state(key)).toBe("half_open");
+    expect(breaker.tryAcquire(key)).toBe(true);
+  });
+
+  it("keeps a circuit per provider", () => {
+    failTimes(3);
+
+    expect(breaker.tryAcquire("openai")).toBe(true);
+  });
+});
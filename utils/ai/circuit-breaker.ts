@@ -0,0 +1,104 @@
+/**
+ * Circuit breaker for AI providers.
+ *
+ * After FAILURE_THRESHOLD consecutive unhealthy failures (rate limits, timeouts, outages)
+ * a provider's circuit opens and calls skip it for COOLDOWN_MS. Then one trial call is let
+ * through: success closes the circuit, failure opens it for another cooldown.
+ *
+ * State is in memory, per server instance - a breaker only has to stop one instance from
+ * hammering a provider that is down, not coordinate across instances.
+ */
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 60_000;
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+// Same shape as the scheduler's clock, so tests can move time without waiting
+export interface Clock {
+  now(): Date;
+}
+
+const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number;
+  cooldownMs?: number;
+  clock?: Clock;
+}
+
+interface Circuit {
+  failures: number;
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly clock: Clock;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? COOLDOWN_MS;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  state(key: string): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (circuit?.openedAt === undefined) return "closed";
+    return this.clock.now().getTime() - circuit.openedAt < this.cooldownMs ? "open" : "half_open";
+  }
+
+  /**
+   * Whether a call may go out now. In the half-open state only one trial call is allowed.
+   */
+  tryAcquire(key: string): boolean {
+    const state = this.state(key);
+    if (state === "closed") return true;
+    if (state === "open") return false;
+
+    const circuit = this.circuits.get(key)!;
+    if (circuit.trialInFlight) return false;
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * When an open circuit lets calls through again
+   */
+  retryAt(key: string): Date | undefined {
+    const openedAt = this.circuits.get(key)?.openedAt;
+    return openedAt === undefined ? undefined : new Date(openedAt + this.cooldownMs);
+  }
+
+  recordSuccess(key: string): void {
+    this.circuits.delete(key);
+  }
+
+  recordFailure(key: string): void {
+    const circuit = this.circuits.get(key) ?? { failures: 0, trialInFlight: false };
+    circuit.failures += 1;
+
+    // A failed trial re-opens at once; otherwise open on reaching the threshold
+    if (circuit.trialInFlight || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = this.clock.now().getTime();
+    }
+    circuit.trialInFlight = false;
+    this.circuits.set(key, circuit);
+  }
+
+  /**
+   * End a trial call that failed for a reason that says nothing about the provider's health
+   */
+  release(key: string): void {
+    const circuit = this.circuits.get(key);
+    if (circuit) circuit.trialInFlight = false;
+  }
+}
+
+// Shared by every AIService in this server instance
+export const providerCircuits = new CircuitBreaker();
@@ -0,0 +1,78 @@
+/**
+ * Provider failures, sorted by whether trying again (later, or on another provider) can help.
+ * Providers rethrow with the SDK / HTTP error as `cause`, which is where the status lives.
+ */
+
+/**
+ * An HTTP error from a provider called without an SDK
+ */
+export class ProviderHttpError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+export type ProviderFailureReason =
+  | "rate_limit" // 429
+  | "timeout"
+  | "unavailable" // 5xx, overloaded, connection refused
+  | "auth" // missing or rejected key
+  | "bad_request" // other 4xx: the request itself is wrong
+  | "invalid_response" // the model answered, but not in the shape asked for
+  | "unknown";
+
+export interface ProviderFailure {
+  retryable: boolean;
+  reason: ProviderFailureReason;
+  status?: number;
+}
+
+// Reasons that say the provider itself is struggling (these trip the circuit breaker)
+export const UNHEALTHY_REASONS: ProviderFailureReason[] = ["rate_limit", "timeout", "unavailable"];
+
+const CONNECTION_CODES = ["ECONNREFUSED", "ECONNRESET", "ENOTFOUND", "EAI_AGAIN", "EPIPE"];
+
+/**
+ * Rate limits, timeouts and outages are retryable; a bad key or a rejected request is
+ * fatal - the same call fails the same way until someone changes the configuration.
+ */
+export function classifyProviderError(error: unknown): ProviderFailure {
+  for (const e of causeChain(error)) {
+    const status = typeof e.status === "number" ? e.status : typeof e.statusCode === "number" ? e.statusCode : undefined;
+
+    if (e.code === "RATE_LIMIT_EXCEEDED" || status === 429) return { retryable: true, reason: "rate_limit", status };
+    if (e.code === "CONFIGURATION_ERROR") return { retryable: false, reason: "auth" };
+    if (e.code === "AI_OUTPUT_INVALID") return { retryable: true, reason: "invalid_response" }; // its 502 is ours, not the provider's
+    if (status === 408) return { retryable: true, reason: "timeout", status };
+    if (status === 401 || status === 403) return { retryable: false, reason: "auth", status };
+    if (status !== undefined && status >= 500) return { retryable: true, reason: "unavailable", status };
+    if (status !== undefined && status >= 400) return { retryable: false, reason: "bad_request", status };
+
+    if (/timeout/i.test(e.name ?? "") || e.name === "AbortError" || e.code === "ETIMEDOUT") {
+      return { retryable: true, reason: "timeout" };
+    }
+    if (CONNECTION_CODES.includes(e.code) || e.name === "APIConnectionError" || e.message === "fetch failed") {
+      return { retryable: true, reason: "unavailable" };
+    }
+    if (/api key missing/i.test(e.message ?? "")) return { retryable: false, reason: "auth" };
+    if (e instanceof SyntaxError || /no content returned|cut off|no .* found in ai response/i.test(e.message ?? "")) {
+      return { retryable: true, reason: "invalid_response" };
+    }
+  }
+
+  return { retryable: true, reason: "unknown" };
+}
+
+/**
+ * The error and its causes, outermost first
+ */
+function causeChain(error: unknown): any[] {
+  const chain: any[] = [];
+  let current: any = error;
+  while (current && typeof current === "object" && chain.length < 5) {
+    chain.push(current);
+    current = current.cause;
+  }
+  return chain;
+}
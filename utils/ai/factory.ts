@@ -1,9 +1,10 @@
 
 import { GeminiProvider } from "./gemini";
 import { OpenAIProvider } from "./openai";
+import { AnthropicProvider } from "./anthropic";
 import { AIStrategyProvider } from "./interface";
 
-export type AIProviderID = 'gemini' | 'openai' | 'anthropic'; // Easy to extend
+export type AIProviderID = 'gemini' | 'openai' | 'anthropic' | 'local'; // Easy to extend
 
 export class AIFactory {
     static getProvider(id: AIProviderID): AIStrategyProvider {
@@ -12,6 +13,8 @@ export class AIFactory {
                 return new GeminiProvider();
             case 'openai':
                 return new OpenAIProvider();
+            case 'anthropic':
+                return new AnthropicProvider();
             default:
                 throw new Error(`AI Provider ${id} not implemented.`);
         }
@@ -0,0 +1,66 @@
+import { ImageProvider, ImageRequest, GeneratedImage } from "./interface";
+import { buildImagePrompt } from "./prompts/image";
+
+const IMAGEN_MODEL = "imagen-3.0-generate-002";
+
+// Aspect ratios Imagen accepts, as width / height
+const ASPECT_RATIOS: Array<[string, number]> = [
+  ["1:1", 1],
+  ["4:3", 4 / 3],
+  ["3:4", 3 / 4],
+  ["16:9", 16 / 9],
+  ["9:16", 9 / 16],
+];
+
+/**
+ * Imagen through the Gemini API (the generative-ai SDK has no image generation)
+ */
+export class GeminiImageProvider implements ImageProvider {
+  async generateImage(request: ImageRequest, apiKey?: string): Promise<GeneratedImage> {
+    const key = apiKey || process.env.GEMINI_API_KEY;
+    if (!key) throw new Error("Gemini API Key missing.");
+
+    const ratio = request.width / request.height;
+    const [aspectRatio, value] = ASPECT_RATIOS.reduce((best, candidate) =>
+      Math.abs(candidate[1] - ratio) < Math.abs(best[1] - ratio) ? candidate : best
+    );
+
+    try {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${IMAGEN_MODEL}:predict`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "x-goog-api-key": key },
+          body: JSON.stringify({
+            instances: [{ prompt: buildImagePrompt(request) }],
+            parameters: { sampleCount: 1, aspectRatio },
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Imagen request failed with ${response.status}: ${await response.text()}`);
+      }
+
+      const result = await response.json();
+      const prediction = result.predictions?.[0];
+      if (!prediction?.bytesBase64Encoded) throw new Error("No image returned");
+
+      // Imagen renders 1024px on the long side
+      const width = value >= 1 ? 1024 : Math.round(1024 * value);
+      const height = value >= 1 ? Math.round(1024 / value) : 1024;
+
+      return {
+        data: new Uint8Array(Buffer.from(prediction.bytesBase64Encoded, "base64")),
+        contentType: prediction.mimeType || "image/png",
+        width,
+        height,
+        altText: request.prompt,
+        model: IMAGEN_MODEL,
+      };
+    } catch (error) {
+      console.error("Gemini Image Error:", error);
+      throw new Error("Failed to generate image.");
+    }
+  }
+}
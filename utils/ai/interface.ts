@@ -7,8 +7,52 @@
  */
 
 export interface AIStrategyProvider {
-    generateBlueprint(context: ProjectContext, apiKey?: string): Promise<Blueprint>;
-    generateContent(task: TaskContext, apiKey?: string): Promise<ContentDraft>;
+    /**
+     * One call whose answer should be a JSON object matching `request.jsonSchema`, using the
+     * provider's native JSON / structured output mode where it has one. Returns the raw answer
+     * (the caller parses and validates it, and asks again when it does not match) and the
+     * tokens it took.
+     */
+    generateStructured(request: StructuredRequest, apiKey?: string): Promise<StructuredResponse>;
+}
+
+export type StructuredOutputName =
+    | 'blueprint'
+    | 'content_draft'
+    | 'hooks'
+    | 'email_sequence'
+    | 'community_digest'
+    | 'target_selection'
+    | 'reply';
+
+export interface StructuredRequest {
+    name: StructuredOutputName;
+    system: string;
+    prompt: string;
+    jsonSchema: Record<string, unknown>;
+    // What the prompt was written from. Models only read the prompt; the simulated provider answers from this.
+    context: { project: ProjectContext } & Partial<TaskContext>;
+}
+
+export interface StructuredResponse {
+    text: string;
+    usage: TokenUsage;
+}
+
+/**
+ * The tokens one call took, as the provider reported them (0 when it reports none)
+ */
+export interface TokenUsage {
+    model: string; // the model that answered, e.g. gpt-4o-2024-08-06
+    promptTokens: number;
+    completionTokens: number;
+}
+
+/**
+ * Image generation, kept apart from text: a step picks its image provider on its own
+ */
+export interface ImageProvider {
+    generateImage(request: ImageRequest, apiKey?: string): Promise<GeneratedImage>;
 }
 
 export interface ProjectContext {
@@ -66,7 +110,6 @@ export interface TaskContext {
     stepConfig?: Record<string, unknown>;
     previousOutput?: Record<string, unknown>;
     systemPrompt?: string;
-    customPrompt?: string;
 }
 
 export interface ContentDraft {
@@ -77,6 +120,27 @@ export interface ContentDraft {
     metadata?: Record<string, unknown>;
 }
 
+export interface ImageRequest {
+    prompt: string;
+    width: number;
+    height: number;
+    style?: string;
+    brand: {
+        name: string;
+        colors: string[]; // hex, most prominent first
+    };
+}
+
+export interface GeneratedImage {
+    data: Uint8Array;
+    contentType: string; // e.g. image/png, image/jpeg
+    width: number;
+    height: number;
+    altText: string;
+    model: string; // the model that rendered it, for pricing, e.g. gpt-image-1
+    revisedPrompt?: string; // the prompt the provider actually used, if it rewrote it
+}
+
 /**
  * Convert snake_case Blueprint from AI to camelCase for internal use
  */
@@ -97,3 +161,14 @@ export function normalizeBlueprint(blueprint: Blueprint): NormalizedBlueprint {
         })),
     };
 }
+
+/**
+ * The JSON object in a model's reply, without the code fences or sentences some models
+ * put around it
+ */
+export function extractJsonObject(text: string): string {
+    const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    const start = clean.indexOf('{');
+    const end = clean.lastIndexOf('}');
+    return start >= 0 && end > start ? clean.slice(start, end + 1) : clean;
+}
@@ -0,0 +1,76 @@
+import OpenAI from "openai";
+import { AIStrategyProvider, StructuredRequest, StructuredResponse } from "./interface";
+
+/**
+ * A self-hosted model behind an OpenAI-compatible API (llama.cpp server, Ollama, vLLM).
+ * Features the model lacks are left out of the request instead of failing it.
+ */
+export interface OpenAICompatibleEndpoint {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  capabilities: {
+    jsonMode: boolean;
+    systemPrompt: boolean;
+    maxOutputTokens?: number;
+  };
+}
+
+type ChatMessage = { role: "system" | "user"; content: string };
+
+export class OpenAICompatibleProvider implements AIStrategyProvider {
+  constructor(private endpoint: OpenAICompatibleEndpoint) { }
+
+  async generateStructured(request: StructuredRequest, apiKey?: string): Promise<StructuredResponse> {
+    try {
+      return await this.complete(apiKey, request.system, request.prompt);
+    } catch (error) {
+      console.error("Local Model Generation Error:", error);
+      throw new Error(`Failed to generate ${request.name} with ${this.endpoint.model}.`, { cause: error });
+    }
+  }
+
+  private async complete(apiKey: string | undefined, system: string, prompt: string): Promise<StructuredResponse> {
+    const { capabilities } = this.endpoint;
+
+    // Local servers usually take any key, but the client insists on one
+    const client = new OpenAI({ apiKey: apiKey || "local", baseURL: this.endpoint.baseUrl, maxRetries: 1 });
+
+    // Models without a system role get the instructions at the top of the prompt
+    const messages: ChatMessage[] = capabilities.systemPrompt
+      ? [{ role: "system", content: system }, { role: "user", content: prompt }]
+      : [{ role: "user", content: `${system}\n\n${prompt}` }];
+
+    const request = {
+      model: this.endpoint.model,
+      messages,
+      ...(capabilities.maxOutputTokens && { max_tokens: capabilities.maxOutputTokens }),
+    };
+
+    let completion;
+    // Schema-constrained output is not supported widely enough; JSON mode at least gets valid JSON
+    if (capabilities.jsonMode) {
+      try {
+        completion = await client.chat.completions.create({ ...request, response_format: { type: "json_object" } });
+      } catch (error) {
+        // A server that turns out not to support JSON mode gets the plain request instead
+        if (!(error instanceof OpenAI.APIError) || error.status !== 400) throw error;
+        completion = await client.chat.completions.create(request);
+      }
+    } else {
+      completion = await client.chat.completions.create(request);
+    }
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) throw new Error("No content returned");
+
+    // Not every server counts tokens
+    return {
+      text: content,
+      usage: {
+        model: this.endpoint.model,
+        promptTokens: completion.usage?.prompt_tokens ?? 0,
+        completionTokens: completion.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import OpenAI from "openai";
+import { ImageProvider, ImageRequest, GeneratedImage } from "./interface";
+import { buildImagePrompt } from "./prompts/image";
+
+const IMAGE_MODEL = "gpt-image-1";
+
+export class OpenAIImageProvider implements ImageProvider {
+  async generateImage(request: ImageRequest, apiKey?: string): Promise<GeneratedImage> {
+    const key = apiKey || process.env.OPENAI_API_KEY;
+    if (!key) throw new Error("OpenAI API Key missing.");
+
+    const openai = new OpenAI({ apiKey: key });
+
+    // gpt-image-1 renders square, landscape or portrait; the closest shape is used
+    const ratio = request.width / request.height;
+    const size = ratio > 1.2 ? "1536x1024" : ratio < 0.83 ? "1024x1536" : "1024x1024";
+    const [width, height] = size.split("x").map(Number);
+
+    try {
+      const result = await openai.images.generate({
+        model: IMAGE_MODEL,
+        prompt: buildImagePrompt(request),
+        size,
+        n: 1,
+      });
+
+      const image = result.data?.[0];
+      if (!image?.b64_json) throw new Error("No image returned");
+
+      return {
+        data: new Uint8Array(Buffer.from(image.b64_json, "base64")),
+        contentType: "image/png",
+        width,
+        height,
+        altText: request.prompt,
+        model: IMAGE_MODEL,
+        revisedPrompt: image.revised_prompt,
+      };
+    } catch (error) {
+      console.error("OpenAI Image Error:", error);
+      throw new Error("Failed to generate image.");
+    }
+  }
+}
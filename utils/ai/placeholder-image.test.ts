@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { PlaceholderImageProvider } from "./placeholder-image";
+
+const request = {
+  prompt: "A trader reviewing a calm, green equity curve",
+  width: 320,
+  height: 180,
+  brand: { name: "Journal", colors: ["#0ea5e9"] },
+};
+
+describe("PlaceholderImageProvider", () => {
+  it("renders a PNG at the requested size", async () => {
+    const image = await new PlaceholderImageProvider().generateImage(request);
+
+    expect(image.contentType).toBe("image/png");
+    expect(Buffer.from(image.data.subarray(0, 8))).toEqual(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    );
+    // IHDR: width and height, big-endian, after the signature and chunk header
+    const header = Buffer.from(image.data.subarray(16, 24));
+    expect([header.readUInt32BE(0), header.readUInt32BE(4)]).toEqual([320, 180]);
+  });
+
+  it("gives the same image for the same request", async () => {
+    const provider = new PlaceholderImageProvider();
+    const [a, b] = await Promise.all([provider.generateImage(request), provider.generateImage(request)]);
+    expect(Buffer.from(a.data).equals(Buffer.from(b.data))).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+import sharp from "sharp";
+import { ImageProvider, ImageRequest, GeneratedImage } from "./interface";
+
+// Used when the project has no brand colours
+const DEFAULT_COLORS = ["#3b82f6", "#0f172a"];
+
+const MAX_LINES = 6;
+
+/**
+ * Local stand-in for an image model: a card with the prompt, in the brand colours.
+ * It is drawn as SVG and rendered to PNG, since X and most platforms reject SVG uploads.
+ * The same request always gives the same image; no API key or network is needed.
+ */
+export class PlaceholderImageProvider implements ImageProvider {
+  async generateImage(request: ImageRequest): Promise<GeneratedImage> {
+    const { width, height } = request;
+    const [primary, secondary] = pickColors(request.brand.colors);
+    const text = contrastingText(primary);
+
+    const fontSize = Math.round(Math.min(width, height) / 16);
+    const charsPerLine = Math.max(12, Math.floor((width * 0.8) / (fontSize * 0.55)));
+    const lines = wrap(request.prompt, charsPerLine, MAX_LINES);
+    const lineHeight = Math.round(fontSize * 1.3);
+    const top = Math.round(height / 2 - ((lines.length - 1) * lineHeight) / 2);
+
+    const svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">`,
+      `<stop offset="0%" stop-color="${primary}"/><stop offset="100%" stop-color="${secondary}"/>`,
+      `</linearGradient></defs>`,
+      `<rect width="${width}" height="${height}" fill="url(#bg)"/>`,
+      `<text x="50%" y="${top}" fill="${text}" font-family="Helvetica, Arial, sans-serif" font-size="${fontSize}" font-weight="700" text-anchor="middle">`,
+      ...lines.map((line, i) => `<tspan x="50%" dy="${i === 0 ? 0 : lineHeight}">${escapeXml(line)}</tspan>`),
+      `</text>`,
+      `<text x="${Math.round(width * 0.05)}" y="${Math.round(height * 0.94)}" fill="${text}" fill-opacity="0.8" font-family="Helvetica, Arial, sans-serif" font-size="${Math.round(fontSize * 0.6)}">`,
+      escapeXml(request.style ? `${request.brand.name} · ${request.style}` : request.brand.name),
+      `</text>`,
+      `</svg>`,
+    ].join("");
+
+    const png = await sharp(Buffer.from(svg)).png().toBuffer();
+
+    return {
+      data: new Uint8Array(png),
+      contentType: "image/png",
+      width,
+      height,
+      altText: `${request.brand.name}: ${request.prompt}`,
+      model: "placeholder",
+    };
+  }
+}
+
+function pickColors(colors: string[]): [string, string] {
+  const valid = colors.filter((c) => /^#[0-9a-f]{6}$/i.test(c));
+  if (valid.length === 0) return [DEFAULT_COLORS[0], DEFAULT_COLORS[1]];
+  return [valid[0], valid[1] || darken(valid[0])];
+}
+
+function darken(hex: string): string {
+  const channels = [1, 3, 5].map((i) => Math.round(parseInt(hex.slice(i, i + 2), 16) * 0.45));
+  return `#${channels.map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// White on dark backgrounds, near-black on light ones
+function contrastingText(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b > 160 ? "#111827" : "#ffffff";
+}
+
+function wrap(text: string, charsPerLine: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.trim().split(/\s+/)) {
+    if (line && (line + " " + word).length > charsPerLine) {
+      lines.push(line);
+      line = "";
+    }
+    line = line ? `${line} ${word}` : word;
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, charsPerLine - 1)}…`;
+    return kept;
+  }
+  return lines;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
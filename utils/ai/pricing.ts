@@ -0,0 +1,90 @@
+/**
+ * What AI calls cost, in USD per million tokens, and for image models in USD per image.
+ *
+ * The defaults are list prices for the models the providers call. AI_PRICE_TABLE (JSON, same
+ * shape) adds models or replaces prices, e.g. a negotiated rate, or the compute cost of a
+ * self-hosted model: `{"llama3.1:8b": {"input": 0.05, "output": 0.05}}`, `{"gpt-image-1": {"image": 0.167}}`.
+ */
+
+export interface ModelPrice {
+  input: number; // per million prompt tokens
+  output: number; // per million completion tokens
+  image?: number; // per generated image
+}
+
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "gpt-image-1": { input: 0, output: 0, image: 0.042 }, // medium quality, 1024x1024
+  "imagen-3.0": { input: 0, output: 0, image: 0.04 },
+  simulated: { input: 0, output: 0 },
+};
+
+let priceTable: Record<string, ModelPrice> | undefined;
+
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    priceTable = { ...DEFAULT_PRICE_TABLE, ...readConfiguredPrices() };
+  }
+  return priceTable;
+}
+
+/**
+ * The price of a model. Providers report dated versions (gpt-4o-2024-08-06), so the longest
+ * table entry the model name starts with is used.
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const table = getPriceTable();
+  if (table[model]) return table[model];
+
+  const match = Object.keys(table)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : undefined;
+}
+
+/**
+ * What a call cost in USD, or null for a model the table has no price for
+ */
+export function calculateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * What generating images cost in USD, or null for a model the table has no image price for
+ */
+export function calculateImageCost(model: string, images = 1): number | null {
+  const price = getModelPrice(model);
+  if (price?.image === undefined) return null;
+  return images * price.image;
+}
+
+function readConfiguredPrices(): Record<string, ModelPrice> {
+  const raw = process.env.AI_PRICE_TABLE;
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    return Object.fromEntries(
+      Object.entries(parsed)
+        .filter(([, price]) =>
+          (Number.isFinite(price?.input) && Number.isFinite(price?.output)) || Number.isFinite(price?.image)
+        )
+        .map(([model, price]) => [
+          model,
+          {
+            input: Number(price.input ?? 0),
+            output: Number(price.output ?? 0),
+            ...(Number.isFinite(price.image) && { image: Number(price.image) }),
+          },
+        ])
+    );
+  } catch (error) {
+    // A broken table should not stop generation; calls are priced with the defaults
+    console.error("Ignoring AI_PRICE_TABLE, it is not valid JSON:", error);
+    return {};
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Blueprint Prompt
+ * The marketing strategy for a new project: the pillars to work on and a workflow for each.
+ */
+
+import { ProjectContext } from "../interface";
+
+export const getBlueprintPrompt = (context: ProjectContext) => {
+    return `
+You are an expert Chief Marketing Officer (CMO) for SaaS products.
+I need you to generate a "LaunchGrid Marketing Blueprint" for the following product:
+
+Name: ${context.name}
+Description: ${context.description}
+Target Audience: ${context.audience}
+Pain Points: ${context.painPoints}
+Monthly Budget: $${context.budget}
+
+The Blueprint must be a JSON object strictly following this structure:
+{
+  "active_pillars": [
+    { "id": "pillar_id", "type": "social_organic | community | paid_ads | email | content_seo | custom", "name": "Human Readable Name" }
+  ],
+  "workflows": [
+    {
+      "workflow_id": "unique_id",
+      "pillar_ref": "pillar_id_from_above",
+      "name": "Strategy Name (e.g. The Truth Teller)",
+      "goal": "awareness | conversion | retention",
+      "frequency": "daily | weekly | monthly",
+      "description": "Brief explanation of this strategy."
+    }
+  ]
+}
+
+**Guidelines:**
+1. Select 2-4 pillars that maximize ROI for the given budget.
+2. If budget < $500, focus on Organic (Twitter/LinkedIn) and Community (Discord).
+3. If budget > $2000, include Paid Ads.
+4. Create at least 1 workflow per pillar.
+5. Return ONLY the JSON object. No markdown, no conversation.
+`;
+};
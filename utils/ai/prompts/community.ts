@@ -0,0 +1,50 @@
+/**
+ * Community Digest Prompt
+ * Member wins and questions from a channel's recent messages, and a spotlight
+ * announcement that celebrates them.
+ */
+
+// Longer messages are cut so a busy channel still fits in the prompt
+const MAX_MESSAGE_CHARS = 500;
+
+export const getCommunityDigestPrompt = (context: {
+    projectName: string;
+    description: string;
+    audience: string;
+    workflowName: string;
+    lookbackHours: number;
+    messages: Array<{ id: string; author: string; content: string }>;
+}) => {
+    const transcript = context.messages
+        .map((m) => `- [${m.id}] ${m.author}: ${m.content.replace(/\s+/g, " ").slice(0, MAX_MESSAGE_CHARS)}`)
+        .join("\n");
+
+    return `
+You are the community manager of ${context.projectName}. You know every member by name and you make them feel seen.
+
+**Project Context:**
+- Name: ${context.projectName}
+- Description: ${context.description}
+- Members: ${context.audience}
+- Strategy: ${context.workflowName}
+
+Summarize this Discord channel from the last ${context.lookbackHours} hours. Each line is "[message id] author: message".
+
+${transcript}
+
+1. Wins: members sharing progress, results or milestones.
+2. Questions: members asking for help that deserve an answer or a lesson.
+3. Spotlight: a short, warm Discord announcement (under 1500 characters, markdown allowed) that
+   celebrates the wins by name and invites answers to the open questions. No @everyone or @here.
+
+Only use what is in the messages - never invent wins or members.
+
+Return ONLY a JSON object:
+{
+    "summary": "Two or three sentences on what happened in the channel",
+    "wins": [{ "author": "name", "text": "What they achieved", "messageId": "message id" }],
+    "questions": [{ "author": "name", "text": "What they asked", "messageId": "message id" }],
+    "spotlight": "The announcement"
+}
+`;
+};
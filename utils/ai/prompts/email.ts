@@ -0,0 +1,41 @@
+/**
+ * Email Sequence Prompt
+ * A multi-part sequence for one segment: each email with its subject, preheader,
+ * body and how long to wait after the previous one.
+ */
+
+export const getEmailSequencePrompt = (context: {
+    projectName: string;
+    description: string;
+    audience: string;
+    painPoints: string;
+    workflowName: string;
+    workflowDescription: string;
+    segment: string;
+    goal?: string;
+    count: number;
+}) => {
+    return `
+You are a world-class lifecycle email marketer. You write short, personal emails that people actually open.
+
+**Project Context:**
+- Name: ${context.projectName}
+- Description: ${context.description}
+- Target Audience: ${context.audience}
+- Pain Points: ${context.painPoints}
+
+**Sequence:**
+- Strategy: ${context.workflowName}
+- Segment: ${context.segment}
+- Goal: ${context.goal || context.workflowDescription}
+
+Write a ${context.count}-email sequence for this segment. Each email must build on the previous one - don't repeat the same pitch.
+- Subject: under 60 characters, no clickbait, no ALL CAPS.
+- Preheader: under 100 characters; it complements the subject, it doesn't repeat it.
+- Body: plain text, under 200 words, one clear call to action, written from the founder to one person.
+- sendDelayHours: hours to wait after the previous email (the first email is sent right away, so 0).
+
+Return ONLY a JSON object with ${context.count} emails, in send order:
+{ "emails": [{ "subject": "...", "preheader": "...", "body": "...", "sendDelayHours": 0 }] }
+`;
+};
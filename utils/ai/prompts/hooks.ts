@@ -0,0 +1,63 @@
+/**
+ * Hook Generator Prompt
+ * Distinct opening lines, each with the reasoning behind it and its archetype.
+ */
+
+export const HOOK_ARCHETYPES = [
+    "question",
+    "bold_claim",
+    "statistic",
+    "story",
+    "contrarian",
+    "curiosity_gap",
+    "how_to",
+    "list",
+];
+
+export const getHooksPrompt = (context: {
+    projectName: string;
+    description: string;
+    audience: string;
+    painPoints: string;
+    pillarName: string;
+    workflowName: string;
+    workflowDescription: string;
+    count: number;
+}) => {
+    return `
+You are a world-class copywriter. Your specialty is the first line: the hook that stops the scroll.
+
+**Project Context:**
+- Name: ${context.projectName}
+- Description: ${context.description}
+- Target Audience: ${context.audience}
+- Pain Points: ${context.painPoints}
+
+**Task:**
+- Channel: ${context.pillarName}
+- Strategy: ${context.workflowName}
+- Goal: ${context.workflowDescription}
+
+Write ${context.count} hooks for this post. Each one must take a different angle - no rewordings of the same idea.
+Use a different archetype for each hook where you can. Archetypes: ${HOOK_ARCHETYPES.join(", ")}.
+Keep each hook under 280 characters. No hashtags, max 1 emoji.
+
+Return ONLY a JSON object with ${context.count} hooks:
+{ "hooks": [{ "hook": "The opening line", "rationale": "Why it will work for this audience", "archetype": "question" }] }
+`;
+};
+
+/**
+ * Prompt lines that make a draft open with the hook picked from GENERATE_HOOKS
+ * (the parent output's `selected_hook`); empty when there is none.
+ */
+export const getSelectedHookInstruction = (previousOutput?: Record<string, unknown>) => {
+    const hook = previousOutput?.selected_hook;
+    if (typeof hook !== "string" || !hook.trim()) return "";
+
+    return `
+**Opening Hook (chosen by the user):**
+Open with this exact line, then deliver on its promise:
+"${hook.trim()}"
+`;
+};
@@ -0,0 +1,17 @@
+import { ImageRequest } from "../interface";
+
+/**
+ * Prompt for hosted image models: the subject plus the brand's look
+ */
+export const buildImagePrompt = (request: ImageRequest) => {
+    const colors = request.brand.colors.length > 0
+        ? `Use the brand colours ${request.brand.colors.join(", ")}.`
+        : "";
+
+    return [
+        request.prompt,
+        request.style ? `Style: ${request.style}.` : "",
+        colors,
+        "Marketing visual for social media. No text, logos or watermarks.",
+    ].filter(Boolean).join(" ");
+};
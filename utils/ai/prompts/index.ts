@@ -1,5 +1,6 @@
 
 import { getTwitterThreadPrompt } from './twitter-threader';
+import { getSelectedHookInstruction } from './hooks';
 import { ProjectContext } from '../interface';
 
 export type PromptType = 'TWITTER_THREAD' | 'GENERIC_DRAFT';
@@ -9,6 +10,7 @@ export function getSpecializedPrompt(type: PromptType, context: {
     pillarName: string;
     workflowName: string;
     workflowDescription: string;
+    previousOutput?: Record<string, unknown>;
     topic?: string;
 }) {
     switch (type) {
@@ -21,7 +23,7 @@ export function getSpecializedPrompt(type: PromptType, context: {
                 workflowName: context.workflowName,
                 workflowDescription: context.workflowDescription,
                 topic: context.topic
-            });
+            }) + getSelectedHookInstruction(context.previousOutput);
         default:
             return `
         You are a specialised Content Creator for the "${context.pillarName}" channel.
@@ -33,8 +35,11 @@ export function getSpecializedPrompt(type: PromptType, context: {
         Execute the content strategy: "${context.workflowName}".
         Strategy Description: "${context.workflowDescription}".
 
-        Write a high-quality, engagement-focused piece of content. 
-
+        Write a high-quality, engagement-focused piece of content.
+        If it's for Twitter, keep it concise or make it a thread.
+        If it's for SEO, provide an outline.
+        If it's for Discord, be conversational.
+        ${getSelectedHookInstruction(context.previousOutput)}
         Return ONLY a JSON object:
         {
             "title": "Internal Title / Subject Line",
@@ -0,0 +1,30 @@
+/**
+ * Repair Prompt
+ * The original request again, with the answer that failed validation and what was wrong
+ * with it, so the model can correct itself.
+ */
+
+// Long answers are cut: the model needs to see its mistake, not the whole answer again
+const MAX_ANSWER_CHARS = 4000;
+
+export const getRepairPrompt = (context: {
+    prompt: string;
+    answer: string;
+    issues: Array<{ path: string; message: string }>;
+}) => {
+    const issues = context.issues
+        .map((issue) => `- ${issue.path || "(whole answer)"}: ${issue.message}`)
+        .join("\n");
+
+    return `
+${context.prompt.trim()}
+
+**Your previous answer was rejected:**
+${context.answer.trim().slice(0, MAX_ANSWER_CHARS)}
+
+**What was wrong with it:**
+${issues}
+
+Answer again with the corrected JSON object only. Keep what was right, fix what was wrong.
+`;
+};
@@ -0,0 +1,126 @@
+import { AIStrategyProvider, StructuredRequest, StructuredResponse } from "./interface";
+import { HOOK_ARCHETYPES } from "./prompts/hooks";
+
+/**
+ * Deterministic stand-in for a real model, used by simulated runs.
+ * The same input always gives the same output; no API key or network is needed.
+ */
+export class SimulatedProvider implements AIStrategyProvider {
+  async generateStructured(request: StructuredRequest): Promise<StructuredResponse> {
+    // Simulated calls are free, and take no tokens
+    return {
+      text: JSON.stringify(this.answer(request)),
+      usage: { model: "simulated", promptTokens: 0, completionTokens: 0 },
+    };
+  }
+
+  private answer({ name, prompt, context }: StructuredRequest): Record<string, unknown> {
+    const { project } = context;
+
+    switch (name) {
+      case "blueprint": {
+        const pillars = [
+          { id: "social", type: "social_organic", name: "X / Twitter" },
+          { id: "community", type: "community", name: "Discord Community" },
+        ];
+        if (project.budget > 2000) {
+          pillars.push({ id: "ads", type: "paid_ads", name: "Paid Ads" });
+        }
+
+        return {
+          active_pillars: pillars,
+          workflows: pillars.map((pillar) => ({
+            workflow_id: `${pillar.id}_simulated`,
+            pillar_ref: pillar.id,
+            name: `Simulated ${pillar.name} Strategy`,
+            goal: "awareness",
+            frequency: "weekly",
+            description: `Simulated strategy for ${project.name}.`,
+          })),
+        };
+      }
+
+      // As many hooks as the prompt asks for, cycling through the archetypes
+      case "hooks": {
+        const count = Number(prompt.match(/Write (\d+) hooks/)?.[1] ?? 3);
+        const topic = project.painPoints || project.description || project.name;
+        return {
+          hooks: Array.from({ length: count }, (_, i) => {
+            const archetype = HOOK_ARCHETYPES[i % HOOK_ARCHETYPES.length];
+            return {
+              hook: `[Simulated ${archetype}] Hook #${i + 1} for ${project.name}: ${topic}`,
+              rationale: "Simulated hook",
+              archetype,
+            };
+          }),
+        };
+      }
+
+      // As many emails as the prompt asks for, two days apart
+      case "email_sequence": {
+        const count = Number(prompt.match(/Write a (\d+)-email sequence/)?.[1] ?? 3);
+        const segment = prompt.match(/- Segment: (.*)/)?.[1]?.trim() || "subscribers";
+        return {
+          emails: Array.from({ length: count }, (_, i) => ({
+            subject: `[Simulated] ${project.name} email ${i + 1}`,
+            preheader: `Simulated preheader for ${segment}`,
+            body: `Simulated email ${i + 1} of ${count} for ${segment}: ${project.painPoints || project.description}`,
+            sendDelayHours: i === 0 ? 0 : 48,
+          })),
+        };
+      }
+
+      // The channel's messages sorted: questions end in "?", the rest are wins
+      case "community_digest": {
+        const lines = [...prompt.matchAll(/^- \[([^\]]+)\] ([^:]+): (.*)$/gm)]
+          .map(([, messageId, author, text]) => ({ author, text, messageId }));
+        const wins = lines.filter((l) => !l.text.trim().endsWith("?"));
+        const questions = lines.filter((l) => l.text.trim().endsWith("?"));
+        return {
+          summary: `[Simulated] ${lines.length} messages: ${wins.length} wins and ${questions.length} questions.`,
+          wins,
+          questions,
+          spotlight: [
+            `**[Simulated] ${project.name} community spotlight**`,
+            ...wins.map((w) => `🏆 ${w.author}: ${w.text}`),
+            ...(questions.length > 0 ? ["Can you help with these?", ...questions.map((q) => `❓ ${q.author}: ${q.text}`)] : []),
+          ].join("\n"),
+        };
+      }
+
+      // The first few posts offered (the format example after them is not one)
+      case "target_selection": {
+        const posts = prompt.split("Return ONLY")[0];
+        const ids = [...posts.matchAll(/"id":\s*"?([^",\s}]+)"?/g)].map((m) => m[1]).slice(0, 5);
+        return { selected: ids.map((id) => ({ id, reason: "Simulated selection" })) };
+      }
+
+      case "reply": {
+        const author = prompt.match(/ORIGINAL TWEET by @([^:\s]+)/)?.[1] || "user";
+        return { reply: `[Simulated] Reply #${fingerprint(prompt)} to @${author} about ${project.painPoints || project.name}`.slice(0, 280) };
+      }
+
+      case "content_draft": {
+        const seed = fingerprint(JSON.stringify([context.workflowName, prompt, context.stepConfig, context.previousOutput]));
+        const tag = project.name.replace(/[^a-zA-Z0-9]/g, "") || "LaunchGrid";
+        const hook = typeof context.previousOutput?.selected_hook === "string" ? `${context.previousOutput.selected_hook}\n\n` : "";
+
+        return {
+          title: `[Simulated] ${context.workflowName}`,
+          content: `${hook}Simulated ${context.pillarName} draft #${seed} for ${project.name}: ${project.painPoints || project.description}`,
+          hashtags: [`#${tag}`, "#Simulated"],
+          suggestedImagePrompt: `Simulated image for ${project.name}`,
+        };
+      }
+    }
+  }
+}
+
+// Short stable hash, so outputs differ per input but never between runs
+function fingerprint(text: string): string {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
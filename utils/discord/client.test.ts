@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { DiscordClient, isDiscordWebhookUrl } from "./client";
+
+const noEnv = {} as NodeJS.ProcessEnv;
+
+const WEBHOOK = "https://discord.com/api/webhooks/123456789012345678/abcDEF_123-xyz";
+
+describe("isDiscordWebhookUrl", () => {
+  it("accepts Discord's webhook URLs", () => {
+    expect(isDiscordWebhookUrl(WEBHOOK, noEnv)).toBe(true);
+    expect(isDiscordWebhookUrl("https://discordapp.com/api/webhooks/123456789012345678/token", noEnv)).toBe(true);
+    expect(isDiscordWebhookUrl("https://discord.com/api/v10/webhooks/123456789012345678/token", noEnv)).toBe(true);
+  });
+
+  it("refuses other hosts, schemes, ports and paths", () => {
+    for (const url of [
+      "http://discord.com/api/webhooks/123456789012345678/token",
+      "https://discord.com:8443/api/webhooks/123456789012345678/token",
+      "https://discord.com.evil.test/api/webhooks/123456789012345678/token",
+      "https://user@discord.com/api/webhooks/123456789012345678/token",
+      "https://discord.com/api/channels/123456789012345678/messages",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://localhost:54321/rest/v1/user_secrets",
+      "not a url",
+    ]) {
+      expect(isDiscordWebhookUrl(url, noEnv), url).toBe(false);
+    }
+  });
+
+  it("accepts a stand-in only under DISCORD_WEBHOOK_BASE", () => {
+    const env = { DISCORD_WEBHOOK_BASE: "http://localhost:4000/api/webhooks/" } as unknown as NodeJS.ProcessEnv;
+    expect(isDiscordWebhookUrl("http://localhost:4000/api/webhooks/1/token", env)).toBe(true);
+    expect(isDiscordWebhookUrl("http://localhost:4000/admin", env)).toBe(false);
+    expect(isDiscordWebhookUrl("http://localhost:4000/api/webhooks-other/1/token", env)).toBe(false);
+  });
+});
+
+describe("DiscordClient.executeWebhook", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("never requests a URL that is not a Discord webhook", async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal("fetch", fetch);
+
+    await expect(new DiscordClient().executeWebhook("http://10.0.0.5/hook", { content: "hi" }))
+      .rejects.toThrow("Not a Discord webhook URL");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("posts to a Discord webhook without resolving mentions", async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: "1", channel_id: "2" })));
+    vi.stubGlobal("fetch", fetch);
+
+    const posted = await new DiscordClient().executeWebhook(WEBHOOK, { content: "@everyone hi" });
+
+    expect(posted).toEqual({ id: "1", channelId: "2" });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(`${WEBHOOK}?wait=true`);
+    expect(JSON.parse(init.body).allowed_mentions).toEqual({ parse: [] });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Discord REST adapter: reads a channel through a bot token and posts announcements
+ * through a channel webhook. Point DISCORD_API_BASE at a local HTTP stand-in to run
+ * without Discord, and DISCORD_WEBHOOK_BASE for webhooks; otherwise webhook URLs must
+ * be Discord's own (https://discord.com/api/webhooks/...).
+ */
+
+// Discord's epoch (2015-01-01), the base of its snowflake IDs
+const DISCORD_EPOCH_MS = 1420070400000;
+
+const PAGE_SIZE = 100;
+
+// Hosts Discord hands out webhook URLs on
+const WEBHOOK_HOSTS = ["discord.com", "discordapp.com", "canary.discord.com", "ptb.discord.com"];
+const WEBHOOK_PATH = /^\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+\/?$/;
+
+export interface DiscordMessage {
+  id: string;
+  channelId: string;
+  author: string;
+  authorId: string;
+  isBot: boolean;
+  content: string;
+  timestamp: string;
+}
+
+export interface DiscordWebhookResult {
+  id: string;
+  channelId: string;
+}
+
+/**
+ * A non-2xx answer from Discord. `retryAfter` (seconds) is set on rate limits.
+ */
+export class DiscordApiError extends Error {
+  constructor(message: string, public status: number, public retryAfter?: number) {
+    super(message);
+    this.name = "DiscordApiError";
+  }
+}
+
+/**
+ * Whether a webhook URL may be posted to: a Discord webhook over HTTPS, or one under
+ * DISCORD_WEBHOOK_BASE when that is set. Anything else could make the server request
+ * internal addresses.
+ */
+export function isDiscordWebhookUrl(webhookUrl: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    return false;
+  }
+  if (url.username || url.password) return false;
+
+  const base = env.DISCORD_WEBHOOK_BASE?.replace(/\/$/, "");
+  if (base && url.href.startsWith(`${base}/`)) return true;
+
+  return url.protocol === "https:"
+    && url.port === ""
+    && WEBHOOK_HOSTS.includes(url.hostname)
+    && WEBHOOK_PATH.test(url.pathname);
+}
+
+export class DiscordClient {
+  private apiBase: string;
+
+  constructor(private options: { botToken?: string; apiBase?: string } = {}) {
+    this.apiBase = (options.apiBase || process.env.DISCORD_API_BASE || "https://discord.com/api/v10").replace(/\/$/, "");
+  }
+
+  /**
+   * Messages posted to a channel since `since`, oldest first, up to `max`
+   */
+  async getChannelMessages(channelId: string, since: Date, max: number): Promise<DiscordMessage[]> {
+    if (!this.options.botToken) {
+      throw new DiscordApiError("A Discord bot token is required to read channels", 401);
+    }
+
+    const messages: DiscordMessage[] = [];
+    let after = snowflakeAt(since);
+
+    while (messages.length < max) {
+      const limit = Math.min(PAGE_SIZE, max - messages.length);
+      const page = await this.request<any[]>(
+        `${this.apiBase}/channels/${encodeURIComponent(channelId)}/messages?after=${after}&limit=${limit}`,
+        { headers: { Authorization: `Bot ${this.options.botToken}` } }
+      );
+      if (page.length === 0) break;
+
+      // Pages come newest first
+      const sorted = [...page].sort((a, b) => compareSnowflakes(a.id, b.id));
+      messages.push(...sorted.map(mapMessage));
+      after = sorted[sorted.length - 1].id;
+
+      if (page.length < limit) break;
+    }
+
+    return messages;
+  }
+
+  /**
+   * Post a message through a channel webhook. Mentions are not resolved, so a
+   * drafted @everyone never pings anyone.
+   */
+  async executeWebhook(webhookUrl: string, message: { content: string; username?: string }): Promise<DiscordWebhookResult> {
+    if (!isDiscordWebhookUrl(webhookUrl)) {
+      throw new DiscordApiError("Not a Discord webhook URL (expected https://discord.com/api/webhooks/...)", 400);
+    }
+
+    const url = new URL(webhookUrl);
+    url.searchParams.set("wait", "true");
+
+    const posted = await this.request<any>(url.toString(), {
+      method: "POST",
+      redirect: "error", // a redirect could lead anywhere
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        content: message.content,
+        username: message.username,
+        allowed_mentions: { parse: [] },
+      }),
+    });
+
+    return { id: String(posted.id), channelId: String(posted.channel_id) };
+  }
+
+  private async request<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, init);
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({} as Record<string, any>));
+      throw new DiscordApiError(
+        `Discord API ${response.status}: ${body.message || response.statusText}`,
+        response.status,
+        response.status === 429 ? Number(body.retry_after ?? response.headers.get("retry-after") ?? 1) : undefined
+      );
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
+
+function mapMessage(raw: any): DiscordMessage {
+  return {
+    id: String(raw.id),
+    channelId: String(raw.channel_id),
+    author: raw.author?.global_name || raw.author?.username || "unknown",
+    authorId: String(raw.author?.id ?? ""),
+    isBot: !!raw.author?.bot,
+    content: typeof raw.content === "string" ? raw.content : "",
+    timestamp: raw.timestamp,
+  };
+}
+
+// The smallest snowflake at a point in time, for `after=` queries
+function snowflakeAt(date: Date): string {
+  const ms = BigInt(Math.max(0, date.getTime() - DISCORD_EPOCH_MS));
+  return (ms << BigInt(22)).toString();
+}
+
+function compareSnowflakes(a: string, b: string): number {
+  const diff = BigInt(a) - BigInt(b);
+  return diff === BigInt(0) ? 0 : diff < BigInt(0) ? -1 : 1;
+}
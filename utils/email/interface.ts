@@ -0,0 +1,32 @@
+/**
+ * LaunchGrid Email Sender Interface
+ *
+ * Following the constitution:
+ * - Integrations are adapters: jobs send through an EmailSender, never a transport directly
+ */
+
+export interface EmailSender {
+  /**
+   * Send one message to each recipient separately (recipients never see each other).
+   * A recipient the server refuses is reported, not thrown; connection and
+   * authentication failures throw. `onResult` is awaited after each recipient, before the
+   * next one is tried, so a caller can record deliveries as they happen: a send that fails
+   * partway is retried without mailing those recipients again.
+   */
+  send(message: EmailMessage, onResult?: (result: EmailSendResult) => Promise<void>): Promise<EmailSendResult[]>;
+}
+
+export interface EmailMessage {
+  from: string; // "Name <address>" or a bare address
+  to: string[];
+  subject: string;
+  preheader?: string; // inbox preview text, hidden in the HTML part
+  text: string;
+}
+
+export interface EmailSendResult {
+  recipient: string;
+  status: "sent" | "bounced" | "deferred"; // bounced = 5xx, deferred = 4xx (worth retrying)
+  messageId?: string;
+  response: string; // the server's last reply, e.g. "250 2.0.0 Ok: queued as 1A2B3C"
+}
@@ -0,0 +1,128 @@
+import net from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SmtpEmailSender, type SmtpConfig } from "./smtp";
+
+/**
+ * An in-process mail catcher: accepts everything and records the commands it was sent
+ */
+class MailCatcher {
+  commands: string[] = [];
+  messages: string[] = [];
+  connections = 0;
+  private server = net.createServer((socket) => this.serve(socket));
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return (this.server.address() as net.AddressInfo).port;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private serve(socket: net.Socket): void {
+    this.connections++;
+    let buffer = "";
+    let data: string[] | null = null;
+
+    socket.write("220 catcher ready\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let newline: number;
+      while ((newline = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        if (data) {
+          if (line === ".") {
+            this.messages.push(data.join("\r\n"));
+            data = null;
+            socket.write("250 2.0.0 Ok: queued\r\n");
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        this.commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-catcher\r\n250 8BITMIME\r\n");
+        else if (verb === "DATA") {
+          data = [];
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (verb === "QUIT") socket.end("221 Bye\r\n");
+        else socket.write("250 Ok\r\n");
+      }
+    });
+  }
+}
+
+describe("SmtpEmailSender", () => {
+  let catcher: MailCatcher;
+  let config: SmtpConfig;
+
+  beforeEach(async () => {
+    catcher = new MailCatcher();
+    const port = await catcher.start();
+    config = {
+      host: "127.0.0.1",
+      port,
+      secure: false,
+      requireTLS: false,
+      from: "LaunchGrid <no-reply@launchgrid.test>",
+      clientName: "launchgrid.test",
+      timeoutMs: 5000,
+    };
+  });
+
+  afterEach(() => catcher.stop());
+
+  const message = (from: string) => ({
+    from,
+    to: ["jane@example.com"],
+    subject: "Welcome back",
+    text: "Hello",
+  });
+
+  it("sends from the address inside \"Name <address>\"", async () => {
+    const [result] = await new SmtpEmailSender(config).send(message("Acme Team <team@acme.test>"));
+
+    expect(result.status).toBe("sent");
+    expect(catcher.commands).toContain("MAIL FROM:<team@acme.test>");
+    expect(catcher.commands).toContain("RCPT TO:<jane@example.com>");
+    expect(catcher.messages[0]).toContain("From: Acme Team <team@acme.test>");
+  });
+
+  it("reports each recipient before trying the next", async () => {
+    const reported: Array<[string, number]> = [];
+    await new SmtpEmailSender(config).send(
+      { ...message(""), to: ["jane@example.com", "joe@example.com"] },
+      async (result) => {
+        reported.push([result.recipient, catcher.commands.filter((c) => c.startsWith("RCPT TO")).length]);
+      }
+    );
+
+    expect(reported).toEqual([["jane@example.com", 1], ["joe@example.com", 2]]);
+  });
+
+  it("falls back to the configured sender", async () => {
+    await new SmtpEmailSender(config).send(message(""));
+    expect(catcher.commands).toContain("MAIL FROM:<no-reply@launchgrid.test>");
+  });
+
+  it("refuses a sender that would inject SMTP commands", async () => {
+    const injected = "team@acme.test>\r\nRCPT TO:<victim@example.com>\r\nX:<x@acme.test";
+
+    await expect(new SmtpEmailSender(config).send(message(injected))).rejects.toThrow("Invalid sender address");
+    await expect(new SmtpEmailSender(config).send(message(`Acme <team@acme.test>\nRCPT TO:<victim@example.com>`)))
+      .rejects.toThrow("Invalid sender address");
+
+    expect(catcher.connections).toBe(0);
+    expect(catcher.commands.some((c) => c.includes("victim"))).toBe(false);
+  });
+
+  it("refuses a sender that is not an address", async () => {
+    await expect(new SmtpEmailSender(config).send(message("Acme <not an address>"))).rejects.toThrow("Invalid sender address");
+    expect(catcher.connections).toBe(0);
+  });
+});
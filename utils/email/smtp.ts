@@ -0,0 +1,353 @@
+import net from "node:net";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+import { EmailSender, EmailMessage, EmailSendResult } from "./interface";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS when offered
+  requireTLS: boolean; // refuse to send over a connection that was not upgraded
+  user?: string;
+  pass?: string;
+  from: string;
+  clientName: string; // EHLO name
+  timeoutMs: number;
+}
+
+/**
+ * SMTP settings from the environment, or null when SMTP_HOST is not set.
+ * A local mail catcher (Mailpit, MailHog) only needs SMTP_HOST=localhost SMTP_PORT=1025.
+ */
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  if (!env.SMTP_HOST) return null;
+
+  const secure = env.SMTP_SECURE === "true";
+  return {
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT || (secure ? 465 : 587)),
+    secure,
+    requireTLS: env.SMTP_REQUIRE_TLS === "true",
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.SMTP_FROM || `LaunchGrid <no-reply@${env.SMTP_HOST}>`,
+    clientName: env.SMTP_CLIENT_NAME || "launchgrid.local",
+    timeoutMs: Number(env.SMTP_TIMEOUT_MS || 30000),
+  };
+}
+
+/**
+ * Minimal SMTP client: one connection per send, STARTTLS when offered, AUTH PLAIN,
+ * and a multipart (plain text + HTML) message per recipient.
+ */
+export class SmtpEmailSender implements EmailSender {
+  constructor(private config: SmtpConfig) { }
+
+  async send(message: EmailMessage, onResult?: (result: EmailSendResult) => Promise<void>): Promise<EmailSendResult[]> {
+    const from = message.from || this.config.from;
+    if (!addressOf(from)) {
+      throw new Error(`Invalid sender address: ${JSON.stringify(from)}`);
+    }
+
+    const connection = await SmtpConnection.open(this.config);
+
+    try {
+      expectCode(await connection.read(), [220], "greeting");
+      let capabilities = await this.hello(connection);
+
+      if (!this.config.secure && capabilities.includes("STARTTLS")) {
+        expectCode(await connection.command("STARTTLS"), [220], "STARTTLS");
+        await connection.upgrade(this.config.host);
+        capabilities = await this.hello(connection);
+      } else if (!this.config.secure && this.config.requireTLS) {
+        throw new Error(`SMTP server ${this.config.host} does not offer STARTTLS`);
+      }
+
+      if (this.config.user) {
+        const credentials = Buffer.from(`\0${this.config.user}\0${this.config.pass || ""}`).toString("base64");
+        expectCode(await connection.command(`AUTH PLAIN ${credentials}`), [235], "AUTH");
+      }
+
+      const results: EmailSendResult[] = [];
+      for (const recipient of message.to) {
+        const result = await this.deliver(connection, message, recipient);
+        results.push(result);
+        await onResult?.(result);
+      }
+
+      await connection.command("QUIT").catch(() => undefined);
+      return results;
+    } finally {
+      connection.close();
+    }
+  }
+
+  private async hello(connection: SmtpConnection): Promise<string[]> {
+    const ehlo = await connection.command(`EHLO ${this.config.clientName}`);
+    if (ehlo.code === 250) {
+      return ehlo.lines.slice(1).map((line) => line.split(" ")[0].toUpperCase());
+    }
+
+    // Servers without ESMTP
+    expectCode(await connection.command(`HELO ${this.config.clientName}`), [250], "HELO");
+    return [];
+  }
+
+  private async deliver(connection: SmtpConnection, message: EmailMessage, recipient: string): Promise<EmailSendResult> {
+    const address = cleanAddress(recipient);
+    if (!address) {
+      return { recipient, status: "bounced", response: "Invalid recipient address" };
+    }
+    const from = message.from || this.config.from;
+
+    // The sender being refused is not the recipient's fault, so it fails the whole send
+    expectCode(await connection.command(`MAIL FROM:<${addressOf(from)}>`), [250], "MAIL FROM");
+
+    const rcpt = await connection.command(`RCPT TO:<${address}>`);
+    if (rcpt.code !== 250 && rcpt.code !== 251) {
+      await connection.command("RSET");
+      return refused(recipient, rcpt);
+    }
+
+    const data = await connection.command("DATA");
+    if (data.code !== 354) {
+      await connection.command("RSET");
+      return refused(recipient, data);
+    }
+
+    const messageId = `<${randomUUID()}@${domainOf(from)}>`;
+    const accepted = await connection.command(`${buildMessage(message, from, address, messageId)}\r\n.`);
+    if (accepted.code !== 250) {
+      return refused(recipient, accepted);
+    }
+
+    return { recipient, status: "sent", messageId, response: accepted.text };
+  }
+}
+
+// ==========================================
+// CONNECTION
+// ==========================================
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+  text: string;
+}
+
+/**
+ * A socket that yields one (possibly multi-line) SMTP reply per read
+ */
+class SmtpConnection {
+  private buffer = "";
+  private partial: string[] = [];
+  private replies: SmtpResponse[] = [];
+  private waiting: { resolve: (reply: SmtpResponse) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  static open(config: SmtpConfig): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+
+      const onError = (error: Error) => reject(new Error(`SMTP connection to ${config.host}:${config.port} failed: ${error.message}`));
+      socket.once("error", onError);
+      socket.once(config.secure ? "secureConnect" : "connect", () => {
+        socket.off("error", onError);
+        resolve(new SmtpConnection(socket, config.timeoutMs));
+      });
+      socket.setTimeout(config.timeoutMs, () => socket.destroy(new Error("SMTP connection timed out")));
+    });
+  }
+
+  read(): Promise<SmtpResponse> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  command(line: string): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  /**
+   * Switch to TLS after the server accepted STARTTLS
+   */
+  upgrade(host: string): Promise<void> {
+    this.detach(this.socket);
+    this.socket.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket: this.socket, servername: host });
+      secured.once("error", reject);
+      secured.once("secureConnect", () => {
+        secured.off("error", reject);
+        this.socket = secured;
+        this.attach(secured);
+        secured.setTimeout(this.timeoutMs, () => secured.destroy(new Error("SMTP connection timed out")));
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private onData = (chunk: Buffer) => this.receive(chunk.toString("utf8"));
+  private onError = (error: Error) => this.fail(error);
+  private onClose = () => this.fail(new Error("SMTP connection closed"));
+
+  private attach(socket: net.Socket): void {
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off("data", this.onData);
+    socket.off("error", this.onError);
+    socket.off("close", this.onClose);
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\n")) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+
+      // "250-first line" continues, "250 last line" ends the reply
+      this.partial.push(line.slice(4));
+      if (line[3] === "-") continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines: this.partial, text: line };
+      this.partial = [];
+
+      if (this.waiting) {
+        const { resolve } = this.waiting;
+        this.waiting = null;
+        resolve(reply);
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(error);
+    }
+  }
+}
+
+// ==========================================
+// MESSAGE
+// ==========================================
+
+function buildMessage(message: EmailMessage, from: string, recipient: string, messageId: string): string {
+  const boundary = `lg-${randomUUID()}`;
+  const headers = [
+    `From: ${headerValue(from)}`,
+    `To: <${recipient}>`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+
+  const part = (contentType: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(body),
+  ].join("\r\n");
+
+  const raw = [
+    ...headers,
+    "",
+    part("text/plain", message.text),
+    part("text/html", toHtml(message.text, message.preheader)),
+    `--${boundary}--`,
+  ].join("\r\n");
+
+  // Dot-stuffing: a line starting with "." would otherwise end DATA early
+  return raw.replace(/\r\n\./g, "\r\n..");
+}
+
+function toHtml(text: string, preheader?: string): string {
+  const hidden = preheader
+    ? `<div style="display:none;max-height:0;overflow:hidden">${escapeHtml(preheader)}</div>`
+    : "";
+  const paragraphs = text
+    .split(/\n{2,}/)
+    .map((p) => `<p>${escapeHtml(p).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+  return `<!doctype html><html><body>${hidden}${paragraphs}</body></html>`;
+}
+
+function base64Lines(text: string): string {
+  return Buffer.from(text, "utf8").toString("base64").replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
+
+// RFC 2047 encoded-word for anything that is not plain ASCII
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+// Header values never carry line breaks (no header injection)
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+// The bare address, or null when it could not be put in an SMTP command safely
+function cleanAddress(address: string): string | null {
+  const clean = address.trim();
+  return /^[^\s<>@]+@[^\s<>@]+$/.test(clean) ? clean : null;
+}
+
+// The bare address of "Name <address>" or an address, or null when it is not one (as cleanAddress)
+function addressOf(from: string): string | null {
+  if (/[\r\n]/.test(from)) return null;
+  return cleanAddress(from.match(/<([^>]*)>/)?.[1] ?? from);
+}
+
+function domainOf(from: string): string {
+  return addressOf(from)?.split("@")[1] || "launchgrid.local";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function refused(recipient: string, reply: SmtpResponse): EmailSendResult {
+  return { recipient, status: reply.code >= 500 ? "bounced" : "deferred", response: reply.text };
+}
+
+function expectCode(reply: SmtpResponse, codes: number[], stage: string): void {
+  if (!codes.includes(reply.code)) {
+    throw new Error(`SMTP ${stage} rejected: ${reply.text}`);
+  }
+}
@@ -16,7 +16,7 @@ export async function createDefaultWorkflowSteps(
         case 'content_seo':
             steps = [
                 { type: 'GENERATE_OUTLINE', position: 1, config: { prompt_type: 'outline' }, dependency_ids: [] },
-                { type: 'GENERATE_DRAFT', position: 2, config: { prompt_type: 'full_article' }, dependency_ids: [] }, // Will need logic to verify dep on prev step in future
+                { type: 'GENERATE_DRAFT', position: 2, config: { prompt_type: 'full_article' }, dependency_ids: [] },
                 { type: 'REVIEW_CONTENT', position: 3, config: {}, dependency_ids: [] },
                 { type: 'POST_API', position: 4, config: {}, dependency_ids: [] }
             ]
@@ -56,9 +56,19 @@ export async function createDefaultWorkflowSteps(
             break;
     }
 
-    // Assign workflow_id to all items
-    const stepsToInsert = steps.map(s => ({ ...s, workflow_id: workflowId }))
+    // Insert in order so each step depends on the one before it (a linear chain)
+    let previousStepId: string | null = null
+    for (const step of steps) {
+        const { data, error }: { data: { id: string } | null, error: any } = await supabase
+            .from('steps')
+            .insert({ ...step, workflow_id: workflowId, dependency_ids: previousStepId ? [previousStepId] : [] })
+            .select('id')
+            .single()
 
-    const { error } = await supabase.from('steps').insert(stepsToInsert)
-    if (error) console.error("Failed to create steps for workflow", workflowId, error)
+        if (error || !data) {
+            console.error("Failed to create steps for workflow", workflowId, error)
+            return
+        }
+        previousStepId = data.id
+    }
 }